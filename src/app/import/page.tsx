@@ -0,0 +1,194 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, CheckCircle, AlertCircle } from 'lucide-react'
+import { ToolImportExport, ToolPackage, ImportResult } from '@/lib/tool-import-export'
+import { RestoreDiffItem } from '@/lib/backup-restore'
+import { packageSigning, PackageVerification } from '@/lib/package-signing'
+import { RestorePreview } from '@/components/shared/RestorePreview'
+import { PackageVerificationNotice } from '@/components/shared/PackageVerificationNotice'
+
+export default function ImportPage() {
+  const [toolPackage, setToolPackage] = useState<ToolPackage | null>(null)
+  const [items, setItems] = useState<RestoreDiffItem[] | null>(null)
+  const [verification, setVerification] = useState<PackageVerification | undefined>()
+  const [importPreferences, setImportPreferences] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const importOptions = { importCollections: true, importPreferences }
+
+  const loadPreview = useCallback(async (pkg: ToolPackage, withPreferences: boolean) => {
+    const preview = await ToolImportExport.previewPackage(pkg, { importCollections: true, importPreferences: withPreferences })
+    setVerification(preview.verification)
+    // A rejected package's errors already show in the verification notice
+    setErrors(preview.verification && !preview.verification.acceptable ? [] : preview.errors)
+    setItems(preview.errors.length > 0 ? null : preview.items)
+  }, [])
+
+  // The package lives in the URL fragment; read it whenever the fragment changes
+  useEffect(() => {
+    const readLink = async () => {
+      setIsLoading(true)
+      setResult(null)
+      setItems(null)
+      setVerification(undefined)
+      try {
+        if (!window.location.hash) {
+          setToolPackage(null)
+          setErrors(['This link has no package in it. Ask for the share link again, or import a file from the dashboard.'])
+          return
+        }
+        const pkg = await ToolImportExport.parseShareableUrl(window.location.href)
+        setToolPackage(pkg)
+        await loadPreview(pkg, false)
+      } catch (error) {
+        console.error('Failed to open share link:', error)
+        setToolPackage(null)
+        setErrors([error instanceof Error ? error.message : String(error)])
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    readLink()
+    window.addEventListener('hashchange', readLink)
+    return () => window.removeEventListener('hashchange', readLink)
+  }, [loadPreview])
+
+  const handleTogglePreferences = async (checked: boolean) => {
+    setImportPreferences(checked)
+    if (toolPackage) await loadPreview(toolPackage, checked)
+  }
+
+  const handleTrustSigner = async () => {
+    const signature = toolPackage?.__signature
+    if (!toolPackage || !signature) return
+
+    const trusted = await packageSigning.trustKey(signature.signer, signature.publicKey)
+    if (!trusted.success) {
+      setErrors(trusted.errors)
+      return
+    }
+    await loadPreview(toolPackage, importPreferences)
+  }
+
+  const handleImport = async (selectedItems: string[]) => {
+    if (!toolPackage) return
+
+    setIsImporting(true)
+    try {
+      const imported = await ToolImportExport.importFromPackage(toolPackage, { ...importOptions, selectedItems })
+      setResult(imported)
+      if (imported.success) {
+        setItems(null)
+        // Drop the package from the address bar so a reload doesn't offer it again
+        window.history.replaceState(null, '', window.location.pathname)
+      }
+    } catch (error) {
+      console.error('Import failed:', error)
+      setErrors([`Import failed: ${error}`])
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-900 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="flex items-center gap-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>Back to Dashboard</span>
+            </Link>
+            <div className="h-6 w-px bg-gray-300 dark:bg-gray-600" />
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                {toolPackage ? `Import "${toolPackage.metadata.name}"` : 'Import Shared Tools'}
+              </h1>
+              <p className="text-gray-600 dark:text-gray-400 text-sm">
+                {toolPackage?.metadata.description || 'Review what a share link adds before importing it'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+          {isLoading && <p className="text-sm text-gray-500 dark:text-gray-400">Reading share link…</p>}
+
+          {verification && (
+            <PackageVerificationNotice verification={verification} onTrustSigner={handleTrustSigner} />
+          )}
+
+          {toolPackage?.preferences && items && (
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={importPreferences}
+                onChange={(e) => handleTogglePreferences(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                Also offer the shared preferences (theme, layout)
+              </span>
+            </label>
+          )}
+
+          {items && (
+            <RestorePreview
+              items={items}
+              onApply={handleImport}
+              onCancel={() => setItems(null)}
+              isApplying={isImporting}
+              applyLabel="Import Selected"
+              selectChanged={false}
+            />
+          )}
+
+          {result && (
+            <div className={`p-4 rounded-lg text-sm ${
+              result.success
+                ? 'bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-200'
+                : 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200'
+            }`}>
+              <div className="flex items-center gap-2 font-medium mb-1">
+                {result.success ? <CheckCircle className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+                {result.success ? 'Import Successful' : 'Import Failed'}
+              </div>
+              <p>
+                Imported: {result.imported.tools} tools, {result.imported.collections} collections
+                {result.imported.preferences && ', preferences'}
+              </p>
+              {result.errors.map((error, index) => <p key={index}>{error}</p>)}
+              {result.success && (
+                <Link href="/" className="inline-block mt-2 text-indigo-600 dark:text-indigo-400 hover:underline">
+                  Go to the dashboard
+                </Link>
+              )}
+            </div>
+          )}
+
+          {errors.length > 0 && (
+            <div className="flex items-start gap-2 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-800 dark:text-red-200">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              <div>
+                {errors.map((error, index) => <p key={index}>{error}</p>)}
+              </div>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  )
+}
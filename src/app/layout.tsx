@@ -5,6 +5,10 @@ import { PreferencesProvider } from '@/contexts/PreferencesContext'
 import { KeyboardShortcutsProvider } from '@/contexts/KeyboardShortcutsContext'
 import { ThemeWrapper } from '@/components/shared/ThemeWrapper'
 import { KeyboardShortcutsHelp } from '@/components/shared/KeyboardShortcutsHelp'
+import { WorkflowScheduler } from '@/components/shared/WorkflowScheduler'
+import { UpdateScheduler } from '@/components/shared/UpdateScheduler'
+import { StorageQuotaWarning } from '@/components/shared/StorageQuotaWarning'
+import { UndoToast } from '@/components/shared/UndoToast'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -26,6 +30,10 @@ export default function RootLayout({
             <ThemeWrapper>
               {children}
               <KeyboardShortcutsHelp />
+              <WorkflowScheduler />
+              <UpdateScheduler />
+              <StorageQuotaWarning />
+              <UndoToast />
             </ThemeWrapper>
           </KeyboardShortcutsProvider>
         </PreferencesProvider>
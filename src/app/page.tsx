@@ -1,7 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, AnchorHTMLAttributes } from 'react'
 import Link from 'next/link'
+import type { Route } from 'next'
 import { Search, Star, Clock, Wand2, Settings, Zap, Filter, SortAsc, Folder, Plus, FolderOpen, Keyboard, BarChart3 } from 'lucide-react'
 import { toolRegistry, Tool, ToolCategory } from '@/lib/tool-registry'
 import { collectionManager, Collection } from '@/lib/collections'
@@ -12,6 +13,18 @@ import { ThemeToggle } from '@/components/shared/ThemeToggle'
 import { LayoutToggle } from '@/components/shared/LayoutToggle'
 import { FavoriteButton } from '@/components/shared/FavoriteButton'
 import { highlightMatches } from '@/lib/fuzzy-search'
+import { crossTabSync } from '@/lib/cross-tab-sync'
+import { undoHistory } from '@/lib/undo-history'
+import { backupManager } from '@/lib/backup-restore'
+import { STORAGE_KEYS } from '@/lib/storage'
+
+// Tools hosted elsewhere aren't app routes, so they get a plain link that opens in a new tab
+function ToolLink({ tool, ...props }: { tool: Tool } & Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'>) {
+  if (tool.externalUrl) {
+    return <a href={tool.externalUrl} target="_blank" rel="noopener noreferrer" {...props} />
+  }
+  return <Link href={tool.path as Route} {...props} />
+}
 
 export default function Dashboard() {
   const [tools, setTools] = useState<Tool[]>([])
@@ -37,11 +50,35 @@ export default function Dashboard() {
       setTools(toolRegistry.getAll())
       setCollections(collectionManager.getAll())
       setIsLoading(false)
+
+      backupManager.takeDailySnapshot().catch(error => {
+        console.error('Failed to take daily snapshot:', error)
+      })
     }
     
     initializeData()
   }, [])
 
+  // Show tools, favorites, usage and collections changed in other tabs
+  useEffect(() => {
+    return crossTabSync.subscribe(
+      [STORAGE_KEYS.TOOLS, STORAGE_KEYS.USAGE, STORAGE_KEYS.COLLECTIONS],
+      () => {
+        setTools(toolRegistry.getAll())
+        setCollections(collectionManager.getAll())
+      }
+    )
+  }, [])
+
+  // Show tools and collections as they are after an undo or redo
+  useEffect(() => {
+    return undoHistory.subscribe(action => {
+      if (action === 'recorded') return
+      setTools(toolRegistry.getAll())
+      setCollections(collectionManager.getAll())
+    })
+  }, [])
+
   // Get filtered tools with search matches for highlighting
   const { tools: filteredToolsRaw, matches } = toolRegistry.getFilteredWithMatches({
     category: selectedCategory,
@@ -168,9 +205,9 @@ export default function Dashboard() {
             </div>
             <div className="flex gap-3 overflow-x-auto pb-2">
               {recentTools.map((tool) => (
-                <Link
+                <ToolLink
                   key={tool.id}
-                  href={tool.path as any}
+                  tool={tool}
                   onClick={() => addToRecent(tool.id)}
                   className="flex-shrink-0 group bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-indigo-300 dark:hover:border-indigo-500 p-3 transition-all duration-200 hover:shadow-md min-w-[140px]"
                 >
@@ -186,7 +223,7 @@ export default function Dashboard() {
                   <p className="text-xs text-gray-500 dark:text-gray-400 capitalize">
                     {tool.category}
                   </p>
-                </Link>
+                </ToolLink>
               ))}
             </div>
           </div>
@@ -322,9 +359,9 @@ export default function Dashboard() {
                 const descMatch = searchMatch?.matches.find(m => m.key === 'description')
                 
                 return (
-                  <Link
+                  <ToolLink
                     key={tool.id}
-                    href={tool.path as any}
+                    tool={tool}
                     onClick={() => addToRecent(tool.id)}
                     className={`
                       group block bg-white dark:bg-gray-800 rounded-xl shadow-sm hover:shadow-lg transition-all duration-200
@@ -432,7 +469,7 @@ export default function Dashboard() {
                         </div>
                       )}
                     </div>
-                  </Link>
+                  </ToolLink>
                 )
               })}
             </div>
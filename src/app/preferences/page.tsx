@@ -1,14 +1,25 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import Link from 'next/link'
-import { ArrowLeft, Save, RotateCcw, Download, Upload, Trash2, Database, Archive, AlertTriangle } from 'lucide-react'
+import { ArrowLeft, Save, RotateCcw, Download, Upload, Trash2, Database, Archive, AlertTriangle, HardDrive, Scissors, History, Camera } from 'lucide-react'
 import { usePreferences, useTheme, useLayout } from '@/contexts/PreferencesContext'
 import { ThemeToggle } from '@/components/shared/ThemeToggle'
 import { LayoutToggle } from '@/components/shared/LayoutToggle'
-import { Storage } from '@/lib/storage'
+import { Storage, STORAGE_KEYS } from '@/lib/storage'
 import { toolRegistry } from '@/lib/tool-registry'
 import { collectionManager } from '@/lib/collections'
+import { storageQuotaManager, StorageQuotaReport, PruneResult, formatBytes, DEFAULT_PRUNE_OPTIONS } from '@/lib/storage-quota'
+import { backupManager, BackupState, RestoreDiffItem, RestoreResult, SnapshotSummary } from '@/lib/backup-restore'
+import { RestorePreview } from '@/components/shared/RestorePreview'
+import { PackageSigningSettings } from '@/components/shared/PackageSigningSettings'
+import { ToolUpdatesSettings } from '@/components/shared/ToolUpdatesSettings'
+
+interface PendingRestore {
+  source: string
+  state: BackupState
+  items: RestoreDiffItem[]
+}
 
 export default function PreferencesPage() {
   const { preferences, updatePreferences } = usePreferences()
@@ -18,6 +29,42 @@ export default function PreferencesPage() {
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
   const [isExporting, setIsExporting] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
+  const [quotaReport, setQuotaReport] = useState<StorageQuotaReport | null>(null)
+  const [pruneDays, setPruneDays] = useState(DEFAULT_PRUNE_OPTIONS.olderThanDays)
+  const [isPruning, setIsPruning] = useState(false)
+  const [pruneResult, setPruneResult] = useState<PruneResult | null>(null)
+  const [pendingRestore, setPendingRestore] = useState<PendingRestore | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [restoreResult, setRestoreResult] = useState<RestoreResult | null>(null)
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([])
+  const [snapshotMessage, setSnapshotMessage] = useState('')
+
+  useEffect(() => {
+    storageQuotaManager.getReport()
+      .then(setQuotaReport)
+      .catch(error => console.error('Failed to load storage usage:', error))
+
+    return storageQuotaManager.subscribe(setQuotaReport)
+  }, [])
+
+  useEffect(() => {
+    Storage.initialize().then(() => setSnapshots(backupManager.getSnapshots()))
+  }, [])
+
+  const handlePruneHistory = async () => {
+    setIsPruning(true)
+    try {
+      const result = await storageQuotaManager.pruneHistory({ olderThanDays: pruneDays })
+      setPruneResult(result)
+      setQuotaReport(await storageQuotaManager.getReport())
+    } catch (error) {
+      console.error('Failed to prune history:', error)
+      setSaveStatus('error')
+      setTimeout(() => setSaveStatus('idle'), 2000)
+    } finally {
+      setIsPruning(false)
+    }
+  }
 
   const handleExportData = () => {
     try {
@@ -48,25 +95,7 @@ export default function PreferencesPage() {
   const handleExportCompleteBackup = async () => {
     setIsExporting(true)
     try {
-      // Get all data
-      const tools = toolRegistry.getAll()
-      const collections = collectionManager.getAll()
-      
-      const data = {
-        preferences,
-        tools: tools.map(tool => ({
-          ...tool,
-          lastUsed: tool.lastUsed?.toISOString() || null,
-          createdAt: tool.createdAt.toISOString()
-        })),
-        collections: collections.map(collection => ({
-          ...collection,
-          createdAt: collection.createdAt.toISOString(),
-          updatedAt: collection.updatedAt.toISOString()
-        })),
-        exportedAt: new Date().toISOString(),
-        version: '1.0.0'
-      }
+      const data = await backupManager.createBackupFile()
       
       const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
       const url = URL.createObjectURL(blob)
@@ -94,28 +123,18 @@ export default function PreferencesPage() {
     if (!file) return
 
     setIsImporting(true)
+    setRestoreResult(null)
     const reader = new FileReader()
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
-        const data = JSON.parse(e.target?.result as string)
-        
-        if (data.preferences) {
-          updatePreferences(data.preferences)
-        }
-        
-        // Check if this is a complete backup
-        if (data.tools || data.collections) {
-          setSaveStatus('saved')
-          setTimeout(() => {
-            setSaveStatus('idle')
-            if (confirm('Complete backup imported! The page will reload to apply all changes.')) {
-              window.location.reload()
-            }
-          }, 1000)
-        } else {
-          setSaveStatus('saved')
-          setTimeout(() => setSaveStatus('idle'), 2000)
+        const { state, errors } = backupManager.parseBackupFile(JSON.parse(e.target?.result as string))
+        if (!state) {
+          throw new Error(errors.join('; '))
         }
+
+        // Show what would change first; nothing is restored until items are picked
+        const items = await backupManager.previewRestore(state)
+        setPendingRestore({ source: file.name, state, items })
       } catch (error) {
         console.error('Failed to import data:', error)
         setSaveStatus('error')
@@ -130,12 +149,49 @@ export default function PreferencesPage() {
     event.target.value = ''
   }
 
+  const handleReviewSnapshot = async (snapshot: SnapshotSummary) => {
+    const state = backupManager.getSnapshotState(snapshot.id)
+    if (!state) return
+
+    setRestoreResult(null)
+    const items = await backupManager.previewRestore(state)
+    setPendingRestore({ source: `${snapshot.label} from ${snapshot.createdAt.toLocaleString()}`, state, items })
+  }
+
+  const handleApplyRestore = async (itemIds: string[]) => {
+    if (!pendingRestore) return
+
+    setIsRestoring(true)
+    try {
+      const result = await backupManager.applyRestore(pendingRestore.state, itemIds, {
+        applyPreferences: (updates) => updatePreferences(updates, 'Restore preferences')
+      })
+      setRestoreResult(result)
+      setPendingRestore(null)
+      setSnapshots(backupManager.getSnapshots())
+    } catch (error) {
+      console.error('Failed to restore:', error)
+      setSaveStatus('error')
+      setTimeout(() => setSaveStatus('idle'), 2000)
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const handleTakeSnapshot = async () => {
+    const snapshot = await backupManager.takeSnapshot()
+    setSnapshots(backupManager.getSnapshots())
+    setSnapshotMessage(snapshot ? `Saved ${snapshot.changeCount} changes` : 'Nothing changed since the last snapshot')
+    setTimeout(() => setSnapshotMessage(''), 3000)
+  }
+
   const handleClearUsageData = () => {
     if (confirm('Are you sure you want to clear all usage data? This will reset usage counts and last used dates for all tools.')) {
       try {
-        localStorage.removeItem('app-studio-usage')
+        Storage.remove(STORAGE_KEYS.USAGE)
         setSaveStatus('saved')
-        setTimeout(() => {
+        setTimeout(async () => {
+          await Storage.flush()
           setSaveStatus('idle')
           if (confirm('Usage data cleared! The page will reload to apply changes.')) {
             window.location.reload()
@@ -152,7 +208,7 @@ export default function PreferencesPage() {
   const handleResetPreferences = () => {
     if (showResetConfirm) {
       Storage.clearAll()
-      window.location.reload()
+      Storage.flush().then(() => window.location.reload())
     } else {
       setShowResetConfirm(true)
       setTimeout(() => setShowResetConfirm(false), 5000)
@@ -272,6 +328,107 @@ export default function PreferencesPage() {
             </div>
           </section>
 
+          {/* Storage Section */}
+          <section id="storage" className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Storage</h2>
+            {quotaReport ? (
+              <div className="space-y-4">
+                <div>
+                  <div className="flex items-center justify-between text-sm mb-2">
+                    <span className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                      <HardDrive className="w-4 h-4" />
+                      {formatBytes(quotaReport.usedBytes)}
+                      {quotaReport.quotaBytes !== null && ` of ${formatBytes(quotaReport.quotaBytes)}`} used
+                      {quotaReport.backend && <span className="text-gray-500 dark:text-gray-400">({quotaReport.backend})</span>}
+                    </span>
+                    {quotaReport.status !== 'ok' && (
+                      <span className={`flex items-center gap-1 ${quotaReport.status === 'critical' ? 'text-red-600 dark:text-red-400' : 'text-yellow-600 dark:text-yellow-400'}`}>
+                        <AlertTriangle className="w-4 h-4" />
+                        {quotaReport.status === 'critical' ? 'Nearly full' : 'Getting full'}
+                      </span>
+                    )}
+                  </div>
+                  {quotaReport.usageRatio !== null && (
+                    <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded">
+                      <div
+                        className={`h-2 rounded ${
+                          quotaReport.status === 'critical' ? 'bg-red-500' : quotaReport.status === 'warning' ? 'bg-yellow-500' : 'bg-blue-500'
+                        }`}
+                        style={{ width: `${Math.min(quotaReport.usageRatio * 100, 100)}%` }}
+                      />
+                    </div>
+                  )}
+                  {quotaReport.lastWriteFailure && (
+                    <p className="text-sm text-red-600 dark:text-red-400 mt-2">
+                      Saving {quotaReport.lastWriteFailure.key} failed at {quotaReport.lastWriteFailure.occurredAt.toLocaleTimeString()}: {quotaReport.lastWriteFailure.message}
+                    </p>
+                  )}
+                </div>
+
+                <div className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                  {quotaReport.keys.map(key => (
+                    <div key={key.key} className="flex items-center justify-between py-2">
+                      <div>
+                        <p className="text-gray-900 dark:text-gray-100 capitalize">{key.label}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{key.key} · {key.location}</p>
+                      </div>
+                      <span className="text-gray-600 dark:text-gray-400">{formatBytes(key.bytes)}</span>
+                    </div>
+                  ))}
+                </div>
+
+                <div>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <label className="text-sm text-gray-700 dark:text-gray-300">
+                      Older than
+                      <input
+                        type="number"
+                        min={0}
+                        value={pruneDays}
+                        onChange={(e) => setPruneDays(Math.max(0, Number(e.target.value) || 0))}
+                        className="w-20 mx-2 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                      />
+                      days
+                    </label>
+                    <button
+                      onClick={handlePruneHistory}
+                      disabled={isPruning}
+                      className="flex items-center gap-2 px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Scissors className="w-4 h-4" />
+                      {isPruning ? 'Pruning...' : 'Prune Old History'}
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                    Removes finished workflow runs, performance metrics, dated tool history and pre-migration backups older than this.
+                  </p>
+                  {pruneResult && (
+                    <p className={`text-sm mt-2 ${pruneResult.success ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                      Freed {formatBytes(pruneResult.freedBytes)}: {pruneResult.removed.executions} workflow runs,{' '}
+                      {pruneResult.removed.metrics} metrics, {pruneResult.removed.toolHistoryEntries} tool history entries,{' '}
+                      {pruneResult.removed.migrationBackups} backups.
+                      {pruneResult.errors.map((error, index) => <span key={index} className="block">{error}</span>)}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Measuring storage…</p>
+            )}
+          </section>
+
+          {/* Package Signing Section */}
+          <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Package Signing</h2>
+            <PackageSigningSettings />
+          </section>
+
+          {/* Tool Updates Section */}
+          <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Tool Updates</h2>
+            <ToolUpdatesSettings />
+          </section>
+
           {/* Data Management Section */}
           <section className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
             <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Data Management</h2>
@@ -298,7 +455,7 @@ export default function PreferencesPage() {
                   </button>
                 </div>
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-                  Complete backup includes preferences, tools, collections, and usage data.
+                  Complete backup includes preferences, tools, collections, and tool data. Encrypted tool data stays encrypted.
                 </p>
               </div>
 
@@ -319,7 +476,76 @@ export default function PreferencesPage() {
                   </label>
                 </div>
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-                  Supports both preferences-only and complete backup files.
+                  Supports both preferences-only and complete backup files. You can review and pick changes before anything is restored.
+                </p>
+              </div>
+
+              {/* Restore Preview */}
+              {pendingRestore && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                    Restore from {pendingRestore.source}
+                  </h3>
+                  <RestorePreview
+                    items={pendingRestore.items}
+                    onApply={handleApplyRestore}
+                    onCancel={() => setPendingRestore(null)}
+                    isApplying={isRestoring}
+                  />
+                </div>
+              )}
+              {restoreResult && (
+                <div className={`text-sm p-3 rounded-lg ${
+                  restoreResult.success
+                    ? 'text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20'
+                    : 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20'
+                }`}>
+                  <p>
+                    Restored {restoreResult.applied} item{restoreResult.applied !== 1 ? 's' : ''}.
+                    {restoreResult.snapshotId && ' The previous state was saved as a snapshot.'}
+                  </p>
+                  {restoreResult.errors.map((error, index) => <p key={index}>{error}</p>)}
+                </div>
+              )}
+
+              {/* Snapshots */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Snapshots</h3>
+                <div className="flex flex-wrap items-center gap-3 mb-3">
+                  <button
+                    onClick={handleTakeSnapshot}
+                    className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                  >
+                    <Camera className="w-4 h-4" />
+                    Take Snapshot
+                  </button>
+                  {snapshotMessage && <span className="text-sm text-gray-600 dark:text-gray-400">{snapshotMessage}</span>}
+                </div>
+                {snapshots.length > 0 ? (
+                  <div className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                    {snapshots.map(snapshot => (
+                      <div key={snapshot.id} className="flex items-center justify-between py-2">
+                        <div>
+                          <p className="text-gray-900 dark:text-gray-100">{snapshot.createdAt.toLocaleString()}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {snapshot.label} · {snapshot.changeCount} change{snapshot.changeCount !== 1 ? 's' : ''}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleReviewSnapshot(snapshot)}
+                          className="flex items-center gap-1 text-indigo-600 dark:text-indigo-400 hover:underline"
+                        >
+                          <History className="w-4 h-4" />
+                          Review & Restore
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No snapshots yet.</p>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  A snapshot is taken each day you use App Studio and before every restore. Each one only stores what changed since the last.
                 </p>
               </div>
 
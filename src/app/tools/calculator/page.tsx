@@ -3,11 +3,16 @@
 import { useEffect } from 'react'
 import { toolRegistry } from '@/lib/tool-registry'
 import Calculator from '@/components/tools/Calculator'
+import { ToolErrorBoundary } from '@/components/shared/ToolErrorBoundary'
 
 export default function CalculatorPage() {
   useEffect(() => {
     toolRegistry.recordUsage('calculator')
   }, [])
 
-  return <Calculator />
+  return (
+    <ToolErrorBoundary toolId="calculator">
+      <Calculator />
+    </ToolErrorBoundary>
+  )
 }
\ No newline at end of file
@@ -3,6 +3,7 @@
 import { useEffect } from 'react'
 import { toolRegistry } from '@/lib/tool-registry'
 import ColorPicker from '@/components/tools/ColorPicker'
+import { ToolErrorBoundary } from '@/components/shared/ToolErrorBoundary'
 
 export default function ColorPickerPage() {
   useEffect(() => {
@@ -10,5 +11,9 @@ export default function ColorPickerPage() {
     toolRegistry.recordUsage('color-picker')
   }, [])
 
-  return <ColorPicker />
+  return (
+    <ToolErrorBoundary toolId="color-picker">
+      <ColorPicker />
+    </ToolErrorBoundary>
+  )
 }
\ No newline at end of file
@@ -3,6 +3,7 @@
 import { useEffect } from 'react'
 import { toolRegistry } from '@/lib/tool-registry'
 import EmailValidator from '@/components/tools/EmailValidator'
+import { ToolErrorBoundary } from '@/components/shared/ToolErrorBoundary'
 
 export default function EmailValidatorPage() {
   useEffect(() => {
@@ -10,5 +11,9 @@ export default function EmailValidatorPage() {
     toolRegistry.recordUsage('email-validator')
   }, [])
 
-  return <EmailValidator />
+  return (
+    <ToolErrorBoundary toolId="email-validator">
+      <EmailValidator />
+    </ToolErrorBoundary>
+  )
 }
\ No newline at end of file
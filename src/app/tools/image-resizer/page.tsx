@@ -3,6 +3,7 @@
 import { useEffect } from 'react'
 import { toolRegistry } from '@/lib/tool-registry'
 import ImageResizer from '@/components/tools/ImageResizer'
+import { ToolErrorBoundary } from '@/components/shared/ToolErrorBoundary'
 
 export default function ImageResizerPage() {
   useEffect(() => {
@@ -10,5 +11,9 @@ export default function ImageResizerPage() {
     toolRegistry.recordUsage('image-resizer')
   }, [])
 
-  return <ImageResizer />
+  return (
+    <ToolErrorBoundary toolId="image-resizer">
+      <ImageResizer />
+    </ToolErrorBoundary>
+  )
 }
\ No newline at end of file
@@ -3,6 +3,7 @@
 import { useEffect } from 'react'
 import { toolRegistry } from '@/lib/tool-registry'
 import SmartMarkdownFormatter from '@/components/tools/SmartMarkdownFormatter'
+import { ToolErrorBoundary } from '@/components/shared/ToolErrorBoundary'
 
 export default function MarkdownFormatterPage() {
   useEffect(() => {
@@ -10,5 +11,9 @@ export default function MarkdownFormatterPage() {
     toolRegistry.recordUsage('markdown-formatter')
   }, [])
 
-  return <SmartMarkdownFormatter />
+  return (
+    <ToolErrorBoundary toolId="markdown-formatter">
+      <SmartMarkdownFormatter />
+    </ToolErrorBoundary>
+  )
 }
\ No newline at end of file
@@ -2,11 +2,16 @@
 import { useEffect } from 'react'
 import { toolRegistry } from '@/lib/tool-registry'
 import PasswordGenerator from '@/components/tools/PasswordGenerator'
+import { ToolErrorBoundary } from '@/components/shared/ToolErrorBoundary'
 
 export default function PasswordGeneratorPage() {
   useEffect(() => {
     toolRegistry.recordUsage('password-generator')
   }, [])
 
-  return <PasswordGenerator />
+  return (
+    <ToolErrorBoundary toolId="password-generator">
+      <PasswordGenerator />
+    </ToolErrorBoundary>
+  )
 }
\ No newline at end of file
@@ -3,6 +3,7 @@
 import { useEffect } from 'react'
 import { toolRegistry } from '@/lib/tool-registry'
 import ToolRegistryManager from '@/components/tools/ToolRegistryManager'
+import { ToolErrorBoundary } from '@/components/shared/ToolErrorBoundary'
 
 export default function ToolRegistryPage() {
   useEffect(() => {
@@ -10,5 +11,9 @@ export default function ToolRegistryPage() {
     toolRegistry.recordUsage('registry')
   }, [])
 
-  return <ToolRegistryManager />
+  return (
+    <ToolErrorBoundary toolId="registry">
+      <ToolRegistryManager />
+    </ToolErrorBoundary>
+  )
 }
\ No newline at end of file
@@ -2,11 +2,16 @@
 import { useEffect } from 'react'
 import { toolRegistry } from '@/lib/tool-registry'
 import InternetSpeedTest from '@/components/tools/InternetSpeedTest'
+import { ToolErrorBoundary } from '@/components/shared/ToolErrorBoundary'
 
 export default function SpeedTestPage() {
   useEffect(() => {
     toolRegistry.recordUsage('speed-test')
   }, [])
 
-  return <InternetSpeedTest />
+  return (
+    <ToolErrorBoundary toolId="speed-test">
+      <InternetSpeedTest />
+    </ToolErrorBoundary>
+  )
 }
\ No newline at end of file
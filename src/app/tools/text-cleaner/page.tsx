@@ -3,6 +3,7 @@
 import { useEffect } from 'react'
 import { toolRegistry } from '@/lib/tool-registry'
 import TextCleaner from '@/components/tools/TextCleaner'
+import { ToolErrorBoundary } from '@/components/shared/ToolErrorBoundary'
 
 export default function TextCleanerPage() {
   useEffect(() => {
@@ -10,5 +11,9 @@ export default function TextCleanerPage() {
     toolRegistry.recordUsage('text-cleaner')
   }, [])
 
-  return <TextCleaner />
+  return (
+    <ToolErrorBoundary toolId="text-cleaner">
+      <TextCleaner />
+    </ToolErrorBoundary>
+  )
 }
\ No newline at end of file
@@ -3,6 +3,7 @@
 import { useEffect } from 'react'
 import { toolRegistry } from '@/lib/tool-registry'
 import UnitConverter from '@/components/tools/UnitConverter'
+import { ToolErrorBoundary } from '@/components/shared/ToolErrorBoundary'
 
 export default function UnitConverterPage() {
   useEffect(() => {
@@ -10,5 +11,9 @@ export default function UnitConverterPage() {
     toolRegistry.recordUsage('unit-converter')
   }, [])
 
-  return <UnitConverter />
+  return (
+    <ToolErrorBoundary toolId="unit-converter">
+      <UnitConverter />
+    </ToolErrorBoundary>
+  )
 }
\ No newline at end of file
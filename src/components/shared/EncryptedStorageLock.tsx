@@ -0,0 +1,145 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Lock, Unlock, ShieldCheck } from 'lucide-react'
+import { Storage, encryptedStorage } from '@/lib/storage'
+import { EncryptionState, MIN_PASSPHRASE_LENGTH } from '@/lib/storage-encryption'
+
+interface EncryptedStorageLockProps {
+  description?: string
+}
+
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60, 0]
+
+/**
+ * Passphrase prompt and lock controls for the encrypted storage namespace
+ */
+export function EncryptedStorageLock({ description }: EncryptedStorageLockProps) {
+  const [state, setState] = useState<EncryptionState | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [autoLockMinutes, setAutoLockMinutes] = useState(encryptedStorage.getAutoLockMinutes())
+  const [errors, setErrors] = useState<string[]>([])
+  const [isWorking, setIsWorking] = useState(false)
+
+  useEffect(() => {
+    Storage.initialize().then(() => {
+      setState(encryptedStorage.getState())
+      setAutoLockMinutes(encryptedStorage.getAutoLockMinutes())
+    })
+    return encryptedStorage.subscribe(setState)
+  }, [])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    if (state === 'unconfigured' && passphrase !== confirmation) {
+      setErrors(['Passphrases do not match'])
+      return
+    }
+
+    setIsWorking(true)
+    try {
+      const result = state === 'unconfigured'
+        ? await encryptedStorage.setup(passphrase)
+        : await encryptedStorage.unlock(passphrase)
+      setErrors(result.errors)
+      if (result.success) {
+        setPassphrase('')
+        setConfirmation('')
+      }
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleAutoLockChange = (minutes: number) => {
+    if (encryptedStorage.setAutoLockMinutes(minutes)) {
+      setAutoLockMinutes(minutes)
+    }
+  }
+
+  if (state === null) return null
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+
+  if (state === 'unlocked') {
+    return (
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-sm">
+        <span className="flex items-center gap-2 text-green-800 dark:text-green-200">
+          <ShieldCheck className="w-4 h-4" />
+          Encrypted storage is unlocked
+        </span>
+        <div className="flex items-center gap-3">
+          <label className="text-gray-700 dark:text-gray-300">
+            Auto-lock
+            <select
+              value={autoLockMinutes}
+              onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+              className="ml-2 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            >
+              {AUTO_LOCK_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0 ? 'Never' : `After ${minutes} min idle`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => encryptedStorage.lock()}
+            className="flex items-center gap-1 px-3 py-1 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors"
+          >
+            <Lock className="w-4 h-4" />
+            Lock
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3 text-sm">
+      <p className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
+        <Lock className="w-4 h-4" />
+        {state === 'unconfigured' ? 'Set a passphrase for encrypted storage' : 'Encrypted storage is locked'}
+      </p>
+      {description && <p className="text-gray-600 dark:text-gray-400">{description}</p>}
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder={state === 'unconfigured' ? `Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)` : 'Passphrase'}
+        autoComplete={state === 'unconfigured' ? 'new-password' : 'current-password'}
+        className={inputClassName}
+      />
+      {state === 'unconfigured' && (
+        <>
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Confirm passphrase"
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The passphrase can't be recovered. Forgetting it means losing the encrypted data.
+          </p>
+        </>
+      )}
+      {errors.length > 0 && (
+        <div className="text-red-600 dark:text-red-400">
+          {errors.map((error, index) => <p key={index}>{error}</p>)}
+        </div>
+      )}
+      <button
+        type="submit"
+        disabled={isWorking || passphrase.length === 0}
+        className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Unlock className="w-4 h-4" />
+        {isWorking ? 'Working...' : state === 'unconfigured' ? 'Set Passphrase' : 'Unlock'}
+      </button>
+    </form>
+  )
+}
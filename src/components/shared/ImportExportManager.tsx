@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { 
   Download, 
   Upload, 
@@ -14,8 +14,13 @@ import {
 } from 'lucide-react'
 import { toolRegistry } from '@/lib/tool-registry'
 import { collectionManager } from '@/lib/collections'
-import { ToolImportExport, ToolPackage, ImportResult } from '@/lib/tool-import-export'
+import { ToolImportExport, ToolPackage, ImportResult, ImportFileResult } from '@/lib/tool-import-export'
+import { RestoreDiffItem } from '@/lib/backup-restore'
+import { packageSigning, PackageVerification } from '@/lib/package-signing'
 import { usePreferences } from '@/contexts/PreferencesContext'
+import { RestorePreview } from './RestorePreview'
+import { PackageVerificationNotice } from './PackageVerificationNotice'
+import { ShareLinkDialog } from './ShareLinkDialog'
 
 interface ImportExportManagerProps {
   isOpen: boolean
@@ -27,11 +32,20 @@ export function ImportExportManager({ isOpen, onClose }: ImportExportManagerProp
   const [isExporting, setIsExporting] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
   const [importResult, setImportResult] = useState<ImportResult | null>(null)
+  const [importPreview, setImportPreview] = useState<{
+    toolPackage: ToolPackage
+    items: RestoreDiffItem[]
+    verification?: PackageVerification
+    source: ImportFileResult
+  } | null>(null)
   const [exportOptions, setExportOptions] = useState({
     includeCollections: true,
     includePreferences: false,
+    signPackage: false,
     selectedTools: [] as string[]
   })
+  const [signerName, setSignerName] = useState<string | null>(null)
+  const [sharePackage, setSharePackage] = useState<ToolPackage | null>(null)
   const [importOptions, setImportOptions] = useState({
     overwriteExisting: false,
     importCollections: true,
@@ -49,30 +63,54 @@ export function ImportExportManager({ isOpen, onClose }: ImportExportManagerProp
 
   const { preferences } = usePreferences()
 
+  useEffect(() => {
+    if (!isOpen) return
+    const identity = packageSigning.getIdentity()
+    setSignerName(identity ? identity.name : null)
+    setExportOptions(prev => ({ ...prev, signPackage: !!identity }))
+  }, [isOpen])
+
   if (!isOpen) return null
 
-  const handleExport = async () => {
-    setIsExporting(true)
-    try {
-      await toolRegistry.initialize()
-      await collectionManager.initialize()
+  const buildPackage = async (): Promise<ToolPackage> => {
+    await toolRegistry.initialize()
+    await collectionManager.initialize()
 
-      const allTools = toolRegistry.getAll()
-      const selectedTools = exportOptions.selectedTools.length > 0 
-        ? allTools.filter(tool => exportOptions.selectedTools.includes(tool.id))
-        : allTools
+    const allTools = toolRegistry.getAll()
+    const selectedTools = exportOptions.selectedTools.length > 0 
+      ? allTools.filter(tool => exportOptions.selectedTools.includes(tool.id))
+      : allTools
 
-      const collections = exportOptions.includeCollections ? collectionManager.getAll() : undefined
-      const prefs = exportOptions.includePreferences ? preferences : undefined
+    const collections = exportOptions.includeCollections ? collectionManager.getAll() : undefined
+    const prefs = exportOptions.includePreferences ? preferences : undefined
 
-      const toolPackage = ToolImportExport.exportTools({
-        tools: selectedTools,
-        collections,
-        preferences: prefs,
-        metadata: packageMetadata
-      })
+    return ToolImportExport.exportTools({
+      tools: selectedTools,
+      collections,
+      preferences: prefs,
+      metadata: packageMetadata
+    })
+  }
 
-      await ToolImportExport.exportToFile(toolPackage)
+  const handleShare = async () => {
+    try {
+      setSharePackage(await buildPackage())
+    } catch (error) {
+      console.error('Share failed:', error)
+      alert(`Share failed: ${error}`)
+    }
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      const sealed = await ToolImportExport.sealPackage(await buildPackage(), { sign: exportOptions.signPackage })
+      if (sealed.errors.length > 0) {
+        alert(`Export failed: ${sealed.errors.join('; ')}`)
+        return
+      }
+
+      await ToolImportExport.exportToFile(sealed.toolPackage)
     } catch (error) {
       console.error('Export failed:', error)
       alert(`Export failed: ${error}`)
@@ -81,21 +119,72 @@ export function ImportExportManager({ isOpen, onClose }: ImportExportManagerProp
     }
   }
 
-  const handleImport = async (file: File) => {
+  const failImport = (errors: string[], verification?: PackageVerification, skipped?: ImportResult['skipped']) => {
+    setImportResult({
+      success: false,
+      imported: { tools: 0, collections: 0, preferences: false },
+      skipped: skipped || { tools: [], collections: [], reasons: [] },
+      errors,
+      verification
+    })
+  }
+
+  // Add the previewed package's signer to the trusted keys, then re-check the package
+  const handleTrustSigner = async () => {
+    const signature = importPreview?.toolPackage.__signature
+    if (!importPreview || !signature) return
+
+    const trusted = await packageSigning.trustKey(signature.signer, signature.publicKey)
+    if (!trusted.success) {
+      alert(trusted.errors.join('\n'))
+      return
+    }
+    const verification = await ToolImportExport.verifyPackage(importPreview.toolPackage)
+    setImportPreview({ ...importPreview, verification })
+  }
+
+  // Show what the package would add or change before importing anything
+  const handlePreview = async (file: File) => {
     setIsImporting(true)
     setImportResult(null)
-    
+    setImportPreview(null)
+
+    try {
+      const source = await ToolImportExport.readImportFile(file)
+      if (!source.toolPackage) {
+        failImport(source.errors, undefined, source.skipped)
+        return
+      }
+
+      const toolPackage = source.toolPackage
+      const preview = await ToolImportExport.previewPackage(toolPackage, importOptions)
+      if (preview.errors.length > 0) {
+        failImport(preview.errors, preview.verification, source.skipped)
+      } else {
+        setImportPreview({ toolPackage, items: preview.items, verification: preview.verification, source })
+      }
+    } catch (error) {
+      console.error('Import failed:', error)
+      failImport([`Failed to parse file: ${error}`])
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleImport = async (selectedItems: string[]) => {
+    if (!importPreview) return
+
+    setIsImporting(true)
     try {
-      const result = await ToolImportExport.importFromFile(file, importOptions)
+      const result = await ToolImportExport.importFromPackage(importPreview.toolPackage, { ...importOptions, selectedItems })
+      // Entries the file conversion dropped count as skipped too
+      result.skipped.tools.unshift(...importPreview.source.skipped.tools)
+      result.skipped.reasons.unshift(...importPreview.source.skipped.reasons)
       setImportResult(result)
+      setImportPreview(null)
     } catch (error) {
       console.error('Import failed:', error)
-      setImportResult({
-        success: false,
-        imported: { tools: 0, collections: 0, preferences: false },
-        skipped: { tools: [], collections: [], reasons: [] },
-        errors: [`Import failed: ${error}`]
-      })
+      failImport([`Import failed: ${error}`])
     } finally {
       setIsImporting(false)
     }
@@ -104,8 +193,9 @@ export function ImportExportManager({ isOpen, onClose }: ImportExportManagerProp
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (file) {
-      handleImport(file)
+      handlePreview(file)
     }
+    event.target.value = ''
   }
 
   const toggleToolSelection = (toolId: string) => {
@@ -246,6 +336,20 @@ export function ImportExportManager({ isOpen, onClose }: ImportExportManagerProp
                       Include preferences (theme, layout)
                     </span>
                   </label>
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={exportOptions.signPackage}
+                      disabled={!signerName}
+                      onChange={(e) => setExportOptions(prev => ({ ...prev, signPackage: e.target.checked }))}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 disabled:opacity-50"
+                    />
+                    <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                      {signerName
+                        ? `Sign as ${signerName} (needs encrypted storage unlocked)`
+                        : 'Sign package (create a signing key in Preferences first)'}
+                    </span>
+                  </label>
                 </div>
               </div>
 
@@ -274,8 +378,15 @@ export function ImportExportManager({ isOpen, onClose }: ImportExportManagerProp
                 </div>
               </div>
 
-              {/* Export Button */}
-              <div className="flex justify-end">
+              {/* Export Buttons */}
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={handleShare}
+                  className="flex items-center gap-2 px-6 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                >
+                  <Share2 className="w-4 h-4" />
+                  Create Share Link
+                </button>
                 <button
                   onClick={handleExport}
                   disabled={isExporting}
@@ -301,7 +412,7 @@ export function ImportExportManager({ isOpen, onClose }: ImportExportManagerProp
                       className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
                     />
                     <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
-                      Overwrite existing tools
+                      Pick changes to existing tools by default
                     </span>
                   </label>
                   <label className="flex items-center">
@@ -337,11 +448,11 @@ export function ImportExportManager({ isOpen, onClose }: ImportExportManagerProp
                 <div className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-6 text-center">
                   <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                   <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-                    Choose a tool package file to import
+                    Choose a tool package, browser bookmarks export (HTML), spreadsheet (CSV) or another dashboard&apos;s JSON export
                   </p>
                   <input
                     type="file"
-                    accept=".json"
+                    accept=".json,.html,.htm,.csv,.tsv"
                     onChange={handleFileSelect}
                     disabled={isImporting}
                     className="hidden"
@@ -357,7 +468,41 @@ export function ImportExportManager({ isOpen, onClose }: ImportExportManagerProp
                 </div>
               </div>
 
+              {/* Import Preview */}
+              {importPreview && importPreview.source.format !== 'app-studio' && (
+                <div className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-300">
+                  <p>
+                    Converted from {importPreview.source.formatLabel.toLowerCase()}: {importPreview.toolPackage.tools.length} tools found
+                    {importPreview.source.skipped.tools.length > 0 && `, ${importPreview.source.skipped.tools.length} skipped`}.
+                    Categories and tags were guessed; check them in the Tool Registry afterwards.
+                  </p>
+                  {importPreview.source.skipped.reasons.length > 0 && (
+                    <ul className="mt-2 max-h-32 overflow-y-auto list-disc list-inside text-xs text-yellow-700 dark:text-yellow-300">
+                      {importPreview.source.skipped.reasons.map((reason, index) => (
+                        <li key={index}>{reason}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+              {importPreview?.verification && importPreview.source.format === 'app-studio' && (
+                <PackageVerificationNotice verification={importPreview.verification} onTrustSigner={handleTrustSigner} />
+              )}
+              {importPreview && (
+                <RestorePreview
+                  items={importPreview.items}
+                  onApply={handleImport}
+                  onCancel={() => setImportPreview(null)}
+                  isApplying={isImporting}
+                  applyLabel="Import Selected"
+                  selectChanged={importOptions.overwriteExisting}
+                />
+              )}
+
               {/* Import Result */}
+              {importResult?.verification && !importResult.success && (
+                <PackageVerificationNotice verification={importResult.verification} />
+              )}
               {importResult && (
                 <div className={`p-4 rounded-lg ${
                   importResult.success 
@@ -386,9 +531,16 @@ export function ImportExportManager({ isOpen, onClose }: ImportExportManagerProp
                     </p>
                     
                     {importResult.skipped.tools.length > 0 && (
-                      <p className="text-yellow-700 dark:text-yellow-300">
-                        Skipped: {importResult.skipped.tools.join(', ')}
-                      </p>
+                      <div className="text-yellow-700 dark:text-yellow-300">
+                        <p>Skipped: {importResult.skipped.tools.join(', ')}</p>
+                        {importResult.skipped.reasons.length > 0 && (
+                          <ul className="list-disc list-inside ml-2 max-h-32 overflow-y-auto text-xs">
+                            {importResult.skipped.reasons.map((reason, index) => (
+                              <li key={index}>{reason}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
                     )}
                     
                     {importResult.errors.length > 0 && (
@@ -408,6 +560,11 @@ export function ImportExportManager({ isOpen, onClose }: ImportExportManagerProp
           )}
         </div>
       </div>
+      <ShareLinkDialog
+        toolPackage={sharePackage}
+        onClose={() => setSharePackage(null)}
+        sign={exportOptions.signPackage}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,211 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { KeyRound, Copy, Trash2, ShieldCheck } from 'lucide-react'
+import { Storage, encryptedStorage } from '@/lib/storage'
+import { EncryptionState } from '@/lib/storage-encryption'
+import { packageSigning, SigningIdentity, TrustSettings, formatKeyId } from '@/lib/package-signing'
+import { EncryptedStorageLock } from './EncryptedStorageLock'
+
+/**
+ * This browser's signing key and the list of signers whose packages are trusted
+ */
+export function PackageSigningSettings() {
+  const [identity, setIdentity] = useState<SigningIdentity | null>(null)
+  const [trust, setTrust] = useState<TrustSettings | null>(null)
+  const [encryptionState, setEncryptionState] = useState<EncryptionState>('locked')
+  const [signerName, setSignerName] = useState('')
+  const [keyText, setKeyText] = useState('')
+  const [keyName, setKeyName] = useState('')
+  const [errors, setErrors] = useState<string[]>([])
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    Storage.initialize().then(() => {
+      setIdentity(packageSigning.getIdentity())
+      setTrust(packageSigning.getTrustSettings())
+      setEncryptionState(encryptedStorage.getState())
+    })
+    return encryptedStorage.subscribe(setEncryptionState)
+  }, [])
+
+  const showMessage = (text: string) => {
+    setMessage(text)
+    setTimeout(() => setMessage(''), 3000)
+  }
+
+  const handleCreateIdentity = async () => {
+    const result = await packageSigning.createIdentity(signerName)
+    setErrors(result.errors)
+    if (result.success) {
+      setIdentity(packageSigning.getIdentity())
+      setTrust(packageSigning.getTrustSettings())
+      setSignerName('')
+      showMessage('Signing key created')
+    }
+  }
+
+  const handleCopyPublicKey = async () => {
+    const text = packageSigning.exportPublicKey()
+    if (!text) return
+    try {
+      await navigator.clipboard.writeText(text)
+      showMessage('Public key copied; send it to teammates so they can trust your packages')
+    } catch (error) {
+      console.error('Failed to copy public key:', error)
+      setErrors(['Copying failed; your browser blocked clipboard access'])
+    }
+  }
+
+  const handleTrustKey = async () => {
+    const result = await packageSigning.trustKeyFromText(keyText, keyName)
+    setErrors(result.errors)
+    if (result.success) {
+      setTrust(packageSigning.getTrustSettings())
+      setKeyText('')
+      setKeyName('')
+      showMessage(`Now trusting "${result.key!.name}"`)
+    }
+  }
+
+  const handleUntrustKey = (keyId: string) => {
+    packageSigning.untrustKey(keyId)
+    setTrust(packageSigning.getTrustSettings())
+  }
+
+  const handleRequireTrust = (required: boolean) => {
+    packageSigning.setRequireTrustedSignature(required)
+    setTrust(packageSigning.getTrustSettings())
+  }
+
+  if (!trust) return null
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm'
+
+  return (
+    <div className="space-y-6">
+      {/* Own signing key */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Your Signing Key</h3>
+        {identity ? (
+          <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+            <div>
+              <p className="text-gray-900 dark:text-gray-100">{identity.name}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">{formatKeyId(identity.keyId)}</p>
+            </div>
+            <button
+              onClick={handleCopyPublicKey}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+            >
+              <Copy className="w-4 h-4" />
+              Copy Public Key
+            </button>
+          </div>
+        ) : encryptionState === 'unlocked' ? (
+          <div className="flex flex-wrap gap-3">
+            <input
+              type="text"
+              value={signerName}
+              onChange={(e) => setSignerName(e.target.value)}
+              placeholder="Your name, as teammates will see it"
+              className={`${inputClassName} flex-1 min-w-[12rem]`}
+            />
+            <button
+              onClick={handleCreateIdentity}
+              disabled={!signerName.trim()}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <KeyRound className="w-4 h-4" />
+              Create Signing Key
+            </button>
+          </div>
+        ) : (
+          <EncryptedStorageLock description="Your private signing key is kept in encrypted storage. Unlock it to create a key." />
+        )}
+        {identity && encryptionState !== 'unlocked' && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            Unlock encrypted storage to sign packages when exporting.
+          </p>
+        )}
+      </div>
+
+      {/* Trusted keys */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Trusted Keys</h3>
+        {trust.keys.length > 0 ? (
+          <div className="divide-y divide-gray-100 dark:divide-gray-700 text-sm mb-3">
+            {trust.keys.map(key => (
+              <div key={key.keyId} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+                    <ShieldCheck className="w-4 h-4 text-green-600 dark:text-green-400" />
+                    {key.name}
+                    {identity?.keyId === key.keyId && <span className="text-xs text-gray-500 dark:text-gray-400">(you)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+                    {formatKeyId(key.keyId)} · added {new Date(key.addedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleUntrustKey(key.keyId)}
+                  className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  aria-label={`Stop trusting ${key.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">No trusted keys yet.</p>
+        )}
+
+        <div className="space-y-2">
+          <textarea
+            value={keyText}
+            onChange={(e) => setKeyText(e.target.value)}
+            rows={3}
+            placeholder="Paste a teammate's public key"
+            className={`${inputClassName} font-mono`}
+          />
+          <div className="flex flex-wrap gap-3">
+            <input
+              type="text"
+              value={keyName}
+              onChange={(e) => setKeyName(e.target.value)}
+              placeholder="Name (optional, defaults to the key's own)"
+              className={`${inputClassName} flex-1 min-w-[12rem]`}
+            />
+            <button
+              onClick={handleTrustKey}
+              disabled={!keyText.trim()}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              Trust Key
+            </button>
+          </div>
+        </div>
+
+        <label className="flex items-center mt-4">
+          <input
+            type="checkbox"
+            checked={trust.requireTrustedSignature}
+            onChange={(e) => handleRequireTrust(e.target.checked)}
+            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+            Only import packages signed by a trusted key
+          </span>
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="text-sm text-red-600 dark:text-red-400">
+          {errors.map((error, index) => <p key={index}>{error}</p>)}
+        </div>
+      )}
+      {message && <p className="text-sm text-green-600 dark:text-green-400">{message}</p>}
+    </div>
+  )
+}
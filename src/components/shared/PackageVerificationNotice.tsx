@@ -0,0 +1,56 @@
+'use client'
+
+import { ShieldCheck, ShieldAlert, ShieldX } from 'lucide-react'
+import { PackageVerification, formatKeyId } from '@/lib/package-signing'
+
+interface PackageVerificationNoticeProps {
+  verification: PackageVerification
+  onTrustSigner?: () => void
+}
+
+/**
+ * Shows whether a package is intact and who signed it
+ */
+export function PackageVerificationNotice({ verification, onTrustSigner }: PackageVerificationNoticeProps) {
+  const { signer } = verification
+  const signedAndTrusted = verification.signature === 'valid' && signer?.trusted
+  const tone = !verification.acceptable
+    ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-200'
+    : signedAndTrusted
+      ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800 dark:text-green-200'
+      : 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200'
+
+  let title: string
+  if (verification.integrity === 'invalid' || verification.signature === 'invalid') {
+    title = 'Package has been modified or its signature is invalid'
+  } else if (verification.signature === 'valid' && signer) {
+    title = signer.trusted ? `Signed by ${signer.trustedName || signer.name}` : `Signed by "${signer.name}"`
+  } else {
+    title = 'Unsigned package'
+  }
+
+  const Icon = !verification.acceptable ? ShieldX : signedAndTrusted ? ShieldCheck : ShieldAlert
+
+  return (
+    <div className={`p-3 rounded-lg border text-sm ${tone}`}>
+      <div className="flex items-center gap-2">
+        <Icon className="w-4 h-4 flex-shrink-0" />
+        <span className="font-medium flex-1">{title}</span>
+        {onTrustSigner && verification.signature === 'valid' && signer && !signer.trusted && (
+          <button onClick={onTrustSigner} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+            Trust this signer
+          </button>
+        )}
+      </div>
+      {signer && (
+        <p className="mt-1 text-xs font-mono opacity-80">Key {formatKeyId(signer.keyId)}</p>
+      )}
+      {verification.integrity === 'valid' && (
+        <p className="mt-1 text-xs opacity-80">Content hash matches.</p>
+      )}
+      {[...verification.errors, ...verification.warnings].map((message, index) => (
+        <p key={index} className="mt-1 text-xs">{message}</p>
+      ))}
+    </div>
+  )
+}
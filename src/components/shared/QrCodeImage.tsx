@@ -0,0 +1,39 @@
+'use client'
+
+import { QrCode } from '@/lib/qr-code'
+
+interface QrCodeImageProps {
+  qrCode: QrCode
+  size?: number // rendered width and height in pixels
+  title?: string
+}
+
+// The spec asks for four light modules around the code
+const QUIET_ZONE = 4
+
+/**
+ * Draws a QR code as one SVG path; colors stay fixed so it scans in dark mode too
+ */
+export function QrCodeImage({ qrCode, size = 240, title = 'QR code' }: QrCodeImageProps) {
+  const dimension = qrCode.size + QUIET_ZONE * 2
+  let path = ''
+  qrCode.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path += `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`
+    })
+  })
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={title}
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  )
+}
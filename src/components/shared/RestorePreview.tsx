@@ -0,0 +1,128 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Plus, Pencil, Minus } from 'lucide-react'
+import { RestoreDiffItem, BackupSection, RestoreChangeType } from '@/lib/backup-restore'
+
+interface RestorePreviewProps {
+  items: RestoreDiffItem[]
+  onApply: (itemIds: string[]) => void
+  onCancel: () => void
+  isApplying?: boolean
+  applyLabel?: string
+  selectChanged?: boolean // whether changed items start picked; added ones always do
+}
+
+const SECTION_LABELS: Record<BackupSection, string> = {
+  tools: 'Tools',
+  collections: 'Collections & Workflows',
+  preferences: 'Preferences',
+  toolData: 'Tool Data'
+}
+
+const CHANGE_STYLES: Record<RestoreChangeType, string> = {
+  added: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200',
+  changed: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200',
+  removed: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200'
+}
+
+/**
+ * Lists what a restore or import would add, change or remove, and lets the user pick items.
+ * Removals start unpicked so nothing is deleted by accident.
+ */
+export function RestorePreview({ items, onApply, onCancel, isApplying = false, applyLabel = 'Restore Selected', selectChanged = true }: RestorePreviewProps) {
+  const [selected, setSelected] = useState<string[]>([])
+
+  useEffect(() => {
+    setSelected(items
+      .filter(item => item.change === 'added' || (item.change === 'changed' && selectChanged))
+      .map(item => item.id))
+  }, [items, selectChanged])
+
+  const toggle = (itemId: string) => {
+    setSelected(prev => prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId])
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="p-4 bg-gray-50 dark:bg-gray-900 rounded-lg text-sm text-gray-600 dark:text-gray-400">
+        <p>Nothing to restore: everything already matches.</p>
+        <button onClick={onCancel} className="mt-2 text-indigo-600 dark:text-indigo-400 hover:underline">
+          Close
+        </button>
+      </div>
+    )
+  }
+
+  const sections = (Object.keys(SECTION_LABELS) as BackupSection[])
+    .map(section => ({ section, sectionItems: items.filter(item => item.section === section) }))
+    .filter(({ sectionItems }) => sectionItems.length > 0)
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+      <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700 text-sm">
+        <span className="text-gray-700 dark:text-gray-300">
+          {selected.length} of {items.length} changes selected
+        </span>
+        <div className="flex gap-3">
+          <button onClick={() => setSelected(items.map(item => item.id))} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+            Select all
+          </button>
+          <button onClick={() => setSelected([])} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+            Select none
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto p-3 space-y-4">
+        {sections.map(({ section, sectionItems }) => (
+          <div key={section}>
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+              {SECTION_LABELS[section]}
+            </h4>
+            <div className="space-y-1">
+              {sectionItems.map(item => (
+                <label key={item.id} className="flex items-start gap-3 p-2 rounded hover:bg-gray-50 dark:hover:bg-gray-700 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(item.id)}
+                    onChange={() => toggle(item.id)}
+                    className="mt-0.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs capitalize ${CHANGE_STYLES[item.change]}`}>
+                    {item.change === 'added' ? <Plus className="w-3 h-3" /> : item.change === 'changed' ? <Pencil className="w-3 h-3" /> : <Minus className="w-3 h-3" />}
+                    {item.change}
+                  </span>
+                  <span className="flex-1">
+                    <span className="text-gray-900 dark:text-gray-100">{item.label}</span>
+                    {item.fields && item.fields.length > 0 && (
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        Differs in {item.fields.join(', ')}
+                      </span>
+                    )}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-3 p-3 border-t border-gray-200 dark:border-gray-700">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onApply(selected)}
+          disabled={isApplying || selected.length === 0}
+          className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isApplying ? 'Applying...' : applyLabel}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Link2, Copy, X, AlertCircle } from 'lucide-react'
+import { ToolImportExport, ToolPackage, SHARE_LINK_BUDGET } from '@/lib/tool-import-export'
+import { encodeQrCode, getQrCapacity, QrCode } from '@/lib/qr-code'
+import { QrCodeImage } from './QrCodeImage'
+
+interface ShareLinkDialogProps {
+  toolPackage: ToolPackage | null // the dialog is open while this is set
+  onClose: () => void
+  sign?: boolean
+}
+
+/**
+ * Turns a package into a share link and QR code that open the import page
+ */
+export function ShareLinkDialog({ toolPackage, onClose, sign = false }: ShareLinkDialogProps) {
+  const [url, setUrl] = useState<string | null>(null)
+  const [qrCode, setQrCode] = useState<QrCode | null>(null)
+  const [length, setLength] = useState(0)
+  const [errors, setErrors] = useState<string[]>([])
+  const [isCreating, setIsCreating] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    if (!toolPackage) return
+
+    setUrl(null)
+    setQrCode(null)
+    setErrors([])
+    setCopied(false)
+    setIsCreating(true)
+
+    const createLink = async () => {
+      // The hash lets the import page notice a link that was cut off or edited
+      const sealed = await ToolImportExport.sealPackage(toolPackage, { sign })
+      if (sealed.errors.length > 0) {
+        setErrors(sealed.errors)
+        return
+      }
+      const link = await ToolImportExport.createShareableUrl(sealed.toolPackage)
+      setLength(link.length)
+      setErrors(link.errors)
+      if (link.url) {
+        setUrl(link.url)
+        setQrCode(encodeQrCode(link.url))
+      }
+    }
+
+    createLink()
+      .catch(error => {
+        console.error('Failed to create share link:', error)
+        setErrors([`Failed to create share link: ${error}`])
+      })
+      .finally(() => setIsCreating(false))
+  }, [toolPackage, sign])
+
+  if (!toolPackage) return null
+
+  const handleCopy = async () => {
+    if (!url) return
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy share link:', error)
+      setErrors(['Copying failed; select the link and copy it by hand'])
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <Link2 className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              Share &quot;{toolPackage.metadata.name}&quot;
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label="Close share dialog"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {isCreating && <p className="text-sm text-gray-500 dark:text-gray-400">Creating link…</p>}
+
+          {url && (
+            <>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100 text-sm font-mono"
+                />
+                <button
+                  onClick={handleCopy}
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                >
+                  <Copy className="w-4 h-4" />
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {length.toLocaleString()} of {SHARE_LINK_BUDGET.toLocaleString()} characters. The package travels in the
+                part after #, so opening the link doesn&apos;t send it to any server.
+              </p>
+
+              {qrCode ? (
+                <div className="flex justify-center">
+                  <QrCodeImage qrCode={qrCode} size={Math.max(240, (qrCode.size + 8) * 2)} title={`QR code for ${toolPackage.metadata.name}`} />
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  The link is too long for a QR code (over {getQrCapacity().toLocaleString()} characters); share the link instead.
+                </p>
+              )}
+            </>
+          )}
+
+          {errors.length > 0 && (
+            <div className="flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <div>
+                {errors.map((error, index) => <p key={index}>{error}</p>)}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { HardDrive, X } from 'lucide-react'
+import { storageQuotaManager, StorageQuotaReport, formatBytes, LOCAL_STORAGE_QUOTA_BYTES } from '@/lib/storage-quota'
+
+/**
+ * Warns on every page when storage is nearly full or a save failed,
+ * so lost saves don't go unnoticed. Links to the breakdown in preferences.
+ */
+export function StorageQuotaWarning() {
+  const [report, setReport] = useState<StorageQuotaReport | null>(null)
+  const [dismissed, setDismissed] = useState(false)
+
+  useEffect(() => {
+    storageQuotaManager.initialize()
+
+    const unsubscribe = storageQuotaManager.subscribe(next => {
+      setReport(next)
+      // A new failure deserves a new warning even if the last one was dismissed
+      if (next.lastWriteFailure) setDismissed(false)
+    })
+
+    storageQuotaManager.getReport()
+      .then(setReport)
+      .catch(error => {
+        console.error('Failed to check storage quota:', error)
+      })
+
+    return unsubscribe
+  }, [])
+
+  if (!report || report.status === 'ok' || dismissed) return null
+
+  const critical = report.status === 'critical'
+  const failure = report.lastWriteFailure
+  const percentFull = Math.round(Math.max(report.usageRatio || 0, report.localStorageBytes / LOCAL_STORAGE_QUOTA_BYTES) * 100)
+
+  return (
+    <div className={`fixed bottom-4 right-4 z-40 max-w-sm p-4 bg-white dark:bg-gray-800 border rounded-xl shadow-lg ${
+      critical ? 'border-red-200 dark:border-red-800' : 'border-yellow-200 dark:border-yellow-800'
+    }`}>
+      <div className="flex items-start gap-3">
+        <HardDrive className={`w-5 h-5 flex-shrink-0 ${critical ? 'text-red-600 dark:text-red-400' : 'text-yellow-600 dark:text-yellow-400'}`} />
+        <div className="text-sm">
+          <p className="text-gray-900 dark:text-gray-100">
+            {failure
+              ? `Saving ${failure.key} failed${failure.quotaExceeded ? ' because storage is full' : ''}.`
+              : `Storage is ${percentFull}% full (${formatBytes(report.usedBytes)} used).`}
+          </p>
+          <Link
+            href="/preferences#storage"
+            onClick={() => setDismissed(true)}
+            className="text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            Review storage and free up space
+          </Link>
+        </div>
+        <button
+          onClick={() => setDismissed(true)}
+          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          aria-label="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
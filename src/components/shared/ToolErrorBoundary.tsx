@@ -0,0 +1,53 @@
+'use client'
+
+import { Component, ErrorInfo, ReactNode } from 'react'
+import { AlertTriangle, RotateCcw } from 'lucide-react'
+import { updateOrchestrator } from '@/lib/update-orchestrator'
+
+interface ToolErrorBoundaryProps {
+  toolId: string
+  children: ReactNode
+}
+
+interface ToolErrorBoundaryState {
+  error: Error | null
+}
+
+/**
+ * Catches errors thrown while a tool renders and reports them against that tool, so an
+ * automatic update that broke it is rolled back. Errors from anywhere else on the page
+ * are never blamed on the tool.
+ */
+export class ToolErrorBoundary extends Component<ToolErrorBoundaryProps, ToolErrorBoundaryState> {
+  state: ToolErrorBoundaryState = { error: null }
+
+  static getDerivedStateFromError(error: Error): ToolErrorBoundaryState {
+    return { error }
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo): void {
+    console.error(`Tool "${this.props.toolId}" failed:`, error, info.componentStack)
+    updateOrchestrator.reportToolError(this.props.toolId, error).catch(rollbackError => {
+      console.error('Failed to handle tool error:', rollbackError)
+    })
+  }
+
+  render() {
+    if (!this.state.error) return this.props.children
+
+    return (
+      <div className="max-w-xl mx-auto mt-12 p-6 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl text-center">
+        <AlertTriangle className="w-8 h-8 mx-auto mb-3 text-yellow-500" />
+        <p className="text-gray-900 dark:text-gray-100 mb-1">This tool ran into an error.</p>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{this.state.error.message}</p>
+        <button
+          onClick={() => this.setState({ error: null })}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Try again
+        </button>
+      </div>
+    )
+  }
+}
@@ -0,0 +1,453 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { RefreshCw, Upload, Download, Link2, Undo2 } from 'lucide-react'
+import { versionManager, CatalogSource, CatalogLoadResult, ReleaseChannel, UpdateInfo, UpdatePolicy, VersionHistory } from '@/lib/version-manager'
+import { compareVersions, isPrerelease } from '@/lib/version-compatibility'
+import { updateOrchestrator } from '@/lib/update-orchestrator'
+import { toolRegistry } from '@/lib/tool-registry'
+
+const UPDATE_TYPES: UpdateInfo['updateType'][] = ['security', 'patch', 'minor', 'major']
+const SCHEDULES: UpdatePolicy['schedule'][] = ['immediate', 'daily', 'weekly', 'monthly', 'manual']
+
+type HistoryEntry = VersionHistory['versions'][number] & { toolId: string }
+
+interface ChannelEntry {
+  toolId: string
+  channel: ReleaseChannel
+  prerelease?: string // newest pre-release past the installed version
+}
+
+const priorityClassNames: Record<UpdateInfo['priority'], string> = {
+  critical: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+  high: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300',
+  medium: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  low: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+}
+
+/**
+ * Where tool updates come from, and the updates waiting to be installed
+ */
+export function ToolUpdatesSettings() {
+  const [source, setSource] = useState<CatalogSource | null>(null)
+  const [catalogUrl, setCatalogUrl] = useState('')
+  const [updates, setUpdates] = useState<UpdateInfo[]>([])
+  const [lastResult, setLastResult] = useState<CatalogLoadResult | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+  const [message, setMessage] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [policy, setPolicy] = useState<UpdatePolicy | null>(null)
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [channels, setChannels] = useState<ChannelEntry[]>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const refresh = () => {
+    setUpdates(versionManager.getPendingUpdates())
+    setHistory(toolRegistry.getAll()
+      .map(tool => versionManager.getVersionHistory(tool.id))
+      .reduce<HistoryEntry[]>((entries, toolHistory) => toolHistory
+        ? entries.concat(toolHistory.versions.filter(v => v.report).map(v => ({ ...v, toolId: toolHistory.toolId })))
+        : entries, [])
+      .sort((a, b) => b.installedAt.getTime() - a.installedAt.getTime())
+      .slice(0, 10))
+    setChannels(versionManager.getVersionedTools()
+      .filter(toolId => toolRegistry.get(toolId))
+      .map(toolId => {
+        const current = versionManager.getCurrentVersion(toolId)
+        const prerelease = versionManager.getToolVersions(toolId).find(v =>
+          !v.deprecated && isPrerelease(v.version) && (!current || compareVersions(v.version, current) > 0)
+        )
+        return { toolId, channel: versionManager.getReleaseChannel(toolId), prerelease: prerelease?.version }
+      }))
+  }
+
+  useEffect(() => {
+    versionManager.initialize().then(() => {
+      const current = versionManager.getCatalogSource()
+      setSource(current)
+      setCatalogUrl(current.url || '')
+      setPolicy(versionManager.getUpdatePolicy('default'))
+      refresh()
+    })
+    // Automatic updates and rollbacks change both lists
+    return updateOrchestrator.subscribe(refresh)
+  }, [])
+
+  const showMessage = (text: string) => {
+    setMessage(text)
+    setTimeout(() => setMessage(''), 3000)
+  }
+
+  const showLoadResult = (result: CatalogLoadResult) => {
+    setLastResult(result)
+    setErrors(result.errors)
+    setSource(versionManager.getCatalogSource())
+    refresh()
+    if (result.success) {
+      showMessage(`Loaded ${result.versionsLoaded} version(s) for ${result.toolsUpdated} tool(s) from "${result.catalogName}"`)
+    }
+  }
+
+  const handleSaveUrl = async () => {
+    const saved = versionManager.setCatalogUrl(catalogUrl)
+    setErrors(saved.errors)
+    if (!saved.success) return
+
+    setSource(versionManager.getCatalogSource())
+    if (!catalogUrl.trim()) {
+      showMessage('Catalog URL cleared')
+      return
+    }
+    setBusy(true)
+    showLoadResult(await versionManager.loadCatalogFromUrl())
+    setBusy(false)
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    setBusy(true)
+    showLoadResult(await versionManager.loadCatalogFromFile(file))
+    setBusy(false)
+  }
+
+  const handleCheckNow = async () => {
+    setBusy(true)
+    setErrors([])
+    if (source?.url) {
+      showLoadResult(await versionManager.loadCatalogFromUrl())
+    } else {
+      const found = await versionManager.checkForUpdates()
+      setUpdates(versionManager.getPendingUpdates())
+      showMessage(found.length > 0 ? `${found.length} update(s) available` : 'All tools are up to date')
+    }
+    setBusy(false)
+  }
+
+  const handleUpdate = async (update: UpdateInfo) => {
+    setBusy(true)
+    const result = await versionManager.updateTool(update.toolId, update.latestVersion)
+    setErrors(result.errors.length > 0 ? [`Couldn't update ${toolName(update.toolId)}:`, ...result.errors] : [])
+    if (result.success) {
+      showMessage(`${toolName(update.toolId)} updated to ${update.latestVersion}`)
+    }
+    refresh()
+    setBusy(false)
+  }
+
+  const handleRollback = async (toolId: string) => {
+    setBusy(true)
+    const result = await versionManager.rollbackTool(toolId)
+    setErrors([...result.errors, ...result.warnings])
+    if (result.success) {
+      showMessage(`${toolName(toolId)} rolled back to ${result.toVersion}`)
+      await versionManager.checkForUpdates()
+    }
+    refresh()
+    setBusy(false)
+  }
+
+  const updatePolicy = (changes: Partial<UpdatePolicy>) => {
+    if (policy) setPolicy({ ...policy, ...changes })
+  }
+
+  const toggleUpdateType = (type: UpdateInfo['updateType'], enabled: boolean) => {
+    if (!policy) return
+    updatePolicy({ updateTypes: enabled ? [...policy.updateTypes, type] : policy.updateTypes.filter(t => t !== type) })
+  }
+
+  const toggleMaintenanceWindow = (enabled: boolean) => {
+    updatePolicy({
+      maintenanceWindow: enabled
+        ? { start: '02:00', end: '05:00', timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC' }
+        : undefined
+    })
+  }
+
+  const handleChannelChange = async (toolId: string, channel: ReleaseChannel) => {
+    await versionManager.setReleaseChannel(toolId, channel)
+    refresh()
+  }
+
+  const handleSavePolicy = () => {
+    if (!policy) return
+    const saved = versionManager.setUpdatePolicy('default', policy)
+    setErrors(saved.errors)
+    if (saved.success) {
+      showMessage('Update policy saved')
+      refresh()
+    }
+  }
+
+  const toolName = (toolId: string) => toolRegistry.get(toolId)?.name || toolId
+
+  if (!source || !policy) return null
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm'
+
+  return (
+    <div className="space-y-6">
+      {/* Catalog source */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Tool Catalog</h3>
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="text"
+            value={catalogUrl}
+            onChange={(e) => setCatalogUrl(e.target.value)}
+            placeholder="/catalog.json or http://localhost:8080/catalog.json"
+            className={`${inputClassName} flex-1 min-w-[12rem] font-mono`}
+          />
+          <button
+            onClick={handleSaveUrl}
+            disabled={busy || catalogUrl.trim() === (source.url || '')}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Link2 className="w-4 h-4" />
+            Use URL
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            Load File
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json" onChange={handleFileChange} className="hidden" />
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          {source.name
+            ? `Using "${source.name}"${source.fileName ? ` from ${source.fileName}` : ''}${source.signedBy ? `, signed by ${source.signedBy}` : ''}${source.loadedAt ? `, loaded ${source.loadedAt.toLocaleString()}` : ''}.`
+            : 'No catalog loaded yet. Catalogs are only read from this site or from localhost, and must be signed by one of your trusted keys.'}
+        </p>
+        {lastResult && lastResult.rejected.length > 0 && (
+          <div className="mt-3 p-3 rounded-lg border bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200 text-xs">
+            <p className="font-medium mb-1">{lastResult.rejected.length} version(s) failed verification and were ignored:</p>
+            {lastResult.rejected.map((reason, index) => <p key={index}>{reason}</p>)}
+          </div>
+        )}
+      </div>
+
+      {/* Pending updates */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Available Updates</h3>
+          <button
+            onClick={handleCheckNow}
+            disabled={busy}
+            className="flex items-center gap-1 text-sm text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${busy ? 'animate-spin' : ''}`} />
+            Check now
+          </button>
+        </div>
+        {updates.length > 0 ? (
+          <div className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+            {updates.map(update => ({ update, plan: versionManager.planUpdate(update.toolId, update.latestVersion) })).map(({ update, plan }) => (
+              <div key={update.toolId} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+                    {toolName(update.toolId)}
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${priorityClassNames[update.priority]}`}>
+                      {update.updateType}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {update.currentVersion} → {update.latestVersion}
+                    {' · '}{updateOrchestrator.getIneligibleReason(update) || 'installs automatically'}
+                  </p>
+                  {update.releaseNotes && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{update.releaseNotes.split('\n')[0]}</p>
+                  )}
+                  {plan.installs.length > 1 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Also updates {plan.installs.slice(0, -1).map(install => `${toolName(install.toolId)} to ${install.toVersion}`).join(', ')}
+                    </p>
+                  )}
+                  {plan.blockers.map((blocker, index) => (
+                    <p key={index} className="text-xs text-red-600 dark:text-red-400">{blocker.message}</p>
+                  ))}
+                  {plan.warnings.map((warning, index) => (
+                    <p key={index} className="text-xs text-yellow-700 dark:text-yellow-300">{warning}</p>
+                  ))}
+                </div>
+                <button
+                  onClick={() => handleUpdate(update)}
+                  disabled={busy || !plan.allowed}
+                  title={plan.allowed ? undefined : 'This update is blocked; see the reasons listed'}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download className="w-4 h-4" />
+                  Update
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No updates waiting.</p>
+        )}
+      </div>
+
+      {/* Release channels */}
+      {channels.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Release Channels</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            Tools on the beta channel are also offered pre-releases such as 2.0.0-beta.1.
+          </p>
+          <div className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+            {channels.map(entry => (
+              <div key={entry.toolId} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-gray-900 dark:text-gray-100">{toolName(entry.toolId)}</p>
+                  {entry.prerelease && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Beta available: {entry.prerelease}</p>
+                  )}
+                </div>
+                <select
+                  value={entry.channel}
+                  onChange={(e) => handleChannelChange(entry.toolId, e.target.value as ReleaseChannel)}
+                  disabled={busy}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                >
+                  <option value="stable">Stable</option>
+                  <option value="beta">Beta</option>
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Automatic updates */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Automatic Updates</h3>
+        <div className="space-y-3 text-sm">
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={policy.autoUpdate}
+              onChange={(e) => updatePolicy({ autoUpdate: e.target.checked })}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span className="ml-2 text-gray-700 dark:text-gray-300">Install updates automatically</span>
+          </label>
+          <div className="flex flex-wrap gap-4">
+            {UPDATE_TYPES.map(type => (
+              <label key={type} className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={policy.updateTypes.includes(type)}
+                  onChange={(e) => toggleUpdateType(type, e.target.checked)}
+                  disabled={!policy.autoUpdate}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="ml-2 text-gray-700 dark:text-gray-300 capitalize">{type}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="text-gray-700 dark:text-gray-300">Check</label>
+            <select
+              value={policy.schedule}
+              onChange={(e) => updatePolicy({ schedule: e.target.value as UpdatePolicy['schedule'] })}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            >
+              {SCHEDULES.map(schedule => <option key={schedule} value={schedule}>{schedule}</option>)}
+            </select>
+            <label className="text-gray-700 dark:text-gray-300">Roll back after errors within</label>
+            <input
+              type="number"
+              min={0}
+              value={policy.rollbackTimeout}
+              onChange={(e) => updatePolicy({ rollbackTimeout: Number(e.target.value) })}
+              className="w-20 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            />
+            <span className="text-gray-700 dark:text-gray-300">hours</span>
+          </div>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={!!policy.maintenanceWindow}
+              onChange={(e) => toggleMaintenanceWindow(e.target.checked)}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span className="ml-2 text-gray-700 dark:text-gray-300">Only install during a maintenance window</span>
+          </label>
+          {policy.maintenanceWindow && (
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="time"
+                value={policy.maintenanceWindow.start}
+                onChange={(e) => updatePolicy({ maintenanceWindow: { ...policy.maintenanceWindow!, start: e.target.value } })}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              />
+              <span className="text-gray-700 dark:text-gray-300">to</span>
+              <input
+                type="time"
+                value={policy.maintenanceWindow.end}
+                onChange={(e) => updatePolicy({ maintenanceWindow: { ...policy.maintenanceWindow!, end: e.target.value } })}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              />
+              <input
+                type="text"
+                value={policy.maintenanceWindow.timezone}
+                onChange={(e) => updatePolicy({ maintenanceWindow: { ...policy.maintenanceWindow!, timezone: e.target.value } })}
+                placeholder="Europe/Berlin"
+                className={`${inputClassName} flex-1 min-w-[10rem]`}
+              />
+            </div>
+          )}
+          <button
+            onClick={handleSavePolicy}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+          >
+            Save Policy
+          </button>
+        </div>
+      </div>
+
+      {/* Update history */}
+      {history.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Recent Updates</h3>
+          <div className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+            {history.map((entry, index) => (
+              <div key={`${entry.toolId}-${index}`} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-gray-900 dark:text-gray-100">
+                    {toolName(entry.toolId)} {entry.version}
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                      {entry.source} · {entry.installedAt.toLocaleString()}
+                      {entry.removedAt && entry.report?.rolledBack && ' · rolled back'}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{entry.notes}</p>
+                </div>
+                {!entry.removedAt && entry.source !== 'rollback' && versionManager.getCurrentVersion(entry.toolId) === entry.version && (
+                  <button
+                    onClick={() => handleRollback(entry.toolId)}
+                    disabled={busy}
+                    className="flex items-center gap-1 text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                    Roll back
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="text-sm text-red-600 dark:text-red-400">
+          {errors.map((error, index) => <p key={index}>{error}</p>)}
+        </div>
+      )}
+      {message && <p className="text-sm text-green-600 dark:text-green-400">{message}</p>}
+    </div>
+  )
+}
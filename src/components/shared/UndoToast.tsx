@@ -0,0 +1,75 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Undo2, Redo2, X } from 'lucide-react'
+import { undoHistory, UndoableOperation, UndoHistoryAction } from '@/lib/undo-history'
+
+const TOAST_DURATION_MS = 6000
+
+interface ToastState {
+  action: UndoHistoryAction
+  operation: UndoableOperation
+}
+
+/**
+ * Offers to undo a deletion right after it happens, and confirms keyboard undo and redo
+ */
+export function UndoToast() {
+  const [toast, setToast] = useState<ToastState | null>(null)
+
+  useEffect(() => {
+    return undoHistory.subscribe((action, operation) => {
+      // Ordinary edits stay quiet; they can still be undone with Ctrl+Z
+      if (action === 'recorded' && !operation.destructive) {
+        setToast(null)
+        return
+      }
+      setToast({ action, operation })
+    })
+  }, [])
+
+  useEffect(() => {
+    if (!toast) return
+    const timer = setTimeout(() => setToast(null), TOAST_DURATION_MS)
+    return () => clearTimeout(timer)
+  }, [toast])
+
+  if (!toast) return null
+
+  const { action, operation } = toast
+  // Only offer the step that applies to this very change
+  const canReverse = action === 'undone'
+    ? undoHistory.peekRedo()?.id === operation.id
+    : undoHistory.peekUndo()?.id === operation.id
+
+  const message = action === 'undone'
+    ? `Undone: ${operation.label}`
+    : action === 'redone'
+      ? `Redone: ${operation.label}`
+      : operation.label
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 px-4 py-3 bg-gray-900 dark:bg-gray-700 text-white text-sm rounded-xl shadow-lg"
+    >
+      <span>{message}</span>
+      {canReverse && (
+        <button
+          onClick={() => (action === 'undone' ? undoHistory.redo() : undoHistory.undo())}
+          className="flex items-center gap-1 font-medium text-indigo-300 hover:text-indigo-200"
+        >
+          {action === 'undone' ? <Redo2 className="w-4 h-4" /> : <Undo2 className="w-4 h-4" />}
+          {action === 'undone' ? 'Redo' : 'Undo'}
+        </button>
+      )}
+      <button
+        onClick={() => setToast(null)}
+        className="p-1 text-gray-400 hover:text-gray-200"
+        aria-label="Dismiss"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { RefreshCw, Undo2, X } from 'lucide-react'
+import { updateOrchestrator, OrchestratorEvent } from '@/lib/update-orchestrator'
+import { toolRegistry } from '@/lib/tool-registry'
+
+/**
+ * Starts the update orchestrator on every page so automatic updates are applied in
+ * their maintenance window, and tells the user what was updated or rolled back.
+ */
+export function UpdateScheduler() {
+  const [event, setEvent] = useState<OrchestratorEvent | null>(null)
+
+  useEffect(() => {
+    const unsubscribe = updateOrchestrator.subscribe(setEvent)
+    updateOrchestrator.start().catch(error => {
+      console.error('Failed to start update orchestrator:', error)
+    })
+    return () => {
+      unsubscribe()
+      updateOrchestrator.stop()
+    }
+  }, [])
+
+  if (!event) return null
+
+  const toolName = (toolId: string) => toolRegistry.get(toolId)?.name || toolId
+  let message: string
+  if (event.type === 'rollback') {
+    message = `${toolName(event.rollback.toolId)} ran into an error after updating, so it was rolled back to ${event.rollback.toVersion}${event.rollback.result.dataSnapshotId ? ' and its data restored' : ''}.`
+  } else {
+    const { applied, failed } = event.report
+    message = [
+      applied.length > 0 ? `Updated ${applied.map(r => `${toolName(r.toolId)} to ${r.toVersion}`).join(', ')}.` : '',
+      failed.length > 0 ? `${failed.length} automatic update${failed.length === 1 ? '' : 's'} failed.` : ''
+    ].filter(Boolean).join(' ')
+  }
+  const Icon = event.type === 'rollback' ? Undo2 : RefreshCw
+
+  return (
+    <div className="fixed top-4 right-4 z-40 max-w-sm p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg">
+      <div className="flex items-start gap-3">
+        <Icon className="w-5 h-5 text-indigo-600 dark:text-indigo-400 flex-shrink-0" />
+        <div className="text-sm">
+          <p className="text-gray-900 dark:text-gray-100">{message}</p>
+          {event.type === 'rollback' && (
+            // The open page still holds the newer data in memory and would save it over the restored data
+            <button
+              onClick={() => window.location.reload()}
+              className="mr-3 text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              Reload page
+            </button>
+          )}
+          <Link
+            href="/preferences"
+            onClick={() => setEvent(null)}
+            className="text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            Update settings
+          </Link>
+        </div>
+        <button
+          onClick={() => setEvent(null)}
+          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          aria-label="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AlertCircle, X } from 'lucide-react'
+import { workflowAutomationEngine } from '@/lib/workflow-automation'
+
+/**
+ * Starts the workflow engine on every page so scheduled workflows run,
+ * and runs missed while the app was closed are caught up, wherever the user is.
+ * Also points the user at workflow runs that were interrupted by closing the app.
+ */
+export function WorkflowScheduler() {
+  const [interruptedCount, setInterruptedCount] = useState(0)
+  const [dismissed, setDismissed] = useState(false)
+
+  useEffect(() => {
+    workflowAutomationEngine.initialize()
+      .then(() => setInterruptedCount(workflowAutomationEngine.getInterruptedExecutions().length))
+      .catch(error => {
+        console.error('Failed to start workflow scheduler:', error)
+      })
+  }, [])
+
+  if (interruptedCount === 0 || dismissed) return null
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 max-w-sm p-4 bg-white dark:bg-gray-800 border border-yellow-200 dark:border-yellow-800 rounded-xl shadow-lg">
+      <div className="flex items-start gap-3">
+        <AlertCircle className="w-5 h-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0" />
+        <div className="text-sm">
+          <p className="text-gray-900 dark:text-gray-100">
+            {interruptedCount} workflow run{interruptedCount === 1 ? ' was' : 's were'} interrupted when the app closed.
+          </p>
+          <Link
+            href="/workflows"
+            onClick={() => setDismissed(true)}
+            className="text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            Resume or abandon
+          </Link>
+        </div>
+        <button
+          onClick={() => setDismissed(true)}
+          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          aria-label="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react'
 import { ArrowLeft, Hash, Copy, Trash2 } from 'lucide-react'
 import Link from 'next/link'
+import { Storage, ToolDataStorage, ToolData } from '@/lib/storage'
 
 interface Calculation {
   id: string
@@ -11,38 +12,34 @@ interface Calculation {
   timestamp: Date
 }
 
+interface CalculatorData extends ToolData {
+  history: Calculation[]
+  lastModified?: string
+}
+
 const Calculator = () => {
   const [expression, setExpression] = useState('')
   const [result, setResult] = useState('')
   const [history, setHistory] = useState<Calculation[]>([])
   const [error, setError] = useState('')
 
-  // Load data from localStorage on mount
+  // Load data from storage on mount
   useEffect(() => {
-    try {
-      const stored = localStorage.getItem('tool-calculator-data')
-      if (stored) {
-        const parsed = JSON.parse(stored)
-        if (parsed.__schemaVersion >= 1) {
-          setHistory(parsed.history || [])
-        }
-      }
-    } catch (err) {
+    Storage.initialize().then(() => {
+      const stored = ToolDataStorage.get<CalculatorData>('calculator', { __schemaVersion: 1, history: [] })
+      setHistory(stored.history || [])
+    }).catch(err => {
       console.warn('Failed to load calculator data:', err)
-    }
+    })
   }, [])
 
-  // Save calculation history to localStorage
+  // Save calculation history to storage
   const saveData = (updatedHistory: Calculation[]) => {
-    try {
-      localStorage.setItem('tool-calculator-data', JSON.stringify({
-        __schemaVersion: 1,
-        history: updatedHistory,
-        lastModified: new Date().toISOString()
-      }))
-    } catch (err) {
-      console.error('Failed to save calculator data:', err)
-    }
+    ToolDataStorage.set<CalculatorData>('calculator', {
+      __schemaVersion: 1,
+      history: updatedHistory,
+      lastModified: new Date().toISOString()
+    })
   }
 
   // Simple expression evaluation function
@@ -18,10 +18,16 @@ import {
   CheckCircle,
   Download,
   Upload,
-  RotateCcw
+  RotateCcw,
+  Share2
 } from 'lucide-react'
 import { collectionManager, Collection, COLLECTION_COLORS, COLLECTION_ICONS } from '@/lib/collections'
 import { toolRegistry, Tool } from '@/lib/tool-registry'
+import { undoHistory } from '@/lib/undo-history'
+import { ToolImportExport, ToolPackage } from '@/lib/tool-import-export'
+import { packageSigning } from '@/lib/package-signing'
+import { encryptedStorage } from '@/lib/storage'
+import { ShareLinkDialog } from '@/components/shared/ShareLinkDialog'
 
 interface CollectionFormData {
   name: string
@@ -48,11 +54,19 @@ const CollectionsManager = () => {
   })
   const [errors, setErrors] = useState<string[]>([])
   const [successMessage, setSuccessMessage] = useState('')
+  const [sharePackage, setSharePackage] = useState<ToolPackage | null>(null)
+  const [signShare, setSignShare] = useState(false)
 
   useEffect(() => {
     loadData()
   }, [])
 
+  useEffect(() => {
+    return undoHistory.subscribe(action => {
+      if (action !== 'recorded') loadData()
+    })
+  }, [])
+
   const loadData = async () => {
     await collectionManager.initialize()
     setCollections(collectionManager.getAll())
@@ -122,7 +136,7 @@ const CollectionsManager = () => {
   }
 
   const handleDeleteCollection = (collection: Collection) => {
-    if (confirm(`Are you sure you want to delete "${collection.name}"? This action cannot be undone.`)) {
+    if (confirm(`Are you sure you want to delete "${collection.name}"?`)) {
       const success = collectionManager.deleteCollection(collection.id)
       if (success) {
         setSuccessMessage('Collection deleted successfully!')
@@ -140,6 +154,12 @@ const CollectionsManager = () => {
     handleInputChange('toolIds', newToolIds)
   }
 
+  const handleShareCollection = (collection: Collection) => {
+    // Sign when this browser has a key and it's usable right now
+    setSignShare(!!packageSigning.getIdentity() && encryptedStorage.getState() === 'unlocked')
+    setSharePackage(ToolImportExport.exportCollection(collection, tools))
+  }
+
   const exportCollections = () => {
     const data = {
       collections: collections,
@@ -499,6 +519,13 @@ const CollectionsManager = () => {
                     </div>
                     
                     <div className="flex items-center gap-2 ml-4">
+                      <button
+                        onClick={() => handleShareCollection(collection)}
+                        className="p-2 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-lg transition-colors"
+                        title={`Share ${collection.isWorkflow ? 'workflow' : 'collection'} as a link or QR code`}
+                      >
+                        <Share2 className="w-4 h-4" />
+                      </button>
                       <button
                         onClick={() => handleEditCollection(collection)}
                         className="p-2 text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-lg transition-colors"
@@ -521,6 +548,11 @@ const CollectionsManager = () => {
           )}
         </div>
       </div>
+      <ShareLinkDialog
+        toolPackage={sharePackage}
+        onClose={() => setSharePackage(null)}
+        sign={signShare}
+      />
     </div>
   )
 }
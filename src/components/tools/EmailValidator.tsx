@@ -3,13 +3,7 @@
 import React, { useState, useCallback, useMemo } from 'react'
 import { Mail, Check, X, AlertTriangle, ArrowLeft, Download, Upload } from 'lucide-react'
 import Link from 'next/link'
-
-interface EmailValidationResult {
-  email: string
-  isValid: boolean
-  issues: string[]
-  suggestions?: string
-}
+import { validateEmail, splitEmailList, EmailValidationResult } from '@/lib/tool-actions'
 
 interface ValidationStats {
   total: number
@@ -24,125 +18,16 @@ const EmailValidator = () => {
   const [isValidating, setIsValidating] = useState(false)
   const [showOnlyInvalid, setShowOnlyInvalid] = useState(false)
 
-  // Common email domains for suggestions
-  const commonDomains = [
-    'gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'aol.com',
-    'icloud.com', 'live.com', 'msn.com', 'comcast.net', 'verizon.net'
-  ]
-
-  // Outlook-specific validation rules
-  const outlookDomains = ['outlook.com', 'hotmail.com', 'live.com', 'msn.com']
-
-  const validateEmail = useCallback((email: string): EmailValidationResult => {
-    const trimmedEmail = email.trim().toLowerCase()
-    const issues: string[] = []
-    let suggestions: string | undefined
-
-    // Basic format validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-    const isBasicValid = emailRegex.test(trimmedEmail)
-
-    if (!isBasicValid) {
-      issues.push('Invalid email format')
-    }
-
-    // Check for common issues
-    if (trimmedEmail.includes('..')) {
-      issues.push('Contains consecutive dots')
-    }
-
-    if (trimmedEmail.startsWith('.') || trimmedEmail.endsWith('.')) {
-      issues.push('Starts or ends with a dot')
-    }
-
-    if (trimmedEmail.includes(' ')) {
-      issues.push('Contains spaces')
-    }
-
-    // Check for special characters in local part
-    const localPart = trimmedEmail.split('@')[0]
-    if (localPart && /[<>()[\]\\,;:\s@"]/.test(localPart)) {
-      issues.push('Contains invalid characters in local part')
-    }
-
-    // Domain validation
-    const domain = trimmedEmail.split('@')[1]
-    if (domain) {
-      // Check for valid domain format
-      if (!/^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(domain)) {
-        issues.push('Invalid domain format')
-      }
-
-      // Check for common typos in popular domains
-      const domainLower = domain.toLowerCase()
-      
-      // Gmail typos
-      if (['gmai.com', 'gmial.com', 'gmail.co', 'gmaill.com'].includes(domainLower)) {
-        suggestions = trimmedEmail.replace(domainLower, 'gmail.com')
-        issues.push('Possible typo in domain')
-      }
-      
-      // Yahoo typos
-      if (['yaho.com', 'yahoo.co', 'yahooo.com'].includes(domainLower)) {
-        suggestions = trimmedEmail.replace(domainLower, 'yahoo.com')
-        issues.push('Possible typo in domain')
-      }
-      
-      // Outlook typos
-      if (['outlook.co', 'outlok.com', 'outloo.com'].includes(domainLower)) {
-        suggestions = trimmedEmail.replace(domainLower, 'outlook.com')
-        issues.push('Possible typo in domain')
-      }
-
-      // Check for missing TLD
-      if (!domain.includes('.')) {
-        issues.push('Missing top-level domain')
-      }
-
-      // Check for suspicious domains
-      if (domain.includes('test') || domain.includes('example')) {
-        issues.push('Test or example domain')
-      }
-    }
-
-    // Check for Outlook-specific issues
-    if (domain && outlookDomains.includes(domain)) {
-      // Outlook emails have specific length limits
-      if (localPart && localPart.length > 64) {
-        issues.push('Local part too long for Outlook (max 64 characters)')
-      }
-    }
-
-    // Check for disposable email domains
-    const disposableDomains = [
-      '10minutemail.com', 'tempmail.org', 'guerrillamail.com', 
-      'mailinator.com', 'throwaway.email'
-    ]
-    if (domain && disposableDomains.includes(domain)) {
-      issues.push('Disposable email domain')
-    }
-
-    return {
-      email: trimmedEmail,
-      isValid: issues.length === 0,
-      issues,
-      suggestions
-    }
-  }, [outlookDomains])
-
   const validateEmailList = useCallback(() => {
     setIsValidating(true)
     
     // Split emails by common delimiters
-    const emails = emailList
-      .split(/[,;\n\r\t]+/)
-      .map(email => email.trim())
-      .filter(email => email.length > 0)
+    const emails = splitEmailList(emailList)
 
     const validationResults = emails.map(validateEmail)
     setResults(validationResults)
     setIsValidating(false)
-  }, [emailList, validateEmail])
+  }, [emailList])
 
   const stats: ValidationStats = useMemo(() => {
     const total = results.length
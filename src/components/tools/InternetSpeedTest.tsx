@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useCallback } from 'react'
 import { Zap, Download, Upload, Wifi, Clock, History, Play, Square, RotateCcw, ArrowLeft } from 'lucide-react'
 import Link from 'next/link'
+import { Storage, ToolDataStorage, ToolData } from '@/lib/storage'
 
 interface SpeedTestResult {
   id: string
@@ -12,10 +13,9 @@ interface SpeedTestResult {
   status: 'completed' | 'failed' | 'partial'
 }
 
-interface SpeedTestData {
-  __schemaVersion: number
+interface SpeedTestData extends ToolData {
   results: SpeedTestResult[]
-  lastModified: string
+  lastModified?: string
 }
 
 type TestPhase = 'idle' | 'ping' | 'download' | 'upload' | 'completed'
@@ -30,17 +30,13 @@ const InternetSpeedTest = () => {
   const [results, setResults] = useState<SpeedTestResult[]>([])
   const [error, setError] = useState<string | null>(null)
 
-  // Load saved results from localStorage
+  // Load saved results from storage
   useEffect(() => {
-    const loadResults = () => {
+    const loadResults = async () => {
       try {
-        const stored = localStorage.getItem('tool-speed-test-data')
-        if (stored) {
-          const parsed: SpeedTestData = JSON.parse(stored)
-          if (parsed.__schemaVersion >= 1) {
-            setResults(parsed.results || [])
-          }
-        }
+        await Storage.initialize()
+        const stored = ToolDataStorage.get<SpeedTestData>('speed-test', { __schemaVersion: 1, results: [] })
+        setResults(stored.results || [])
       } catch (error) {
         console.warn('Failed to load speed test results:', error)
       }
@@ -48,19 +44,15 @@ const InternetSpeedTest = () => {
     loadResults()
   }, [])
 
-  // Save results to localStorage
+  // Save results to storage
   const saveResults = useCallback((newResults: SpeedTestResult[]) => {
-    try {
-      const data: SpeedTestData = {
-        __schemaVersion: 1,
-        results: newResults.slice(0, 50), // Keep only last 50 results
-        lastModified: new Date().toISOString()
-      }
-      localStorage.setItem('tool-speed-test-data', JSON.stringify(data))
-      setResults(newResults)
-    } catch (error) {
-      console.error('Failed to save speed test results:', error)
+    const data: SpeedTestData = {
+      __schemaVersion: 1,
+      results: newResults.slice(0, 50), // Keep only last 50 results
+      lastModified: new Date().toISOString()
     }
+    ToolDataStorage.set('speed-test', data)
+    setResults(newResults)
   }, [])
 
   // Ping test using image loading technique
@@ -2,6 +2,9 @@
 import React, { useState, useEffect } from 'react'
 import { ArrowLeft, Key, Copy, CheckCircle, AlertCircle } from 'lucide-react'
 import Link from 'next/link'
+import { Storage, ToolDataStorage, ToolData, encryptedStorage } from '@/lib/storage'
+import { EncryptionState } from '@/lib/storage-encryption'
+import { EncryptedStorageLock } from '@/components/shared/EncryptedStorageLock'
 
 interface Preferences {
   length: number
@@ -11,10 +14,11 @@ interface Preferences {
   includeSymbols: boolean
 }
 
-interface StoredData {
+interface StoredData extends ToolData {
   __schemaVersion: 1
-  prefs: Preferences
-  lastModified: string
+  prefs?: Preferences
+  recent?: string[]
+  lastModified?: string
 }
 
 const PasswordGenerator: React.FC = () => {
@@ -24,39 +28,42 @@ const PasswordGenerator: React.FC = () => {
   const [recent, setRecent] = useState<string[]>([])
   const [copySuccess, setCopySuccess] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [encryptionState, setEncryptionState] = useState<EncryptionState | null>(null)
+  const [dataLoaded, setDataLoaded] = useState(false)
 
   useEffect(() => {
-    const loadPrefs = () => {
-      try {
-        const stored = localStorage.getItem('tool-password-generator-data')
-        if (stored) {
-          const data: StoredData = JSON.parse(stored)
-          if (data.__schemaVersion >= 1) {
-            setPrefs(data.prefs || prefs)
-          }
-        }
-      } catch (err) {
-        console.warn('Failed to load prefs:', err)
-      }
-    }
-    loadPrefs()
+    Storage.initialize().then(() => setEncryptionState(encryptedStorage.getState()))
+    return encryptedStorage.subscribe(setEncryptionState)
   }, [])
 
+  // Saved data is stored plainly until a passphrase is set, and can then only be read while unlocked
   useEffect(() => {
-    const savePrefs = () => {
-      try {
-        const data: StoredData = {
-          __schemaVersion: 1,
-          prefs,
-          lastModified: new Date().toISOString()
-        }
-        localStorage.setItem('tool-password-generator-data', JSON.stringify(data))
-      } catch (err) {
-        console.error('Failed to save prefs:', err)
-      }
+    if (encryptionState === null || encryptionState === 'locked') {
+      setRecent([])
+      setDataLoaded(false)
+      return
     }
-    savePrefs()
-  }, [prefs])
+
+    const data = ToolDataStorage.get<StoredData>('password-generator', { __schemaVersion: 1 })
+    if (data.prefs) {
+      setPrefs(data.prefs)
+    }
+    setRecent(data.recent || [])
+    setDataLoaded(true)
+  }, [encryptionState])
+
+  useEffect(() => {
+    // Don't overwrite stored data with the defaults before it has been loaded
+    if (!dataLoaded) return
+
+    const data: StoredData = {
+      __schemaVersion: 1,
+      prefs,
+      recent,
+      lastModified: new Date().toISOString()
+    }
+    ToolDataStorage.set('password-generator', data)
+  }, [prefs, recent, dataLoaded])
 
   const generatePassword = () => {
     try {
@@ -125,6 +132,10 @@ const PasswordGenerator: React.FC = () => {
           </div>
         </div>
 
+        <div className="mb-6">
+          <EncryptedStorageLock description="Set a passphrase to keep your options and recent passwords encrypted. Once it's set, unlock to load and keep them." />
+        </div>
+
         {/* Options Card */}
         <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
           <h2 className="text-lg font-semibold text-gray-800 mb-4">Generation Options</h2>
@@ -197,7 +208,9 @@ const PasswordGenerator: React.FC = () => {
         {/* Recent Generations Card */}
         {recent.length > 0 && (
           <div className="bg-white rounded-xl shadow-lg p-6">
-            <h2 className="text-lg font-semibold text-gray-800 mb-4">Recent Generations (Clears on Refresh)</h2>
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">
+              Recent Generations {encryptionState === 'unlocked' ? '(Saved Encrypted)' : encryptionState === 'locked' ? '(Clears on Refresh)' : '(Saved)'}
+            </h2>
             <ul className="space-y-2">
               {recent.map((pw, i) => (
                 <li key={i} className="p-2 bg-gray-50 rounded text-sm font-mono truncate">{pw}</li>
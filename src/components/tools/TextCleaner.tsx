@@ -1,84 +1,16 @@
 'use client'
 
-import React, { useState, useCallback, useMemo } from 'react'
+import React, { useState, useMemo } from 'react'
 import { Copy, Check, Eraser, ArrowLeft, Download } from 'lucide-react'
 import Link from 'next/link'
+import { cleanText, DEFAULT_TEXT_CLEANING_OPTIONS, TextCleaningOptions } from '@/lib/tool-actions'
 
 const TextCleaner = () => {
   const [inputText, setInputText] = useState('')
   const [copied, setCopied] = useState(false)
-  const [cleaningOptions, setCleaningOptions] = useState({
-    removeExtraSpaces: true,
-    removeExtraLineBreaks: true,
-    removeLeadingTrailingSpaces: true,
-    removeSpecialCharacters: false,
-    removeNumbers: false,
-    convertToLowercase: false,
-    convertToUppercase: false,
-    removeEmptyLines: true,
-    normalizeLineEndings: true,
-    removeTabsAndIndentation: false
-  })
+  const [cleaningOptions, setCleaningOptions] = useState<TextCleaningOptions>(DEFAULT_TEXT_CLEANING_OPTIONS)
 
-  const cleanText = useCallback((text: string) => {
-    if (!text) return ''
-    
-    let cleaned = text
-
-    // Remove leading and trailing spaces from each line
-    if (cleaningOptions.removeLeadingTrailingSpaces) {
-      cleaned = cleaned.split('\n').map(line => line.trim()).join('\n')
-    }
-
-    // Remove extra spaces (multiple spaces become single space)
-    if (cleaningOptions.removeExtraSpaces) {
-      cleaned = cleaned.replace(/[ \t]+/g, ' ')
-    }
-
-    // Remove tabs and indentation
-    if (cleaningOptions.removeTabsAndIndentation) {
-      cleaned = cleaned.replace(/^\s+/gm, '')
-    }
-
-    // Remove empty lines
-    if (cleaningOptions.removeEmptyLines) {
-      cleaned = cleaned.replace(/^\s*\n/gm, '')
-    }
-
-    // Remove extra line breaks (multiple line breaks become single)
-    if (cleaningOptions.removeExtraLineBreaks) {
-      cleaned = cleaned.replace(/\n{3,}/g, '\n\n')
-    }
-
-    // Normalize line endings
-    if (cleaningOptions.normalizeLineEndings) {
-      cleaned = cleaned.replace(/\r\n/g, '\n').replace(/\r/g, '\n')
-    }
-
-    // Remove special characters (keep only letters, numbers, spaces, and basic punctuation)
-    if (cleaningOptions.removeSpecialCharacters) {
-      cleaned = cleaned.replace(/[^\w\s.,!?;:'"()\-]/g, '')
-    }
-
-    // Remove numbers
-    if (cleaningOptions.removeNumbers) {
-      cleaned = cleaned.replace(/\d/g, '')
-    }
-
-    // Case conversion
-    if (cleaningOptions.convertToLowercase) {
-      cleaned = cleaned.toLowerCase()
-    } else if (cleaningOptions.convertToUppercase) {
-      cleaned = cleaned.toUpperCase()
-    }
-
-    // Final cleanup - remove leading/trailing whitespace
-    cleaned = cleaned.trim()
-
-    return cleaned
-  }, [cleaningOptions])
-
-  const cleanedText = useMemo(() => cleanText(inputText), [inputText, cleanText])
+  const cleanedText = useMemo(() => cleanText(inputText, cleaningOptions), [inputText, cleaningOptions])
 
   const handleCopy = async () => {
     try {
@@ -16,6 +16,7 @@ import {
   CheckCircle
 } from 'lucide-react'
 import { toolRegistry, Tool, ToolCategory } from '@/lib/tool-registry'
+import { undoHistory } from '@/lib/undo-history'
 
 interface ToolFormData {
   id: string
@@ -54,6 +55,12 @@ const ToolRegistryManager = () => {
     loadTools()
   }, [])
 
+  useEffect(() => {
+    return undoHistory.subscribe((action, operation) => {
+      if (action !== 'recorded' && operation.source === 'registry') loadTools()
+    })
+  }, [])
+
   const loadTools = () => {
     setTools(toolRegistry.getAll())
     setIsLoading(false)
@@ -142,7 +149,7 @@ const ToolRegistryManager = () => {
   }
 
   const handleDeleteTool = (tool: Tool) => {
-    if (confirm(`Are you sure you want to delete "${tool.name}"? This action cannot be undone.`)) {
+    if (confirm(`Are you sure you want to delete "${tool.name}"?`)) {
       const success = toolRegistry.removeTool(tool.id)
       if (success) {
         setSuccessMessage('Tool deleted successfully!')
@@ -456,6 +463,7 @@ const ToolRegistryManager = () => {
                       <div className="flex items-center gap-4 text-sm text-gray-500">
                         <span>ID: {tool.id}</span>
                         <span>Path: {tool.path}</span>
+                        {tool.externalUrl && <span className="truncate max-w-xs">Opens: {tool.externalUrl}</span>}
                         <span>Version: {tool.version}</span>
                         <div className="flex items-center gap-1">
                           <Clock className="w-3 h-3" />
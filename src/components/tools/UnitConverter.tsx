@@ -1,20 +1,9 @@
 'use client'
 
-import React, { useState, useCallback, useMemo } from 'react'
+import React, { useState, useCallback } from 'react'
 import { ArrowLeftRight, ArrowLeft, Calculator } from 'lucide-react'
 import Link from 'next/link'
-
-interface Unit {
-  name: string
-  symbol: string
-  toBase: (value: number) => number
-  fromBase: (value: number) => number
-}
-
-interface UnitCategory {
-  name: string
-  units: Record<string, Unit>
-}
+import { UNIT_CATEGORIES, convertUnits, formatConvertedValue } from '@/lib/tool-actions'
 
 const UnitConverter = () => {
   const [selectedCategory, setSelectedCategory] = useState('length')
@@ -23,125 +12,8 @@ const UnitConverter = () => {
   const [inputValue, setInputValue] = useState('1')
   const [result, setResult] = useState('3.28084')
 
-  const unitCategories: Record<string, UnitCategory> = useMemo(() => ({
-    length: {
-      name: 'Length',
-      units: {
-        meter: { name: 'Meter', symbol: 'm', toBase: (v) => v, fromBase: (v) => v },
-        kilometer: { name: 'Kilometer', symbol: 'km', toBase: (v) => v * 1000, fromBase: (v) => v / 1000 },
-        centimeter: { name: 'Centimeter', symbol: 'cm', toBase: (v) => v / 100, fromBase: (v) => v * 100 },
-        millimeter: { name: 'Millimeter', symbol: 'mm', toBase: (v) => v / 1000, fromBase: (v) => v * 1000 },
-        inch: { name: 'Inch', symbol: 'in', toBase: (v) => v * 0.0254, fromBase: (v) => v / 0.0254 },
-        foot: { name: 'Foot', symbol: 'ft', toBase: (v) => v * 0.3048, fromBase: (v) => v / 0.3048 },
-        yard: { name: 'Yard', symbol: 'yd', toBase: (v) => v * 0.9144, fromBase: (v) => v / 0.9144 },
-        mile: { name: 'Mile', symbol: 'mi', toBase: (v) => v * 1609.344, fromBase: (v) => v / 1609.344 },
-        nauticalMile: { name: 'Nautical Mile', symbol: 'nmi', toBase: (v) => v * 1852, fromBase: (v) => v / 1852 }
-      }
-    },
-    weight: {
-      name: 'Weight',
-      units: {
-        kilogram: { name: 'Kilogram', symbol: 'kg', toBase: (v) => v, fromBase: (v) => v },
-        gram: { name: 'Gram', symbol: 'g', toBase: (v) => v / 1000, fromBase: (v) => v * 1000 },
-        pound: { name: 'Pound', symbol: 'lb', toBase: (v) => v * 0.453592, fromBase: (v) => v / 0.453592 },
-        ounce: { name: 'Ounce', symbol: 'oz', toBase: (v) => v * 0.0283495, fromBase: (v) => v / 0.0283495 },
-        ton: { name: 'Metric Ton', symbol: 't', toBase: (v) => v * 1000, fromBase: (v) => v / 1000 },
-        stone: { name: 'Stone', symbol: 'st', toBase: (v) => v * 6.35029, fromBase: (v) => v / 6.35029 }
-      }
-    },
-    temperature: {
-      name: 'Temperature',
-      units: {
-        celsius: { 
-          name: 'Celsius', 
-          symbol: '°C', 
-          toBase: (v) => v, 
-          fromBase: (v) => v 
-        },
-        fahrenheit: { 
-          name: 'Fahrenheit', 
-          symbol: '°F', 
-          toBase: (v) => (v - 32) * 5/9, 
-          fromBase: (v) => v * 9/5 + 32 
-        },
-        kelvin: { 
-          name: 'Kelvin', 
-          symbol: 'K', 
-          toBase: (v) => v - 273.15, 
-          fromBase: (v) => v + 273.15 
-        },
-        rankine: { 
-          name: 'Rankine', 
-          symbol: '°R', 
-          toBase: (v) => (v - 491.67) * 5/9, 
-          fromBase: (v) => v * 9/5 + 491.67 
-        }
-      }
-    },
-    area: {
-      name: 'Area',
-      units: {
-        squareMeter: { name: 'Square Meter', symbol: 'm²', toBase: (v) => v, fromBase: (v) => v },
-        squareKilometer: { name: 'Square Kilometer', symbol: 'km²', toBase: (v) => v * 1000000, fromBase: (v) => v / 1000000 },
-        squareCentimeter: { name: 'Square Centimeter', symbol: 'cm²', toBase: (v) => v / 10000, fromBase: (v) => v * 10000 },
-        squareInch: { name: 'Square Inch', symbol: 'in²', toBase: (v) => v * 0.00064516, fromBase: (v) => v / 0.00064516 },
-        squareFoot: { name: 'Square Foot', symbol: 'ft²', toBase: (v) => v * 0.092903, fromBase: (v) => v / 0.092903 },
-        acre: { name: 'Acre', symbol: 'ac', toBase: (v) => v * 4046.86, fromBase: (v) => v / 4046.86 },
-        hectare: { name: 'Hectare', symbol: 'ha', toBase: (v) => v * 10000, fromBase: (v) => v / 10000 }
-      }
-    },
-    volume: {
-      name: 'Volume',
-      units: {
-        liter: { name: 'Liter', symbol: 'L', toBase: (v) => v, fromBase: (v) => v },
-        milliliter: { name: 'Milliliter', symbol: 'mL', toBase: (v) => v / 1000, fromBase: (v) => v * 1000 },
-        gallon: { name: 'Gallon (US)', symbol: 'gal', toBase: (v) => v * 3.78541, fromBase: (v) => v / 3.78541 },
-        quart: { name: 'Quart (US)', symbol: 'qt', toBase: (v) => v * 0.946353, fromBase: (v) => v / 0.946353 },
-        pint: { name: 'Pint (US)', symbol: 'pt', toBase: (v) => v * 0.473176, fromBase: (v) => v / 0.473176 },
-        cup: { name: 'Cup (US)', symbol: 'cup', toBase: (v) => v * 0.236588, fromBase: (v) => v / 0.236588 },
-        fluidOunce: { name: 'Fluid Ounce (US)', symbol: 'fl oz', toBase: (v) => v * 0.0295735, fromBase: (v) => v / 0.0295735 },
-        cubicMeter: { name: 'Cubic Meter', symbol: 'm³', toBase: (v) => v * 1000, fromBase: (v) => v / 1000 }
-      }
-    },
-    speed: {
-      name: 'Speed',
-      units: {
-        meterPerSecond: { name: 'Meter per Second', symbol: 'm/s', toBase: (v) => v, fromBase: (v) => v },
-        kilometerPerHour: { name: 'Kilometer per Hour', symbol: 'km/h', toBase: (v) => v / 3.6, fromBase: (v) => v * 3.6 },
-        milePerHour: { name: 'Mile per Hour', symbol: 'mph', toBase: (v) => v * 0.44704, fromBase: (v) => v / 0.44704 },
-        footPerSecond: { name: 'Foot per Second', symbol: 'ft/s', toBase: (v) => v * 0.3048, fromBase: (v) => v / 0.3048 },
-        knot: { name: 'Knot', symbol: 'kn', toBase: (v) => v * 0.514444, fromBase: (v) => v / 0.514444 }
-      }
-    },
-    energy: {
-      name: 'Energy',
-      units: {
-        joule: { name: 'Joule', symbol: 'J', toBase: (v) => v, fromBase: (v) => v },
-        kilojoule: { name: 'Kilojoule', symbol: 'kJ', toBase: (v) => v * 1000, fromBase: (v) => v / 1000 },
-        calorie: { name: 'Calorie', symbol: 'cal', toBase: (v) => v * 4.184, fromBase: (v) => v / 4.184 },
-        kilocalorie: { name: 'Kilocalorie', symbol: 'kcal', toBase: (v) => v * 4184, fromBase: (v) => v / 4184 },
-        wattHour: { name: 'Watt Hour', symbol: 'Wh', toBase: (v) => v * 3600, fromBase: (v) => v / 3600 },
-        kilowattHour: { name: 'Kilowatt Hour', symbol: 'kWh', toBase: (v) => v * 3600000, fromBase: (v) => v / 3600000 },
-        btu: { name: 'British Thermal Unit', symbol: 'BTU', toBase: (v) => v * 1055.06, fromBase: (v) => v / 1055.06 }
-      }
-    }
-  }), [])
-
-  const convert = useCallback((value: number, fromUnitKey: string, toUnitKey: string, category: string) => {
-    if (isNaN(value)) return 0
-    
-    const categoryData = unitCategories[category]
-    if (!categoryData) return 0
-    
-    const fromUnitData = categoryData.units[fromUnitKey]
-    const toUnitData = categoryData.units[toUnitKey]
-    
-    if (!fromUnitData || !toUnitData) return 0
-    
-    // Convert to base unit, then to target unit
-    const baseValue = fromUnitData.toBase(value)
-    return toUnitData.fromBase(baseValue)
-  }, [unitCategories])
+  const unitCategories = UNIT_CATEGORIES
+  const convert = convertUnits
 
   const handleInputChange = useCallback((value: string) => {
     setInputValue(value)
@@ -196,19 +68,7 @@ const UnitConverter = () => {
     setResult(inputValue)
   }, [fromUnit, toUnit, inputValue, result])
 
-  const formatResult = (value: string) => {
-    const num = parseFloat(value)
-    if (isNaN(num)) return ''
-    
-    // Format with appropriate precision
-    if (Math.abs(num) >= 1000000) {
-      return num.toExponential(6)
-    } else if (Math.abs(num) < 0.001 && num !== 0) {
-      return num.toExponential(6)
-    } else {
-      return num.toFixed(8).replace(/\.?0+$/, '')
-    }
-  }
+  const formatResult = (value: string) => formatConvertedValue(parseFloat(value))
 
   const currentCategory = unitCategories[selectedCategory]
   const fromUnitData = currentCategory.units[fromUnit]
@@ -26,7 +26,8 @@ import {
   StopCircle,
   RefreshCw,
   Download,
-  Upload
+  Upload,
+  ChevronDown
 } from 'lucide-react'
 import { 
   workflowAutomationEngine, 
@@ -34,15 +35,64 @@ import {
   WorkflowSchedule, 
   WorkflowTrigger,
   WorkflowMetrics,
-  WORKFLOW_TEMPLATES
+  ScheduleRunLogEntry,
+  ScheduleCatchUpPolicy,
+  WorkflowVariable,
+  ExecutionRetentionPolicy,
+  findTemplatePlaceholders
 } from '@/lib/workflow-automation'
-import { collectionManager, Collection } from '@/lib/collections'
+import { collectionManager, Collection, WorkflowInputMapping, WorkflowStep, WorkflowErrorPolicy } from '@/lib/collections'
 import { toolRegistry } from '@/lib/tool-registry'
+import { EXTERNAL_EVENT_NAME } from '@/lib/event-bus'
+import WorkflowTemplateGallery from './WorkflowTemplateGallery'
+import WorkflowExecutionTimeline from './WorkflowExecutionTimeline'
 
 interface WorkflowAutomationManagerProps {
   workflowId?: string
 }
 
+interface ScheduleDraft {
+  name: string
+  type: WorkflowSchedule['type']
+  startsAt: string // datetime-local value
+  intervalMinutes: number
+  daysOfWeek: number[]
+  dayOfMonth: number
+  cronExpression: string
+  catchUpPolicy: ScheduleCatchUpPolicy
+}
+
+const EMPTY_SCHEDULE_DRAFT: ScheduleDraft = {
+  name: '',
+  type: 'daily',
+  startsAt: '',
+  intervalMinutes: 60,
+  daysOfWeek: [1],
+  dayOfMonth: 1,
+  cronExpression: '0 9 * * 1-5',
+  catchUpPolicy: 'run_once'
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+interface TriggerDraft {
+  type: 'tool_usage' | 'data_change' | 'external_event'
+  toolId: string
+  key: string
+  crossTab: 'any' | 'this_tab' | 'other_tabs'
+  eventName: string
+  cooldownSeconds: number
+}
+
+const EMPTY_TRIGGER_DRAFT: TriggerDraft = {
+  type: 'tool_usage',
+  toolId: '',
+  key: 'tool-*-data',
+  crossTab: 'any',
+  eventName: '',
+  cooldownSeconds: 0
+}
+
 const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ workflowId }) => {
   const [workflows, setWorkflows] = useState<Collection[]>([])
   const [executions, setExecutions] = useState<WorkflowExecution[]>([])
@@ -54,6 +104,23 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
   const [showScheduleForm, setShowScheduleForm] = useState(false)
   const [showTriggerForm, setShowTriggerForm] = useState(false)
   const [metrics, setMetrics] = useState<WorkflowMetrics | null>(null)
+  const [editingStepIndex, setEditingStepIndex] = useState<number | null>(null)
+  const [mappingDraft, setMappingDraft] = useState<WorkflowInputMapping[]>([])
+  const [mappingErrors, setMappingErrors] = useState<string[]>([])
+  const [policyDraft, setPolicyDraft] = useState<Pick<WorkflowStep, 'retry' | 'timeoutSeconds' | 'onError' | 'fallbackStepIndex'>>({})
+  const [scheduleDraft, setScheduleDraft] = useState<ScheduleDraft>(EMPTY_SCHEDULE_DRAFT)
+  const [scheduleError, setScheduleError] = useState<string | null>(null)
+  const [scheduleLog, setScheduleLog] = useState<ScheduleRunLogEntry[]>([])
+  const [triggerDraft, setTriggerDraft] = useState<TriggerDraft>(EMPTY_TRIGGER_DRAFT)
+  const [showTemplateForm, setShowTemplateForm] = useState(false)
+  const [templateDraft, setTemplateDraft] = useState({ name: '', category: '', tags: '' })
+  const [templateVariables, setTemplateVariables] = useState<WorkflowVariable[]>([])
+  const [templateErrors, setTemplateErrors] = useState<string[]>([])
+  const [templateGalleryKey, setTemplateGalleryKey] = useState(0)
+  const [expandedExecutionId, setExpandedExecutionId] = useState<string | null>(null)
+  const [replayError, setReplayError] = useState<string | null>(null)
+  const [retention, setRetention] = useState<ExecutionRetentionPolicy>(() => workflowAutomationEngine.getRetentionPolicy())
+  const [interruptedExecutions, setInterruptedExecutions] = useState<WorkflowExecution[]>([])
 
   useEffect(() => {
     loadData()
@@ -76,6 +143,8 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
     setExecutions(workflowAutomationEngine.getExecutions())
     setSchedules(workflowAutomationEngine.getSchedules())
     setTriggers(workflowAutomationEngine.getTriggers())
+    setRetention(workflowAutomationEngine.getRetentionPolicy())
+    setInterruptedExecutions(workflowAutomationEngine.getInterruptedExecutions())
     
     if (workflowId) {
       const workflow = workflowCollections.find(w => w.id === workflowId)
@@ -95,6 +164,9 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
     
     setExecutions(workflowExecutions)
     setMetrics(workflowMetrics)
+    setSchedules(workflowAutomationEngine.getSchedules().filter(s => s.workflowId === workflowId))
+    setScheduleLog(workflowAutomationEngine.getScheduleLog().filter(entry => entry.workflowId === workflowId))
+    setTriggers(workflowAutomationEngine.getTriggers().filter(t => t.workflowId === workflowId))
   }
 
   const executeWorkflow = async (workflow: Collection, autoAdvance: boolean = true) => {
@@ -121,6 +193,299 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
     loadWorkflowData(selectedWorkflow!.id)
   }
 
+  const resumeInterruptedExecution = async (execution: WorkflowExecution) => {
+    const promise = workflowAutomationEngine.resumeExecution(execution.id)
+    setInterruptedExecutions(workflowAutomationEngine.getInterruptedExecutions())
+    await promise
+    if (selectedWorkflow) loadWorkflowData(selectedWorkflow.id)
+  }
+
+  const abandonInterruptedExecution = (executionId: string) => {
+    workflowAutomationEngine.abandonExecution(executionId)
+    setInterruptedExecutions(workflowAutomationEngine.getInterruptedExecutions())
+    if (selectedWorkflow) loadWorkflowData(selectedWorkflow.id)
+  }
+
+  const replayExecution = async (executionId: string) => {
+    try {
+      const replay = await workflowAutomationEngine.replayFromFailedStep(executionId)
+      setReplayError(null)
+      setExpandedExecutionId(replay.id)
+    } catch (error) {
+      setReplayError(error instanceof Error ? error.message : String(error))
+    }
+    loadWorkflowData(selectedWorkflow!.id)
+  }
+
+  // Applied on blur so half-typed numbers don't prune history
+  const applyRetention = () => {
+    if (retention.maxExecutionsPerWorkflow >= 1 && retention.maxAgeDays >= 1) {
+      workflowAutomationEngine.setRetentionPolicy(retention)
+    }
+    setRetention(workflowAutomationEngine.getRetentionPolicy())
+    loadWorkflowData(selectedWorkflow!.id)
+  }
+
+  const startEditingStepInputs = (stepIndex: number) => {
+    const step = selectedWorkflow?.workflowSteps?.[stepIndex]
+    setEditingStepIndex(stepIndex)
+    setMappingDraft(step?.inputMappings ? step.inputMappings.map(mapping => ({ ...mapping })) : [])
+    setPolicyDraft({
+      retry: step?.retry ? { ...step.retry } : undefined,
+      timeoutSeconds: step?.timeoutSeconds,
+      onError: step?.onError,
+      fallbackStepIndex: step?.fallbackStepIndex
+    })
+    setMappingErrors([])
+  }
+
+  const cancelEditingStepInputs = () => {
+    setEditingStepIndex(null)
+    setMappingDraft([])
+    setMappingErrors([])
+  }
+
+  const addMapping = (stepIndex: number) => {
+    const mapping: WorkflowInputMapping = stepIndex > 0
+      ? { target: 'text', source: 'step', stepIndex: stepIndex - 1, path: 'text' }
+      : { target: 'text', source: 'variable', variable: '' }
+    setMappingDraft(prev => [...prev, mapping])
+  }
+
+  const updateMapping = (index: number, updates: Partial<WorkflowInputMapping>) => {
+    setMappingDraft(prev => prev.map((mapping, i) => i === index ? { ...mapping, ...updates } : mapping))
+  }
+
+  const removeMapping = (index: number) => {
+    setMappingDraft(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const saveStepInputs = () => {
+    if (!selectedWorkflow?.workflowSteps || editingStepIndex === null) return
+
+    const workflowSteps = selectedWorkflow.workflowSteps.map((step, index) =>
+      index === editingStepIndex ? { ...step, inputMappings: mappingDraft, ...policyDraft } : step
+    )
+    const result = collectionManager.updateCollection(selectedWorkflow.id, { workflowSteps })
+
+    if (result.success) {
+      const updated = collectionManager.get(selectedWorkflow.id)!
+      setWorkflows(collectionManager.getWorkflows())
+      setSelectedWorkflow(updated)
+      cancelEditingStepInputs()
+    } else {
+      setMappingErrors(result.errors)
+    }
+  }
+
+  const createSchedule = () => {
+    if (!selectedWorkflow) return
+
+    try {
+      workflowAutomationEngine.scheduleWorkflow({
+        workflowId: selectedWorkflow.id,
+        name: scheduleDraft.name.trim() || `${selectedWorkflow.name} (${scheduleDraft.type})`,
+        enabled: true,
+        type: scheduleDraft.type,
+        scheduledAt: scheduleDraft.startsAt ? new Date(scheduleDraft.startsAt) : undefined,
+        intervalMinutes: scheduleDraft.type === 'interval' ? scheduleDraft.intervalMinutes : undefined,
+        daysOfWeek: scheduleDraft.type === 'weekly' ? scheduleDraft.daysOfWeek : undefined,
+        dayOfMonth: scheduleDraft.type === 'monthly' ? scheduleDraft.dayOfMonth : undefined,
+        cronExpression: scheduleDraft.type === 'cron' ? scheduleDraft.cronExpression : undefined,
+        catchUpPolicy: scheduleDraft.catchUpPolicy
+      })
+      setScheduleDraft(EMPTY_SCHEDULE_DRAFT)
+      setScheduleError(null)
+      setShowScheduleForm(false)
+      loadWorkflowData(selectedWorkflow.id)
+    } catch (error) {
+      setScheduleError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const toggleSchedule = (schedule: WorkflowSchedule) => {
+    workflowAutomationEngine.updateSchedule(schedule.id, { enabled: !schedule.enabled })
+    loadWorkflowData(selectedWorkflow!.id)
+  }
+
+  const deleteSchedule = (scheduleId: string) => {
+    workflowAutomationEngine.deleteSchedule(scheduleId)
+    loadWorkflowData(selectedWorkflow!.id)
+  }
+
+  const toggleDraftWeekday = (day: number) => {
+    const daysOfWeek = scheduleDraft.daysOfWeek.includes(day)
+      ? scheduleDraft.daysOfWeek.filter(d => d !== day)
+      : [...scheduleDraft.daysOfWeek, day].sort()
+    setScheduleDraft({ ...scheduleDraft, daysOfWeek })
+  }
+
+  const describeSchedule = (schedule: WorkflowSchedule) => {
+    const time = schedule.scheduledAt
+      ? schedule.scheduledAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : ''
+    switch (schedule.type) {
+      case 'once': return `Once on ${schedule.scheduledAt?.toLocaleString() || 'an unset date'}`
+      case 'daily': return `Every day${time ? ` at ${time}` : ''}`
+      case 'weekly': return `Every ${(schedule.daysOfWeek || []).map(day => WEEKDAY_LABELS[day]).join(', ') || 'week'}${time ? ` at ${time}` : ''}`
+      case 'monthly': return `Monthly on day ${schedule.dayOfMonth || schedule.createdAt.getDate()}${time ? ` at ${time}` : ''}`
+      case 'interval': return `Every ${schedule.intervalMinutes} minute${schedule.intervalMinutes === 1 ? '' : 's'}`
+      case 'cron': return `Cron: ${schedule.cronExpression}`
+    }
+  }
+
+  const describeCatchUpPolicy = (policy: ScheduleCatchUpPolicy = 'run_once') => {
+    switch (policy) {
+      case 'run_once': return 'Run once for missed runs'
+      case 'run_all': return 'Run every missed run'
+      case 'skip': return 'Skip missed runs'
+    }
+  }
+
+  const startSavingTemplate = () => {
+    if (!selectedWorkflow) return
+
+    setTemplateDraft({ name: `${selectedWorkflow.name} Template`, category: '', tags: '' })
+    setTemplateVariables(findTemplatePlaceholders(selectedWorkflow.workflowSteps || []).map(name => ({
+      name,
+      type: 'string',
+      required: true,
+      description: ''
+    })))
+    setTemplateErrors([])
+    setShowTemplateForm(true)
+  }
+
+  const updateTemplateVariable = (index: number, updates: Partial<WorkflowVariable>) => {
+    setTemplateVariables(templateVariables.map((variable, i) => i === index ? { ...variable, ...updates } : variable))
+  }
+
+  const saveAsTemplate = () => {
+    if (!selectedWorkflow) return
+
+    const result = workflowAutomationEngine.saveWorkflowAsTemplate(selectedWorkflow.id, {
+      name: templateDraft.name,
+      category: templateDraft.category,
+      tags: templateDraft.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+      variables: templateVariables
+    })
+
+    if (result.success) {
+      setShowTemplateForm(false)
+      setTemplateGalleryKey(templateGalleryKey + 1)
+    } else {
+      setTemplateErrors(result.errors)
+    }
+  }
+
+  const handleWorkflowCreated = (workflow: Collection) => {
+    setWorkflows(collectionManager.getWorkflows())
+    setSelectedWorkflow(workflow)
+  }
+
+  const createTrigger = () => {
+    if (!selectedWorkflow) return
+
+    const conditions: Record<string, any> = {}
+    switch (triggerDraft.type) {
+      case 'tool_usage':
+        if (triggerDraft.toolId) conditions.toolId = triggerDraft.toolId
+        break
+      case 'data_change':
+        if (triggerDraft.key.trim()) conditions.key = triggerDraft.key.trim()
+        if (triggerDraft.crossTab !== 'any') conditions.crossTab = triggerDraft.crossTab === 'other_tabs'
+        break
+      case 'external_event':
+        if (triggerDraft.eventName.trim()) conditions.name = triggerDraft.eventName.trim()
+        break
+    }
+    if (triggerDraft.cooldownSeconds > 0) conditions.cooldownSeconds = triggerDraft.cooldownSeconds
+
+    workflowAutomationEngine.createTrigger({
+      workflowId: selectedWorkflow.id,
+      type: triggerDraft.type,
+      enabled: true,
+      conditions
+    })
+    setTriggerDraft(EMPTY_TRIGGER_DRAFT)
+    setShowTriggerForm(false)
+    loadWorkflowData(selectedWorkflow.id)
+  }
+
+  const toggleTrigger = (trigger: WorkflowTrigger) => {
+    workflowAutomationEngine.updateTrigger(trigger.id, { enabled: !trigger.enabled })
+    loadWorkflowData(selectedWorkflow!.id)
+  }
+
+  const deleteTrigger = (triggerId: string) => {
+    workflowAutomationEngine.deleteTrigger(triggerId)
+    loadWorkflowData(selectedWorkflow!.id)
+  }
+
+  const describeTrigger = (trigger: WorkflowTrigger) => {
+    const { conditions } = trigger
+    switch (trigger.type) {
+      case 'tool_usage':
+        return `When ${conditions.toolId ? toolRegistry.get(conditions.toolId)?.name || conditions.toolId : 'any tool'} is used`
+      case 'data_change': {
+        const where = conditions.crossTab === true ? ' in another tab' : conditions.crossTab === false ? ' in this tab' : ''
+        return `When ${conditions.key || 'any stored data'} changes${where}`
+      }
+      case 'external_event':
+        return `When the "${conditions.name || 'any'}" event is received`
+      default:
+        return 'Time based'
+    }
+  }
+
+  const getStepLabel = (step?: WorkflowStep, fallback: string = '') => {
+    switch (step?.type) {
+      case 'condition': return 'Condition'
+      case 'loop': return `For each ${step.loop?.mode === 'lines' ? 'line' : 'item'}`
+      case 'parallel': return 'In parallel'
+      default: return toolRegistry.get(step?.toolId || fallback)?.name || step?.toolId || fallback
+    }
+  }
+
+  const describePolicy = (step: WorkflowStep) => {
+    const parts: string[] = []
+    if (step.retry && step.retry.maxAttempts > 1) parts.push(`retry ×${step.retry.maxAttempts}`)
+    if (step.timeoutSeconds) parts.push(`timeout ${step.timeoutSeconds}s`)
+    if (step.onError && step.onError !== 'fail') {
+      parts.push(step.onError === 'fallback'
+        ? `on error → step ${(step.fallbackStepIndex ?? 0) + 1}`
+        : `on error: ${step.onError}`)
+    }
+    return parts
+  }
+
+  const describeMapping = (mapping: WorkflowInputMapping) => {
+    switch (mapping.source) {
+      case 'step':
+        return `Step ${(mapping.stepIndex ?? 0) + 1} output${mapping.path ? `.${mapping.path}` : ''}`
+      case 'variable':
+        return `{{${mapping.variable || '?'}${mapping.path ? `.${mapping.path}` : ''}}}`
+      case 'static':
+        return JSON.stringify(mapping.value ?? '')
+    }
+  }
+
+  const downloadExecutionOutput = (execution: WorkflowExecution) => {
+    const lastOutput = [...execution.stepResults].reverse().find(result => result.output)?.output
+    if (!lastOutput) return
+
+    const content = typeof lastOutput.text === 'string' ? lastOutput.text : JSON.stringify(lastOutput, null, 2)
+    const blob = new Blob([content], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${selectedWorkflow?.name || 'workflow'}-output.txt`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
   const formatDuration = (ms: number) => {
     const seconds = Math.floor(ms / 1000)
     const minutes = Math.floor(seconds / 60)
@@ -205,6 +570,46 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
           </div>
         </div>
 
+        {/* Interrupted Executions */}
+        {interruptedExecutions.length > 0 && (
+          <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl">
+            <div className="flex items-center gap-2 mb-3">
+              <AlertCircle className="w-5 h-5 text-yellow-600 dark:text-yellow-400" />
+              <h2 className="font-semibold text-yellow-900 dark:text-yellow-100">
+                {interruptedExecutions.length} workflow run{interruptedExecutions.length === 1 ? ' was' : 's were'} interrupted when the app closed
+              </h2>
+            </div>
+            <div className="space-y-2">
+              {interruptedExecutions.map(execution => (
+                <div key={execution.id} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="text-yellow-900 dark:text-yellow-100">
+                    {collectionManager.get(execution.workflowId)?.name || 'Deleted workflow'}
+                    {' · '}stopped at step {execution.currentStepIndex + 1} of {execution.stepResults.length}
+                    {' · '}started {formatRelativeTime(execution.startedAt)}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => resumeInterruptedExecution(execution)}
+                      disabled={!collectionManager.get(execution.workflowId)}
+                      className="flex items-center gap-1 px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+                    >
+                      <Play className="w-3 h-3" />
+                      Resume
+                    </button>
+                    <button
+                      onClick={() => abandonInterruptedExecution(execution.id)}
+                      className="flex items-center gap-1 px-3 py-1 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                    >
+                      <Square className="w-3 h-3" />
+                      Abandon
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           {/* Workflow Selector */}
           <div className="lg:col-span-1">
@@ -255,6 +660,8 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
                 </div>
               )}
             </div>
+
+            <WorkflowTemplateGallery key={templateGalleryKey} onWorkflowCreated={handleWorkflowCreated} />
           </div>
 
           {/* Main Content */}
@@ -296,14 +703,108 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
                         <PlayCircle className="w-4 h-4" />
                         Run Manual
                       </button>
+                      <button
+                        onClick={startSavingTemplate}
+                        className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                        title="Save as template"
+                      >
+                        <Upload className="w-4 h-4" />
+                      </button>
                     </div>
                   </div>
 
+                  {/* Save as Template */}
+                  {showTemplateForm && (
+                    <div className="mb-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3 text-sm">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <input
+                          type="text"
+                          value={templateDraft.name}
+                          onChange={(e) => setTemplateDraft({ ...templateDraft, name: e.target.value })}
+                          placeholder="Template name"
+                          className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                        />
+                        <input
+                          type="text"
+                          value={templateDraft.category}
+                          onChange={(e) => setTemplateDraft({ ...templateDraft, category: e.target.value })}
+                          placeholder="Category"
+                          className="w-32 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                        />
+                        <input
+                          type="text"
+                          value={templateDraft.tags}
+                          onChange={(e) => setTemplateDraft({ ...templateDraft, tags: e.target.value })}
+                          placeholder="tags, comma separated"
+                          className="w-48 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                        />
+                      </div>
+
+                      {templateVariables.length === 0 ? (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Use {'{{name}}'} placeholders in step inputs or configs to ask for values when the template is used.
+                        </p>
+                      ) : (
+                        templateVariables.map((variable, index) => (
+                          <div key={variable.name} className="flex items-center gap-2 flex-wrap">
+                            <span className="w-28 font-mono text-gray-700 dark:text-gray-300">{variable.name}</span>
+                            <select
+                              value={variable.type}
+                              onChange={(e) => updateTemplateVariable(index, { type: e.target.value as WorkflowVariable['type'] })}
+                              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                            >
+                              <option value="string">Text</option>
+                              <option value="number">Number</option>
+                              <option value="boolean">Yes/No</option>
+                              <option value="date">Date</option>
+                              <option value="file">File</option>
+                            </select>
+                            <input
+                              type="text"
+                              value={variable.description}
+                              onChange={(e) => updateTemplateVariable(index, { description: e.target.value })}
+                              placeholder="Description"
+                              className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                            />
+                            <label className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                              <input
+                                type="checkbox"
+                                checked={variable.required}
+                                onChange={(e) => updateTemplateVariable(index, { required: e.target.checked })}
+                              />
+                              Required
+                            </label>
+                          </div>
+                        ))
+                      )}
+
+                      {templateErrors.length > 0 && (
+                        <div className="text-red-600 dark:text-red-400">
+                          {templateErrors.map((error, index) => <p key={index}>{error}</p>)}
+                        </div>
+                      )}
+
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setShowTemplateForm(false)}
+                          className="px-3 py-1 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={saveAsTemplate}
+                          className="px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                        >
+                          Save Template
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Workflow Steps Preview */}
                   {selectedWorkflow.workflowSteps && (
                     <div className="flex items-center gap-2 overflow-x-auto pb-2">
                       {selectedWorkflow.workflowSteps.map((step, index) => {
-                        const tool = toolRegistry.get(step.toolId)
                         return (
                           <div key={index} className="flex items-center gap-2 flex-shrink-0">
                             <div className="flex items-center gap-2 px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg">
@@ -311,8 +812,24 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
                                 {index + 1}
                               </span>
                               <span className="text-sm text-gray-900 dark:text-gray-100">
-                                {tool?.name || step.toolId}
+                                {getStepLabel(step)}
                               </span>
+                              {step.type === 'condition' && (
+                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                  → {step.thenStepIndex !== undefined ? step.thenStepIndex + 1 : index + 2} / {step.elseStepIndex !== undefined ? step.elseStepIndex + 1 : index + 2}
+                                </span>
+                              )}
+                              {step.type === 'loop' && step.loop && (
+                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                  steps {index + 2}–{index + 1 + step.loop.bodyLength}
+                                </span>
+                              )}
+                              {step.type === 'parallel' && step.parallel && (
+                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                  steps {index + 2}–{index + 1 + step.parallel.bodyLength}
+                                  {step.parallel.maxConcurrency && `, ${step.parallel.maxConcurrency} at a time`}
+                                </span>
+                              )}
                               {step.autoAdvance && (
                                 <div title="Auto-advance enabled">
                                   <Zap className="w-3 h-3 text-yellow-500" />
@@ -327,6 +844,248 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
                       })}
                     </div>
                   )}
+
+                  {/* Step Inputs */}
+                  {selectedWorkflow.workflowSteps && selectedWorkflow.workflowSteps.length > 0 && (
+                    <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+                      <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-3">Step Inputs</h3>
+                      <div className="space-y-2">
+                        {selectedWorkflow.workflowSteps.map((step, stepIndex) => {
+                          const action = toolRegistry.getAction(step.toolId)
+                          const isEditing = editingStepIndex === stepIndex
+
+                          return (
+                            <div key={stepIndex} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                              <div className="flex items-center justify-between gap-2">
+                                <div className="flex items-center gap-2 flex-wrap text-sm">
+                                  <span className="font-medium text-gray-900 dark:text-gray-100">
+                                    {stepIndex + 1}. {getStepLabel(step)}
+                                  </span>
+                                  {!action && (step.type || 'tool') === 'tool' && (
+                                    <span className="text-xs text-yellow-600 dark:text-yellow-400">manual</span>
+                                  )}
+                                  {!isEditing && describePolicy(step).map((policy, i) => (
+                                    <span
+                                      key={`policy-${i}`}
+                                      className="px-2 py-0.5 text-xs bg-yellow-50 text-yellow-700 dark:bg-yellow-900/20 dark:text-yellow-300 rounded"
+                                    >
+                                      {policy}
+                                    </span>
+                                  ))}
+                                  {!isEditing && (step.inputMappings || []).map((mapping, i) => (
+                                    <span
+                                      key={i}
+                                      className="px-2 py-0.5 text-xs font-mono bg-indigo-50 text-indigo-700 dark:bg-indigo-900/20 dark:text-indigo-300 rounded"
+                                    >
+                                      {mapping.target} ← {describeMapping(mapping)}
+                                    </span>
+                                  ))}
+                                </div>
+                                {action && !isEditing && (
+                                  <button
+                                    onClick={() => startEditingStepInputs(stepIndex)}
+                                    className="p-1 text-gray-500 hover:text-indigo-600 dark:text-gray-400 dark:hover:text-indigo-400 transition-colors"
+                                    title="Edit step inputs"
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </button>
+                                )}
+                              </div>
+
+                              {isEditing && action && (
+                                <div className="mt-3 space-y-2">
+                                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    Inputs: {action.inputFields.join(', ')}
+                                  </p>
+                                  {mappingDraft.map((mapping, i) => (
+                                    <div key={i} className="flex items-center gap-2 flex-wrap text-sm">
+                                      <input
+                                        type="text"
+                                        value={mapping.target}
+                                        onChange={(e) => updateMapping(i, { target: e.target.value })}
+                                        placeholder="input"
+                                        className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                      />
+                                      <span className="text-gray-400">←</span>
+                                      <select
+                                        value={mapping.source}
+                                        onChange={(e) => updateMapping(i, { source: e.target.value as WorkflowInputMapping['source'] })}
+                                        className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                      >
+                                        {stepIndex > 0 && <option value="step">Step output</option>}
+                                        <option value="variable">Variable</option>
+                                        <option value="static">Value</option>
+                                      </select>
+                                      {mapping.source === 'step' && (
+                                        <>
+                                          <select
+                                            value={mapping.stepIndex ?? 0}
+                                            onChange={(e) => updateMapping(i, { stepIndex: Number(e.target.value) })}
+                                            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                          >
+                                            {selectedWorkflow.workflowSteps!.slice(0, stepIndex).map((sourceStep, sourceIndex) => (
+                                              <option key={sourceIndex} value={sourceIndex}>
+                                                Step {sourceIndex + 1}: {toolRegistry.get(sourceStep.toolId)?.name || sourceStep.toolId}
+                                              </option>
+                                            ))}
+                                          </select>
+                                          <input
+                                            type="text"
+                                            value={mapping.path || ''}
+                                            onChange={(e) => updateMapping(i, { path: e.target.value })}
+                                            placeholder="output path, e.g. text"
+                                            className="w-40 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-mono"
+                                          />
+                                        </>
+                                      )}
+                                      {mapping.source === 'variable' && (
+                                        <input
+                                          type="text"
+                                          value={mapping.variable || ''}
+                                          onChange={(e) => updateMapping(i, { variable: e.target.value })}
+                                          placeholder="variable name"
+                                          className="w-40 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-mono"
+                                        />
+                                      )}
+                                      {mapping.source === 'static' && (
+                                        <input
+                                          type="text"
+                                          value={mapping.value ?? ''}
+                                          onChange={(e) => updateMapping(i, { value: e.target.value })}
+                                          placeholder="value"
+                                          className="flex-1 min-w-[10rem] px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                        />
+                                      )}
+                                      <button
+                                        onClick={() => removeMapping(i)}
+                                        className="p-1 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors"
+                                        title="Remove mapping"
+                                      >
+                                        <Trash2 className="w-4 h-4" />
+                                      </button>
+                                    </div>
+                                  ))}
+
+                                  <div className="flex items-center gap-3 flex-wrap text-sm pt-2 border-t border-gray-200 dark:border-gray-600">
+                                    <label className="flex items-center gap-1 text-gray-600 dark:text-gray-300">
+                                      Attempts
+                                      <input
+                                        type="number"
+                                        min={1}
+                                        value={policyDraft.retry?.maxAttempts ?? 1}
+                                        onChange={(e) => {
+                                          const maxAttempts = Math.max(1, parseInt(e.target.value) || 1)
+                                          setPolicyDraft(prev => ({
+                                            ...prev,
+                                            retry: maxAttempts > 1
+                                              ? { backoffSeconds: 1, ...prev.retry, maxAttempts }
+                                              : undefined
+                                          }))
+                                        }}
+                                        className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                      />
+                                    </label>
+                                    {policyDraft.retry && (
+                                      <label className="flex items-center gap-1 text-gray-600 dark:text-gray-300">
+                                        Backoff (s)
+                                        <input
+                                          type="number"
+                                          min={0}
+                                          step={0.5}
+                                          value={policyDraft.retry.backoffSeconds}
+                                          onChange={(e) => {
+                                            const backoffSeconds = Math.max(0, parseFloat(e.target.value) || 0)
+                                            setPolicyDraft(prev => ({ ...prev, retry: { ...prev.retry!, backoffSeconds } }))
+                                          }}
+                                          className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                        />
+                                      </label>
+                                    )}
+                                    <label className="flex items-center gap-1 text-gray-600 dark:text-gray-300">
+                                      Timeout (s)
+                                      <input
+                                        type="number"
+                                        min={0}
+                                        value={policyDraft.timeoutSeconds ?? ''}
+                                        onChange={(e) => {
+                                          const timeoutSeconds = parseFloat(e.target.value)
+                                          setPolicyDraft(prev => ({ ...prev, timeoutSeconds: timeoutSeconds > 0 ? timeoutSeconds : undefined }))
+                                        }}
+                                        placeholder="none"
+                                        className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                      />
+                                    </label>
+                                    <label className="flex items-center gap-1 text-gray-600 dark:text-gray-300">
+                                      On error
+                                      <select
+                                        value={policyDraft.onError || 'fail'}
+                                        onChange={(e) => {
+                                          const onError = e.target.value as WorkflowErrorPolicy
+                                          setPolicyDraft(prev => ({
+                                            ...prev,
+                                            onError,
+                                            fallbackStepIndex: onError === 'fallback' ? prev.fallbackStepIndex ?? stepIndex + 1 : undefined
+                                          }))
+                                        }}
+                                        className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                      >
+                                        <option value="fail">Fail workflow</option>
+                                        <option value="skip">Skip step</option>
+                                        <option value="continue">Continue</option>
+                                        <option value="fallback">Jump to step</option>
+                                      </select>
+                                    </label>
+                                    {policyDraft.onError === 'fallback' && (
+                                      <select
+                                        value={policyDraft.fallbackStepIndex ?? ''}
+                                        onChange={(e) => setPolicyDraft(prev => ({ ...prev, fallbackStepIndex: Number(e.target.value) }))}
+                                        className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                      >
+                                        {selectedWorkflow.workflowSteps!.map((fallbackStep, fallbackIndex) => fallbackIndex !== stepIndex && (
+                                          <option key={fallbackIndex} value={fallbackIndex}>
+                                            Step {fallbackIndex + 1}: {getStepLabel(fallbackStep)}
+                                          </option>
+                                        ))}
+                                      </select>
+                                    )}
+                                  </div>
+
+                                  {mappingErrors.length > 0 && (
+                                    <div className="text-xs text-red-600 dark:text-red-400">
+                                      {mappingErrors.map((error, i) => <p key={i}>{error}</p>)}
+                                    </div>
+                                  )}
+
+                                  <div className="flex items-center gap-2">
+                                    <button
+                                      onClick={() => addMapping(stepIndex)}
+                                      className="flex items-center gap-1 px-2 py-1 text-sm text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded transition-colors"
+                                    >
+                                      <Plus className="w-4 h-4" />
+                                      Add mapping
+                                    </button>
+                                    <div className="flex-1" />
+                                    <button
+                                      onClick={cancelEditingStepInputs}
+                                      className="px-3 py-1 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-600 rounded transition-colors"
+                                    >
+                                      Cancel
+                                    </button>
+                                    <button
+                                      onClick={saveStepInputs}
+                                      className="px-3 py-1 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
+                                    >
+                                      Save
+                                    </button>
+                                  </div>
+                                </div>
+                              )}
+                            </div>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 {/* Tabs */}
@@ -363,15 +1122,40 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
                           <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
                             Recent Executions
                           </h3>
-                          <button
-                            onClick={() => loadWorkflowData(selectedWorkflow.id)}
-                            className="flex items-center gap-2 px-3 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
-                          >
-                            <RefreshCw className="w-4 h-4" />
-                            Refresh
-                          </button>
+                          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                            Keep last
+                            <input
+                              type="number"
+                              min={1}
+                              value={retention.maxExecutionsPerWorkflow}
+                              onChange={(e) => setRetention({ ...retention, maxExecutionsPerWorkflow: Number(e.target.value) })}
+                              onBlur={applyRetention}
+                              className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                            />
+                            runs for
+                            <input
+                              type="number"
+                              min={1}
+                              value={retention.maxAgeDays}
+                              onChange={(e) => setRetention({ ...retention, maxAgeDays: Number(e.target.value) })}
+                              onBlur={applyRetention}
+                              className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                            />
+                            days
+                            <button
+                              onClick={() => loadWorkflowData(selectedWorkflow.id)}
+                              className="flex items-center gap-2 px-3 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                            >
+                              <RefreshCw className="w-4 h-4" />
+                              Refresh
+                            </button>
+                          </div>
                         </div>
 
+                        {replayError && (
+                          <p className="mb-4 text-sm text-red-600 dark:text-red-400">{replayError}</p>
+                        )}
+
                         {executions.length === 0 ? (
                           <div className="text-center py-8">
                             <Activity className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
@@ -401,6 +1185,31 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
                                   </div>
                                   
                                   <div className="flex items-center gap-2">
+                                    <button
+                                      onClick={() => setExpandedExecutionId(expandedExecutionId === execution.id ? null : execution.id)}
+                                      className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                                      title="Show timeline"
+                                    >
+                                      <ChevronDown className={`w-4 h-4 transition-transform ${expandedExecutionId === execution.id ? 'rotate-180' : ''}`} />
+                                    </button>
+                                    {execution.status === 'failed' && (
+                                      <button
+                                        onClick={() => replayExecution(execution.id)}
+                                        className="p-2 text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-lg transition-colors"
+                                        title="Re-run from the failed step"
+                                      >
+                                        <RefreshCw className="w-4 h-4" />
+                                      </button>
+                                    )}
+                                    {execution.status === 'completed' && execution.stepResults.some(result => result.output) && (
+                                      <button
+                                        onClick={() => downloadExecutionOutput(execution)}
+                                        className="p-2 text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-lg transition-colors"
+                                        title="Download final output"
+                                      >
+                                        <Download className="w-4 h-4" />
+                                      </button>
+                                    )}
                                     {execution.status === 'running' && (
                                       <button
                                         onClick={() => pauseExecution(execution.id)}
@@ -452,7 +1261,7 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
                                 {/* Step Results */}
                                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
                                   {execution.stepResults.map((result, index) => {
-                                    const tool = toolRegistry.get(result.toolId)
+                                    const step = selectedWorkflow.workflowSteps?.[result.stepIndex]
                                     return (
                                       <div
                                         key={index}
@@ -469,14 +1278,43 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
                                         <div className="flex items-center gap-2 mb-1">
                                           {getStatusIcon(result.status)}
                                           <span className="font-medium text-gray-900 dark:text-gray-100">
-                                            {tool?.name || result.toolId}
+                                            {getStepLabel(step, result.toolId)}
                                           </span>
                                         </div>
+                                        {result.branch && (
+                                          <p className="text-gray-600 dark:text-gray-400">
+                                            Took the {result.branch === 'then' ? 'true' : 'false'} branch
+                                          </p>
+                                        )}
+                                        {result.iterations && (
+                                          <p className="text-gray-600 dark:text-gray-400">
+                                            Ran for {result.iterations.length} item{result.iterations.length === 1 ? '' : 's'}
+                                            {result.iterations.some(iteration => iteration.branch) && (
+                                              <> ({result.iterations.filter(iteration => iteration.branch === 'then').length} true, {result.iterations.filter(iteration => iteration.branch === 'else').length} false)</>
+                                            )}
+                                          </p>
+                                        )}
                                         {result.duration && (
                                           <p className="text-gray-600 dark:text-gray-400">
                                             {formatDuration(result.duration)}
                                           </p>
                                         )}
+                                        {result.manual && (
+                                          <p className="text-yellow-600 dark:text-yellow-400">
+                                            Manual step
+                                          </p>
+                                        )}
+                                        {result.output?.text !== undefined && (
+                                          <p className="text-gray-600 dark:text-gray-400 mt-1 line-clamp-2 font-mono">
+                                            {String(result.output.text)}
+                                          </p>
+                                        )}
+                                        {result.attempts && result.attempts.length > 1 && (
+                                          <p className="text-gray-600 dark:text-gray-400">
+                                            {result.attempts.length} attempts
+                                            {result.attempts.some(attempt => attempt.status === 'timed_out') && ', timed out'}
+                                          </p>
+                                        )}
                                         {result.error && (
                                           <p className="text-red-600 dark:text-red-400 mt-1">
                                             {result.error}
@@ -486,6 +1324,14 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
                                     )
                                   })}
                                 </div>
+
+                                {expandedExecutionId === execution.id && (
+                                  <WorkflowExecutionTimeline
+                                    execution={execution}
+                                    getStepLabel={(stepIndex) => getStepLabel(selectedWorkflow.workflowSteps?.[stepIndex], execution.stepResults[stepIndex]?.toolId)}
+                                    onReplay={replayExecution}
+                                  />
+                                )}
                               </div>
                             ))}
                           </div>
@@ -544,6 +1390,31 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
                           </div>
                         </div>
 
+                        {metrics.averageTotalStepDuration > 0 && (
+                          <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">Critical Path</p>
+                              <p className="text-xl font-bold text-gray-900 dark:text-gray-100">
+                                {formatDuration(metrics.averageCriticalPathDuration)}
+                              </p>
+                              <p className="text-xs text-gray-500 dark:text-gray-400">
+                                Slowest chain of steps, with each parallel group counted by its slowest branch
+                              </p>
+                            </div>
+                            <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">Total Step Time</p>
+                              <p className="text-xl font-bold text-gray-900 dark:text-gray-100">
+                                {formatDuration(metrics.averageTotalStepDuration)}
+                              </p>
+                              <p className="text-xs text-gray-500 dark:text-gray-400">
+                                {metrics.averageTotalStepDuration > metrics.averageCriticalPathDuration
+                                  ? `Running in parallel saves ${formatDuration(metrics.averageTotalStepDuration - metrics.averageCriticalPathDuration)} per run`
+                                  : 'Every step ran one after another'}
+                              </p>
+                            </div>
+                          </div>
+                        )}
+
                         {metrics.lastExecuted && (
                           <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
                             <p className="text-sm text-gray-600 dark:text-gray-400">
@@ -554,18 +1425,396 @@ const WorkflowAutomationManager: React.FC<WorkflowAutomationManagerProps> = ({ w
                       </div>
                     )}
 
-                    {/* Schedules and Triggers tabs would be implemented similarly */}
+                    {/* Schedules Tab */}
                     {activeTab === 'schedules' && (
-                      <div className="text-center py-8">
-                        <Calendar className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
-                        <p className="text-gray-500 dark:text-gray-400">Scheduling feature coming soon</p>
+                      <div>
+                        <div className="flex items-center justify-between mb-6">
+                          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                            Schedules
+                          </h3>
+                          <button
+                            onClick={() => setShowScheduleForm(!showScheduleForm)}
+                            className="flex items-center gap-2 px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                          >
+                            <Plus className="w-4 h-4" />
+                            New Schedule
+                          </button>
+                        </div>
+
+                        {showScheduleForm && (
+                          <div className="mb-6 p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3 text-sm">
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <input
+                                type="text"
+                                value={scheduleDraft.name}
+                                onChange={(e) => setScheduleDraft({ ...scheduleDraft, name: e.target.value })}
+                                placeholder="Schedule name"
+                                className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                              />
+                              <select
+                                value={scheduleDraft.type}
+                                onChange={(e) => setScheduleDraft({ ...scheduleDraft, type: e.target.value as WorkflowSchedule['type'] })}
+                                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                              >
+                                <option value="once">Once</option>
+                                <option value="daily">Daily</option>
+                                <option value="weekly">Weekly</option>
+                                <option value="monthly">Monthly</option>
+                                <option value="interval">Interval</option>
+                                <option value="cron">Cron expression</option>
+                              </select>
+                            </div>
+
+                            {scheduleDraft.type !== 'cron' && (
+                              <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                                {scheduleDraft.type === 'once' ? 'Run at' : 'Starting'}
+                                <input
+                                  type="datetime-local"
+                                  value={scheduleDraft.startsAt}
+                                  onChange={(e) => setScheduleDraft({ ...scheduleDraft, startsAt: e.target.value })}
+                                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                />
+                              </label>
+                            )}
+
+                            {scheduleDraft.type === 'interval' && (
+                              <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                                Every
+                                <input
+                                  type="number"
+                                  min={1}
+                                  value={scheduleDraft.intervalMinutes}
+                                  onChange={(e) => setScheduleDraft({ ...scheduleDraft, intervalMinutes: Number(e.target.value) })}
+                                  className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                />
+                                minutes
+                              </label>
+                            )}
+
+                            {scheduleDraft.type === 'weekly' && (
+                              <div className="flex items-center gap-1 flex-wrap">
+                                {WEEKDAY_LABELS.map((label, day) => (
+                                  <button
+                                    key={label}
+                                    onClick={() => toggleDraftWeekday(day)}
+                                    className={`px-2 py-1 rounded text-xs font-medium ${
+                                      scheduleDraft.daysOfWeek.includes(day)
+                                        ? 'bg-indigo-600 text-white'
+                                        : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+                                    }`}
+                                  >
+                                    {label}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+
+                            {scheduleDraft.type === 'monthly' && (
+                              <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                                Day of month
+                                <input
+                                  type="number"
+                                  min={1}
+                                  max={31}
+                                  value={scheduleDraft.dayOfMonth}
+                                  onChange={(e) => setScheduleDraft({ ...scheduleDraft, dayOfMonth: Number(e.target.value) })}
+                                  className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                />
+                              </label>
+                            )}
+
+                            {scheduleDraft.type === 'cron' && (
+                              <div>
+                                <input
+                                  type="text"
+                                  value={scheduleDraft.cronExpression}
+                                  onChange={(e) => setScheduleDraft({ ...scheduleDraft, cronExpression: e.target.value })}
+                                  placeholder="minute hour day month weekday"
+                                  className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-mono"
+                                />
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                  e.g. &quot;*/15 9-17 * * MON-FRI&quot; or &quot;@daily&quot;, in local time
+                                </p>
+                              </div>
+                            )}
+
+                            <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                              If runs are missed while the app is closed
+                              <select
+                                value={scheduleDraft.catchUpPolicy}
+                                onChange={(e) => setScheduleDraft({ ...scheduleDraft, catchUpPolicy: e.target.value as ScheduleCatchUpPolicy })}
+                                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                              >
+                                <option value="run_once">Run once</option>
+                                <option value="run_all">Run all of them</option>
+                                <option value="skip">Skip them</option>
+                              </select>
+                            </label>
+
+                            {scheduleError && (
+                              <p className="text-red-600 dark:text-red-400">{scheduleError}</p>
+                            )}
+
+                            <div className="flex justify-end gap-2">
+                              <button
+                                onClick={() => {
+                                  setShowScheduleForm(false)
+                                  setScheduleError(null)
+                                }}
+                                className="px-3 py-1 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={createSchedule}
+                                className="px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                              >
+                                Save Schedule
+                              </button>
+                            </div>
+                          </div>
+                        )}
+
+                        {schedules.length === 0 ? (
+                          <div className="text-center py-8">
+                            <Calendar className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+                            <p className="text-gray-500 dark:text-gray-400">No schedules yet</p>
+                            <p className="text-gray-400 dark:text-gray-500 text-sm">
+                              Schedule the workflow to run it automatically
+                            </p>
+                          </div>
+                        ) : (
+                          <div className="space-y-3">
+                            {schedules.map((schedule) => (
+                              <div
+                                key={schedule.id}
+                                className="flex items-center justify-between border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+                              >
+                                <div>
+                                  <p className={`font-medium ${schedule.enabled ? 'text-gray-900 dark:text-gray-100' : 'text-gray-400 dark:text-gray-500'}`}>
+                                    {schedule.name}
+                                  </p>
+                                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                                    {describeSchedule(schedule)} · {describeCatchUpPolicy(schedule.catchUpPolicy)}
+                                  </p>
+                                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                    {schedule.enabled && schedule.nextRun ? `Next run ${schedule.nextRun.toLocaleString()}` : 'No upcoming runs'}
+                                    {schedule.lastRun && ` · Last run ${formatRelativeTime(schedule.lastRun)}`}
+                                    {` · ${schedule.runCount} run${schedule.runCount === 1 ? '' : 's'}`}
+                                  </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <button
+                                    onClick={() => toggleSchedule(schedule)}
+                                    className={`p-2 rounded-lg transition-colors ${
+                                      schedule.enabled
+                                        ? 'text-yellow-600 hover:bg-yellow-50 dark:hover:bg-yellow-900/20'
+                                        : 'text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20'
+                                    }`}
+                                    title={schedule.enabled ? 'Disable schedule' : 'Enable schedule'}
+                                  >
+                                    {schedule.enabled ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                                  </button>
+                                  <button
+                                    onClick={() => deleteSchedule(schedule.id)}
+                                    className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                    title="Delete schedule"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {scheduleLog.length > 0 && (
+                          <div className="mt-6">
+                            <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">
+                              Run Log
+                            </h4>
+                            <div className="space-y-1 text-sm">
+                              {scheduleLog.slice(0, 20).map((entry, index) => (
+                                <div key={index} className="flex items-center gap-3">
+                                  <span className={`px-2 py-0.5 rounded-md text-xs font-medium ${
+                                    entry.status === 'on_time'
+                                      ? getStatusColor('completed')
+                                      : entry.status === 'late'
+                                      ? getStatusColor('paused')
+                                      : getStatusColor('failed')
+                                  }`}>
+                                    {entry.status === 'on_time' ? 'On time' : entry.status.charAt(0).toUpperCase() + entry.status.slice(1)}
+                                  </span>
+                                  <span className="text-gray-600 dark:text-gray-400">
+                                    Due {entry.scheduledFor.toLocaleString()}
+                                    {entry.status === 'late' && entry.delayMs !== undefined && `, started ${formatDuration(entry.delayMs)} late`}
+                                  </span>
+                                  {entry.error && (
+                                    <span className="text-red-600 dark:text-red-400 truncate">{entry.error}</span>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
                     )}
 
+                    {/* Triggers Tab */}
                     {activeTab === 'triggers' && (
-                      <div className="text-center py-8">
-                        <Target className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
-                        <p className="text-gray-500 dark:text-gray-400">Triggers feature coming soon</p>
+                      <div>
+                        <div className="flex items-center justify-between mb-6">
+                          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                            Triggers
+                          </h3>
+                          <button
+                            onClick={() => setShowTriggerForm(!showTriggerForm)}
+                            className="flex items-center gap-2 px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                          >
+                            <Plus className="w-4 h-4" />
+                            New Trigger
+                          </button>
+                        </div>
+
+                        {showTriggerForm && (
+                          <div className="mb-6 p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3 text-sm">
+                            <select
+                              value={triggerDraft.type}
+                              onChange={(e) => setTriggerDraft({ ...triggerDraft, type: e.target.value as TriggerDraft['type'] })}
+                              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                            >
+                              <option value="tool_usage">Tool is used</option>
+                              <option value="data_change">Stored data changes</option>
+                              <option value="external_event">External event</option>
+                            </select>
+
+                            {triggerDraft.type === 'tool_usage' && (
+                              <select
+                                value={triggerDraft.toolId}
+                                onChange={(e) => setTriggerDraft({ ...triggerDraft, toolId: e.target.value })}
+                                className="ml-2 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                              >
+                                <option value="">Any tool</option>
+                                {toolRegistry.getAll().map(tool => (
+                                  <option key={tool.id} value={tool.id}>{tool.name}</option>
+                                ))}
+                              </select>
+                            )}
+
+                            {triggerDraft.type === 'data_change' && (
+                              <div className="flex items-center gap-2 flex-wrap">
+                                <input
+                                  type="text"
+                                  value={triggerDraft.key}
+                                  onChange={(e) => setTriggerDraft({ ...triggerDraft, key: e.target.value })}
+                                  placeholder="storage key, * matches anything"
+                                  className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-mono"
+                                />
+                                <select
+                                  value={triggerDraft.crossTab}
+                                  onChange={(e) => setTriggerDraft({ ...triggerDraft, crossTab: e.target.value as TriggerDraft['crossTab'] })}
+                                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                >
+                                  <option value="any">From any tab</option>
+                                  <option value="this_tab">From this tab only</option>
+                                  <option value="other_tabs">From other tabs only</option>
+                                </select>
+                              </div>
+                            )}
+
+                            {triggerDraft.type === 'external_event' && (
+                              <div>
+                                <input
+                                  type="text"
+                                  value={triggerDraft.eventName}
+                                  onChange={(e) => setTriggerDraft({ ...triggerDraft, eventName: e.target.value })}
+                                  placeholder="event name"
+                                  className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                />
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                  Raised with window.dispatchEvent(new CustomEvent(&apos;{EXTERNAL_EVENT_NAME}&apos;, {'{'} detail: {'{'} name, data {'}'} {'}'}))
+                                </p>
+                              </div>
+                            )}
+
+                            <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                              Wait at least
+                              <input
+                                type="number"
+                                min={0}
+                                value={triggerDraft.cooldownSeconds}
+                                onChange={(e) => setTriggerDraft({ ...triggerDraft, cooldownSeconds: Number(e.target.value) })}
+                                className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                              />
+                              seconds between runs
+                            </label>
+
+                            <div className="flex justify-end gap-2">
+                              <button
+                                onClick={() => setShowTriggerForm(false)}
+                                className="px-3 py-1 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={createTrigger}
+                                className="px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                              >
+                                Save Trigger
+                              </button>
+                            </div>
+                          </div>
+                        )}
+
+                        {triggers.length === 0 ? (
+                          <div className="text-center py-8">
+                            <Target className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
+                            <p className="text-gray-500 dark:text-gray-400">No triggers yet</p>
+                            <p className="text-gray-400 dark:text-gray-500 text-sm">
+                              Run the workflow automatically when tools are used or data changes
+                            </p>
+                          </div>
+                        ) : (
+                          <div className="space-y-3">
+                            {triggers.map((trigger) => (
+                              <div
+                                key={trigger.id}
+                                className="flex items-center justify-between border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+                              >
+                                <div>
+                                  <p className={`font-medium ${trigger.enabled ? 'text-gray-900 dark:text-gray-100' : 'text-gray-400 dark:text-gray-500'}`}>
+                                    {describeTrigger(trigger)}
+                                  </p>
+                                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                    Fired {trigger.triggerCount} time{trigger.triggerCount === 1 ? '' : 's'}
+                                    {trigger.lastTriggered && ` · Last ${formatRelativeTime(trigger.lastTriggered)}`}
+                                    {trigger.conditions.cooldownSeconds && ` · ${trigger.conditions.cooldownSeconds}s cooldown`}
+                                  </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <button
+                                    onClick={() => toggleTrigger(trigger)}
+                                    className={`p-2 rounded-lg transition-colors ${
+                                      trigger.enabled
+                                        ? 'text-yellow-600 hover:bg-yellow-50 dark:hover:bg-yellow-900/20'
+                                        : 'text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20'
+                                    }`}
+                                    title={trigger.enabled ? 'Disable trigger' : 'Enable trigger'}
+                                  >
+                                    {trigger.enabled ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                                  </button>
+                                  <button
+                                    onClick={() => deleteTrigger(trigger.id)}
+                                    className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                    title="Delete trigger"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -0,0 +1,153 @@
+'use client'
+
+import React from 'react'
+import { RefreshCw } from 'lucide-react'
+import { WorkflowExecution, WorkflowStepResult } from '@/lib/workflow-automation'
+
+interface WorkflowExecutionTimelineProps {
+  execution: WorkflowExecution
+  getStepLabel: (stepIndex: number) => string
+  onReplay?: (executionId: string) => void
+}
+
+const BAR_COLORS: Record<WorkflowStepResult['status'], string> = {
+  completed: 'bg-green-500',
+  failed: 'bg-red-500',
+  running: 'bg-blue-500',
+  skipped: 'bg-gray-400',
+  pending: 'bg-gray-300'
+}
+
+const WorkflowExecutionTimeline: React.FC<WorkflowExecutionTimelineProps> = ({ execution, getStepLabel, onReplay }) => {
+  const start = execution.startedAt.getTime()
+  const end = Math.max(
+    start + (execution.totalDuration || 0),
+    ...execution.stepResults.map(result => result.completedAt && !result.reused ? result.completedAt.getTime() : start)
+  )
+  const span = Math.max(end - start, 1)
+
+  const formatMs = (ms: number) => ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(ms < 10000 ? 2 : 1)}s`
+
+  const formatData = (data: unknown) => {
+    const text = JSON.stringify(data, null, 2)
+    return text && text.length > 2000 ? `${text.slice(0, 2000)}\n…` : text
+  }
+
+  return (
+    <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-4 space-y-3 text-xs">
+      <div className="flex items-center justify-between text-gray-600 dark:text-gray-400">
+        <span>
+          Started {execution.startedAt.toLocaleString()}
+          {execution.replayOf && ` · re-run from step ${(execution.replayFromStepIndex ?? 0) + 1} of an earlier execution`}
+        </span>
+        {execution.status === 'failed' && onReplay && (
+          <button
+            onClick={() => onReplay(execution.id)}
+            className="flex items-center gap-1 px-2 py-1 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded transition-colors"
+          >
+            <RefreshCw className="w-3 h-3" />
+            Re-run from step {execution.currentStepIndex + 1}
+          </button>
+        )}
+      </div>
+
+      {Object.keys(execution.variables).length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-gray-700 dark:text-gray-300">Variables</summary>
+          <pre className="mt-1 p-2 bg-gray-50 dark:bg-gray-900 rounded overflow-x-auto text-gray-700 dark:text-gray-300">
+            {formatData(execution.variables)}
+          </pre>
+        </details>
+      )}
+
+      {execution.stepResults.map(result => {
+        const offset = result.startedAt && !result.reused ? result.startedAt.getTime() - start : 0
+        const duration = result.duration ?? (result.startedAt && result.status === 'running' ? Date.now() - result.startedAt.getTime() : 0)
+
+        return (
+          <div key={result.stepIndex}>
+            <div className="flex items-center gap-3">
+              <span className="w-40 truncate font-medium text-gray-900 dark:text-gray-100">
+                {result.stepIndex + 1}. {getStepLabel(result.stepIndex)}
+              </span>
+              <div className="flex-1 relative h-3 bg-gray-100 dark:bg-gray-700 rounded">
+                {result.startedAt && !result.reused && (
+                  <div
+                    className={`absolute h-3 rounded ${BAR_COLORS[result.status]}`}
+                    style={{
+                      left: `${(offset / span) * 100}%`,
+                      width: `${Math.max((duration / span) * 100, 0.5)}%`
+                    }}
+                  />
+                )}
+              </div>
+              <span className="w-24 text-right text-gray-600 dark:text-gray-400">
+                {result.reused
+                  ? 'reused'
+                  : result.status === 'pending' || result.status === 'skipped'
+                  ? result.status
+                  : formatMs(duration)}
+              </span>
+            </div>
+
+            {(result.input || result.output || result.error || (result.attempts && result.attempts.length > 0) || result.iterations) && (
+              <details className="ml-4 mt-1">
+                <summary className="cursor-pointer text-gray-500 dark:text-gray-400">
+                  Details
+                  {result.error && <span className="text-red-600 dark:text-red-400"> · {result.error}</span>}
+                </summary>
+                <div className="mt-1 space-y-2">
+                  {result.input && (
+                    <div>
+                      <p className="text-gray-600 dark:text-gray-400">Input</p>
+                      <pre className="p-2 bg-gray-50 dark:bg-gray-900 rounded overflow-x-auto text-gray-700 dark:text-gray-300">
+                        {formatData(result.input)}
+                      </pre>
+                    </div>
+                  )}
+                  {result.output && (
+                    <div>
+                      <p className="text-gray-600 dark:text-gray-400">Output</p>
+                      <pre className="p-2 bg-gray-50 dark:bg-gray-900 rounded overflow-x-auto text-gray-700 dark:text-gray-300">
+                        {formatData(result.output)}
+                      </pre>
+                    </div>
+                  )}
+                  {result.attempts && result.attempts.length > 0 && (
+                    <div>
+                      <p className="text-gray-600 dark:text-gray-400">Attempts</p>
+                      {result.attempts.map(attempt => (
+                        <p key={attempt.attempt} className="text-gray-700 dark:text-gray-300">
+                          #{attempt.attempt} {attempt.status.replace('_', ' ')} after {formatMs(attempt.duration)}
+                          {attempt.error && <span className="text-red-600 dark:text-red-400"> · {attempt.error}</span>}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  {result.iterations && (
+                    <div>
+                      <p className="text-gray-600 dark:text-gray-400">Iterations</p>
+                      {result.iterations.map(iteration => (
+                        <p key={iteration.iteration} className="text-gray-700 dark:text-gray-300">
+                          #{iteration.iteration + 1} {iteration.status}
+                          {iteration.branch && ` (${iteration.branch})`}
+                          {iteration.error && <span className="text-red-600 dark:text-red-400"> · {iteration.error}</span>}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </details>
+            )}
+          </div>
+        )
+      })}
+
+      {execution.error && (
+        <p className="text-red-600 dark:text-red-400">{execution.error}</p>
+      )}
+    </div>
+  )
+}
+
+export default WorkflowExecutionTimeline
@@ -0,0 +1,211 @@
+'use client'
+
+import React, { useState } from 'react'
+import { FileText, Plus, Trash2, X } from 'lucide-react'
+import {
+  workflowAutomationEngine,
+  WorkflowTemplate,
+  WorkflowVariable,
+  WorkflowFileValue
+} from '@/lib/workflow-automation'
+import { Collection } from '@/lib/collections'
+
+interface WorkflowTemplateGalleryProps {
+  onWorkflowCreated: (workflow: Collection) => void
+}
+
+const WorkflowTemplateGallery: React.FC<WorkflowTemplateGalleryProps> = ({ onWorkflowCreated }) => {
+  const [templates, setTemplates] = useState<WorkflowTemplate[]>(() => workflowAutomationEngine.getTemplates())
+  const [activeTemplate, setActiveTemplate] = useState<WorkflowTemplate | null>(null)
+  const [workflowName, setWorkflowName] = useState('')
+  const [values, setValues] = useState<Record<string, any>>({})
+  const [errors, setErrors] = useState<string[]>([])
+
+  const startTemplate = (template: WorkflowTemplate) => {
+    setActiveTemplate(template)
+    setWorkflowName('')
+    setValues(template.variables.reduce((initial, variable) => {
+      if (variable.defaultValue !== undefined) initial[variable.name] = variable.defaultValue
+      return initial
+    }, {} as Record<string, any>))
+    setErrors([])
+  }
+
+  const closeTemplate = () => {
+    setActiveTemplate(null)
+    setErrors([])
+  }
+
+  const handleFileSelected = (variable: WorkflowVariable, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (e) => {
+      const fileValue: WorkflowFileValue = {
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        content: e.target?.result as string
+      }
+      setValues(current => ({ ...current, [variable.name]: fileValue }))
+    }
+    reader.readAsText(file)
+  }
+
+  const createWorkflow = () => {
+    if (!activeTemplate) return
+
+    const result = workflowAutomationEngine.createWorkflowFromTemplate(activeTemplate.id, values, { name: workflowName })
+    if (!result.success || !result.workflow) {
+      setErrors(result.errors)
+      return
+    }
+
+    setTemplates(workflowAutomationEngine.getTemplates())
+    closeTemplate()
+    onWorkflowCreated(result.workflow)
+  }
+
+  const deleteTemplate = (templateId: string) => {
+    workflowAutomationEngine.deleteTemplate(templateId)
+    setTemplates(workflowAutomationEngine.getTemplates())
+  }
+
+  const renderVariableInput = (variable: WorkflowVariable) => {
+    const inputClassName = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+    const value = values[variable.name]
+
+    switch (variable.type) {
+      case 'boolean':
+        return (
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => setValues({ ...values, [variable.name]: e.target.checked })}
+            className="w-4 h-4 text-indigo-600 rounded"
+          />
+        )
+      case 'file':
+        return (
+          <div>
+            <input
+              type="file"
+              onChange={(e) => handleFileSelected(variable, e)}
+              className="w-full text-xs text-gray-600 dark:text-gray-400"
+            />
+            {value?.name && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{value.name}</p>
+            )}
+          </div>
+        )
+      default:
+        return (
+          <input
+            type={variable.type === 'number' ? 'number' : variable.type === 'date' ? 'date' : 'text'}
+            value={value ?? ''}
+            onChange={(e) => setValues({ ...values, [variable.name]: e.target.value })}
+            className={inputClassName}
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Templates</h2>
+
+      {activeTemplate ? (
+        <div className="space-y-3 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-gray-900 dark:text-gray-100">{activeTemplate.name}</span>
+            <button
+              onClick={closeTemplate}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              title="Close"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <label className="block">
+            <span className="text-gray-700 dark:text-gray-300">Workflow name</span>
+            <input
+              type="text"
+              value={workflowName}
+              onChange={(e) => setWorkflowName(e.target.value)}
+              placeholder={activeTemplate.name}
+              className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            />
+          </label>
+
+          {activeTemplate.variables.map(variable => (
+            <label key={variable.name} className="block">
+              <span className="text-gray-700 dark:text-gray-300">
+                {variable.name}
+                {variable.required && <span className="text-red-500"> *</span>}
+              </span>
+              {variable.description && (
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{variable.description}</span>
+              )}
+              {renderVariableInput(variable)}
+            </label>
+          ))}
+
+          {errors.length > 0 && (
+            <div className="text-red-600 dark:text-red-400">
+              {errors.map((error, index) => <p key={index}>{error}</p>)}
+            </div>
+          )}
+
+          <button
+            onClick={createWorkflow}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Create Workflow
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {templates.map(template => (
+            <div
+              key={template.id}
+              className="p-3 rounded-lg border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100 text-sm">
+                  <FileText className="w-4 h-4 text-gray-400" />
+                  {template.name}
+                </span>
+                {!template.isPublic && (
+                  <button
+                    onClick={() => deleteTemplate(template.id)}
+                    className="p-1 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors"
+                    title="Delete template"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2">{template.description}</p>
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-xs text-gray-400">
+                  {template.steps.length} steps · used {template.usageCount} time{template.usageCount === 1 ? '' : 's'}
+                </span>
+                <button
+                  onClick={() => startTemplate(template)}
+                  className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  Use template
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default WorkflowTemplateGallery
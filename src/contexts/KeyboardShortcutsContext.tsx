@@ -3,6 +3,7 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react'
 import { useRouter } from 'next/navigation'
 import { keyboardShortcuts, KeyboardShortcut, DEFAULT_SHORTCUTS } from '@/lib/keyboard-shortcuts'
+import { undoHistory } from '@/lib/undo-history'
 import { usePreferences, useTheme, useLayout } from './PreferencesContext'
 
 interface KeyboardShortcutsContextType {
@@ -115,6 +116,14 @@ export function KeyboardShortcutsProvider({ children }: KeyboardShortcutsProvide
       {
         ...DEFAULT_SHORTCUTS[10], // 'Ctrl+K'
         action: focusSearch
+      },
+      {
+        ...DEFAULT_SHORTCUTS[11], // 'Ctrl+Z'
+        action: () => undoHistory.undo()
+      },
+      {
+        ...DEFAULT_SHORTCUTS[12], // 'Ctrl+Shift+Z'
+        action: () => undoHistory.redo()
       }
     ]
 
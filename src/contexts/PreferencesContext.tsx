@@ -1,11 +1,13 @@
 'use client'
 
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react'
-import { UserPreferences, PreferencesStorage, DEFAULT_PREFERENCES } from '@/lib/storage'
+import { UserPreferences, PreferencesStorage, DEFAULT_PREFERENCES, Storage, STORAGE_KEYS } from '@/lib/storage'
+import { crossTabSync } from '@/lib/cross-tab-sync'
+import { undoHistory } from '@/lib/undo-history'
 
 interface PreferencesContextType {
   preferences: UserPreferences
-  updatePreferences: (updates: Partial<Omit<UserPreferences, '__schemaVersion'>>) => void
+  updatePreferences: (updates: Partial<Omit<UserPreferences, '__schemaVersion'>>, label?: string) => void
   toggleFavorite: (toolId: string) => void
   addToRecent: (toolId: string) => void
   isLoading: boolean
@@ -23,8 +25,9 @@ export function PreferencesProvider({ children }: PreferencesProviderProps) {
 
   // Load preferences on mount
   useEffect(() => {
-    const loadPreferences = () => {
+    const loadPreferences = async () => {
       try {
+        await Storage.initialize()
         const stored = PreferencesStorage.get()
         setPreferences(stored)
       } catch (error) {
@@ -38,18 +41,54 @@ export function PreferencesProvider({ children }: PreferencesProviderProps) {
     loadPreferences()
   }, [])
 
+  // Pick up preferences saved in other tabs; the latest save wins
+  useEffect(() => {
+    return crossTabSync.subscribe([STORAGE_KEYS.PREFERENCES], () => {
+      setPreferences(PreferencesStorage.get())
+    })
+  }, [])
+
   // Update preferences and persist to storage
-  const updatePreferences = (updates: Partial<Omit<UserPreferences, '__schemaVersion'>>) => {
+  const savePreferences = (updates: Partial<Omit<UserPreferences, '__schemaVersion'>>): boolean => {
     const newPreferences = { ...preferences, ...updates }
     setPreferences(newPreferences)
     
     try {
-      PreferencesStorage.set(newPreferences)
+      if (PreferencesStorage.set(newPreferences)) return true
     } catch (error) {
       console.error('Failed to save preferences:', error)
-      // Revert on failure
-      setPreferences(preferences)
     }
+
+    // Revert on failure
+    setPreferences(preferences)
+    return false
+  }
+
+  // Apply undone or redone fields on top of whatever the preferences are by then
+  const applyPreferences = (updates: Partial<Omit<UserPreferences, '__schemaVersion'>>) => {
+    const newPreferences = { ...PreferencesStorage.get(), ...updates }
+    setPreferences(newPreferences)
+    PreferencesStorage.set(newPreferences)
+  }
+
+  // Update preferences, so that the change can be undone
+  const updatePreferences = (updates: Partial<Omit<UserPreferences, '__schemaVersion'>>, label?: string) => {
+    const keys = Object.keys(updates) as (keyof typeof updates)[]
+    const previous: Partial<Omit<UserPreferences, '__schemaVersion'>> = {}
+    const copyField = <K extends keyof typeof updates>(key: K) => {
+      previous[key] = preferences[key]
+    }
+    keys.forEach(copyField)
+
+    if (!savePreferences(updates)) return
+
+    undoHistory.record({
+      label: label || `Change ${keys.join(', ')}`,
+      source: 'preferences',
+      destructive: false,
+      undo: () => applyPreferences(previous),
+      redo: () => applyPreferences(updates)
+    })
   }
 
   // Toggle favorite status for a tool
@@ -61,15 +100,15 @@ export function PreferencesProvider({ children }: PreferencesProviderProps) {
       ? currentFavorites.filter(id => id !== toolId)
       : [...currentFavorites, toolId]
     
-    updatePreferences({ favoriteTools: newFavorites })
+    updatePreferences({ favoriteTools: newFavorites }, isFavorite ? 'Remove from favorites' : 'Add to favorites')
   }
 
-  // Add tool to recent tools (max 10, most recent first)
+  // Add tool to recent tools (max 10, most recent first); bookkeeping, so not undoable
   const addToRecent = (toolId: string) => {
     const currentRecent = preferences.recentTools.filter(id => id !== toolId)
     const newRecent = [toolId, ...currentRecent].slice(0, 10)
     
-    updatePreferences({ recentTools: newRecent })
+    savePreferences({ recentTools: newRecent })
   }
 
   const value: PreferencesContextType = {
@@ -100,7 +139,7 @@ export function useTheme() {
   const { preferences, updatePreferences } = usePreferences()
   
   const setTheme = (theme: UserPreferences['theme']) => {
-    updatePreferences({ theme })
+    updatePreferences({ theme }, 'Change theme')
   }
 
   const toggleTheme = () => {
@@ -135,7 +174,7 @@ export function useLayout() {
   const { preferences, updatePreferences } = usePreferences()
   
   const setLayout = (layout: UserPreferences['layout']) => {
-    updatePreferences({ layout })
+    updatePreferences({ layout }, 'Change layout')
   }
 
   const toggleLayout = () => {
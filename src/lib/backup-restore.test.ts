@@ -0,0 +1,86 @@
+import './browser-shim'
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { BackupSection, BackupState, RestorablePreferences, RestorableTool, computeDelta, diffStates } from './backup-restore'
+import { PersistedCollection } from './collections'
+import { ToolCategory } from './tool-registry'
+
+const tool = (id: string, extra: Partial<RestorableTool> = {}): RestorableTool => ({
+  id,
+  name: id,
+  description: `The ${id} tool`,
+  category: ToolCategory.UTILITIES,
+  icon: 'Wrench',
+  path: `/tools/${id}`,
+  isFavorite: false,
+  tags: [],
+  version: '1.0.0',
+  ...extra
+})
+
+const collection = (id: string, updatedAt: string): PersistedCollection => ({
+  id,
+  name: 'Morning',
+  description: '',
+  icon: 'Folder',
+  color: 'blue',
+  toolIds: ['timer'],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt,
+  isWorkflow: true,
+  workflowSteps: []
+})
+
+const current: BackupState = {
+  tools: { timer: tool('timer'), notes: tool('notes') },
+  collections: { morning: collection('morning', '2026-01-01T00:00:00.000Z') },
+  preferences: { theme: 'light', layout: 'grid' },
+  toolData: {
+    timer: { encrypted: false, value: { __schemaVersion: 1, minutes: 25, sound: 'bell' } },
+    vault: { encrypted: true, envelope: 'first' }
+  }
+}
+
+const incoming: BackupState = {
+  tools: { timer: tool('timer', { name: 'Pomodoro', tags: ['focus'] }), clock: tool('clock') },
+  collections: { morning: collection('morning', '2026-03-01T00:00:00.000Z') },
+  preferences: { theme: 'dark', layout: 'grid' },
+  toolData: {
+    timer: { encrypted: false, value: { __schemaVersion: 2, minutes: 50, sound: 'bell' } },
+    vault: { encrypted: true, envelope: 'second' }
+  }
+}
+
+test('lists what a restore would add, change and remove', () => {
+  assert.deepEqual(diffStates(current, incoming, true), [
+    { id: 'tools:timer', section: 'tools', key: 'timer', label: 'Tool "Pomodoro"', change: 'changed', fields: ['name', 'tags'] },
+    { id: 'tools:clock', section: 'tools', key: 'clock', label: 'Tool "clock"', change: 'added' },
+    { id: 'tools:notes', section: 'tools', key: 'notes', label: 'Tool "notes"', change: 'removed' },
+    // Collections only differing in their timestamps are left out
+    { id: 'preferences:theme', section: 'preferences', key: 'theme', label: 'Preference "theme"', change: 'changed', fields: undefined },
+    { id: 'toolData:timer', section: 'toolData', key: 'timer', label: 'timer tool data', change: 'changed', fields: ['minutes'] },
+    { id: 'toolData:vault', section: 'toolData', key: 'vault', label: 'vault tool data (encrypted)', change: 'changed', fields: ['value'] }
+  ])
+})
+
+test('leaves out removals, unknown preferences and sections the backup lacks', () => {
+  const partial: BackupState = { tools: { timer: tool('timer') }, preferences: { theme: 'light', sidebar: 'left' } as RestorablePreferences }
+  assert.deepEqual(diffStates(current, partial, false), [])
+  assert.deepEqual(diffStates(current, partial, true).map(item => item.id), ['tools:notes'])
+})
+
+test('stores only what changed between snapshots, and replays to the newer state', () => {
+  const delta = computeDelta(current, incoming)
+
+  assert.deepEqual(Object.keys(delta), ['tools', 'collections', 'preferences', 'toolData'])
+  assert.deepEqual(delta.tools, { set: { timer: incoming.tools!.timer, clock: incoming.tools!.clock }, removed: ['notes'] })
+  assert.deepEqual(delta.preferences, { set: { theme: 'dark' }, removed: [] })
+  assert.deepEqual(computeDelta(current, current), {})
+
+  const replayed: Record<string, Record<string, any>> = JSON.parse(JSON.stringify(current))
+  ;(Object.keys(delta) as BackupSection[]).forEach(section => {
+    Object.assign(replayed[section], delta[section]!.set)
+    delta[section]!.removed.forEach(key => delete replayed[section][key])
+  })
+  assert.deepEqual(replayed, incoming)
+})
@@ -0,0 +1,643 @@
+// Backup and Restore for App Studio
+// Complete backups, timestamped incremental snapshots and selective restore with a diff preview
+
+import { Storage, STORAGE_KEYS, UserPreferences, PreferencesStorage, ToolData, ToolDataStorage, encryptedStorage } from './storage'
+import { parseEnvelope } from './storage-encryption'
+import { canonicalJson } from './package-signing'
+import { toolRegistry, PersistedTool, toPersistedTool, ToolCategory } from './tool-registry'
+import { collectionManager, PersistedCollection, toPersistedCollection, fromPersistedCollection } from './collections'
+
+export type BackupSection = 'tools' | 'collections' | 'preferences' | 'toolData'
+
+// Usage and creation dates are left out; a restore brings back configuration, not history
+export type RestorableTool = Omit<PersistedTool, 'usageCount' | 'lastUsed' | 'createdAt'>
+
+export type RestorablePreferences = Partial<Omit<UserPreferences, '__schemaVersion'>>
+
+// Encrypted tool data is only ever backed up as its ciphertext
+export type BackupToolData =
+  | { encrypted: false; value: ToolData }
+  | { encrypted: true; envelope: string }
+
+/**
+ * Everything a backup or snapshot can restore, keyed by ID (or preference name).
+ * A missing section is left alone by a restore.
+ */
+export interface BackupState {
+  tools?: Record<string, RestorableTool>
+  collections?: Record<string, PersistedCollection>
+  preferences?: RestorablePreferences
+  toolData?: Record<string, BackupToolData>
+}
+
+// The downloadable complete backup; older files without toolData still restore
+export interface BackupFile {
+  preferences?: RestorablePreferences
+  tools?: RestorableTool[]
+  collections?: PersistedCollection[]
+  toolData?: Record<string, BackupToolData>
+  exportedAt: string
+  version: string
+}
+
+export type RestoreChangeType = 'added' | 'changed' | 'removed'
+
+export interface RestoreDiffItem {
+  id: string // `${section}:${key}`, used to pick items to restore
+  section: BackupSection
+  key: string
+  label: string
+  change: RestoreChangeType
+  fields?: string[] // what differs, for changed tools, collections and tool data
+}
+
+export interface RestoreResult {
+  success: boolean
+  applied: number
+  errors: string[]
+  snapshotId: string | null // taken just before, to roll the restore back
+}
+
+export interface SnapshotDelta {
+  set: Record<string, any>
+  removed: string[]
+}
+
+interface StoredSnapshot {
+  id: string
+  createdAt: string
+  label: string
+  changes: Partial<Record<BackupSection, SnapshotDelta>> // the first snapshot holds everything
+}
+
+interface StoredSnapshots {
+  __schemaVersion: number
+  snapshots: StoredSnapshot[]
+}
+
+export interface SnapshotSummary {
+  id: string
+  createdAt: Date
+  label: string
+  changeCount: number
+}
+
+// One tool's data saved before an update, exactly as stored (ciphertext for encrypted tools)
+interface StoredToolDataSnapshot {
+  id: string
+  toolId: string
+  version: string // tool version the data belongs to
+  createdAt: string
+  raw: string | null // null when the tool had no data yet
+}
+
+interface StoredToolDataSnapshots {
+  __schemaVersion: number
+  snapshots: StoredToolDataSnapshot[]
+}
+
+export interface ToolDataSnapshot {
+  id: string
+  toolId: string
+  version: string
+  createdAt: Date
+  size: number
+}
+
+export const BACKUP_FILE_VERSION = '1.1.0'
+
+const SECTIONS: BackupSection[] = ['tools', 'collections', 'preferences', 'toolData']
+const MAX_SNAPSHOTS = 30
+
+/**
+ * Backup Manager class
+ */
+export class BackupManager {
+  /**
+   * Read the current tools, collections, preferences and tool data
+   */
+  async captureState(): Promise<BackupState> {
+    await Storage.initialize()
+    await toolRegistry.initialize()
+    await collectionManager.initialize()
+    // Encrypted writes still in flight wouldn't be in storage yet
+    await Storage.flush()
+
+    const tools: Record<string, RestorableTool> = {}
+    toolRegistry.getAll().forEach(tool => {
+      tools[tool.id] = toRestorableTool(toPersistedTool(tool))
+    })
+
+    const collections: Record<string, PersistedCollection> = {}
+    collectionManager.getAll().forEach(collection => {
+      collections[collection.id] = toPersistedCollection(collection)
+    })
+
+    const { __schemaVersion, ...preferences } = PreferencesStorage.get()
+
+    const toolData: Record<string, BackupToolData> = {}
+    Storage.getKeySizes()
+      .map(size => size.key)
+      .filter(key => key.startsWith('tool-') && key.endsWith('-data'))
+      .forEach(key => {
+        const raw = Storage.getSerialized(key)
+        if (raw === null) return
+
+        const toolId = key.slice('tool-'.length, -'-data'.length)
+        toolData[toolId] = parseEnvelope(raw)
+          ? { encrypted: true, envelope: raw }
+          : { encrypted: false, value: Storage.get<ToolData>(key, { __schemaVersion: 1 }) }
+      })
+
+    return { tools, collections, preferences, toolData }
+  }
+
+  /**
+   * Build the complete backup file
+   */
+  async createBackupFile(): Promise<BackupFile> {
+    const state = await this.captureState()
+    return {
+      preferences: state.preferences,
+      tools: Object.keys(state.tools!).map(id => state.tools![id]),
+      collections: Object.keys(state.collections!).map(id => state.collections![id]),
+      toolData: state.toolData,
+      exportedAt: new Date().toISOString(),
+      version: BACKUP_FILE_VERSION
+    }
+  }
+
+  /**
+   * Read a backup file, including preferences-only exports and older complete backups
+   */
+  parseBackupFile(data: any): { state: BackupState | null; errors: string[] } {
+    if (!data || typeof data !== 'object') {
+      return { state: null, errors: ['Invalid backup format'] }
+    }
+
+    const state: BackupState = {}
+    const errors: string[] = []
+
+    if (data.preferences && typeof data.preferences === 'object') {
+      const { __schemaVersion, ...preferences } = data.preferences
+      state.preferences = preferences
+    }
+
+    if (data.tools !== undefined) {
+      if (!Array.isArray(data.tools)) {
+        errors.push('Backup tools must be a list')
+      } else {
+        state.tools = {}
+        data.tools.forEach((tool: any, index: number) => {
+          if (!tool || !tool.id) {
+            errors.push(`Tool ${index + 1}: Missing ID`)
+            return
+          }
+          state.tools![tool.id] = toRestorableTool(tool)
+        })
+      }
+    }
+
+    if (data.collections !== undefined) {
+      if (!Array.isArray(data.collections)) {
+        errors.push('Backup collections must be a list')
+      } else {
+        state.collections = {}
+        data.collections.forEach((collection: any, index: number) => {
+          if (!collection || !collection.id) {
+            errors.push(`Collection ${index + 1}: Missing ID`)
+            return
+          }
+          state.collections![collection.id] = collection
+        })
+      }
+    }
+
+    if (data.toolData !== undefined) {
+      if (!data.toolData || typeof data.toolData !== 'object') {
+        errors.push('Backup tool data must be an object')
+      } else {
+        state.toolData = {}
+        Object.keys(data.toolData).forEach(toolId => {
+          const entry = data.toolData[toolId]
+          if (!isBackupToolData(entry)) {
+            errors.push(`Tool data "${toolId}": must be a data object, or an encrypted entry`)
+            return
+          }
+          state.toolData![toolId] = entry
+        })
+      }
+    }
+
+    if (!state.preferences && !state.tools && !state.collections && !state.toolData) {
+      errors.push('The file has nothing to restore')
+    }
+
+    return { state: errors.length === 0 ? state : null, errors }
+  }
+
+  /**
+   * What restoring this state would add, change or remove. Removals are only listed when
+   * asked for, since a package or partial backup doesn't mean "delete everything else".
+   */
+  async previewRestore(state: BackupState, options: { includeRemovals?: boolean } = {}): Promise<RestoreDiffItem[]> {
+    return diffStates(await this.captureState(), state, options.includeRemovals ?? true)
+  }
+
+  /**
+   * Restore only the picked diff items. A snapshot is taken first so the restore can be rolled back.
+   * Preference changes go through applyPreferences when given, e.g. the context's updatePreferences.
+   */
+  async applyRestore(
+    state: BackupState,
+    itemIds: string[],
+    options: { applyPreferences?: (updates: RestorablePreferences) => void } = {}
+  ): Promise<RestoreResult> {
+    const result: RestoreResult = { success: false, applied: 0, errors: [], snapshotId: null }
+
+    const items = (await this.previewRestore(state)).filter(item => itemIds.includes(item.id))
+    if (items.length === 0) {
+      return { ...result, success: true }
+    }
+
+    result.snapshotId = (await this.takeSnapshot('Before restore'))?.id || this.getLatestSnapshotId()
+
+    const preferenceUpdates: RestorablePreferences = {}
+
+    for (const item of items) {
+      try {
+        const errors = await this.applyItem(state, item, preferenceUpdates)
+        if (errors.length > 0) {
+          result.errors.push(...errors.map(error => `${item.label}: ${error}`))
+        } else if (item.section !== 'preferences') {
+          result.applied++
+        }
+      } catch (error) {
+        result.errors.push(`${item.label}: ${error}`)
+      }
+    }
+
+    const preferenceCount = Object.keys(preferenceUpdates).length
+    if (preferenceCount > 0) {
+      try {
+        if (options.applyPreferences) {
+          options.applyPreferences(preferenceUpdates)
+        } else {
+          PreferencesStorage.update(preferenceUpdates)
+        }
+        result.applied += preferenceCount
+      } catch (error) {
+        result.errors.push(`Failed to restore preferences: ${error}`)
+      }
+    }
+
+    await Storage.flush()
+    result.success = result.errors.length === 0
+    return result
+  }
+
+  /**
+   * Save what changed since the last snapshot. Returns null when nothing did.
+   */
+  async takeSnapshot(label: string = 'Manual snapshot'): Promise<SnapshotSummary | null> {
+    const state = await this.captureState()
+    const stored = this.loadSnapshots()
+    const previous = stored.snapshots.length > 0 ? reconstruct(stored.snapshots, stored.snapshots.length - 1) : {}
+
+    const changes = computeDelta(previous, state)
+    if (stored.snapshots.length > 0 && Object.keys(changes).length === 0) return null
+
+    const snapshot: StoredSnapshot = {
+      id: `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString(),
+      label,
+      changes
+    }
+    stored.snapshots.push(snapshot)
+
+    // Fold the oldest snapshots into the next one, which then holds everything
+    while (stored.snapshots.length > MAX_SNAPSHOTS) {
+      const full = reconstruct(stored.snapshots, 1)
+      stored.snapshots.shift()
+      stored.snapshots[0] = { ...stored.snapshots[0], changes: computeDelta({}, full) }
+    }
+
+    if (!Storage.set(STORAGE_KEYS.SNAPSHOTS, stored)) {
+      console.error('Failed to save snapshot')
+      return null
+    }
+    return toSummary(snapshot)
+  }
+
+  /**
+   * Take the day's snapshot unless one was already taken today
+   */
+  async takeDailySnapshot(): Promise<SnapshotSummary | null> {
+    const snapshots = this.loadSnapshots().snapshots
+    const latest = snapshots[snapshots.length - 1]
+    if (latest && new Date(latest.createdAt).toDateString() === new Date().toDateString()) return null
+
+    return this.takeSnapshot('Daily snapshot')
+  }
+
+  /**
+   * Snapshots, newest first
+   */
+  getSnapshots(): SnapshotSummary[] {
+    return this.loadSnapshots().snapshots.map(toSummary).reverse()
+  }
+
+  /**
+   * Everything as it was when a snapshot was taken
+   */
+  getSnapshotState(snapshotId: string): BackupState | null {
+    const snapshots = this.loadSnapshots().snapshots
+    const index = snapshots.findIndex(snapshot => snapshot.id === snapshotId)
+    return index === -1 ? null : reconstruct(snapshots, index)
+  }
+
+  /**
+   * Save one tool's data exactly as stored, so a rollback can put it back unchanged.
+   * Encrypted data is saved as ciphertext, so this works while encrypted storage is locked.
+   */
+  async takeToolDataSnapshot(toolId: string, version: string): Promise<ToolDataSnapshot | null> {
+    // Encrypted writes still on their way to storage belong in the snapshot
+    await Storage.flush()
+
+    const snapshot: StoredToolDataSnapshot = {
+      id: `tooldata_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      toolId,
+      version,
+      createdAt: new Date().toISOString(),
+      raw: Storage.getSerialized(STORAGE_KEYS.TOOL_DATA(toolId))
+    }
+
+    const stored = this.loadToolDataSnapshots()
+    stored.snapshots.push(snapshot)
+    if (!Storage.set(STORAGE_KEYS.TOOL_DATA_SNAPSHOTS, stored)) {
+      console.error(`Failed to save data snapshot for ${toolId}`)
+      return null
+    }
+    return toToolDataSnapshot(snapshot)
+  }
+
+  /**
+   * Saved tool data, newest first, for one tool or all of them
+   */
+  getToolDataSnapshots(toolId?: string): ToolDataSnapshot[] {
+    return this.loadToolDataSnapshots().snapshots
+      .filter(snapshot => !toolId || snapshot.toolId === toolId)
+      .map(toToolDataSnapshot)
+      .reverse()
+  }
+
+  /**
+   * Put a tool's data back exactly as it was when the snapshot was taken
+   */
+  async restoreToolDataSnapshot(snapshotId: string): Promise<{ success: boolean; errors: string[] }> {
+    const snapshot = this.loadToolDataSnapshots().snapshots.find(s => s.id === snapshotId)
+    if (!snapshot) {
+      return { success: false, errors: ['The saved tool data has been deleted'] }
+    }
+
+    const key = STORAGE_KEYS.TOOL_DATA(snapshot.toolId)
+    if (snapshot.raw === null) {
+      return ToolDataStorage.remove(snapshot.toolId)
+        ? { success: true, errors: [] }
+        : { success: false, errors: ['Failed to remove tool data'] }
+    }
+    if (parseEnvelope(snapshot.raw)) {
+      return encryptedStorage.restore(key, snapshot.raw)
+    }
+
+    // Drop any newer value the tool set, encrypted or not, so it can't overwrite the restored one
+    encryptedStorage.forget(key)
+    return Storage.setSerialized(key, snapshot.raw)
+      ? { success: true, errors: [] }
+      : { success: false, errors: ['Failed to save tool data'] }
+  }
+
+  /**
+   * Delete tool data snapshots taken before a date, for one tool or all of them.
+   * Returns how many were deleted.
+   */
+  pruneToolDataSnapshots(olderThan: Date, toolId?: string): number {
+    const stored = this.loadToolDataSnapshots()
+    const kept = stored.snapshots.filter(snapshot =>
+      (toolId && snapshot.toolId !== toolId) || new Date(snapshot.createdAt).getTime() >= olderThan.getTime()
+    )
+    const removed = stored.snapshots.length - kept.length
+    if (removed > 0 && !Storage.set(STORAGE_KEYS.TOOL_DATA_SNAPSHOTS, { ...stored, snapshots: kept })) {
+      console.error('Failed to prune tool data snapshots')
+      return 0
+    }
+    return removed
+  }
+
+  private loadToolDataSnapshots(): StoredToolDataSnapshots {
+    return Storage.get<StoredToolDataSnapshots>(STORAGE_KEYS.TOOL_DATA_SNAPSHOTS, { __schemaVersion: 1, snapshots: [] })
+  }
+
+  private getLatestSnapshotId(): string | null {
+    const snapshots = this.loadSnapshots().snapshots
+    return snapshots.length > 0 ? snapshots[snapshots.length - 1].id : null
+  }
+
+  private loadSnapshots(): StoredSnapshots {
+    return Storage.get<StoredSnapshots>(STORAGE_KEYS.SNAPSHOTS, { __schemaVersion: 1, snapshots: [] })
+  }
+
+  private async applyItem(state: BackupState, item: RestoreDiffItem, preferenceUpdates: RestorablePreferences): Promise<string[]> {
+    if (item.section === 'tools') {
+      if (item.change === 'removed') {
+        return toolRegistry.removeTool(item.key) ? [] : ['Tool not found']
+      }
+      const { id, ...tool } = state.tools![item.key]
+      const config = { ...tool, category: tool.category as ToolCategory }
+      return item.change === 'added'
+        ? toolRegistry.addTool({ id, ...config }).errors
+        : toolRegistry.updateTool(id, config).errors
+    }
+
+    if (item.section === 'collections') {
+      if (item.change === 'removed') {
+        return collectionManager.deleteCollection(item.key) ? [] : ['Collection not found']
+      }
+      return collectionManager.restoreFromBackup(fromPersistedCollection(state.collections![item.key])).errors
+    }
+
+    if (item.section === 'preferences') {
+      const copyPreference = <K extends keyof RestorablePreferences>(key: K) => {
+        preferenceUpdates[key] = state.preferences![key]
+      }
+      copyPreference(item.key as keyof RestorablePreferences)
+      return []
+    }
+
+    if (item.change === 'removed') {
+      return ToolDataStorage.remove(item.key) ? [] : ['Failed to remove tool data']
+    }
+    const data = state.toolData![item.key]
+    if (data.encrypted) {
+      return (await encryptedStorage.restore(STORAGE_KEYS.TOOL_DATA(item.key), data.envelope)).errors
+    }
+    return ToolDataStorage.set(item.key, data.value)
+      ? []
+      : ['Failed to save tool data; unlock encrypted storage if this tool keeps its data encrypted']
+  }
+}
+
+function isBackupToolData(entry: any): entry is BackupToolData {
+  if (!entry || typeof entry !== 'object') return false
+  if (entry.encrypted === true) return typeof entry.envelope === 'string' && parseEnvelope(entry.envelope) !== null
+  return entry.encrypted === false && !!entry.value && typeof entry.value === 'object' && !Array.isArray(entry.value)
+}
+
+/**
+ * Compare two states item by item
+ */
+export function diffStates(current: BackupState, incoming: BackupState, includeRemovals: boolean): RestoreDiffItem[] {
+  const items: RestoreDiffItem[] = []
+
+  SECTIONS.forEach(section => {
+    const incomingItems = incoming[section] as Record<string, any> | undefined
+    if (!incomingItems) return
+    const currentItems = (current[section] || {}) as Record<string, any>
+
+    Object.keys(incomingItems).forEach(key => {
+      const label = describeItem(section, key, incomingItems[key])
+      if (!(key in currentItems)) {
+        // A preference the app doesn't have isn't something to add
+        if (section !== 'preferences') {
+          items.push({ id: `${section}:${key}`, section, key, label, change: 'added' })
+        }
+        return
+      }
+
+      const fields = changedFields(section, currentItems[key], incomingItems[key])
+      if (fields.length > 0) {
+        items.push({
+          id: `${section}:${key}`,
+          section,
+          key,
+          label,
+          change: 'changed',
+          fields: section === 'preferences' ? undefined : fields
+        })
+      }
+    })
+
+    if (includeRemovals && section !== 'preferences') {
+      Object.keys(currentItems)
+        .filter(key => !(key in incomingItems))
+        .forEach(key => {
+          items.push({
+            id: `${section}:${key}`,
+            section,
+            key,
+            label: describeItem(section, key, currentItems[key]),
+            change: 'removed'
+          })
+        })
+    }
+  })
+
+  return items
+}
+
+function changedFields(section: BackupSection, current: any, incoming: any): string[] {
+  if (section === 'preferences' || section === 'toolData') {
+    if (canonicalJson(current) === canonicalJson(incoming)) return []
+    if (section === 'preferences' || current.encrypted || incoming.encrypted) return ['value']
+    return Object.keys({ ...current.value, ...incoming.value })
+      .filter(field => field !== '__schemaVersion')
+      .filter(field => canonicalJson(current.value[field]) !== canonicalJson(incoming.value[field]))
+  }
+
+  // Collection timestamps move on every save, so they don't count as differences
+  const ignored = ['createdAt', 'updatedAt']
+  return Object.keys({ ...current, ...incoming })
+    .filter(field => ignored.indexOf(field) === -1)
+    .filter(field => canonicalJson(current[field]) !== canonicalJson(incoming[field]))
+}
+
+function describeItem(section: BackupSection, key: string, value: any): string {
+  if (section === 'tools') return `Tool "${value.name || key}"`
+  if (section === 'collections') return `${value.isWorkflow ? 'Workflow' : 'Collection'} "${value.name || key}"`
+  if (section === 'preferences') return `Preference "${key}"`
+  return `${key} tool data${value.encrypted ? ' (encrypted)' : ''}`
+}
+
+/**
+ * What to store so that applying it to `previous` gives `next`
+ */
+export function computeDelta(previous: BackupState, next: BackupState): Partial<Record<BackupSection, SnapshotDelta>> {
+  const changes: Partial<Record<BackupSection, SnapshotDelta>> = {}
+
+  SECTIONS.forEach(section => {
+    const before = (previous[section] || {}) as Record<string, any>
+    const after = (next[section] || {}) as Record<string, any>
+    const delta: SnapshotDelta = { set: {}, removed: [] }
+
+    Object.keys(after).forEach(key => {
+      if (!(key in before) || canonicalJson(before[key]) !== canonicalJson(after[key])) {
+        delta.set[key] = after[key]
+      }
+    })
+    delta.removed = Object.keys(before).filter(key => !(key in after))
+
+    if (Object.keys(delta.set).length > 0 || delta.removed.length > 0) {
+      changes[section] = delta
+    }
+  })
+
+  return changes
+}
+
+/**
+ * Replay snapshots from the first up to and including `index`
+ */
+function reconstruct(snapshots: StoredSnapshot[], index: number): BackupState {
+  const state: Record<BackupSection, Record<string, any>> = { tools: {}, collections: {}, preferences: {}, toolData: {} }
+
+  for (let i = 0; i <= index; i++) {
+    SECTIONS.forEach(section => {
+      const delta = snapshots[i].changes[section]
+      if (!delta) return
+      Object.keys(delta.set).forEach(key => {
+        state[section][key] = delta.set[key]
+      })
+      delta.removed.forEach(key => {
+        delete state[section][key]
+      })
+    })
+  }
+
+  return state
+}
+
+function toSummary(snapshot: StoredSnapshot): SnapshotSummary {
+  const changeCount = SECTIONS.reduce((count, section) => {
+    const delta = snapshot.changes[section]
+    return count + (delta ? Object.keys(delta.set).length + delta.removed.length : 0)
+  }, 0)
+  return { id: snapshot.id, createdAt: new Date(snapshot.createdAt), label: snapshot.label, changeCount }
+}
+
+function toToolDataSnapshot(snapshot: StoredToolDataSnapshot): ToolDataSnapshot {
+  return {
+    id: snapshot.id,
+    toolId: snapshot.toolId,
+    version: snapshot.version,
+    createdAt: new Date(snapshot.createdAt),
+    size: snapshot.raw ? snapshot.raw.length : 0
+  }
+}
+
+function toRestorableTool(tool: PersistedTool): RestorableTool {
+  const { usageCount, lastUsed, createdAt, ...restorable } = tool
+  return restorable
+}
+
+// Global backup manager instance
+export const backupManager = new BackupManager()
@@ -0,0 +1,32 @@
+// Browser globals for tests run under Node. Import this first: storage and the modules built
+// on it check for `window` when they load.
+
+const items = new Map<string, string>()
+
+const memoryStorage = {
+  get length() {
+    return items.size
+  },
+  key: (index: number) => Array.from(items.keys())[index] ?? null,
+  getItem: (key: string) => items.get(key) ?? null,
+  setItem: (key: string, value: string) => {
+    items.set(key, String(value))
+  },
+  removeItem: (key: string) => {
+    items.delete(key)
+  },
+  clear: () => items.clear()
+}
+
+Object.assign(globalThis, {
+  localStorage: memoryStorage,
+  window: {
+    localStorage: memoryStorage,
+    location: { origin: 'http://localhost', pathname: '/' },
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    dispatchEvent: () => true
+  }
+})
+
+export {}
@@ -0,0 +1,114 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { collectionManager, removeWorkflowSteps, WorkflowStep } from './collections'
+
+const tool = (toolId: string, extra: Partial<WorkflowStep> = {}): WorkflowStep => ({ toolId, order: 0, ...extra })
+
+test('removing a step repoints branches, fallbacks and step inputs', () => {
+  const steps: WorkflowStep[] = [
+    tool('text-counter'),
+    tool('json-formatter'),
+    {
+      toolId: '',
+      order: 2,
+      type: 'condition',
+      condition: { left: { source: 'step', stepIndex: 0, path: 'words' }, operator: 'greater_than', right: 10 },
+      thenStepIndex: 4,
+      elseStepIndex: 5
+    },
+    tool('case-converter', { nextStepIndex: 6, onError: 'fallback', fallbackStepIndex: 1 }),
+    tool('base64-encoder', { inputMappings: [{ target: 'text', source: 'step', stepIndex: 3, path: 'text' }] }),
+    tool('hash-generator', { inputMappings: [{ target: 'text', source: 'step', stepIndex: 0, path: 'text' }] })
+  ]
+
+  const result = removeWorkflowSteps(steps, step => step.toolId === 'json-formatter')
+
+  assert.deepEqual(result.errors, [])
+  assert.deepEqual(result.steps.map(step => step.toolId), ['text-counter', '', 'case-converter', 'base64-encoder', 'hash-generator'])
+  assert.equal(result.steps[1].condition!.left.stepIndex, 0)
+  assert.equal(result.steps[1].thenStepIndex, 3)
+  assert.equal(result.steps[1].elseStepIndex, 4)
+  // Jumps past the end stay at the end; jumps to the removed step go to the one after it
+  assert.equal(result.steps[2].nextStepIndex, 5)
+  assert.equal(result.steps[2].fallbackStepIndex, 1)
+  assert.equal(result.steps[3].inputMappings![0].stepIndex, 2)
+  assert.equal(result.steps[4].inputMappings![0].stepIndex, 0)
+})
+
+test('removing a step shrinks loop and parallel bodies around it', () => {
+  const steps: WorkflowStep[] = [
+    tool('text-counter'),
+    {
+      toolId: '',
+      order: 1,
+      type: 'loop',
+      loop: { items: { source: 'step', stepIndex: 0, path: 'lines' }, mode: 'items', bodyLength: 2 }
+    },
+    tool('case-converter'),
+    tool('json-formatter'),
+    { toolId: '', order: 4, type: 'parallel', parallel: { bodyLength: 3 } },
+    tool('base64-encoder'),
+    tool('json-formatter'),
+    tool('hash-generator')
+  ]
+
+  const result = removeWorkflowSteps(steps, step => step.toolId === 'json-formatter')
+
+  assert.deepEqual(result.errors, [])
+  assert.deepEqual(result.steps.map(step => step.toolId), ['text-counter', '', 'case-converter', '', 'base64-encoder', 'hash-generator'])
+  assert.equal(result.steps[1].loop!.bodyLength, 1)
+  assert.equal(result.steps[1].loop!.items.stepIndex, 0)
+  assert.equal(result.steps[3].parallel!.bodyLength, 2)
+})
+
+test('refuses to remove a step another step still needs', () => {
+  const steps: WorkflowStep[] = [
+    tool('text-counter'),
+    tool('case-converter', { inputMappings: [{ target: 'text', source: 'step', stepIndex: 0, path: 'text' }] }),
+    {
+      toolId: '',
+      order: 2,
+      type: 'loop',
+      loop: { items: { source: 'step', stepIndex: 1, path: 'lines' }, mode: 'lines', bodyLength: 1 }
+    },
+    tool('text-counter')
+  ]
+
+  const result = removeWorkflowSteps(steps, step => step.toolId === 'text-counter')
+
+  assert.deepEqual(result.errors, [
+    'Step 2: input "text" uses the output of step 1, which would be removed',
+    'Step 3: the loop would be left with no steps'
+  ])
+})
+
+test('rejects jumps into or out of a loop or parallel body', () => {
+  const validate = (name: string, workflowSteps: WorkflowStep[]) =>
+    collectionManager.createCollection({ name, description: 'Test workflow', isWorkflow: true, workflowSteps }).errors
+  const loop = (bodyLength: number): WorkflowStep => ({
+    toolId: '',
+    order: 1,
+    type: 'loop',
+    loop: { items: { source: 'variable', variable: 'lines' }, mode: 'lines', bodyLength }
+  })
+  const outOfBody = (step: number) => `Step ${step}: branches cannot jump into or out of a loop or parallel group`
+
+  assert.deepEqual(validate('Into a loop', [tool('text-counter', { nextStepIndex: 3 }), loop(2), tool('case-converter'), tool('base64-encoder')]), [outOfBody(1)])
+  assert.deepEqual(validate('Into a parallel group', [
+    tool('text-counter', { onError: 'fallback', fallbackStepIndex: 2 }),
+    { toolId: '', order: 1, type: 'parallel', parallel: { bodyLength: 2 } },
+    tool('case-converter'),
+    tool('base64-encoder')
+  ]), [outOfBody(1)])
+  assert.deepEqual(validate('Out of a loop', [tool('text-counter'), loop(2), tool('case-converter', { nextStepIndex: 0 }), tool('base64-encoder')]), [outOfBody(3)])
+
+  // Within the same body, to the loop step itself, and to the end of the body are fine
+  assert.deepEqual(validate('Within a loop', [
+    tool('text-counter', { nextStepIndex: 1 }),
+    loop(3),
+    tool('case-converter', { nextStepIndex: 3 }),
+    tool('base64-encoder', { nextStepIndex: 5 }),
+    tool('hash-generator'),
+    tool('json-formatter')
+  ]), [])
+})
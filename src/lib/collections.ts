@@ -2,6 +2,10 @@
 // Allows users to group tools into custom collections
 
 import { Tool } from './tool-registry'
+import { eventBus } from './event-bus'
+import { crossTabSync } from './cross-tab-sync'
+import { Storage, STORAGE_KEYS } from './storage'
+import { undoHistory } from './undo-history'
 
 export interface Collection {
   id: string
@@ -17,11 +21,78 @@ export interface Collection {
 }
 
 export interface WorkflowStep {
-  toolId: string
+  toolId: string // empty for condition, loop and parallel steps
   order: number
+  type?: WorkflowStepType // defaults to 'tool'
   description?: string
   autoAdvance?: boolean // automatically proceed to next step
   waitTime?: number // seconds to wait before auto-advance
+  input?: Record<string, any> // static input passed to the tool action
+  config?: Record<string, any> // overrides for the tool action's default config
+  inputMappings?: WorkflowInputMapping[]
+  nextStepIndex?: number // jump here after the step instead of continuing in order
+  condition?: WorkflowCondition
+  thenStepIndex?: number // where a condition goes when it passes (default: next step)
+  elseStepIndex?: number // where a condition goes when it fails (default: next step)
+  loop?: WorkflowLoop
+  parallel?: WorkflowParallelGroup
+  retry?: WorkflowRetryPolicy
+  timeoutSeconds?: number // fail an attempt that runs longer than this
+  onError?: WorkflowErrorPolicy // defaults to 'fail'
+  fallbackStepIndex?: number // where 'fallback' jumps after the final failed attempt
+}
+
+export interface WorkflowRetryPolicy {
+  maxAttempts: number // total attempts, including the first
+  backoffSeconds: number // wait before the second attempt
+  backoffMultiplier?: number // growth factor for later waits, defaults to 2
+}
+
+// fail: stop the workflow; skip: mark skipped and move on;
+// continue: mark failed and move on; fallback: jump to fallbackStepIndex
+export type WorkflowErrorPolicy = 'fail' | 'skip' | 'continue' | 'fallback'
+
+export type WorkflowStepType = 'tool' | 'condition' | 'loop' | 'parallel'
+
+export interface WorkflowValueSource {
+  source: 'step' | 'variable' | 'static'
+  stepIndex?: number // source step, must run before this one
+  path?: string // dotted path into the step output or variable, e.g. "text" or "valid.0"
+  variable?: string // workflow variable name
+  value?: any // literal value for static sources
+}
+
+export interface WorkflowInputMapping extends WorkflowValueSource {
+  target: string // input key on this step's tool action
+}
+
+export type WorkflowConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'greater_than'
+  | 'less_than'
+  | 'contains'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'is_true'
+  | 'is_false'
+
+export interface WorkflowCondition {
+  left: WorkflowValueSource
+  operator: WorkflowConditionOperator
+  right?: any // compared value, unused by the unary operators
+}
+
+export interface WorkflowLoop {
+  items: WorkflowValueSource
+  mode: 'lines' | 'items' // split text into lines, or iterate an array
+  itemVariable?: string // variable holding the current item, defaults to "item"
+  bodyLength: number // number of steps after the loop step that run per item
+}
+
+export interface WorkflowParallelGroup {
+  bodyLength: number // number of tool steps after the parallel step that run side by side
+  maxConcurrency?: number // how many of them may run at once, defaults to all
 }
 
 export interface PersistedCollection {
@@ -59,11 +130,87 @@ export function fromPersistedCollection(persisted: PersistedCollection): Collect
   }
 }
 
+function cloneCollection(collection: Collection): Collection {
+  return fromPersistedCollection(JSON.parse(JSON.stringify(toPersistedCollection(collection))))
+}
+
+/**
+ * Drop workflow steps and repoint what the remaining steps refer to by index: jumps,
+ * step inputs, condition and loop sources, and loop and parallel bodies. A jump to a
+ * dropped step goes to the step that followed it. Fails instead of dropping a step whose
+ * output a remaining step reads, or the last step of a loop or parallel body.
+ */
+export function removeWorkflowSteps(
+  steps: WorkflowStep[],
+  shouldRemove: (step: WorkflowStep, index: number) => boolean
+): { steps: WorkflowStep[]; errors: string[] } {
+  const removed = steps.map(shouldRemove)
+  const errors: string[] = []
+
+  // New index of every old index, including steps.length for "end of workflow"
+  const newIndex: number[] = []
+  let kept = 0
+  for (let index = 0; index <= steps.length; index++) {
+    newIndex.push(kept)
+    if (index < steps.length && !removed[index]) kept++
+  }
+  const remapJump = (target: number) => newIndex[target] ?? target
+  const keptBetween = (first: number, last: number) =>
+    newIndex[Math.min(last + 1, steps.length)] - newIndex[Math.min(first, steps.length)]
+  const remapSource = <T extends WorkflowValueSource>(source: T, index: number, label: string): T => {
+    if (source.source !== 'step' || typeof source.stepIndex !== 'number' || newIndex[source.stepIndex] === undefined) return source
+    if (removed[source.stepIndex]) {
+      errors.push(`Step ${index + 1}: ${label} uses the output of step ${source.stepIndex + 1}, which would be removed`)
+    }
+    return { ...source, stepIndex: newIndex[source.stepIndex] }
+  }
+
+  const remaining: WorkflowStep[] = []
+  steps.forEach((step, index) => {
+    if (removed[index]) return
+
+    const next: WorkflowStep = { ...step }
+    if (step.nextStepIndex !== undefined) next.nextStepIndex = remapJump(step.nextStepIndex)
+    if (step.thenStepIndex !== undefined) next.thenStepIndex = remapJump(step.thenStepIndex)
+    if (step.elseStepIndex !== undefined) next.elseStepIndex = remapJump(step.elseStepIndex)
+    if (step.fallbackStepIndex !== undefined) next.fallbackStepIndex = remapJump(step.fallbackStepIndex)
+
+    if (step.condition) {
+      next.condition = { ...step.condition, left: remapSource(step.condition.left, index, 'the condition') }
+    }
+    if (step.loop) {
+      const bodyLength = keptBetween(index + 1, index + step.loop.bodyLength)
+      if (bodyLength === 0) errors.push(`Step ${index + 1}: the loop would be left with no steps`)
+      next.loop = { ...step.loop, bodyLength, items: remapSource(step.loop.items, index, 'the loop') }
+    }
+    if (step.parallel) {
+      const bodyLength = keptBetween(index + 1, index + step.parallel.bodyLength)
+      if (bodyLength === 0) errors.push(`Step ${index + 1}: the parallel group would be left with no steps`)
+      next.parallel = { ...step.parallel, bodyLength }
+    }
+    if (step.inputMappings) {
+      next.inputMappings = step.inputMappings.map(mapping => remapSource(mapping, index, `input "${mapping.target}"`))
+    }
+
+    remaining.push(next)
+  })
+
+  return { steps: remaining, errors }
+}
+
+function describe(collection: Collection): string {
+  return `${collection.isWorkflow ? 'workflow' : 'collection'} "${collection.name}"`
+}
+
+// How long deletions are remembered for tabs that were offline or asleep
+const TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
 /**
  * Collection Manager class
  */
 export class CollectionManager {
   private collections: Map<string, Collection> = new Map()
+  private deletedAt: Map<string, number> = new Map() // tombstones, so other tabs don't bring deleted collections back
   private initialized = false
 
   /**
@@ -73,6 +220,7 @@ export class CollectionManager {
     if (this.initialized) return
     
     this.loadFromStorage()
+    crossTabSync.register(STORAGE_KEYS.COLLECTIONS, newValue => this.mergeFromOtherTab(newValue))
     this.initialized = true
   }
 
@@ -142,7 +290,8 @@ export class CollectionManager {
     }
     
     this.collections.set(collection.id, collection)
-    this.persistToStorage()
+    this.persistToStorage(collection.id, 'created')
+    this.recordChange(`Create ${describe(collection)}`, collection.id, undefined, collection, false)
     
     return { success: true, errors: [], collection }
   }
@@ -179,7 +328,8 @@ export class CollectionManager {
     }
     
     this.collections.set(id, updatedCollection)
-    this.persistToStorage()
+    this.persistToStorage(id, 'updated')
+    this.recordChange(`Edit ${describe(updatedCollection)}`, id, collection, updatedCollection, false)
     
     return { success: true, errors: [] }
   }
@@ -188,13 +338,40 @@ export class CollectionManager {
    * Delete a collection
    */
   deleteCollection(id: string): boolean {
+    const collection = this.collections.get(id)
     const success = this.collections.delete(id)
     if (success) {
-      this.persistToStorage()
+      this.deletedAt.set(id, Date.now())
+      this.persistToStorage(id, 'deleted')
+      this.recordChange(`Delete ${describe(collection!)}`, id, collection, undefined, true)
     }
     return success
   }
 
+  /**
+   * Put back a collection from a backup under its own ID, replacing the current copy if any
+   */
+  restoreFromBackup(collection: Collection): { success: boolean; errors: string[] } {
+    const errors = this.validateCollectionData(collection)
+
+    const existingCollection = this.getAll().find(c =>
+      c.name.toLowerCase() === collection.name.toLowerCase() && c.id !== collection.id
+    )
+    if (existingCollection) {
+      errors.push(`Collection with name "${collection.name}" already exists`)
+    }
+
+    if (errors.length > 0) {
+      return { success: false, errors }
+    }
+
+    const current = this.collections.get(collection.id)
+    this.restoreCollection(collection.id, collection)
+    this.recordChange(`Restore ${describe(collection)}`, collection.id, current, this.collections.get(collection.id), false)
+
+    return { success: true, errors: [] }
+  }
+
   /**
    * Add tool to collection
    */
@@ -203,35 +380,48 @@ export class CollectionManager {
     if (!collection) return false
     
     if (!collection.toolIds.includes(toolId)) {
+      const before = cloneCollection(collection)
       collection.toolIds.push(toolId)
       collection.updatedAt = new Date()
-      this.persistToStorage()
+      this.persistToStorage(collectionId, 'updated')
+      this.recordChange(`Add tool to ${describe(collection)}`, collectionId, before, collection, false)
     }
     
     return true
   }
 
   /**
-   * Remove tool from collection
+   * Remove tool from collection. A workflow loses the tool's steps, and is left
+   * unchanged if its other steps still depend on them.
    */
-  removeToolFromCollection(collectionId: string, toolId: string): boolean {
+  removeToolFromCollection(collectionId: string, toolId: string): { success: boolean; errors: string[] } {
     const collection = this.collections.get(collectionId)
-    if (!collection) return false
+    if (!collection) {
+      return { success: false, errors: [`Collection with ID "${collectionId}" not found`] }
+    }
     
     const index = collection.toolIds.indexOf(toolId)
     if (index > -1) {
-      collection.toolIds.splice(index, 1)
-      collection.updatedAt = new Date()
-      
       // Remove from workflow steps if it's a workflow
+      let workflowSteps = collection.workflowSteps
       if (collection.isWorkflow && collection.workflowSteps) {
-        collection.workflowSteps = collection.workflowSteps.filter(step => step.toolId !== toolId)
+        const removal = removeWorkflowSteps(collection.workflowSteps, step => step.toolId === toolId)
+        if (removal.errors.length > 0) {
+          return { success: false, errors: removal.errors }
+        }
+        workflowSteps = removal.steps
       }
+
+      const before = cloneCollection(collection)
+      collection.toolIds.splice(index, 1)
+      collection.workflowSteps = workflowSteps
+      collection.updatedAt = new Date()
       
-      this.persistToStorage()
+      this.persistToStorage(collectionId, 'updated')
+      this.recordChange(`Remove tool from ${describe(collection)}`, collectionId, before, collection, false)
     }
     
-    return true
+    return { success: true, errors: [] }
   }
 
   /**
@@ -259,20 +449,120 @@ export class CollectionManager {
     
     if (data.isWorkflow && data.workflowSteps) {
       // Validate workflow steps
+      const steps = data.workflowSteps
       const toolIds = new Set()
-      for (const step of data.workflowSteps) {
-        if (!step.toolId) {
-          errors.push('All workflow steps must have a tool ID')
+
+      // Index of the parallel step whose group each step belongs to
+      const parallelGroupOf: Record<number, number> = {}
+      steps.forEach((step, index) => {
+        if ((step.type || 'tool') === 'parallel' && step.parallel) {
+          for (let body = index + 1; body <= index + step.parallel.bodyLength && body < steps.length; body++) {
+            parallelGroupOf[body] = index
+          }
         }
-        if (toolIds.has(step.toolId)) {
-          errors.push('Workflow steps cannot contain duplicate tools')
+      })
+
+      // Innermost loop or parallel step whose body each step is in, and where each body ends.
+      // Bodies only run through their loop or group, so jumps can't cross into or out of one.
+      const bodyOf: Record<number, number> = {}
+      const bodyEnd: Record<number, number> = {}
+      steps.forEach((step, index) => {
+        const length = step.type === 'loop' ? step.loop?.bodyLength : step.type === 'parallel' ? step.parallel?.bodyLength : undefined
+        if (!length) return
+        bodyEnd[index] = index + 1 + length
+        for (let body = index + 1; body < bodyEnd[index] && body < steps.length; body++) {
+          bodyOf[body] = index
+        }
+      })
+
+      steps.forEach((step, index) => {
+        const type = step.type || 'tool'
+        const isJumpTarget = (target?: number) =>
+          target === undefined || (Number.isInteger(target) && target >= 0 && target <= steps.length)
+        const group = parallelGroupOf[index]
+        const body = bodyOf[index]
+        // Jumping to where the body ends finishes the body, like reaching its last step
+        const staysInBody = (target?: number) =>
+          target === undefined || bodyOf[target] === body || target === (body === undefined ? steps.length : bodyEnd[body])
+
+        if (type === 'tool') {
+          if (!step.toolId) {
+            errors.push('All workflow steps must have a tool ID')
+          }
+          // The same tool may run several times side by side, e.g. to validate several lists
+          if (toolIds.has(step.toolId) && group === undefined) {
+            errors.push('Workflow steps cannot contain duplicate tools')
+          }
+          toolIds.add(step.toolId)
         }
-        toolIds.add(step.toolId)
         
         if (typeof step.order !== 'number' || step.order < 0) {
           errors.push('Workflow step order must be a non-negative number')
         }
-      }
+
+        if (type === 'condition' && (!step.condition || !step.condition.left || !step.condition.operator)) {
+          errors.push(`Step ${index + 1}: condition steps need a value and an operator`)
+        }
+
+        if (type === 'loop') {
+          if (!step.loop || !step.loop.items) {
+            errors.push(`Step ${index + 1}: loop steps need a list of items`)
+          } else if (!Number.isInteger(step.loop.bodyLength) || step.loop.bodyLength < 1 || index + step.loop.bodyLength >= steps.length) {
+            errors.push(`Step ${index + 1}: loop body must cover at least one of the following steps`)
+          }
+        }
+
+        if (type === 'parallel') {
+          if (!step.parallel || !Number.isInteger(step.parallel.bodyLength) || step.parallel.bodyLength < 1 || index + step.parallel.bodyLength >= steps.length) {
+            errors.push(`Step ${index + 1}: parallel group must cover at least one of the following steps`)
+          }
+          if (step.parallel?.maxConcurrency !== undefined && (!Number.isInteger(step.parallel.maxConcurrency) || step.parallel.maxConcurrency < 1)) {
+            errors.push(`Step ${index + 1}: parallel concurrency limit must be at least 1`)
+          }
+        }
+
+        if (group !== undefined) {
+          if (type !== 'tool') {
+            errors.push(`Step ${index + 1}: parallel groups can only contain tool steps`)
+          }
+          if (step.nextStepIndex !== undefined || step.onError === 'fallback') {
+            errors.push(`Step ${index + 1}: steps in a parallel group cannot jump to other steps`)
+          }
+          step.inputMappings?.forEach(mapping => {
+            if (mapping.source === 'step' && parallelGroupOf[mapping.stepIndex!] === group) {
+              errors.push(`Step ${index + 1}: input "${mapping.target}" cannot use a step running in the same parallel group`)
+            }
+          })
+        }
+
+        if (!isJumpTarget(step.nextStepIndex) || !isJumpTarget(step.thenStepIndex) || !isJumpTarget(step.elseStepIndex)) {
+          errors.push(`Step ${index + 1}: branches must point to a step in this workflow`)
+        } else if (![step.nextStepIndex, step.thenStepIndex, step.elseStepIndex, step.onError === 'fallback' ? step.fallbackStepIndex : undefined].every(staysInBody)) {
+          errors.push(`Step ${index + 1}: branches cannot jump into or out of a loop or parallel group`)
+        }
+
+        if (step.retry && (!Number.isInteger(step.retry.maxAttempts) || step.retry.maxAttempts < 1 || step.retry.backoffSeconds < 0)) {
+          errors.push(`Step ${index + 1}: retries need at least one attempt and a non-negative backoff`)
+        }
+        if (step.timeoutSeconds !== undefined && !(step.timeoutSeconds > 0)) {
+          errors.push(`Step ${index + 1}: timeout must be a positive number of seconds`)
+        }
+        if (step.onError === 'fallback' && (step.fallbackStepIndex === undefined || !isJumpTarget(step.fallbackStepIndex))) {
+          errors.push(`Step ${index + 1}: the fallback error policy needs a fallback step`)
+        }
+
+        step.inputMappings?.forEach(mapping => {
+          if (!mapping.target) {
+            errors.push(`Step ${index + 1}: input mappings must name a target input`)
+          }
+          if (mapping.source === 'step' && (typeof mapping.stepIndex !== 'number' || mapping.stepIndex < 0 || mapping.stepIndex >= index)) {
+            errors.push(`Step ${index + 1}: input "${mapping.target}" can only reference an earlier step`)
+          }
+          if (mapping.source === 'variable' && !mapping.variable) {
+            errors.push(`Step ${index + 1}: input "${mapping.target}" must name a variable`)
+          }
+        })
+      })
     }
     
     return errors
@@ -286,17 +576,112 @@ export class CollectionManager {
   }
 
   /**
-   * Persist collections to localStorage
+   * Add a change to the undo history, keeping copies of the collection before and after it
+   */
+  private recordChange(label: string, id: string, before: Collection | undefined, after: Collection | undefined, destructive: boolean): void {
+    const beforeCopy = before && cloneCollection(before)
+    const afterCopy = after && cloneCollection(after)
+
+    undoHistory.record({
+      label,
+      source: 'collections',
+      destructive,
+      undo: () => this.restoreCollection(id, beforeCopy),
+      redo: () => this.restoreCollection(id, afterCopy)
+    })
+  }
+
+  /**
+   * Put a collection back the way a copy recorded it, or delete it if there was none
    */
-  private persistToStorage(): void {
+  private restoreCollection(id: string, copy: Collection | undefined): void {
+    if (!copy) {
+      if (!this.collections.delete(id)) return
+      this.deletedAt.set(id, Date.now())
+      this.persistToStorage(id, 'deleted')
+      return
+    }
+
+    const existed = this.collections.has(id)
+    // Stamped as a new change so other tabs take it over their copy, or over the deletion
+    const updatedAt = new Date(Math.max(Date.now(), (this.deletedAt.get(id) || 0) + 1))
+    this.collections.set(id, { ...cloneCollection(copy), updatedAt })
+    this.deletedAt.delete(id)
+    this.persistToStorage(id, existed ? 'updated' : 'created')
+  }
+
+  /**
+   * Merge collections another tab saved into ours: per collection, the most recently
+   * updated copy wins, and a deletion wins over any update made before it
+   */
+  private mergeFromOtherTab(newValue: string | null): void {
+    if (newValue === null) return
+
+    const incoming = new CollectionManager()
+    incoming.loadFromSerialized(newValue)
+
+    incoming.deletedAt.forEach((deletedAt, id) => {
+      this.deletedAt.set(id, Math.max(deletedAt, this.deletedAt.get(id) || 0))
+    })
+
+    incoming.collections.forEach((collection, id) => {
+      const local = this.collections.get(id)
+      if (!local || collection.updatedAt.getTime() > local.updatedAt.getTime()) {
+        this.collections.set(id, collection)
+      }
+    })
+
+    this.deletedAt.forEach((deletedAt, id) => {
+      const collection = this.collections.get(id)
+      if (collection && collection.updatedAt.getTime() <= deletedAt) {
+        this.collections.delete(id)
+      }
+    })
+
+    // Only save when we had changes the other tab didn't, so the tabs converge without echoing
+    if (this.serialize() !== incoming.serialize()) {
+      this.persistToStorage(null, 'updated')
+    }
+  }
+
+  private serialize(): string {
+    const cutoff = Date.now() - TOMBSTONE_RETENTION_MS
+    const deleted = Array.from(this.deletedAt.entries())
+      .filter(([, deletedAt]) => deletedAt >= cutoff)
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([id, deletedAt]) => ({ id, deletedAt: new Date(deletedAt).toISOString() }))
+
+    return JSON.stringify({
+      __schemaVersion: 1,
+      collections: this.getAll()
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .map(toPersistedCollection),
+      deleted
+    })
+  }
+
+  /**
+   * Persist collections to localStorage and announce the change
+   */
+  private persistToStorage(collectionId: string | null, change: 'created' | 'updated' | 'deleted'): void {
     if (typeof window === 'undefined') return
+
+    // The stored collections failed to migrate; saving would replace them with what was loaded instead
+    if (Storage.hasFailedMigration(STORAGE_KEYS.COLLECTIONS)) {
+      console.warn('Not saving collections: their stored data could not be migrated')
+      return
+    }
     
     try {
-      const persistedCollections = this.getAll().map(toPersistedCollection)
-      localStorage.setItem('app-studio-collections', JSON.stringify({
-        __schemaVersion: 1,
-        collections: persistedCollections
-      }))
+      const serialized = this.serialize()
+      localStorage.setItem(STORAGE_KEYS.COLLECTIONS, serialized)
+      eventBus.publishDataChange('collections', {
+        key: STORAGE_KEYS.COLLECTIONS,
+        action: 'set',
+        newValue: serialized,
+        collectionId: collectionId || undefined,
+        change
+      })
     } catch (error) {
       console.error('Failed to persist collections:', error)
     }
@@ -308,11 +693,20 @@ export class CollectionManager {
   private loadFromStorage(): void {
     if (typeof window === 'undefined') return
     
+    const stored = localStorage.getItem(STORAGE_KEYS.COLLECTIONS)
+    if (stored) {
+      this.loadFromSerialized(stored)
+    }
+  }
+
+  private loadFromSerialized(stored: string): void {
     try {
-      const stored = localStorage.getItem('app-studio-collections')
-      if (!stored) return
-      
       const data = JSON.parse(stored)
+      if (Array.isArray(data.deleted)) {
+        data.deleted.forEach((tombstone: { id: string; deletedAt: string }) => {
+          this.deletedAt.set(tombstone.id, new Date(tombstone.deletedAt).getTime())
+        })
+      }
       if (data.collections && Array.isArray(data.collections)) {
         data.collections.forEach((persistedCollection: any) => {
           try {
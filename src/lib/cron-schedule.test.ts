@@ -0,0 +1,46 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { getNextCronRun, isValidCronExpression, parseCronExpression } from './cron-schedule'
+
+// Local time, like the schedules themselves. 1 January 2026 is a Thursday.
+const at = (month: number, day: number, hour = 0, minute = 0) => new Date(2026, month - 1, day, hour, minute)
+
+test('parses steps, ranges, names and macros', () => {
+  const cron = parseCronExpression('*/15 9-17 * * MON-FRI')
+  assert.deepEqual(Array.from(cron.minutes), [0, 15, 30, 45])
+  assert.deepEqual(Array.from(cron.hours), [9, 10, 11, 12, 13, 14, 15, 16, 17])
+  assert.deepEqual(Array.from(cron.daysOfWeek), [1, 2, 3, 4, 5])
+  assert.equal(cron.dayOfMonthRestricted, false)
+  assert.equal(cron.dayOfWeekRestricted, true)
+
+  assert.deepEqual(Array.from(parseCronExpression('0 0 * * 7').daysOfWeek), [0])
+  assert.deepEqual(Array.from(parseCronExpression('@weekly').daysOfWeek), [0])
+  assert.deepEqual(Array.from(parseCronExpression('0 0 * JAN,jul *').months), [1, 7])
+})
+
+test('rejects malformed expressions', () => {
+  ;['* * * *', '60 * * * *', '*/0 * * * *', 'x * * * *', '0 0 5-1 * *', '0 0 * 13 *'].forEach(expression => {
+    assert.equal(isValidCronExpression(expression), false, expression)
+  })
+  assert.throws(() => parseCronExpression('* * * *'), /must have 5 fields/)
+})
+
+test('finds the next run strictly after the given time', () => {
+  assert.deepEqual(getNextCronRun('*/15 * * * *', at(1, 1, 10, 7)), at(1, 1, 10, 15))
+  assert.deepEqual(getNextCronRun('*/15 * * * *', at(1, 1, 10, 15)), at(1, 1, 10, 30))
+  assert.deepEqual(getNextCronRun('0 9 * * MON-FRI', at(1, 2, 10)), at(1, 5, 9))
+  assert.deepEqual(getNextCronRun('0 0 1 1 *', at(1, 1)), new Date(2027, 0, 1))
+})
+
+test('day of month and day of week are alternatives only when both are restricted', () => {
+  // The 13th or any Friday
+  assert.deepEqual(getNextCronRun('0 0 13 * 5', at(1, 1)), at(1, 2))
+  // A stepped "*/2" weekday still has to fall on the 1st; 1 February 2026 is a Sunday
+  assert.deepEqual(getNextCronRun('0 0 1 * */2', at(1, 1)), at(2, 1))
+  // Likewise a stepped day of month has to fall on a Monday
+  assert.deepEqual(getNextCronRun('0 0 */10 * 1', at(1, 1)), at(5, 11))
+})
+
+test('gives up on expressions that never fire', () => {
+  assert.equal(getNextCronRun('0 0 30 2 *', at(1, 1)), null)
+})
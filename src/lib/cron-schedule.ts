@@ -0,0 +1,174 @@
+// Cron Expressions for App Studio
+// Parses standard 5-field cron expressions and finds their next run time
+
+export interface CronSchedule {
+  expression: string
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number> // 1-12
+  daysOfWeek: Set<number> // 0-6, Sunday = 0
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+// How far ahead to look before deciding an expression never fires (e.g. "0 0 30 2 *")
+const MAX_SEARCH_DAYS = 366 * 5
+
+/**
+ * Parse a cron expression such as "*\/15 9-17 * * MON-FRI" or "@daily"
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = expression.trim().toLowerCase()
+  const fields = (CRON_MACROS[normalized] || normalized).split(/\s+/)
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields (minute hour day month weekday)`)
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, 'weekday', DAY_NAMES)
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7)
+    daysOfWeek.add(0)
+  }
+
+  return {
+    expression,
+    minutes: parseField(minute, 0, 59, 'minute'),
+    hours: parseField(hour, 0, 23, 'hour'),
+    daysOfMonth: parseField(dayOfMonth, 1, 31, 'day of month'),
+    months: parseField(month, 1, 12, 'month', MONTH_NAMES),
+    daysOfWeek,
+    // As in Vixie cron, a field starting with "*" (such as "*/2") doesn't restrict the day
+    dayOfMonthRestricted: !dayOfMonth.startsWith('*'),
+    dayOfWeekRestricted: !dayOfWeek.startsWith('*')
+  }
+}
+
+/**
+ * Check whether a cron expression can be parsed
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Find the first time strictly after `after` that matches the schedule, in local time
+ */
+export function getNextCronRun(schedule: CronSchedule | string, after: Date): Date | null {
+  const cron = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule
+  const candidate = new Date(after.getTime())
+  candidate.setSeconds(0, 0)
+  candidate.setMinutes(candidate.getMinutes() + 1)
+
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000
+
+  while (candidate.getTime() <= limit) {
+    if (!cron.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1)
+      candidate.setHours(0, 0, 0, 0)
+      continue
+    }
+
+    if (!matchesDay(cron, candidate)) {
+      candidate.setDate(candidate.getDate() + 1)
+      candidate.setHours(0, 0, 0, 0)
+      continue
+    }
+
+    if (!cron.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0)
+      continue
+    }
+
+    if (!cron.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0)
+      continue
+    }
+
+    return candidate
+  }
+
+  return null
+}
+
+/**
+ * Cron treats day-of-month and day-of-week as alternatives when both are restricted
+ */
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+  const dayOfMonthMatch = cron.daysOfMonth.has(date.getDate())
+  const dayOfWeekMatch = cron.daysOfWeek.has(date.getDay())
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch
+  }
+  return dayOfMonthMatch && dayOfWeekMatch
+}
+
+function parseField(field: string, min: number, max: number, label: string, names?: string[]): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in cron ${label} field`)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = min
+      end = max
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-')
+      start = parseValue(from, label, names, min)
+      end = parseValue(to, label, names, min)
+    } else {
+      start = parseValue(range, label, names, min)
+      end = stepText === undefined ? start : max
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron ${label} field "${part}" is outside ${min}-${max}`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+function parseValue(value: string, label: string, names: string[] | undefined, min: number): number {
+  const nameIndex = names ? names.indexOf(value) : -1
+  if (nameIndex >= 0) return nameIndex + min
+
+  const parsed = Number(value)
+  if (value === '' || !Number.isInteger(parsed)) {
+    throw new Error(`Invalid value "${value}" in cron ${label} field`)
+  }
+  return parsed
+}
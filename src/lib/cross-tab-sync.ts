@@ -0,0 +1,91 @@
+// Cross-Tab Sync for App Studio
+// Keeps each open tab's in-memory state up to date with changes other tabs save
+
+import { eventBus, AppEvent } from './event-bus'
+
+// Applies another tab's saved value to a module's in-memory state, replacing or merging it
+export type SyncHandler = (newValue: string | null) => void
+
+// Told after the owning module has applied a change, e.g. to re-render
+export type SyncListener = (key: string) => void
+
+/**
+ * Cross-Tab Sync class. Changes arrive as cross-tab data_change events on the event bus:
+ * the storage event for localStorage keys and Storage's BroadcastChannel for backend keys.
+ */
+export class CrossTabSync {
+  private handlers: Map<string, SyncHandler[]> = new Map()
+  private listeners: Map<string, Set<SyncListener>> = new Map()
+  private initialized = false
+
+  /**
+   * Start listening for changes from other tabs
+   */
+  initialize(): void {
+    if (this.initialized || typeof window === 'undefined') return
+
+    eventBus.initialize()
+    eventBus.subscribe('data_change', event => this.handleDataChange(event))
+    this.initialized = true
+  }
+
+  /**
+   * Register how a module takes in another tab's value for a storage key.
+   * Returns a function that unregisters it.
+   */
+  register(key: string, handler: SyncHandler): () => void {
+    this.initialize()
+
+    const handlers = this.handlers.get(key) || []
+    this.handlers.set(key, [...handlers, handler])
+
+    return () => {
+      this.handlers.set(key, (this.handlers.get(key) || []).filter(h => h !== handler))
+    }
+  }
+
+  /**
+   * Be told once changes to any of these keys from another tab have been applied.
+   * Returns an unsubscribe function.
+   */
+  subscribe(keys: string[], listener: SyncListener): () => void {
+    this.initialize()
+
+    keys.forEach(key => {
+      if (!this.listeners.has(key)) {
+        this.listeners.set(key, new Set())
+      }
+      this.listeners.get(key)!.add(listener)
+    })
+
+    return () => {
+      keys.forEach(key => this.listeners.get(key)?.delete(listener))
+    }
+  }
+
+  private handleDataChange(event: AppEvent): void {
+    if (!event.crossTab) return
+
+    const key: string = event.payload.key
+    const newValue: string | null = event.payload.newValue ?? null
+
+    ;(this.handlers.get(key) || []).forEach(handler => {
+      try {
+        handler(newValue)
+      } catch (error) {
+        console.error(`Failed to sync "${key}" from another tab:`, error)
+      }
+    })
+
+    this.listeners.get(key)?.forEach(listener => {
+      try {
+        listener(key)
+      } catch (error) {
+        console.error(`Cross-tab sync listener for "${key}" failed:`, error)
+      }
+    })
+  }
+}
+
+// Global cross-tab sync instance
+export const crossTabSync = new CrossTabSync()
@@ -0,0 +1,142 @@
+// Event Bus for App Studio
+// Lets modules publish app events that workflow triggers and other listeners react to
+
+export type AppEventType = 'tool_usage' | 'data_change' | 'external_event'
+
+export interface AppEvent {
+  type: AppEventType
+  source: string // module that published the event, e.g. "tool-registry" or "storage"
+  timestamp: Date
+  crossTab: boolean // the change happened in another tab
+  payload: Record<string, any>
+}
+
+export interface ToolUsagePayload {
+  toolId: string
+  usageCount: number
+}
+
+export interface DataChangePayload {
+  key: string
+  action: 'set' | 'remove'
+  newValue: string | null // serialized value, used to recognise the same change across tabs
+  collectionId?: string
+  change?: 'created' | 'updated' | 'deleted'
+}
+
+export interface ExternalEventPayload {
+  name: string
+  data?: any
+}
+
+export type AppEventListener = (event: AppEvent) => void
+
+// Window event other scripts (bookmarklets, extensions) can dispatch to raise an external_event
+export const EXTERNAL_EVENT_NAME = 'app-studio-event'
+
+/**
+ * Event Bus class
+ */
+export class EventBus {
+  private listeners: Map<AppEventType | '*', Set<AppEventListener>> = new Map()
+  private initialized = false
+
+  /**
+   * Start forwarding storage events from other tabs and external window events
+   */
+  initialize(): void {
+    if (this.initialized || typeof window === 'undefined') return
+
+    window.addEventListener('storage', (event: StorageEvent) => {
+      // Fired for changes made in other tabs; key is null when storage was cleared
+      if (!event.key) return
+
+      this.dispatch({
+        type: 'data_change',
+        source: 'storage-event',
+        timestamp: new Date(),
+        crossTab: true,
+        payload: {
+          key: event.key,
+          action: event.newValue === null ? 'remove' : 'set',
+          newValue: event.newValue
+        }
+      })
+    })
+
+    window.addEventListener(EXTERNAL_EVENT_NAME, (event: Event) => {
+      const detail = (event as CustomEvent).detail || {}
+      if (typeof detail.name !== 'string') return
+      this.publishExternalEvent(detail.name, detail.data)
+    })
+
+    this.initialized = true
+  }
+
+  /**
+   * Subscribe to one event type, or every event with "*". Returns an unsubscribe function.
+   */
+  subscribe(type: AppEventType | '*', listener: AppEventListener): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set())
+    }
+    this.listeners.get(type)!.add(listener)
+
+    return () => {
+      this.listeners.get(type)?.delete(listener)
+    }
+  }
+
+  /**
+   * Publish an event that happened in this tab
+   */
+  publish(type: AppEventType, source: string, payload: Record<string, any>): void {
+    this.dispatch({ type, source, timestamp: new Date(), crossTab: false, payload })
+  }
+
+  /**
+   * Publish a tool usage event
+   */
+  publishToolUsage(payload: ToolUsagePayload): void {
+    this.publish('tool_usage', 'tool-registry', payload)
+  }
+
+  /**
+   * Publish a data change event
+   */
+  publishDataChange(source: string, payload: DataChangePayload): void {
+    this.publish('data_change', source, payload)
+  }
+
+  /**
+   * Publish a data change another tab made, for backends that don't raise storage events
+   */
+  publishRemoteDataChange(source: string, payload: DataChangePayload): void {
+    this.dispatch({ type: 'data_change', source, timestamp: new Date(), crossTab: true, payload })
+  }
+
+  /**
+   * Publish a named event from outside the app's own modules
+   */
+  publishExternalEvent(name: string, data?: any): void {
+    this.publish('external_event', 'external', { name, data })
+  }
+
+  private dispatch(event: AppEvent): void {
+    const listeners = [
+      ...Array.from(this.listeners.get(event.type) || []),
+      ...Array.from(this.listeners.get('*') || [])
+    ]
+
+    listeners.forEach(listener => {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error(`Event listener for "${event.type}" failed:`, error)
+      }
+    })
+  }
+}
+
+// Global event bus instance
+export const eventBus = new EventBus()
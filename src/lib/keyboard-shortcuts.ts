@@ -200,5 +200,18 @@ export const DEFAULT_SHORTCUTS: Omit<KeyboardShortcut, 'action'>[] = [
     ctrlKey: true,
     description: 'Quick command palette',
     category: 'search'
+  },
+  {
+    key: 'z',
+    ctrlKey: true,
+    description: 'Undo last change',
+    category: 'general'
+  },
+  {
+    key: 'z',
+    ctrlKey: true,
+    shiftKey: true,
+    description: 'Redo last undone change',
+    category: 'general'
   }
 ]
\ No newline at end of file
@@ -0,0 +1,369 @@
+// Package Signing for App Studio
+// Content hashes and ECDSA signatures for tool packages, and the list of trusted signers
+
+import { Storage, STORAGE_KEYS, encryptedStorage } from './storage'
+import { toBase64, fromBase64 } from './storage-encryption'
+
+export interface PackageIntegrity {
+  algorithm: 'SHA-256'
+  hash: string // hex digest of the package content
+}
+
+export interface PackageSignature {
+  algorithm: 'ECDSA-P256-SHA256'
+  signer: string // display name chosen by the signer; trust comes from the key, not the name
+  keyId: string
+  publicKey: JsonWebKey
+  value: string // base64 signature over the package content
+  signedAt: string
+}
+
+export interface SigningIdentity {
+  __schemaVersion: number
+  name: string
+  keyId: string
+  publicKey: JsonWebKey
+  createdAt: string
+}
+
+export interface TrustedKey {
+  keyId: string
+  name: string
+  publicKey: JsonWebKey
+  addedAt: string
+}
+
+export interface TrustSettings {
+  __schemaVersion: number
+  keys: TrustedKey[]
+  requireTrustedSignature: boolean
+}
+
+export type IntegrityStatus = 'valid' | 'invalid' | 'missing'
+
+export interface PackageVerification {
+  integrity: IntegrityStatus
+  signature: IntegrityStatus
+  signer: {
+    name: string // as the package claims it
+    keyId: string
+    trusted: boolean
+    trustedName?: string // as saved in the trusted-keys list
+  } | null
+  acceptable: boolean // whether import may go ahead
+  errors: string[]
+  warnings: string[]
+}
+
+// Anything with these fields; kept loose so this module doesn't depend on the package format
+interface SignablePackage {
+  __integrity?: PackageIntegrity
+  __signature?: PackageSignature
+  [key: string]: any
+}
+
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' }
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' }
+
+const DEFAULT_TRUST_SETTINGS: TrustSettings = {
+  __schemaVersion: 1,
+  keys: [],
+  requireTrustedSignature: false
+}
+
+/**
+ * Package Signing class. The private signing key lives in the encrypted storage namespace,
+ * so signing needs it unlocked; hashing and verifying don't.
+ */
+export class PackageSigning {
+  constructor() {
+    encryptedStorage.requireEncryption(STORAGE_KEYS.SIGNING_KEY)
+  }
+
+  /**
+   * Add the content hash and, if asked and possible, this browser's signature
+   */
+  async seal<T extends SignablePackage>(pkg: T, options: { sign?: boolean } = {}): Promise<{ pkg: T; errors: string[] }> {
+    if (!isWebCryptoAvailable()) {
+      return { pkg, errors: ['Package hashing needs WebCrypto, which this browser does not provide here'] }
+    }
+
+    const content = packageContent(pkg)
+    const sealed: T = { ...pkg, __integrity: { algorithm: 'SHA-256', hash: await sha256Hex(content) } }
+    delete sealed.__signature
+
+    if (!options.sign) return { pkg: sealed, errors: [] }
+
+    const identity = this.getIdentity()
+    const privateKey = encryptedStorage.get<JsonWebKey | null>(STORAGE_KEYS.SIGNING_KEY, null)
+    if (!identity) {
+      return { pkg: sealed, errors: ['Create a signing key in preferences first'] }
+    }
+    if (!privateKey) {
+      return { pkg: sealed, errors: ['Unlock encrypted storage to sign packages'] }
+    }
+
+    try {
+      const key = await crypto.subtle.importKey('jwk', privateKey, SIGNING_ALGORITHM, false, ['sign'])
+      const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, key, new TextEncoder().encode(content))
+      sealed.__signature = {
+        algorithm: 'ECDSA-P256-SHA256',
+        signer: identity.name,
+        keyId: identity.keyId,
+        publicKey: identity.publicKey,
+        value: toBase64(new Uint8Array(signature)),
+        signedAt: new Date().toISOString()
+      }
+      return { pkg: sealed, errors: [] }
+    } catch (error) {
+      return { pkg: sealed, errors: [`Failed to sign package: ${error}`] }
+    }
+  }
+
+  /**
+   * Check the hash and signature against the content, and the signer against the trusted keys.
+   * Tampered packages are never acceptable; unsigned or untrusted ones are unless trust is required.
+   */
+  async verify(pkg: SignablePackage): Promise<PackageVerification> {
+    const verification: PackageVerification = {
+      integrity: 'missing',
+      signature: 'missing',
+      signer: null,
+      acceptable: false,
+      errors: [],
+      warnings: []
+    }
+
+    if (!isWebCryptoAvailable()) {
+      verification.errors.push('Package verification needs WebCrypto, which this browser does not provide here')
+      return verification
+    }
+
+    const content = packageContent(pkg)
+
+    if (pkg.__integrity) {
+      const hash = await sha256Hex(content)
+      verification.integrity = pkg.__integrity.algorithm === 'SHA-256' && pkg.__integrity.hash === hash ? 'valid' : 'invalid'
+      if (verification.integrity === 'invalid') {
+        verification.errors.push('The package content does not match its hash; it was changed after export')
+      }
+    } else {
+      verification.warnings.push('The package has no content hash, so changes to it can\'t be detected')
+    }
+
+    const signature = pkg.__signature
+    if (signature) {
+      const keyId = await this.getKeyId(signature.publicKey).catch(() => '')
+      const trustedKey = this.getTrustedKeys().find(key => key.keyId === keyId)
+      verification.signer = {
+        name: signature.signer,
+        keyId,
+        trusted: !!trustedKey,
+        trustedName: trustedKey?.name
+      }
+
+      verification.signature = keyId && keyId === signature.keyId && await verifySignature(signature, content)
+        ? 'valid'
+        : 'invalid'
+      if (verification.signature === 'invalid') {
+        verification.errors.push('The package signature is not valid')
+      } else if (!trustedKey) {
+        verification.warnings.push(`"${signature.signer}" is not in your trusted keys`)
+      }
+    } else {
+      verification.warnings.push('The package is not signed')
+    }
+
+    if (this.getTrustSettings().requireTrustedSignature && !(verification.signature === 'valid' && verification.signer?.trusted)) {
+      verification.errors.push('Only packages signed by a trusted key can be imported')
+    }
+
+    verification.acceptable = verification.errors.length === 0
+    return verification
+  }
+
+  /**
+   * This browser's signing identity, readable while encrypted storage is locked
+   */
+  getIdentity(): SigningIdentity | null {
+    return Storage.get<SigningIdentity | null>(STORAGE_KEYS.SIGNING_IDENTITY, null)
+  }
+
+  /**
+   * Generate a signing key pair. The private key is stored encrypted, so storage must be unlocked.
+   */
+  async createIdentity(name: string): Promise<{ success: boolean; errors: string[]; identity?: SigningIdentity }> {
+    if (!name.trim()) {
+      return { success: false, errors: ['Signer name is required'] }
+    }
+    if (!isWebCryptoAvailable()) {
+      return { success: false, errors: ['Signing needs WebCrypto, which this browser does not provide here'] }
+    }
+    if (encryptedStorage.getState() !== 'unlocked') {
+      return { success: false, errors: ['Unlock encrypted storage first; the private key is stored encrypted'] }
+    }
+    if (this.getIdentity()) {
+      return { success: false, errors: ['A signing key already exists'] }
+    }
+
+    const keyPair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, true, ['sign', 'verify'])
+    const publicKey = publicKeyFields(await crypto.subtle.exportKey('jwk', keyPair.publicKey))
+    const privateKey = await crypto.subtle.exportKey('jwk', keyPair.privateKey)
+
+    const identity: SigningIdentity = {
+      __schemaVersion: 1,
+      name: name.trim(),
+      keyId: await this.getKeyId(publicKey),
+      publicKey,
+      createdAt: new Date().toISOString()
+    }
+
+    if (!encryptedStorage.set(STORAGE_KEYS.SIGNING_KEY, privateKey)) {
+      return { success: false, errors: ['Failed to store the private key'] }
+    }
+    Storage.set(STORAGE_KEYS.SIGNING_IDENTITY, identity)
+
+    // Our own packages should verify as trusted here
+    await this.trustKey(identity.name, identity.publicKey)
+    return { success: true, errors: [], identity }
+  }
+
+  /**
+   * The public key as text to hand to teammates, who add it with trustKeyFromText
+   */
+  exportPublicKey(): string | null {
+    const identity = this.getIdentity()
+    return identity ? JSON.stringify({ name: identity.name, publicKey: identity.publicKey }) : null
+  }
+
+  getTrustSettings(): TrustSettings {
+    return Storage.get<TrustSettings>(STORAGE_KEYS.TRUSTED_KEYS, DEFAULT_TRUST_SETTINGS)
+  }
+
+  getTrustedKeys(): TrustedKey[] {
+    return this.getTrustSettings().keys
+  }
+
+  /**
+   * Add a signer's public key to the trusted keys
+   */
+  async trustKey(name: string, publicKey: JsonWebKey): Promise<{ success: boolean; errors: string[]; key?: TrustedKey }> {
+    if (publicKey?.kty !== 'EC' || publicKey.crv !== 'P-256' || !publicKey.x || !publicKey.y) {
+      return { success: false, errors: ['Only ECDSA P-256 public keys are supported'] }
+    }
+    if (publicKey.d) {
+      return { success: false, errors: ['That is a private key; only share and trust public keys'] }
+    }
+    if (!name.trim()) {
+      return { success: false, errors: ['A name for the key is required'] }
+    }
+
+    const fields = publicKeyFields(publicKey)
+    const key: TrustedKey = {
+      keyId: await this.getKeyId(fields),
+      name: name.trim(),
+      publicKey: fields,
+      addedAt: new Date().toISOString()
+    }
+
+    const settings = this.getTrustSettings()
+    const keys = settings.keys.filter(existing => existing.keyId !== key.keyId)
+    if (!Storage.set(STORAGE_KEYS.TRUSTED_KEYS, { ...settings, keys: [...keys, key] })) {
+      return { success: false, errors: ['Failed to save trusted keys'] }
+    }
+    return { success: true, errors: [], key }
+  }
+
+  /**
+   * Trust a key pasted as exported by exportPublicKey
+   */
+  async trustKeyFromText(text: string, name?: string): Promise<{ success: boolean; errors: string[]; key?: TrustedKey }> {
+    try {
+      const parsed = JSON.parse(text)
+      return this.trustKey(name || parsed.name || '', parsed.publicKey || parsed)
+    } catch {
+      return { success: false, errors: ['That doesn\'t look like an exported public key'] }
+    }
+  }
+
+  untrustKey(keyId: string): boolean {
+    const settings = this.getTrustSettings()
+    return Storage.set(STORAGE_KEYS.TRUSTED_KEYS, {
+      ...settings,
+      keys: settings.keys.filter(key => key.keyId !== keyId)
+    })
+  }
+
+  setRequireTrustedSignature(required: boolean): boolean {
+    return Storage.set(STORAGE_KEYS.TRUSTED_KEYS, { ...this.getTrustSettings(), requireTrustedSignature: required })
+  }
+
+  /**
+   * A key's fingerprint: the SHA-256 of its public coordinates
+   */
+  async getKeyId(publicKey: JsonWebKey): Promise<string> {
+    return sha256Hex(canonicalJson(publicKeyFields(publicKey)))
+  }
+}
+
+/**
+ * Short, readable form of a key fingerprint
+ */
+export function formatKeyId(keyId: string): string {
+  return (keyId.slice(0, 16).match(/.{1,4}/g) || []).join(' ').toUpperCase()
+}
+
+/**
+ * JSON with sorted keys and no whitespace: the exact text that is hashed and signed,
+ * so it stays the same however the package was formatted or reordered in transit
+ */
+export function canonicalJson(value: any): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value)
+  if (Array.isArray(value)) return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`
+  return `{${Object.keys(value)
+    .filter(key => value[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+    .join(',')}}`
+}
+
+/**
+ * SHA-256 of text as lowercase hex
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)))
+  let hex = ''
+  for (let i = 0; i < digest.length; i++) {
+    hex += ('0' + digest[i].toString(16)).slice(-2)
+  }
+  return hex
+}
+
+/**
+ * Everything but the hash and signature themselves, as it will read after a JSON round trip
+ */
+function packageContent(pkg: SignablePackage): string {
+  const { __integrity, __signature, ...content } = pkg
+  return canonicalJson(JSON.parse(JSON.stringify(content)))
+}
+
+function publicKeyFields(key: JsonWebKey): JsonWebKey {
+  return { kty: key.kty, crv: key.crv, x: key.x, y: key.y }
+}
+
+async function verifySignature(signature: PackageSignature, content: string): Promise<boolean> {
+  try {
+    if (signature.algorithm !== 'ECDSA-P256-SHA256') return false
+    const key = await crypto.subtle.importKey('jwk', publicKeyFields(signature.publicKey), SIGNING_ALGORITHM, false, ['verify'])
+    return await crypto.subtle.verify(SIGNATURE_PARAMS, key, fromBase64(signature.value), new TextEncoder().encode(content))
+  } catch {
+    return false
+  }
+}
+
+function isWebCryptoAvailable(): boolean {
+  return typeof crypto !== 'undefined' && !!crypto.subtle
+}
+
+// Global package signing instance
+export const packageSigning = new PackageSigning()
@@ -1,6 +1,8 @@
 // Tool Performance Monitoring and Optimization for App Studio
 // Tracks performance metrics, identifies bottlenecks, and provides optimization suggestions
 
+import { Storage, STORAGE_KEYS } from './storage'
+
 export interface PerformanceMetric {
   id: string
   toolId: string
@@ -100,6 +102,7 @@ export class PerformanceMonitor {
     if (this.initialized || typeof window === 'undefined') return
 
     this.thresholds = [...this.defaultThresholds]
+    await Storage.initialize()
     this.loadFromStorage()
     this.setupPerformanceObservers()
     this.startPeriodicReporting()
@@ -265,6 +268,35 @@ export class PerformanceMonitor {
     this.persistToStorage()
   }
 
+  /**
+   * Drop metrics recorded and reports generated before a date. Returns how many metrics were dropped.
+   */
+  pruneMetrics(olderThan: Date): number {
+    let removed = 0
+
+    this.metrics.forEach((metrics, toolId) => {
+      const kept = metrics.filter(m => m.timestamp.getTime() >= olderThan.getTime())
+      removed += metrics.length - kept.length
+      if (kept.length > 0) {
+        this.metrics.set(toolId, kept)
+      } else {
+        this.metrics.delete(toolId)
+      }
+    })
+
+    this.reports.forEach((reports, toolId) => {
+      const kept = reports.filter(r => r.generatedAt.getTime() >= olderThan.getTime())
+      if (kept.length > 0) {
+        this.reports.set(toolId, kept)
+      } else {
+        this.reports.delete(toolId)
+      }
+    })
+
+    this.persistToStorage()
+    return removed
+  }
+
   /**
    * Private helper methods
    */
@@ -599,7 +631,7 @@ export class PerformanceMonitor {
         thresholds: this.thresholds
       }
 
-      localStorage.setItem('app-studio-performance', JSON.stringify(data))
+      Storage.set(STORAGE_KEYS.PERFORMANCE, data)
     } catch (error) {
       console.error('Failed to persist performance data:', error)
     }
@@ -609,10 +641,8 @@ export class PerformanceMonitor {
     if (typeof window === 'undefined') return
 
     try {
-      const stored = localStorage.getItem('app-studio-performance')
-      if (!stored) return
-
-      const data = JSON.parse(stored)
+      const data = Storage.get<any>(STORAGE_KEYS.PERFORMANCE, null)
+      if (!data) return
 
       if (data.metrics) {
         this.metrics = new Map(data.metrics.map(([toolId, metrics]: [string, any[]]) => [
@@ -0,0 +1,143 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { encodeQrCode, getQrCapacity, QrCode, QrErrorCorrection } from './qr-code'
+
+const LEVEL_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+// Same masks as the spec, written out again so the test doesn't trust the encoder's
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => x * y % 2 + x * y % 3 === 0,
+  (x, y) => (x * y % 2 + x * y % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + x * y % 3) % 2 === 0
+]
+
+// Both copies of the 15 format bits, as [x, y] per bit from bit 0
+function formatBits(qr: QrCode): [number, number] {
+  const { size, modules } = qr
+  const read = (positions: Array<[number, number]>) =>
+    positions.reduce((bits, [x, y], i) => bits | (modules[y][x] ? 1 << i : 0), 0)
+
+  const first: Array<[number, number]> = []
+  const second: Array<[number, number]> = []
+  for (let i = 0; i < 15; i++) {
+    first.push(i < 6 ? [8, i] : i === 6 ? [8, 7] : i === 7 ? [8, 8] : i === 8 ? [7, 8] : [14 - i, 8])
+    second.push(i < 8 ? [size - 1 - i, 8] : [8, size - 15 + i])
+  }
+  return [read(first), read(second)]
+}
+
+// Codewords of a version 1 code, read in placement order with the mask taken off
+function readVersion1Codewords(qr: QrCode, mask: number): number[] {
+  const { size, modules } = qr
+  const isFunction = (x: number, y: number) =>
+    x === 6 || y === 6 || (x < 9 && y < 9) || (x >= size - 8 && y < 9) || (x < 9 && y >= size - 8)
+
+  const bits: number[] = []
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j
+        const y = ((right + 1) & 2) === 0 ? size - 1 - vertical : vertical
+        if (!isFunction(x, y)) bits.push(modules[y][x] !== MASKS[mask](x, y) ? 1 : 0)
+      }
+    }
+  }
+
+  const codewords: number[] = []
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return codewords
+}
+
+// A Reed-Solomon codeword evaluates to zero at the first `eccLength` powers of the generator
+function syndromes(codewords: number[], eccLength: number): number[] {
+  const multiply = (x: number, y: number) => {
+    let z = 0
+    for (; y > 0; y >>>= 1, x = x & 0x80 ? (x << 1) ^ 0x11D : x << 1) {
+      if (y & 1) z ^= x
+    }
+    return z
+  }
+  const result: number[] = []
+  for (let i = 0, power = 1; i < eccLength; i++, power = multiply(power, 2)) {
+    result.push(codewords.reduce((sum, codeword) => multiply(sum, power) ^ codeword, 0))
+  }
+  return result
+}
+
+test('picks the smallest version that holds the text', () => {
+  assert.equal(encodeQrCode('x'.repeat(14))!.version, 1)
+  assert.equal(encodeQrCode('x'.repeat(15))!.version, 2)
+  assert.equal(encodeQrCode('x'.repeat(17), 'L')!.version, 1)
+  assert.equal(encodeQrCode('x'.repeat(7), 'H')!.version, 1)
+  assert.equal(encodeQrCode('x'.repeat(8), 'H')!.version, 2)
+
+  const qr = encodeQrCode('x'.repeat(200))!
+  assert.equal(qr.size, qr.version * 4 + 17)
+  assert.equal(qr.modules.length, qr.size)
+  assert.equal(qr.modules.every(row => row.length === qr.size), true)
+})
+
+test('holds the spec capacity for each level, and no more', () => {
+  assert.deepEqual((['L', 'M', 'Q', 'H'] as QrErrorCorrection[]).map(level => getQrCapacity(level)), [2953, 2331, 1663, 1273])
+  assert.equal(encodeQrCode('x'.repeat(getQrCapacity('H')), 'H')!.version, 40)
+  assert.equal(encodeQrCode('x'.repeat(getQrCapacity('H') + 1), 'H'), null)
+})
+
+test('draws finder, timing and format patterns', () => {
+  const qr = encodeQrCode('https://a.io/x', 'Q')!
+  const { size, modules } = qr
+
+  // Each finder is a dark ring around a dark 3x3 center, with a light ring between
+  ;[[0, 0], [size - 7, 0], [0, size - 7]].forEach(([left, top]) => {
+    for (let y = 0; y < 7; y++) {
+      for (let x = 0; x < 7; x++) {
+        const ring = Math.max(Math.abs(x - 3), Math.abs(y - 3))
+        assert.equal(modules[top + y][left + x], ring !== 2, `finder at ${left},${top}`)
+      }
+    }
+  })
+  for (let i = 8; i < size - 8; i++) {
+    assert.equal(modules[6][i], i % 2 === 0)
+    assert.equal(modules[i][6], i % 2 === 0)
+  }
+  assert.equal(modules[size - 8][8], true)
+
+  const [first, second] = formatBits(qr)
+  assert.equal(first, second)
+  const data = (first ^ 0x5412) >>> 10
+  assert.equal(data >>> 3, LEVEL_BITS.Q)
+
+  let remainder = data
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+  assert.equal(first ^ 0x5412, data << 10 | remainder)
+})
+
+test('encodes the text as UTF-8 bytes with valid error correction', () => {
+  const text = 'Café ☕'
+  const qr = encodeQrCode(text, 'M')!
+  assert.equal(qr.version, 1)
+
+  const mask = ((formatBits(qr)[0] ^ 0x5412) >>> 10) & 7
+  const codewords = readVersion1Codewords(qr, mask)
+  assert.equal(codewords.length, 26) // 16 data and 10 error correction codewords
+  assert.deepEqual(syndromes(codewords, 10), new Array(10).fill(0))
+
+  // Byte mode, an 8-bit length, then the bytes themselves
+  const bytes = Buffer.from(text, 'utf8')
+  assert.equal(codewords[0] >>> 4, 0x4)
+  assert.equal(((codewords[0] & 0xF) << 4) | (codewords[1] >>> 4), bytes.length)
+  const payload = Array.from(bytes).map((_, i) => ((codewords[i + 1] & 0xF) << 4) | (codewords[i + 2] >>> 4))
+  assert.equal(Buffer.from(payload).toString('utf8'), text)
+
+  // The terminator ends the last byte, then padding alternates 0xEC and 0x11
+  assert.equal(codewords[bytes.length + 1] & 0xF, 0)
+  assert.deepEqual(codewords.slice(bytes.length + 2, 16), [0xEC, 0x11, 0xEC, 0x11, 0xEC, 0x11].slice(0, 14 - bytes.length))
+})
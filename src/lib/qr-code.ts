@@ -0,0 +1,395 @@
+// QR code generation for App Studio
+// Encodes text in byte mode (ISO/IEC 18004, versions 1-40) so share links can be scanned from a screen
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H'
+
+export interface QrCode {
+  version: number
+  size: number // modules per side, without the quiet zone
+  modules: boolean[][] // [y][x], true is dark
+}
+
+const MIN_VERSION = 1
+const MAX_VERSION = 40
+
+// Format bits of each level, as the spec numbers them
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+// Indexed by version; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+}
+
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+}
+
+/**
+ * Encode text as a QR code at the smallest version that holds it.
+ * Returns null when the text is too long even for version 40.
+ */
+export function encodeQrCode(text: string, errorCorrection: QrErrorCorrection = 'M'): QrCode | null {
+  const bytes = utf8Bytes(text)
+
+  let version = MIN_VERSION
+  while (version <= MAX_VERSION && byteModeBits(bytes.length, version) > dataCodewords(version, errorCorrection) * 8) {
+    version++
+  }
+  if (version > MAX_VERSION) return null
+
+  const codewords = addErrorCorrection(encodeData(bytes, version, errorCorrection), version, errorCorrection)
+  const matrix = new QrMatrix(version)
+  matrix.drawFunctionPatterns()
+  matrix.drawCodewords(codewords)
+
+  let best: boolean[][] = []
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask)
+    matrix.drawFormatBits(errorCorrection, mask)
+    const penalty = matrix.penalty()
+    if (penalty < bestPenalty) {
+      bestPenalty = penalty
+      best = matrix.modules.map(row => row.slice())
+    }
+    matrix.applyMask(mask) // masking twice undoes it
+  }
+
+  return { version, size: matrix.size, modules: best }
+}
+
+/**
+ * The most UTF-8 bytes a QR code can hold at a level
+ */
+export function getQrCapacity(errorCorrection: QrErrorCorrection = 'M'): number {
+  return Math.floor((dataCodewords(MAX_VERSION, errorCorrection) * 8 - 4 - 16) / 8)
+}
+
+function utf8Bytes(text: string): number[] {
+  const encoded = unescape(encodeURIComponent(text))
+  const bytes: number[] = []
+  for (let i = 0; i < encoded.length; i++) {
+    bytes.push(encoded.charCodeAt(i))
+  }
+  return bytes
+}
+
+function countBits(version: number): number {
+  return version <= 9 ? 8 : 16
+}
+
+function byteModeBits(length: number, version: number): number {
+  return 4 + countBits(version) + length * 8
+}
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2
+    result -= (25 * alignments - 10) * alignments - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function dataCodewords(version: number, errorCorrection: QrErrorCorrection): number {
+  return Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[errorCorrection][version] * ERROR_CORRECTION_BLOCKS[errorCorrection][version]
+}
+
+function encodeData(bytes: number[], version: number, errorCorrection: QrErrorCorrection): number[] {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  append(0x4, 4) // byte mode
+  append(bytes.length, countBits(version))
+  bytes.forEach(byte => append(byte, 8))
+
+  const capacity = dataCodewords(version, errorCorrection) * 8
+  append(0, Math.min(4, capacity - bits.length)) // terminator
+  append(0, (8 - bits.length % 8) % 8)
+  for (let pad = 0xEC; bits.length < capacity; pad ^= 0xEC ^ 0x11) {
+    append(pad, 8)
+  }
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    let byte = 0
+    for (let j = 0; j < 8; j++) byte = (byte << 1) | bits[i + j]
+    codewords.push(byte)
+  }
+  return codewords
+}
+
+// Split data into blocks, append Reed-Solomon codewords to each and interleave them
+function addErrorCorrection(data: number[], version: number, errorCorrection: QrErrorCorrection): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[errorCorrection][version]
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[errorCorrection][version]
+  const rawCodewords = Math.floor(rawDataModules(version) / 8)
+  const shortBlocks = blockCount - rawCodewords % blockCount
+  const shortBlockLength = Math.floor(rawCodewords / blockCount)
+  const divisor = reedSolomonDivisor(eccLength)
+
+  const blocks: number[][] = []
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const blockData = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1))
+    offset += blockData.length
+    const ecc = reedSolomonRemainder(blockData, divisor)
+    if (i < shortBlocks) blockData.push(0) // placeholder, skipped when interleaving
+    blocks.push(blockData.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i])
+    })
+  }
+  return result
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11D)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result: number[] = []
+  for (let i = 0; i < degree - 1; i++) result.push(0)
+  result.push(1)
+
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0)
+  data.forEach(byte => {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor)
+    })
+  })
+  return result
+}
+
+function maskBit(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0
+    case 1: return y % 2 === 0
+    case 2: return x % 3 === 0
+    case 3: return (x + y) % 3 === 0
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+    case 5: return x * y % 2 + x * y % 3 === 0
+    case 6: return (x * y % 2 + x * y % 3) % 2 === 0
+    default: return ((x + y) % 2 + x * y % 3) % 2 === 0
+  }
+}
+
+class QrMatrix {
+  readonly size: number
+  readonly modules: boolean[][]
+  private readonly isFunction: boolean[][]
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17
+    this.modules = []
+    this.isFunction = []
+    for (let y = 0; y < this.size; y++) {
+      this.modules.push(new Array(this.size).fill(false))
+      this.isFunction.push(new Array(this.size).fill(false))
+    }
+  }
+
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+
+    this.drawFinder(3, 3)
+    this.drawFinder(this.size - 4, 3)
+    this.drawFinder(3, this.size - 4)
+
+    const positions = this.alignmentPositions()
+    const last = positions.length - 1
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // These would overlap the finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+          }
+        }
+      })
+    })
+
+    // Reserve the format areas; the real bits are drawn once the mask is chosen
+    this.drawFormatBits('M', 0)
+    this.drawVersion()
+  }
+
+  drawFormatBits(errorCorrection: QrErrorCorrection, mask: number): void {
+    const data = FORMAT_BITS[errorCorrection] << 3 | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = (data << 10 | remainder) ^ 0x5412
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i))
+    this.setFunction(8, 7, bit(6))
+    this.setFunction(8, 8, bit(7))
+    this.setFunction(7, 8, bit(8))
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i))
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(i))
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, bit(i))
+    this.setFunction(8, this.size - 8, true) // always dark
+  }
+
+  drawCodewords(codewords: number[]): void {
+    let i = 0
+    // Two-module columns right to left, snaking up and down, skipping the vertical timing column
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vertical : vertical
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskBit(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x]
+        }
+      }
+    }
+  }
+
+  /**
+   * The spec's four penalty rules; the mask with the lowest score is used
+   */
+  penalty(): number {
+    let result = 0
+    const lines: boolean[][] = []
+    for (let i = 0; i < this.size; i++) {
+      lines.push(this.modules[i])
+      lines.push(this.modules.map(row => row[i]))
+    }
+
+    const finderLike = [true, false, true, true, true, false, true]
+    lines.forEach(line => {
+      // Runs of five or more modules of one color
+      let runLength = 1
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          runLength++
+        } else {
+          if (runLength >= 5) result += runLength - 2
+          runLength = 1
+        }
+      }
+
+      // Finder-like patterns with four light modules on either side
+      for (let i = 0; i + 7 <= line.length; i++) {
+        if (!finderLike.every((dark, k) => line[i + k] === dark)) continue
+        const lightBefore = [1, 2, 3, 4].every(k => i - k < 0 || !line[i - k])
+        const lightAfter = [0, 1, 2, 3].every(k => i + 7 + k >= line.length || !line[i + 7 + k])
+        if (lightBefore || lightAfter) result += 40
+      }
+    })
+
+    // 2x2 blocks of one color
+    for (let y = 0; y < this.size - 1; y++) {
+      for (let x = 0; x < this.size - 1; x++) {
+        const color = this.modules[y][x]
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          result += 3
+        }
+      }
+    }
+
+    // Balance of dark and light
+    let dark = 0
+    this.modules.forEach(row => row.forEach(module => { if (module) dark++ }))
+    const percent = dark * 100 / (this.size * this.size)
+    result += Math.floor(Math.abs(percent - 50) / 5) * 10
+
+    return result
+  }
+
+  private drawFinder(centerX: number, centerY: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = centerX + dx
+        const y = centerY + dy
+        if (x < 0 || x >= this.size || y < 0 || y >= this.size) continue
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        this.setFunction(x, y, distance !== 2 && distance !== 4)
+      }
+    }
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return
+
+    let remainder = this.version
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1F25)
+    const bits = this.version << 12 | remainder
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0
+      const a = this.size - 11 + i % 3
+      const b = Math.floor(i / 3)
+      this.setFunction(a, b, dark)
+      this.setFunction(b, a, dark)
+    }
+  }
+
+  private alignmentPositions(): number[] {
+    if (this.version === 1) return []
+    const count = Math.floor(this.version / 7) + 2
+    const step = Math.floor((this.version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2
+    const result = [6]
+    for (let position = this.size - 7; result.length < count; position -= step) {
+      result.splice(1, 0, position)
+    }
+    return result
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+}
@@ -0,0 +1,150 @@
+// Storage Backends for App Studio
+// Persistence layers the Storage API can sit on: localStorage or IndexedDB
+
+export type StorageBackendName = 'localStorage' | 'indexedDB'
+
+export interface StorageBackend {
+  readonly name: StorageBackendName
+  /** Whether the backend can be used in this environment */
+  isAvailable(): boolean
+  /** Read every stored entry, used to warm the Storage cache */
+  loadAll(): Promise<Record<string, string>>
+  setItem(key: string, value: string): Promise<void>
+  removeItem(key: string): Promise<void>
+}
+
+const IDB_DATABASE_NAME = 'app-studio'
+const IDB_DATABASE_VERSION = 1
+const IDB_STORE_NAME = 'keyval'
+
+/**
+ * Backend on top of window.localStorage (5MB cap, synchronous)
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'localStorage' as const
+
+  constructor(private filter: (key: string) => boolean = () => true) {}
+
+  isAvailable(): boolean {
+    try {
+      return typeof window !== 'undefined' && !!window.localStorage
+    } catch {
+      // Accessing localStorage throws when storage is disabled
+      return false
+    }
+  }
+
+  async loadAll(): Promise<Record<string, string>> {
+    const entries: Record<string, string> = {}
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key === null || !this.filter(key)) continue
+
+      const value = localStorage.getItem(key)
+      if (value !== null) entries[key] = value
+    }
+
+    return entries
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value)
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key)
+  }
+}
+
+/**
+ * Backend on top of IndexedDB, a single key/value object store of serialized entries
+ */
+export class IndexedDBBackend implements StorageBackend {
+  readonly name = 'indexedDB' as const
+  private database: Promise<IDBDatabase> | null = null
+
+  isAvailable(): boolean {
+    try {
+      return typeof indexedDB !== 'undefined' && indexedDB !== null
+    } catch {
+      return false
+    }
+  }
+
+  async loadAll(): Promise<Record<string, string>> {
+    const store = await this.getStore('readonly')
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll())
+    ])
+
+    return keys.reduce((entries, key, index) => {
+      entries[String(key)] = values[index]
+      return entries
+    }, {} as Record<string, string>)
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const store = await this.getStore('readwrite')
+    await transactionToPromise(store.transaction, store.put(value, key))
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const store = await this.getStore('readwrite')
+    await transactionToPromise(store.transaction, store.delete(key))
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open()
+    return database.transaction(IDB_STORE_NAME, mode).objectStore(IDB_STORE_NAME)
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IDB_DATABASE_NAME, IDB_DATABASE_VERSION)
+
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(IDB_STORE_NAME)) {
+            request.result.createObjectStore(IDB_STORE_NAME)
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+        request.onblocked = () => reject(new Error('IndexedDB upgrade is blocked by another open tab'))
+      })
+
+      // Let a later call retry if opening failed
+      this.database.catch(() => {
+        this.database = null
+      })
+    }
+
+    return this.database
+  }
+}
+
+/**
+ * Pick the preferred backend for this environment: IndexedDB, falling back to localStorage
+ */
+export function createDefaultBackend(localStorageFilter?: (key: string) => boolean): StorageBackend {
+  const indexedDBBackend = new IndexedDBBackend()
+  return indexedDBBackend.isAvailable() ? indexedDBBackend : new LocalStorageBackend(localStorageFilter)
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Writes only count once their transaction commits
+function transactionToPromise(transaction: IDBTransaction, request: IDBRequest): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onabort = () => reject(transaction.error || request.error)
+    transaction.onerror = () => reject(transaction.error || request.error)
+  })
+}
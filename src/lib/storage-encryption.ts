@@ -0,0 +1,424 @@
+// Encrypted Storage for App Studio
+// An opt-in namespace whose entries are encrypted at rest with a key derived from the user's passphrase
+
+export type EncryptionState = 'unconfigured' | 'locked' | 'unlocked'
+
+// What an encrypted entry looks like in storage; the plaintext never is stored
+export interface EncryptedEnvelope {
+  __schemaVersion: number
+  __encrypted: true
+  iv: string // base64
+  data: string // base64 AES-GCM ciphertext of the JSON value
+}
+
+export interface EncryptionConfig {
+  __schemaVersion: number
+  salt: string // base64
+  iterations: number
+  check: EncryptedEnvelope // known value, decrypts only with the right passphrase
+  autoLockMinutes: number
+}
+
+// Raw access to the underlying storage, so this module doesn't depend on Storage itself
+export interface EncryptedNamespaceStore {
+  read(key: string): string | null
+  write(key: string, value: string | null): void
+  keys(): string[]
+}
+
+export type EncryptionStateListener = (state: EncryptionState) => void
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 5
+export const MIN_PASSPHRASE_LENGTH = 8
+
+const PBKDF2_ITERATIONS = 600000
+const CHECK_VALUE = 'app-studio-encrypted-storage'
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart']
+
+/**
+ * Encrypted Namespace class. Decrypted values are held in memory only while unlocked,
+ * so reads stay synchronous; writes are encrypted and stored in the background.
+ */
+export class EncryptedNamespace {
+  private cryptoKey: CryptoKey | null = null
+  private plaintext: Map<string, string> = new Map()
+  private requiredKeys: Set<string> = new Set()
+  private listeners: Set<EncryptionStateListener> = new Set()
+  private autoLockTimer: ReturnType<typeof setTimeout> | null = null
+  private pendingWrites: Promise<void> = Promise.resolve()
+  private writeCounts: Map<string, number> = new Map()
+
+  constructor(private store: EncryptedNamespaceStore, private configKey: string) {
+    this.recordActivity = this.recordActivity.bind(this)
+  }
+
+  /**
+   * Declare that a key must be stored encrypted once a passphrase is set. Until then it
+   * stays in plaintext, and it is encrypted when the passphrase is chosen.
+   */
+  requireEncryption(key: string): void {
+    this.requiredKeys.add(key)
+
+    // Declared while unlocked: encrypt a plaintext value now instead of at the next unlock
+    const raw = this.cryptoKey && !this.plaintext.has(key) ? this.store.read(key) : null
+    if (raw !== null && !parseEnvelope(raw)) {
+      this.encryptLegacyValue(key, raw)
+    }
+  }
+
+  /**
+   * Whether a key belongs to the encrypted namespace. Keys that require encryption only
+   * do once a passphrase is set, so users who never set one keep their data.
+   */
+  isEncryptedKey(key: string): boolean {
+    return this.plaintext.has(key) || (this.requiredKeys.has(key) && this.getState() !== 'unconfigured')
+  }
+
+  getState(): EncryptionState {
+    if (this.cryptoKey) return 'unlocked'
+    return this.getConfig() ? 'locked' : 'unconfigured'
+  }
+
+  /**
+   * Subscribe to lock/unlock changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: EncryptionStateListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Choose the passphrase the first time, and unlock with it
+   */
+  async setup(passphrase: string): Promise<{ success: boolean; errors: string[] }> {
+    if (!isWebCryptoAvailable()) {
+      return { success: false, errors: ['Encryption needs WebCrypto, which this browser does not provide here'] }
+    }
+    if (this.getConfig()) {
+      return { success: false, errors: ['A passphrase is already set'] }
+    }
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return { success: false, errors: [`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`] }
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16))
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+    const config: EncryptionConfig = {
+      __schemaVersion: 1,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await encryptValue(key, CHECK_VALUE),
+      autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES
+    }
+    this.store.write(this.configKey, JSON.stringify(config))
+
+    await this.open(key)
+    return { success: true, errors: [] }
+  }
+
+  /**
+   * Derive the key from the passphrase and decrypt the namespace into memory
+   */
+  async unlock(passphrase: string): Promise<{ success: boolean; errors: string[] }> {
+    const config = this.getConfig()
+    if (!config) {
+      return { success: false, errors: ['No passphrase has been set yet'] }
+    }
+    if (!isWebCryptoAvailable()) {
+      return { success: false, errors: ['Encryption needs WebCrypto, which this browser does not provide here'] }
+    }
+
+    const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations)
+    try {
+      if (await decryptValue(key, config.check) !== CHECK_VALUE) throw new Error('Check value mismatch')
+    } catch {
+      return { success: false, errors: ['Wrong passphrase'] }
+    }
+
+    await this.open(key)
+    return { success: true, errors: [] }
+  }
+
+  /**
+   * Forget the key and every decrypted value
+   */
+  lock(): void {
+    if (!this.cryptoKey) return
+
+    this.cryptoKey = null
+    this.plaintext.clear()
+    this.clearAutoLockTimer()
+    if (typeof window !== 'undefined') {
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, this.recordActivity))
+    }
+    this.notifyListeners()
+  }
+
+  getAutoLockMinutes(): number {
+    return this.getConfig()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES
+  }
+
+  /**
+   * Lock after this many minutes without user activity; 0 turns auto-lock off
+   */
+  setAutoLockMinutes(minutes: number): boolean {
+    const config = this.getConfig()
+    if (!config || !Number.isFinite(minutes) || minutes < 0) return false
+
+    this.store.write(this.configKey, JSON.stringify({ ...config, autoLockMinutes: minutes }))
+    this.recordActivity()
+    return true
+  }
+
+  /**
+   * Restart the inactivity countdown
+   */
+  recordActivity(): void {
+    if (!this.cryptoKey) return
+
+    this.clearAutoLockTimer()
+    const minutes = this.getAutoLockMinutes()
+    if (minutes > 0) {
+      this.autoLockTimer = setTimeout(() => this.lock(), minutes * 60 * 1000)
+    }
+  }
+
+  /**
+   * Read a decrypted value. Returns the default while locked.
+   */
+  get<T>(key: string, defaultValue: T): T {
+    const item = this.plaintext.get(key)
+    if (item === undefined) return defaultValue
+
+    try {
+      return JSON.parse(item) as T
+    } catch (error) {
+      console.warn(`Failed to read encrypted key "${key}":`, error)
+      return defaultValue
+    }
+  }
+
+  /**
+   * Store a value encrypted. Refused while locked, so nothing is ever written in plaintext.
+   */
+  set<T>(key: string, value: T): boolean {
+    const cryptoKey = this.cryptoKey
+    if (!cryptoKey) return false
+
+    const serialized = JSON.stringify(value)
+    const writeCount = (this.writeCounts.get(key) || 0) + 1
+    this.plaintext.set(key, serialized)
+    this.writeCounts.set(key, writeCount)
+    this.recordActivity()
+
+    this.pendingWrites = this.pendingWrites
+      .then(async () => {
+        const envelope = await encryptValue(cryptoKey, serialized)
+        // Skip if a newer value was set meanwhile; locking in between is fine, it's ciphertext
+        if (this.writeCounts.get(key) === writeCount) {
+          this.store.write(key, JSON.stringify(envelope))
+        }
+      })
+      .catch(error => {
+        console.error(`Failed to encrypt storage key "${key}":`, error)
+      })
+    return true
+  }
+
+  /**
+   * Put back an entry saved earlier as ciphertext, e.g. from a backup. While unlocked it has
+   * to decrypt with the current key, so data under another passphrase can't replace readable data.
+   */
+  async restore(key: string, raw: string): Promise<{ success: boolean; errors: string[] }> {
+    const envelope = parseEnvelope(raw)
+    if (!envelope) {
+      return { success: false, errors: [`"${key}" is not an encrypted entry`] }
+    }
+
+    const cryptoKey = this.cryptoKey
+    let decrypted: string | null = null
+    if (cryptoKey) {
+      try {
+        decrypted = await decryptValue(cryptoKey, envelope)
+      } catch {
+        return { success: false, errors: [`"${key}" was encrypted with a different passphrase`] }
+      }
+    }
+
+    // Pending encrypted writes of older values are skipped
+    this.writeCounts.set(key, (this.writeCounts.get(key) || 0) + 1)
+    if (decrypted !== null && this.cryptoKey === cryptoKey) {
+      this.plaintext.set(key, decrypted)
+    } else {
+      this.plaintext.delete(key)
+    }
+    this.store.write(key, raw)
+    return { success: true, errors: [] }
+  }
+
+  /**
+   * Drop a key's decrypted value, e.g. after the stored entry was removed
+   */
+  forget(key: string): void {
+    this.plaintext.delete(key)
+    this.writeCounts.set(key, (this.writeCounts.get(key) || 0) + 1)
+  }
+
+  /**
+   * Resolve once every encrypted write so far has been stored
+   */
+  flush(): Promise<void> {
+    return this.pendingWrites
+  }
+
+  /**
+   * Remove the passphrase settings, e.g. when all app data is reset
+   */
+  reset(): void {
+    this.lock()
+    this.store.write(this.configKey, null)
+    this.notifyListeners()
+  }
+
+  private async open(key: CryptoKey): Promise<void> {
+    const plaintext: Map<string, string> = new Map()
+    const plaintextToEncrypt: Array<[string, string]> = []
+
+    for (const storageKey of this.store.keys()) {
+      if (storageKey === this.configKey) continue
+
+      const raw = this.store.read(storageKey)
+      const envelope = parseEnvelope(raw)
+      if (envelope) {
+        try {
+          plaintext.set(storageKey, await decryptValue(key, envelope))
+        } catch (error) {
+          console.error(`Failed to decrypt storage key "${storageKey}":`, error)
+        }
+      } else if (raw !== null && this.requiredKeys.has(storageKey)) {
+        // Saved before the key required encryption
+        plaintextToEncrypt.push([storageKey, raw])
+      }
+    }
+
+    this.cryptoKey = key
+    this.plaintext = plaintext
+    plaintextToEncrypt.forEach(([storageKey, raw]) => this.encryptLegacyValue(storageKey, raw))
+    // Don't report unlocked while the plaintext copies are still stored
+    if (plaintextToEncrypt.length > 0) {
+      await this.flush()
+    }
+
+    if (typeof window !== 'undefined') {
+      ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, this.recordActivity, { passive: true }))
+    }
+    this.recordActivity()
+    this.notifyListeners()
+  }
+
+  // Replace a value stored in plaintext before its key required encryption with ciphertext
+  private encryptLegacyValue(storageKey: string, raw: string): void {
+    let value: unknown
+    try {
+      value = JSON.parse(raw)
+    } catch (error) {
+      console.warn(`Skipping unreadable plaintext value of "${storageKey}", it was not encrypted:`, error)
+      return
+    }
+    this.set(storageKey, value)
+  }
+
+  private getConfig(): EncryptionConfig | null {
+    try {
+      const raw = this.store.read(this.configKey)
+      return raw ? JSON.parse(raw) : null
+    } catch {
+      return null
+    }
+  }
+
+  private clearAutoLockTimer(): void {
+    if (this.autoLockTimer) {
+      clearTimeout(this.autoLockTimer)
+      this.autoLockTimer = null
+    }
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState()
+    this.listeners.forEach(listener => {
+      try {
+        listener(state)
+      } catch (error) {
+        console.error('Encryption state listener failed:', error)
+      }
+    })
+  }
+}
+
+/**
+ * Whether a stored value is an encrypted envelope
+ */
+export function parseEnvelope(raw: string | null): EncryptedEnvelope | null {
+  if (!raw || raw.indexOf('"__encrypted":true') === -1) return null
+
+  try {
+    const parsed = JSON.parse(raw)
+    return parsed && parsed.__encrypted === true && typeof parsed.iv === 'string' && typeof parsed.data === 'string'
+      ? parsed
+      : null
+  } catch {
+    return null
+  }
+}
+
+function isWebCryptoAvailable(): boolean {
+  return typeof crypto !== 'undefined' && !!crypto.subtle
+}
+
+async function deriveKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+async function encryptValue(key: CryptoKey, value: string): Promise<EncryptedEnvelope> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(value))
+  return { __schemaVersion: 1, __encrypted: true, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }
+}
+
+async function decryptValue(key: CryptoKey, envelope: EncryptedEnvelope): Promise<string> {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, key, fromBase64(envelope.data))
+  return new TextDecoder().decode(data)
+}
+
+/**
+ * Encode bytes as base64, e.g. for storing keys, IVs and signatures as text
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+/**
+ * Decode base64 text back to bytes
+ */
+export function fromBase64(value: string) {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
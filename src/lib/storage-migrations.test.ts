@@ -0,0 +1,97 @@
+import './browser-shim'
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { MigrationRegistry, StorageMigration, TOOL_DATA_MIGRATION_KEY, storageMigrations } from './storage-migrations'
+import { Storage } from './storage'
+
+const migration = (fromVersion: number, migrate: StorageMigration['migrate'], extra: Partial<StorageMigration> = {}): StorageMigration => ({
+  key: 'notes',
+  fromVersion,
+  toVersion: fromVersion + 1,
+  description: `Version ${fromVersion + 1}`,
+  migrate,
+  ...extra
+})
+
+test('runs each step in order on a copy of the data', () => {
+  const registry = new MigrationRegistry()
+  // Registered out of order on purpose
+  registry.register(migration(1, data => ({ ...data, tags: [] })))
+  registry.register(migration(0, data => ({ items: data.list })))
+
+  const data = { list: ['a'] }
+  const result = registry.dryRun('notes', data, 2)
+  assert.equal(result.success, true)
+  assert.deepEqual(result.errors, [])
+  assert.deepEqual(result.steps.map(step => step.toVersion), [1, 2])
+  assert.deepEqual(result.data, { items: ['a'], tags: [], __schemaVersion: 2 })
+  assert.deepEqual(data, { list: ['a'] })
+  assert.equal(registry.getLatestVersion('notes'), 2)
+})
+
+test('refuses migrations that overlap or go backwards', () => {
+  const registry = new MigrationRegistry()
+  assert.equal(registry.register(migration(0, data => data)).success, true)
+  assert.deepEqual(registry.register(migration(0, data => data)).errors, ['A migration from version 0 is already registered for "notes"'])
+  assert.deepEqual(registry.register(migration(3, data => data, { toVersion: 3 })).errors, ['Migration toVersion must be an integer greater than fromVersion'])
+})
+
+test('stops at the first step that fails, and returns no data', () => {
+  const registry = new MigrationRegistry()
+  registry.register(migration(0, data => data))
+  registry.register(migration(1, data => data, { validate: data => data.items ? [] : ['items are missing'] }))
+  registry.register(migration(2, () => {
+    throw new Error('unexpected shape')
+  }))
+  registry.register(migration(3, () => null))
+
+  const failures: Array<[any, number, string[]]> = [
+    [{}, 2, ['Version 2: items are missing']],
+    [{ __schemaVersion: 2 }, 3, ['Migration to version 3 threw: unexpected shape']],
+    [{ __schemaVersion: 3 }, 4, ['Migration to version 4 did not return an object']],
+    [{ __schemaVersion: 4 }, 5, ['No migration registered from version 4 for "notes"']]
+  ]
+  failures.forEach(([data, toVersion, errors]) => {
+    const result = registry.dryRun('notes', data, toVersion)
+    assert.equal(result.success, false)
+    assert.deepEqual(result.errors, errors)
+    assert.equal(result.data, undefined)
+  })
+
+  const partial = registry.dryRun('notes', { items: [] }, 3)
+  assert.deepEqual(partial.steps.map(step => step.toVersion), [1, 2])
+  assert.equal(partial.success, false)
+})
+
+test('applies tool data migrations to every tool without its own', () => {
+  const registry = new MigrationRegistry()
+  registry.register(migration(0, data => ({ ...data, shared: true }), { key: TOOL_DATA_MIGRATION_KEY }))
+  registry.register(migration(0, data => ({ ...data, own: true }), { key: 'tool-timer-data' }))
+
+  assert.deepEqual(registry.dryRun('tool-notes-data', {}, 1).data, { shared: true, __schemaVersion: 1 })
+  assert.deepEqual(registry.dryRun('tool-timer-data', {}, 1).data, { own: true, __schemaVersion: 1 })
+})
+
+test('keeps and backs up stored data whose migration fails, and refuses to save over it', async () => {
+  const key = 'app-studio-notes'
+  const stored = JSON.stringify({ __schemaVersion: 1, items: ['keep me'] })
+  localStorage.setItem(key, stored)
+  storageMigrations.register(migration(1, () => {
+    throw new Error('unexpected shape')
+  }, { key }))
+  await Storage.initialize()
+
+  assert.deepEqual(Storage.get(key, { __schemaVersion: 2, items: [] }), { __schemaVersion: 2, items: [] })
+  assert.equal(Storage.hasFailedMigration(key), true)
+  assert.equal(Storage.set(key, { __schemaVersion: 2, items: [] }), false)
+  assert.equal(Storage.getSerialized(key), stored)
+
+  const [entry] = Storage.getMigrationLog().filter(each => each.key === key)
+  assert.equal(entry.status, 'failed')
+  assert.deepEqual(entry.errors, ['Migration to version 2 threw: unexpected shape'])
+  assert.equal(Storage.getMigrationBackups().find(backup => backup.key === key)?.value, stored)
+
+  // Removing the key lets it be saved again
+  Storage.remove(key)
+  assert.equal(Storage.set(key, { __schemaVersion: 2, items: [] }), true)
+})
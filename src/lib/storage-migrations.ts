@@ -0,0 +1,172 @@
+// Storage Migrations for App Studio
+// Registered, ordered schema migrations per storage key, run as a dry run before anything is written
+
+export interface StorageMigration {
+  key: string // exact storage key, or TOOL_DATA_MIGRATION_KEY for every tool's data
+  fromVersion: number
+  toVersion: number
+  description: string
+  migrate: (data: any) => any
+  validate?: (data: any) => string[] // problems with the migrated data; empty when valid
+}
+
+export interface MigrationStepResult {
+  fromVersion: number
+  toVersion: number
+  description: string
+}
+
+export interface MigrationRunResult {
+  key: string
+  fromVersion: number
+  toVersion: number
+  success: boolean
+  steps: MigrationStepResult[]
+  errors: string[]
+  data?: any // migrated copy, only when successful
+}
+
+export interface MigrationBackup {
+  key: string
+  version: number
+  value: string // serialized data exactly as it was stored
+  createdAt: string // ISO string
+}
+
+export interface MigrationLogEntry {
+  key: string
+  fromVersion: number
+  toVersion: number
+  status: 'applied' | 'failed'
+  steps: string[]
+  errors: string[]
+  backedUp: boolean
+  timestamp: string // ISO string
+}
+
+// Migrations registered under this key apply to every `tool-<id>-data` key without their own
+export const TOOL_DATA_MIGRATION_KEY = 'tool-*-data'
+
+/**
+ * Migration Registry class
+ */
+export class MigrationRegistry {
+  private migrations: Map<string, StorageMigration[]> = new Map()
+
+  /**
+   * Register a migration. Each key has at most one migration per starting version.
+   */
+  register(migration: StorageMigration): { success: boolean; errors: string[] } {
+    const errors: string[] = []
+
+    if (!migration.key) {
+      errors.push('Migration key is required')
+    }
+    if (!Number.isInteger(migration.fromVersion) || migration.fromVersion < 0) {
+      errors.push('Migration fromVersion must be a non-negative integer')
+    }
+    if (!Number.isInteger(migration.toVersion) || migration.toVersion <= migration.fromVersion) {
+      errors.push('Migration toVersion must be an integer greater than fromVersion')
+    }
+
+    const existing = this.migrations.get(migration.key) || []
+    if (existing.some(m => m.fromVersion === migration.fromVersion)) {
+      errors.push(`A migration from version ${migration.fromVersion} is already registered for "${migration.key}"`)
+    }
+
+    if (errors.length > 0) {
+      return { success: false, errors }
+    }
+
+    this.migrations.set(
+      migration.key,
+      [...existing, migration].sort((a, b) => a.fromVersion - b.fromVersion)
+    )
+    return { success: true, errors: [] }
+  }
+
+  /**
+   * Get the migrations that apply to a storage key, in order
+   */
+  getMigrations(key: string): StorageMigration[] {
+    return this.migrations.get(this.resolveKey(key)) || []
+  }
+
+  /**
+   * Highest schema version the registered migrations reach for a key
+   */
+  getLatestVersion(key: string): number {
+    return this.getMigrations(key).reduce((latest, m) => Math.max(latest, m.toVersion), 0)
+  }
+
+  /**
+   * Run the migrations from the data's version up to `toVersion` on a copy of the data.
+   * Nothing is written; the caller decides whether to apply the result.
+   */
+  dryRun(key: string, data: any, toVersion: number): MigrationRunResult {
+    const fromVersion = typeof data.__schemaVersion === 'number' ? data.__schemaVersion : 0
+    const result: MigrationRunResult = { key, fromVersion, toVersion, success: false, steps: [], errors: [] }
+    const migrations = this.getMigrations(key)
+
+    let current: any
+    try {
+      current = JSON.parse(JSON.stringify(data))
+    } catch (error) {
+      result.errors.push(`Data could not be copied: ${error}`)
+      return result
+    }
+
+    let version = fromVersion
+    while (version < toVersion) {
+      const migration = migrations.find(m => m.fromVersion === version)
+      if (!migration) {
+        result.errors.push(`No migration registered from version ${version} for "${key}"`)
+        return result
+      }
+
+      try {
+        current = migration.migrate(current)
+      } catch (error) {
+        result.errors.push(`Migration to version ${migration.toVersion} threw: ${error instanceof Error ? error.message : error}`)
+        return result
+      }
+
+      if (!current || typeof current !== 'object') {
+        result.errors.push(`Migration to version ${migration.toVersion} did not return an object`)
+        return result
+      }
+
+      const problems = migration.validate ? migration.validate(current) : []
+      if (problems.length > 0) {
+        result.errors.push(...problems.map(problem => `Version ${migration.toVersion}: ${problem}`))
+        return result
+      }
+
+      current.__schemaVersion = migration.toVersion
+      result.steps.push({
+        fromVersion: migration.fromVersion,
+        toVersion: migration.toVersion,
+        description: migration.description
+      })
+      version = migration.toVersion
+    }
+
+    if (version !== toVersion) {
+      result.errors.push(`Migrations for "${key}" skip past version ${toVersion} (reached ${version})`)
+      return result
+    }
+
+    result.success = true
+    result.data = current
+    return result
+  }
+
+  private resolveKey(key: string): string {
+    if (this.migrations.has(key)) return key
+    if (key.startsWith('tool-') && key.endsWith('-data')) return TOOL_DATA_MIGRATION_KEY
+    return key
+  }
+}
+
+// Global migration registry
+export const storageMigrations = new MigrationRegistry()
@@ -0,0 +1,302 @@
+// Storage Quota Manager for App Studio
+// Reports how much space each storage key uses, warns as the quota fills up and prunes old history
+
+import { Storage, STORAGE_KEYS, ToolData, ToolDataStorage } from './storage'
+import { StorageBackendName } from './storage-backends'
+import { workflowAutomationEngine } from './workflow-automation'
+import { performanceMonitor } from './performance-monitor'
+
+export type StorageCategory = 'tool-data' | 'workflows' | 'performance' | 'backups' | 'app'
+
+export type StorageQuotaStatus = 'ok' | 'warning' | 'critical'
+
+export interface StorageKeyUsage {
+  key: string
+  label: string
+  category: StorageCategory
+  bytes: number
+  location: StorageBackendName
+}
+
+export interface StorageWriteFailure {
+  key: string
+  message: string
+  quotaExceeded: boolean
+  occurredAt: Date
+}
+
+export interface StorageQuotaReport {
+  keys: StorageKeyUsage[] // largest first
+  totalBytes: number
+  backend: StorageBackendName | null
+  usedBytes: number // what the quota is measured against
+  quotaBytes: number | null // null when the browser doesn't say
+  usageRatio: number | null
+  localStorageBytes: number // localStorage keeps its own cap whatever the backend
+  status: StorageQuotaStatus
+  lastWriteFailure: StorageWriteFailure | null
+}
+
+export interface PruneOptions {
+  olderThanDays: number
+}
+
+export interface PruneResult {
+  success: boolean
+  freedBytes: number
+  removed: {
+    executions: number
+    metrics: number
+    toolHistoryEntries: number
+    migrationBackups: number
+  }
+  errors: string[]
+}
+
+export type StorageQuotaListener = (report: StorageQuotaReport) => void
+
+// Browsers give each origin about 5MB of localStorage
+export const LOCAL_STORAGE_QUOTA_BYTES = 5 * 1024 * 1024
+
+const WARNING_RATIO = 0.8
+const CRITICAL_RATIO = 0.95
+
+export const DEFAULT_PRUNE_OPTIONS: PruneOptions = { olderThanDays: 30 }
+
+/**
+ * Storage Quota Manager class
+ */
+export class StorageQuotaManager {
+  private listeners: Set<StorageQuotaListener> = new Set()
+  private lastWriteFailure: StorageWriteFailure | null = null
+  private initialized = false
+
+  /**
+   * Start watching for failed writes
+   */
+  initialize(): void {
+    if (this.initialized || typeof window === 'undefined') return
+
+    Storage.onWriteFailure((key, error) => {
+      this.lastWriteFailure = {
+        key,
+        message: error instanceof Error ? error.message : String(error),
+        quotaExceeded: isQuotaExceededError(error),
+        occurredAt: new Date()
+      }
+      this.notifyListeners()
+    })
+
+    this.initialized = true
+  }
+
+  /**
+   * Be told when the report changes because a write failed or history was pruned.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: StorageQuotaListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Bytes used per key and overall, measured against the backend's quota
+   */
+  async getReport(): Promise<StorageQuotaReport> {
+    await Storage.initialize()
+
+    const keys: StorageKeyUsage[] = Storage.getKeySizes()
+      .map(size => ({ ...size, ...describeKey(size.key) }))
+      .sort((a, b) => b.bytes - a.bytes)
+
+    const totalBytes = keys.reduce((sum, key) => sum + key.bytes, 0)
+    const localStorageBytes = keys
+      .filter(key => key.location === 'localStorage')
+      .reduce((sum, key) => sum + key.bytes, 0)
+
+    const backend = Storage.getBackendName()
+    let usedBytes = localStorageBytes
+    let quotaBytes: number | null = LOCAL_STORAGE_QUOTA_BYTES
+
+    if (backend && backend !== 'localStorage') {
+      const estimate = await estimateOriginStorage()
+      usedBytes = estimate ? estimate.usage : totalBytes - localStorageBytes
+      quotaBytes = estimate ? estimate.quota : null
+    }
+
+    const usageRatio = quotaBytes ? usedBytes / quotaBytes : null
+    const localStorageRatio = localStorageBytes / LOCAL_STORAGE_QUOTA_BYTES
+    const worstRatio = Math.max(usageRatio || 0, localStorageRatio)
+
+    let status: StorageQuotaStatus = 'ok'
+    if (worstRatio >= CRITICAL_RATIO || this.lastWriteFailure?.quotaExceeded) {
+      status = 'critical'
+    } else if (worstRatio >= WARNING_RATIO || this.lastWriteFailure) {
+      status = 'warning'
+    }
+
+    return {
+      keys,
+      totalBytes,
+      backend,
+      usedBytes,
+      quotaBytes,
+      usageRatio,
+      localStorageBytes,
+      status,
+      lastWriteFailure: this.lastWriteFailure
+    }
+  }
+
+  /**
+   * Free space in one go: old workflow executions, performance metrics, dated entries
+   * in tool history and old pre-migration backups
+   */
+  async pruneHistory(options: PruneOptions = DEFAULT_PRUNE_OPTIONS): Promise<PruneResult> {
+    const result: PruneResult = {
+      success: true,
+      freedBytes: 0,
+      removed: { executions: 0, metrics: 0, toolHistoryEntries: 0, migrationBackups: 0 },
+      errors: []
+    }
+
+    if (!Number.isFinite(options.olderThanDays) || options.olderThanDays < 0) {
+      return { ...result, success: false, errors: ['olderThanDays must be zero or more'] }
+    }
+
+    const before = (await this.getReport()).totalBytes
+    const cutoff = new Date(Date.now() - options.olderThanDays * 24 * 60 * 60 * 1000)
+
+    try {
+      await workflowAutomationEngine.initialize()
+      result.removed.executions = workflowAutomationEngine.clearExecutionHistory(cutoff)
+    } catch (error) {
+      result.errors.push(`Failed to prune workflow executions: ${error}`)
+    }
+
+    try {
+      await performanceMonitor.initialize()
+      result.removed.metrics = performanceMonitor.pruneMetrics(cutoff)
+    } catch (error) {
+      result.errors.push(`Failed to prune performance metrics: ${error}`)
+    }
+
+    Storage.getKeySizes()
+      .filter(size => describeKey(size.key).category === 'tool-data')
+      .forEach(size => {
+        try {
+          result.removed.toolHistoryEntries += pruneToolHistory(size.key, cutoff)
+        } catch (error) {
+          result.errors.push(`Failed to prune ${size.key}: ${error}`)
+        }
+      })
+
+    result.removed.migrationBackups = Storage.pruneMigrationBackups(cutoff)
+
+    // A successful prune makes room, so an earlier failed write no longer needs flagging
+    this.lastWriteFailure = null
+    await Storage.flush()
+
+    const after = (await this.getReport()).totalBytes
+    result.freedBytes = Math.max(before - after, 0)
+    result.success = result.errors.length === 0
+
+    this.notifyListeners()
+    return result
+  }
+
+  private notifyListeners(): void {
+    if (this.listeners.size === 0) return
+
+    this.getReport()
+      .then(report => {
+        this.listeners.forEach(listener => {
+          try {
+            listener(report)
+          } catch (error) {
+            console.error('Storage quota listener failed:', error)
+          }
+        })
+      })
+      .catch(error => {
+        console.error('Failed to build storage quota report:', error)
+      })
+  }
+}
+
+/**
+ * Whether an error thrown by a storage write means the quota is full
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false
+
+  const { name, code } = error as { name?: string; code?: number }
+  return name === 'QuotaExceededError' ||
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' || // Firefox
+    code === 22 ||
+    code === 1014
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`
+}
+
+function describeKey(key: string): { label: string; category: StorageCategory } {
+  if (key.startsWith('tool-') && key.endsWith('-data')) {
+    return { label: `${key.slice('tool-'.length, -'-data'.length)} tool data`, category: 'tool-data' }
+  }
+  if (key === STORAGE_KEYS.WORKFLOW_AUTOMATION) return { label: 'Workflow executions and schedules', category: 'workflows' }
+  if (key === STORAGE_KEYS.PERFORMANCE) return { label: 'Performance metrics', category: 'performance' }
+  if (key === STORAGE_KEYS.MIGRATION_BACKUPS) return { label: 'Pre-migration backups', category: 'backups' }
+  if (key === STORAGE_KEYS.SNAPSHOTS) return { label: 'Restore snapshots', category: 'backups' }
+  if (key === STORAGE_KEYS.TOOL_DATA_SNAPSHOTS) return { label: 'Tool data saved before updates', category: 'backups' }
+  return { label: key.replace(/^app-studio-/, '').replace(/-/g, ' '), category: 'app' }
+}
+
+/**
+ * Tool data has no fixed shape, so only list entries that carry their own timestamp are pruned
+ */
+function pruneToolHistory(key: string, cutoff: Date): number {
+  const toolId = key.slice('tool-'.length, -'-data'.length)
+  const data = ToolDataStorage.get<ToolData>(toolId, { __schemaVersion: 1 })
+  let removed = 0
+
+  Object.keys(data).forEach(field => {
+    const value = data[field]
+    if (!Array.isArray(value)) return
+
+    const kept = value.filter(entry => {
+      const timestamp = entry && typeof entry === 'object' ? new Date(entry.timestamp).getTime() : NaN
+      return isNaN(timestamp) || timestamp >= cutoff.getTime()
+    })
+    removed += value.length - kept.length
+    data[field] = kept
+  })
+
+  if (removed > 0) {
+    ToolDataStorage.set(toolId, data)
+  }
+  return removed
+}
+
+async function estimateOriginStorage(): Promise<{ usage: number; quota: number } | null> {
+  try {
+    if (typeof navigator === 'undefined' || !navigator.storage || !navigator.storage.estimate) return null
+
+    const estimate = await navigator.storage.estimate()
+    if (typeof estimate.usage !== 'number' || typeof estimate.quota !== 'number') return null
+    return { usage: estimate.usage, quota: estimate.quota }
+  } catch {
+    return null
+  }
+}
+
+// Global storage quota manager instance
+export const storageQuotaManager = new StorageQuotaManager()
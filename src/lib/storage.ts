@@ -1,5 +1,21 @@
 // Storage utilities for App Studio
-// Handles localStorage operations with error handling and migrations
+// Handles persistence through a pluggable backend with error handling and migrations
+
+import { eventBus } from './event-bus'
+import {
+  StorageBackend,
+  StorageBackendName,
+  LocalStorageBackend,
+  createDefaultBackend
+} from './storage-backends'
+import {
+  storageMigrations,
+  MigrationBackup,
+  MigrationLogEntry,
+  MigrationRunResult,
+  TOOL_DATA_MIGRATION_KEY
+} from './storage-migrations'
+import { EncryptedNamespace } from './storage-encryption'
 
 export interface StorageSchema {
   __schemaVersion: number
@@ -31,6 +47,17 @@ export const STORAGE_KEYS = {
   TOOLS: 'app-studio-tools',
   PREFERENCES: 'app-studio-preferences', 
   USAGE: 'app-studio-usage',
+  COLLECTIONS: 'app-studio-collections',
+  WORKFLOW_AUTOMATION: 'app-studio-workflow-automation',
+  PERFORMANCE: 'app-studio-performance',
+  MIGRATION_LOG: 'app-studio-migration-log',
+  MIGRATION_BACKUPS: 'app-studio-migration-backups',
+  ENCRYPTION: 'app-studio-encryption',
+  SNAPSHOTS: 'app-studio-snapshots',
+  TOOL_DATA_SNAPSHOTS: 'app-studio-tool-data-snapshots',
+  TRUSTED_KEYS: 'app-studio-trusted-keys',
+  SIGNING_IDENTITY: 'app-studio-signing-identity',
+  SIGNING_KEY: 'app-studio-signing-key',
   TOOL_DATA: (toolId: string) => `tool-${toolId}-data`
 } as const
 
@@ -56,89 +83,463 @@ export const DEFAULT_USAGE_DATA: UsageData = {
   __schemaVersion: SCHEMA_VERSIONS.USAGE
 } as UsageData
 
+// Keys kept by the storage backend; anything else stays in plain localStorage
+function isBackendKey(key: string): boolean {
+  return key === STORAGE_KEYS.PREFERENCES ||
+    key === STORAGE_KEYS.USAGE ||
+    key === STORAGE_KEYS.WORKFLOW_AUTOMATION ||
+    key === STORAGE_KEYS.PERFORMANCE ||
+    key === STORAGE_KEYS.MIGRATION_LOG ||
+    key === STORAGE_KEYS.MIGRATION_BACKUPS ||
+    key === STORAGE_KEYS.ENCRYPTION ||
+    key === STORAGE_KEYS.SNAPSHOTS ||
+    key === STORAGE_KEYS.TOOL_DATA_SNAPSHOTS ||
+    key === STORAGE_KEYS.TRUSTED_KEYS ||
+    key === STORAGE_KEYS.SIGNING_IDENTITY ||
+    key === STORAGE_KEYS.SIGNING_KEY ||
+    (key.startsWith('tool-') && key.endsWith('-data'))
+}
+
+function isToolDataKey(key: string): boolean {
+  return key.startsWith('tool-') && key.endsWith('-data')
+}
+
+const MAX_MIGRATION_LOG_ENTRIES = 100
+
+// Tells other tabs about writes, since IndexedDB has no equivalent of the storage event
+const STORAGE_CHANNEL_NAME = 'app-studio-storage'
+
+export interface StorageKeySize {
+  key: string
+  bytes: number // UTF-16, the way browsers count localStorage usage
+  location: StorageBackendName
+}
+
+export type StorageWriteFailureListener = (key: string, error: unknown) => void
+
+interface StorageChannelMessage {
+  key: string
+  newValue: string | null
+}
+
 /**
- * Safe localStorage operations with error handling
+ * Storage API on top of a pluggable backend (IndexedDB when available, else localStorage).
+ * Reads and writes stay synchronous through an in-memory cache that initialize() warms
+ * from the backend; writes go through to the backend in the background.
  */
 export class Storage {
   private static isClient = typeof window !== 'undefined'
+  private static backend: StorageBackend | null = null
+  private static cache: Map<string, string | null> = new Map()
+  private static ready = false
+  private static initializing: Promise<void> | null = null
+  private static pendingWrites: Promise<void> = Promise.resolve()
+  private static channel: BroadcastChannel | null = null
+  private static writeFailureListeners: Set<StorageWriteFailureListener> = new Set()
+  private static failedMigrations: Map<string, string> = new Map() // key -> data that failed, so it isn't retried on every read
+
+  /**
+   * Load the backend into the cache, moving existing localStorage data across first.
+   * Safe to call repeatedly; everyone awaits the same load.
+   */
+  static initialize(backend?: StorageBackend): Promise<void> {
+    if (!this.isClient) return Promise.resolve()
+
+    if (!this.initializing) {
+      this.initializing = this.loadBackend(backend || createDefaultBackend(isBackendKey))
+    }
+    return this.initializing
+  }
+
+  /**
+   * Whether initialize() has finished loading the backend
+   */
+  static isReady(): boolean {
+    return this.ready
+  }
+
+  /**
+   * Name of the backend in use, or null before initialize()
+   */
+  static getBackendName(): StorageBackendName | null {
+    return this.backend ? this.backend.name : null
+  }
+
+  /**
+   * Resolve once every write so far has reached the backend, e.g. before reloading the page
+   */
+  static flush(): Promise<void> {
+    // Encrypted writes land in the backend queue once they are encrypted
+    return encryptedStorage.flush().then(() => this.pendingWrites)
+  }
+
+  /**
+   * Read a key's value exactly as stored, without parsing or migrating it
+   */
+  static getSerialized(key: string): string | null {
+    if (!this.isClient) return null
+    return this.getItem(key)
+  }
+
+  /**
+   * Store an already serialized value as is, or remove the key when it is null
+   */
+  static setSerialized(key: string, serialized: string | null): boolean {
+    if (!this.isClient) return false
+
+    try {
+      this.setItem(key, serialized)
+      this.failedMigrations.delete(key)
+      eventBus.publishDataChange('storage', { key, action: serialized === null ? 'remove' : 'set', newValue: serialized })
+      return true
+    } catch (error) {
+      console.error(`Failed to write to storage key "${key}":`, error)
+      this.notifyWriteFailure(key, error)
+      return false
+    }
+  }
+
+  /**
+   * Be told when a write fails, e.g. because the storage quota is full. Returns an unsubscribe function.
+   */
+  static onWriteFailure(listener: StorageWriteFailureListener): () => void {
+    this.writeFailureListeners.add(listener)
+    return () => {
+      this.writeFailureListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Size of every app key, whether it lives in the backend or still in localStorage
+   */
+  static getKeySizes(): StorageKeySize[] {
+    if (!this.isClient) return []
+
+    const sizes: StorageKeySize[] = []
+    const backendName = this.backend ? this.backend.name : 'localStorage'
+
+    this.cache.forEach((value, key) => {
+      if (value !== null) sizes.push({ key, bytes: (key.length + value.length) * 2, location: backendName })
+    })
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (!key || this.cache.has(key) || !(key.startsWith('app-studio-') || isToolDataKey(key))) continue
+      sizes.push({ key, bytes: (key.length + (localStorage.getItem(key) || '').length) * 2, location: 'localStorage' })
+    }
+
+    return sizes
+  }
 
   /**
-   * Get data from localStorage with fallback
+   * Get data from storage with fallback
    */
   static get<T>(key: string, defaultValue: T): T {
     if (!this.isClient) return defaultValue
 
     try {
-      const item = localStorage.getItem(key)
+      const item = this.getItem(key)
       if (item === null) return defaultValue
       
       const parsed = JSON.parse(item)
       return this.migrateData(key, parsed, defaultValue)
     } catch (error) {
-      console.warn(`Failed to read from localStorage key "${key}":`, error)
+      console.warn(`Failed to read from storage key "${key}":`, error)
       return defaultValue
     }
   }
 
   /**
-   * Set data in localStorage with error handling
+   * Set data in storage with error handling
    */
   static set<T extends StorageSchema>(key: string, value: T): boolean {
     if (!this.isClient) return false
 
+    // Callers got defaults for this key, and saving them would replace the data that failed to migrate
+    if (this.failedMigrations.has(key)) {
+      const error = new Error(`Not saving "${key}": its stored data could not be migrated and would be overwritten`)
+      console.error(error.message)
+      this.notifyWriteFailure(key, error)
+      return false
+    }
+
     try {
-      localStorage.setItem(key, JSON.stringify(value))
+      const serialized = JSON.stringify(value)
+      this.setItem(key, serialized)
+      eventBus.publishDataChange('storage', { key, action: 'set', newValue: serialized })
       return true
     } catch (error) {
-      console.error(`Failed to write to localStorage key "${key}":`, error)
+      console.error(`Failed to write to storage key "${key}":`, error)
+      this.notifyWriteFailure(key, error)
       return false
     }
   }
 
   /**
-   * Remove data from localStorage
+   * Remove data from storage
    */
   static remove(key: string): boolean {
     if (!this.isClient) return false
 
     try {
-      localStorage.removeItem(key)
+      this.setItem(key, null)
+      this.failedMigrations.delete(key)
+      eventBus.publishDataChange('storage', { key, action: 'remove', newValue: null })
       return true
     } catch (error) {
-      console.error(`Failed to remove localStorage key "${key}":`, error)
+      console.error(`Failed to remove storage key "${key}":`, error)
       return false
     }
   }
 
   /**
-   * Clear all app data from localStorage
+   * Clear all app data from storage
    */
   static clearAll(): boolean {
     if (!this.isClient) return false
 
     try {
-      const keys = [STORAGE_KEYS.TOOLS, STORAGE_KEYS.PREFERENCES, STORAGE_KEYS.USAGE]
-      keys.forEach(key => {
-        localStorage.removeItem(key)
+      localStorage.removeItem(STORAGE_KEYS.TOOLS)
+
+      encryptedStorage.reset()
+
+      // The signing key was encrypted with the passphrase just removed, so it goes too
+      const keys: string[] = [STORAGE_KEYS.PREFERENCES, STORAGE_KEYS.USAGE, STORAGE_KEYS.SIGNING_IDENTITY, STORAGE_KEYS.SIGNING_KEY]
+      this.cache.forEach((_, key) => {
+        if (isToolDataKey(key)) keys.push(key)
       })
-      
-      // Clear tool-specific data
+      keys.forEach(key => this.setItem(key, null))
+
+      // Clear tool-specific data not yet moved to the backend
       for (let i = localStorage.length - 1; i >= 0; i--) {
         const key = localStorage.key(i)
-        if (key?.startsWith('tool-') && key.endsWith('-data')) {
+        if (key && isToolDataKey(key)) {
           localStorage.removeItem(key)
         }
       }
       
       return true
     } catch (error) {
-      console.error('Failed to clear localStorage:', error)
+      console.error('Failed to clear storage:', error)
+      return false
+    }
+  }
+
+  private static getItem(key: string): string | null {
+    if (this.isDirectKey(key)) return localStorage.getItem(key)
+    if (this.cache.has(key)) return this.cache.get(key)!
+
+    // Before initialize() finishes, data that hasn't been migrated is still in localStorage
+    return this.ready ? null : localStorage.getItem(key)
+  }
+
+  private static setItem(key: string, value: string | null): void {
+    if (this.isDirectKey(key)) {
+      if (value === null) {
+        localStorage.removeItem(key)
+      } else {
+        localStorage.setItem(key, value)
+      }
+      return
+    }
+
+    this.cache.set(key, value)
+
+    // Writes made before the backend is loaded are applied once it is
+    if (this.ready) {
+      this.writeThrough(key, value)
+      this.broadcast(key, value)
+    }
+  }
+
+  /**
+   * localStorage is synchronous and shared between tabs, so its keys are read and written
+   * directly rather than cached, and other tabs' writes are never stale
+   */
+  private static isDirectKey(key: string): boolean {
+    return !isBackendKey(key) || (this.ready && this.backend!.name === 'localStorage')
+  }
+
+  private static writeThrough(key: string, value: string | null): void {
+    const backend = this.backend!
+    this.pendingWrites = this.pendingWrites
+      .then(() => value === null ? backend.removeItem(key) : backend.setItem(key, value))
+      .catch(error => {
+        console.error(`Failed to write storage key "${key}" to ${backend.name}:`, error)
+        this.notifyWriteFailure(key, error)
+      })
+  }
+
+  private static notifyWriteFailure(key: string, error: unknown): void {
+    this.writeFailureListeners.forEach(listener => {
+      try {
+        listener(key, error)
+      } catch (listenerError) {
+        console.error('Storage write failure listener failed:', listenerError)
+      }
+    })
+  }
+
+  private static async loadBackend(preferred: StorageBackend): Promise<void> {
+    let backend = preferred
+    let entries: Record<string, string>
+
+    try {
+      entries = await backend.loadAll()
+      if (backend.name !== 'localStorage') {
+        await this.migrateFromLocalStorage(backend, entries)
+      }
+    } catch (error) {
+      console.error(`Failed to load ${backend.name} storage, using localStorage instead:`, error)
+      backend = new LocalStorageBackend(isBackendKey)
+      entries = await backend.loadAll()
+    }
+
+    this.backend = backend
+
+    // Keep anything written while loading; it is newer than what the backend returned
+    const earlyWrites = Array.from(this.cache.entries())
+
+    if (backend.name === 'localStorage') {
+      this.cache.clear()
+      this.ready = true
+      earlyWrites.forEach(([key, value]) => {
+        try {
+          this.setItem(key, value)
+        } catch (error) {
+          console.error(`Failed to write storage key "${key}" to localStorage:`, error)
+          this.notifyWriteFailure(key, error)
+        }
+      })
+      return
+    }
+
+    Object.keys(entries).forEach(key => {
+      if (!this.cache.has(key)) this.cache.set(key, entries[key])
+    })
+    this.ready = true
+    earlyWrites.forEach(([key, value]) => {
+      this.writeThrough(key, value)
+      this.broadcast(key, value)
+    })
+
+    // Unlike localStorage, backend writes raise no storage event in other tabs, so announce them
+    this.setupChannel()
+  }
+
+  /**
+   * Copy app data out of localStorage into the backend, then free it from localStorage.
+   * Whatever is still in localStorage is newer than the backend (only a localStorage
+   * fallback session writes there), so it overwrites.
+   */
+  private static async migrateFromLocalStorage(backend: StorageBackend, entries: Record<string, string>): Promise<void> {
+    const legacy = await new LocalStorageBackend(isBackendKey).loadAll()
+    const keys = Object.keys(legacy)
+    if (keys.length === 0) return
+
+    for (const key of keys) {
+      await backend.setItem(key, legacy[key])
+      entries[key] = legacy[key]
+    }
+
+    // Only remove once everything was copied, so a failure leaves localStorage intact
+    keys.forEach(key => localStorage.removeItem(key))
+    console.info(`Moved ${keys.length} storage key(s) from localStorage to ${backend.name}`)
+  }
+
+  private static setupChannel(): void {
+    if (typeof BroadcastChannel === 'undefined') return
+
+    this.channel = new BroadcastChannel(STORAGE_CHANNEL_NAME)
+    this.channel.onmessage = (event: MessageEvent<StorageChannelMessage>) => {
+      const { key, newValue } = event.data || {}
+      if (typeof key !== 'string') return
+
+      this.cache.set(key, newValue)
+      eventBus.publishRemoteDataChange('storage-channel', {
+        key,
+        action: newValue === null ? 'remove' : 'set',
+        newValue
+      })
+    }
+  }
+
+  private static broadcast(key: string, newValue: string | null): void {
+    if (!this.channel) return
+
+    const message: StorageChannelMessage = { key, newValue }
+    this.channel.postMessage(message)
+  }
+
+  /**
+   * Every migration attempt so far, newest last
+   */
+  static getMigrationLog(): MigrationLogEntry[] {
+    return this.get<{ __schemaVersion: number; entries: MigrationLogEntry[] }>(
+      STORAGE_KEYS.MIGRATION_LOG,
+      { __schemaVersion: 1, entries: [] }
+    ).entries
+  }
+
+  /**
+   * Data as it was before its last migration attempt, per storage key
+   */
+  static getMigrationBackups(): MigrationBackup[] {
+    const stored = this.get<{ __schemaVersion: number; backups: Record<string, MigrationBackup> }>(
+      STORAGE_KEYS.MIGRATION_BACKUPS,
+      { __schemaVersion: 1, backups: {} }
+    )
+    return Object.keys(stored.backups).map(key => stored.backups[key])
+  }
+
+  /**
+   * Drop pre-migration backups made before a date. Returns how many were dropped.
+   */
+  static pruneMigrationBackups(olderThan: Date): number {
+    const stored = this.get<{ __schemaVersion: number; backups: Record<string, MigrationBackup> }>(
+      STORAGE_KEYS.MIGRATION_BACKUPS,
+      { __schemaVersion: 1, backups: {} }
+    )
+    const stale = Object.keys(stored.backups)
+      .filter(key => new Date(stored.backups[key].createdAt).getTime() < olderThan.getTime())
+    if (stale.length === 0) return 0
+
+    stale.forEach(key => delete stored.backups[key])
+    this.setItem(STORAGE_KEYS.MIGRATION_BACKUPS, JSON.stringify(stored))
+    return stale.length
+  }
+
+  /**
+   * Put a key's pre-migration backup back in place. It is migrated again on the next read.
+   */
+  static restoreMigrationBackup(key: string): boolean {
+    const backup = this.getMigrationBackups().find(b => b.key === key)
+    if (!backup || !this.isClient) return false
+
+    try {
+      this.failedMigrations.delete(key)
+      this.setItem(key, backup.value)
+      eventBus.publishDataChange('storage', { key, action: 'set', newValue: backup.value })
+      return true
+    } catch (error) {
+      console.error(`Failed to restore migration backup for "${key}":`, error)
       return false
     }
   }
 
   /**
-   * Migrate data to current schema version
+   * Whether a key's stored data failed to migrate this session. Such a key reads as its
+   * default and refuses set() until it is removed or its migration backup is restored.
+   */
+  static hasFailedMigration(key: string): boolean {
+    return this.failedMigrations.has(key)
+  }
+
+  /**
+   * Migrate data to the current schema version: dry run the registered migrations,
+   * back up the stored data, then write the result. When the dry run fails the stored
+   * data is left as it is (and backed up) and the default is used for this session,
+   * without letting it be saved over the stored data.
    */
   private static migrateData<T>(key: string, data: any, defaultValue: T): T {
     if (!data || typeof data !== 'object') return defaultValue
@@ -146,48 +547,144 @@ export class Storage {
     const currentVersion = this.getCurrentSchemaVersion(key)
     const dataVersion = data.__schemaVersion || 0
 
-    if (dataVersion === currentVersion) {
+    // Newer data (written by a later version of the app) is used as is and never downgraded
+    if (dataVersion >= currentVersion) {
+      this.failedMigrations.delete(key)
       return data as T
     }
 
-    // Perform migrations based on key type
-    try {
-      const migrated = this.performMigration(key, data, dataVersion, currentVersion)
-      return migrated || defaultValue
-    } catch (error) {
-      console.warn(`Migration failed for key "${key}":`, error)
+    const serialized = JSON.stringify(data)
+    if (this.failedMigrations.get(key) === serialized) return defaultValue
+
+    const result = storageMigrations.dryRun(key, data, currentVersion)
+    const backedUp = this.backupForMigration(key, dataVersion, serialized)
+
+    if (result.success && backedUp) {
+      try {
+        this.setItem(key, JSON.stringify(result.data))
+      } catch (error) {
+        result.success = false
+        result.errors.push(`Migrated data could not be written: ${error}`)
+      }
+    } else if (!backedUp) {
+      result.success = false
+      result.errors.push('Backup failed, so the migration was not applied')
+    }
+
+    this.logMigration(result, backedUp)
+
+    if (!result.success) {
+      console.warn(`Migration failed for key "${key}", keeping the stored data:`, result.errors)
+      this.failedMigrations.set(key, serialized)
       return defaultValue
     }
+
+    this.failedMigrations.delete(key)
+    return result.data as T
   }
 
   /**
    * Get current schema version for a storage key
    */
   private static getCurrentSchemaVersion(key: string): number {
-    if (key === STORAGE_KEYS.TOOLS) return SCHEMA_VERSIONS.TOOLS
-    if (key === STORAGE_KEYS.PREFERENCES) return SCHEMA_VERSIONS.PREFERENCES
-    if (key === STORAGE_KEYS.USAGE) return SCHEMA_VERSIONS.USAGE
-    if (key.startsWith('tool-') && key.endsWith('-data')) return SCHEMA_VERSIONS.TOOL_DATA
-    return 1
+    let baseVersion = 1
+    if (key === STORAGE_KEYS.TOOLS) baseVersion = SCHEMA_VERSIONS.TOOLS
+    if (key === STORAGE_KEYS.PREFERENCES) baseVersion = SCHEMA_VERSIONS.PREFERENCES
+    if (key === STORAGE_KEYS.USAGE) baseVersion = SCHEMA_VERSIONS.USAGE
+    if (isToolDataKey(key)) baseVersion = SCHEMA_VERSIONS.TOOL_DATA
+    return Math.max(baseVersion, storageMigrations.getLatestVersion(key))
   }
 
-  /**
-   * Perform schema migrations
-   */
-  private static performMigration(key: string, data: any, fromVersion: number, toVersion: number): any {
-    let migrated = { ...data }
+  private static backupForMigration(key: string, version: number, value: string): boolean {
+    try {
+      const stored = this.get<{ __schemaVersion: number; backups: Record<string, MigrationBackup> }>(
+        STORAGE_KEYS.MIGRATION_BACKUPS,
+        { __schemaVersion: 1, backups: {} }
+      )
+      stored.backups[key] = { key, version, value, createdAt: new Date().toISOString() }
+      this.setItem(STORAGE_KEYS.MIGRATION_BACKUPS, JSON.stringify(stored))
+      return true
+    } catch (error) {
+      console.error(`Failed to back up "${key}" before migrating:`, error)
+      return false
+    }
+  }
 
-    // Add migration logic here as schemas evolve
-    // Example:
-    // if (key === STORAGE_KEYS.PREFERENCES && fromVersion < 2) {
-    //   migrated.newField = 'defaultValue'
-    // }
+  private static logMigration(result: MigrationRunResult, backedUp: boolean): void {
+    const entry: MigrationLogEntry = {
+      key: result.key,
+      fromVersion: result.fromVersion,
+      toVersion: result.toVersion,
+      status: result.success ? 'applied' : 'failed',
+      steps: result.steps.map(step => `v${step.fromVersion} → v${step.toVersion}: ${step.description}`),
+      errors: result.errors,
+      backedUp,
+      timestamp: new Date().toISOString()
+    }
 
-    migrated.__schemaVersion = toVersion
-    return migrated
+    try {
+      const entries = [...this.getMigrationLog(), entry].slice(-MAX_MIGRATION_LOG_ENTRIES)
+      this.setItem(STORAGE_KEYS.MIGRATION_LOG, JSON.stringify({ __schemaVersion: 1, entries }))
+    } catch (error) {
+      console.error('Failed to write migration log:', error)
+    }
   }
 }
 
+// Migrations from unversioned (v0) data written before schema versions existed
+storageMigrations.register({
+  key: STORAGE_KEYS.TOOLS,
+  fromVersion: 0,
+  toVersion: 1,
+  description: 'Wrap a bare tool list in { tools }',
+  migrate: (data) => Array.isArray(data) ? { tools: data } : { ...data, tools: data.tools || [] },
+  validate: (data) => Array.isArray(data.tools) ? [] : ['tools must be a list']
+})
+
+storageMigrations.register({
+  key: STORAGE_KEYS.PREFERENCES,
+  fromVersion: 0,
+  toVersion: 1,
+  description: 'Fill in missing preferences with defaults',
+  migrate: (data) => ({ ...DEFAULT_PREFERENCES, ...data }),
+  validate: (data) => {
+    const errors: string[] = []
+    if (!['light', 'dark', 'system'].includes(data.theme)) errors.push(`unknown theme "${data.theme}"`)
+    if (!['grid', 'list'].includes(data.layout)) errors.push(`unknown layout "${data.layout}"`)
+    ;['favoriteTools', 'recentTools', 'categories'].forEach(field => {
+      if (!Array.isArray(data[field])) errors.push(`${field} must be a list`)
+    })
+    return errors
+  }
+})
+
+storageMigrations.register({
+  key: STORAGE_KEYS.USAGE,
+  fromVersion: 0,
+  toVersion: 1,
+  description: 'Turn bare usage counts into usage records',
+  migrate: (data) => Object.keys(data).reduce((migrated, toolId) => {
+    const value = data[toolId]
+    migrated[toolId] = typeof value === 'number' && toolId !== '__schemaVersion'
+      ? { usageCount: value, lastUsed: new Date(0).toISOString() }
+      : value
+    return migrated
+  }, {} as Record<string, any>),
+  validate: (data) => Object.keys(data)
+    .filter(toolId => toolId !== '__schemaVersion')
+    .filter(toolId => typeof data[toolId]?.usageCount !== 'number')
+    .map(toolId => `usage for "${toolId}" has no usageCount`)
+})
+
+storageMigrations.register({
+  key: TOOL_DATA_MIGRATION_KEY,
+  fromVersion: 0,
+  toVersion: 1,
+  description: 'Stamp unversioned tool data',
+  migrate: (data) => data,
+  validate: (data) => Array.isArray(data) ? ['tool data must be an object'] : []
+})
+
 /**
  * Convenience functions for specific data types
  */
@@ -225,11 +722,43 @@ export const UsageStorage = {
   }
 }
 
+// Opt-in encrypted namespace; see ToolDataStorage.requireEncryption
+export const encryptedStorage = new EncryptedNamespace({
+  read: (key) => Storage.getSerialized(key),
+  write: (key, value) => {
+    Storage.setSerialized(key, value)
+  },
+  keys: () => Storage.getKeySizes().map(size => size.key)
+}, STORAGE_KEYS.ENCRYPTION)
+
 export const ToolDataStorage = {
-  get: <T extends ToolData>(toolId: string, defaultValue: T): T => 
-    Storage.get(STORAGE_KEYS.TOOL_DATA(toolId), defaultValue),
-  set: <T extends ToolData>(toolId: string, data: T): boolean => 
-    Storage.set(STORAGE_KEYS.TOOL_DATA(toolId), data),
-  remove: (toolId: string): boolean => 
-    Storage.remove(STORAGE_KEYS.TOOL_DATA(toolId))
-}
\ No newline at end of file
+  get: <T extends ToolData>(toolId: string, defaultValue: T): T => {
+    const key = STORAGE_KEYS.TOOL_DATA(toolId)
+    return encryptedStorage.isEncryptedKey(key)
+      ? encryptedStorage.get(key, defaultValue)
+      : Storage.get(key, defaultValue)
+  },
+  set: <T extends ToolData>(toolId: string, data: T): boolean => {
+    const key = STORAGE_KEYS.TOOL_DATA(toolId)
+    return encryptedStorage.isEncryptedKey(key)
+      ? encryptedStorage.set(key, data)
+      : Storage.set(key, data)
+  },
+  remove: (toolId: string): boolean => {
+    encryptedStorage.forget(STORAGE_KEYS.TOOL_DATA(toolId))
+    return Storage.remove(STORAGE_KEYS.TOOL_DATA(toolId))
+  },
+  /**
+   * Declare that a tool's data must be stored encrypted once a passphrase is set. From then
+   * on reads return the default and writes are refused while encryptedStorage is locked;
+   * before that the data is stored plainly, and encrypted when the passphrase is set.
+   */
+  requireEncryption: (toolId: string): void =>
+    encryptedStorage.requireEncryption(STORAGE_KEYS.TOOL_DATA(toolId)),
+  isEncrypted: (toolId: string): boolean =>
+    encryptedStorage.isEncryptedKey(STORAGE_KEYS.TOOL_DATA(toolId))
+}
+
+// Recent passwords are secrets. Declared here rather than in the tool, so data saved in
+// plaintext is encrypted as soon as a passphrase is set, wherever that happens.
+ToolDataStorage.requireEncryption('password-generator')
\ No newline at end of file
@@ -0,0 +1,806 @@
+// Tool Actions for App Studio
+// Pure, UI-independent transforms that tools expose for workflow automation
+
+import { toolRegistry } from './tool-registry'
+
+export type ToolActionData = Record<string, any>
+
+export interface ToolAction {
+  toolId: string
+  name: string
+  description: string
+  inputFields: string[] // keys the action reads from its input
+  outputFields: string[] // keys the action writes to its output
+  defaultConfig: Record<string, any>
+  execute: (input: ToolActionData, config: Record<string, any>) => ToolActionData | Promise<ToolActionData>
+}
+
+/**
+ * Text Cleaner
+ */
+export interface TextCleaningOptions {
+  removeExtraSpaces: boolean
+  removeExtraLineBreaks: boolean
+  removeLeadingTrailingSpaces: boolean
+  removeSpecialCharacters: boolean
+  removeNumbers: boolean
+  convertToLowercase: boolean
+  convertToUppercase: boolean
+  removeEmptyLines: boolean
+  normalizeLineEndings: boolean
+  removeTabsAndIndentation: boolean
+}
+
+export const DEFAULT_TEXT_CLEANING_OPTIONS: TextCleaningOptions = {
+  removeExtraSpaces: true,
+  removeExtraLineBreaks: true,
+  removeLeadingTrailingSpaces: true,
+  removeSpecialCharacters: false,
+  removeNumbers: false,
+  convertToLowercase: false,
+  convertToUppercase: false,
+  removeEmptyLines: true,
+  normalizeLineEndings: true,
+  removeTabsAndIndentation: false
+}
+
+export function cleanText(text: string, options: TextCleaningOptions): string {
+  if (!text) return ''
+  
+  let cleaned = text
+
+  // Remove leading and trailing spaces from each line
+  if (options.removeLeadingTrailingSpaces) {
+    cleaned = cleaned.split('\n').map(line => line.trim()).join('\n')
+  }
+
+  // Remove extra spaces (multiple spaces become single space)
+  if (options.removeExtraSpaces) {
+    cleaned = cleaned.replace(/[ \t]+/g, ' ')
+  }
+
+  // Remove tabs and indentation
+  if (options.removeTabsAndIndentation) {
+    cleaned = cleaned.replace(/^\s+/gm, '')
+  }
+
+  // Remove empty lines
+  if (options.removeEmptyLines) {
+    cleaned = cleaned.replace(/^\s*\n/gm, '')
+  }
+
+  // Remove extra line breaks (multiple line breaks become single)
+  if (options.removeExtraLineBreaks) {
+    cleaned = cleaned.replace(/\n{3,}/g, '\n\n')
+  }
+
+  // Normalize line endings
+  if (options.normalizeLineEndings) {
+    cleaned = cleaned.replace(/\r\n/g, '\n').replace(/\r/g, '\n')
+  }
+
+  // Remove special characters (keep only letters, numbers, spaces, and basic punctuation)
+  if (options.removeSpecialCharacters) {
+    cleaned = cleaned.replace(/[^\w\s.,!?;:'"()\-]/g, '')
+  }
+
+  // Remove numbers
+  if (options.removeNumbers) {
+    cleaned = cleaned.replace(/\d/g, '')
+  }
+
+  // Case conversion
+  if (options.convertToLowercase) {
+    cleaned = cleaned.toLowerCase()
+  } else if (options.convertToUppercase) {
+    cleaned = cleaned.toUpperCase()
+  }
+
+  // Final cleanup - remove leading/trailing whitespace
+  cleaned = cleaned.trim()
+
+  return cleaned
+}
+
+/**
+ * Smart Markdown Formatter
+ */
+export type MarkdownConversionMode = 'text-to-markdown' | 'markdown-to-rich-text'
+
+/**
+ * Detect structure in plain text and convert it to markdown
+ */
+export function parseToMarkdown(text: string): string {
+  if (!text.trim()) return ''
+
+  let lines = text.split('\n')
+  let result: string[] = []
+  let i = 0
+
+  // First pass: clean up unnecessary line breaks
+  let cleanedLines: string[] = []
+  let currentParagraph = ''
+  
+  for (let j = 0; j < lines.length; j++) {
+    let line = lines[j]
+    let trimmed = line.trim()
+    
+    // If empty line, finish current paragraph if it exists
+    if (!trimmed) {
+      if (currentParagraph.trim()) {
+        cleanedLines.push(currentParagraph.trim())
+        currentParagraph = ''
+      }
+      cleanedLines.push('') // Preserve paragraph breaks
+      continue
+    }
+    
+    // Check if this looks like a header, list item, or code
+    let isSpecialLine = (
+      trimmed === trimmed.toUpperCase() && trimmed.length > 3 && /^[A-Z\s]+$/.test(trimmed) ||
+      (trimmed.match(/^[A-Z][a-z].*[^.!?]$/) && trimmed.length < 60) ||
+      trimmed.match(/^\d+[\.\)]\s+/) ||
+      trimmed.match(/^[-\*\•]\s+/) ||
+      trimmed.match(/^[a-z]\)\s+/i) ||
+      line.match(/^    /) || 
+      line.match(/^\t/) ||
+      trimmed.includes('|') && trimmed.split('|').length > 2 ||
+      trimmed.match(/^[a-zA-Z_][a-zA-Z0-9_]*\s*[=:]\s*/) ||
+      (trimmed.match(/[{}();\[\]]/g)?.length || 0) > 2
+    )
+    
+    if (isSpecialLine) {
+      // Finish current paragraph first
+      if (currentParagraph.trim()) {
+        cleanedLines.push(currentParagraph.trim())
+        currentParagraph = ''
+      }
+      cleanedLines.push(line)
+    } else {
+      // Add to current paragraph with space
+      if (currentParagraph) {
+        currentParagraph += ' ' + trimmed
+      } else {
+        currentParagraph = trimmed
+      }
+    }
+  }
+  
+  // Don't forget the last paragraph
+  if (currentParagraph.trim()) {
+    cleanedLines.push(currentParagraph.trim())
+  }
+
+  lines = cleanedLines
+  
+  while (i < lines.length) {
+    let line = lines[i]
+    let trimmed = line.trim()
+
+    // Skip empty lines but preserve spacing
+    if (!trimmed) {
+      result.push('')
+      i++
+      continue
+    }
+
+    // Detect headers (all caps, title case, or lines followed by dashes/equals)
+    if (
+      trimmed === trimmed.toUpperCase() && trimmed.length > 3 && /^[A-Z\s]+$/.test(trimmed) ||
+      (trimmed.match(/^[A-Z][a-z].*[^.!?]$/) && trimmed.length < 60) ||
+      (i + 1 < lines.length && lines[i + 1].trim().match(/^[=-]{3,}$/))
+    ) {
+      let level = 1
+      if (trimmed.length < 20) level = 1
+      else if (trimmed.length < 40) level = 2
+      else level = 3
+      
+      result.push(`${'#'.repeat(level)} ${trimmed}`)
+      
+      // Skip underline if present
+      if (i + 1 < lines.length && lines[i + 1].trim().match(/^[=-]{3,}$/)) {
+        i += 2
+      } else {
+        i++
+      }
+      continue
+    }
+
+    // Detect numbered lists
+    if (trimmed.match(/^\d+[\.\)]\s+/)) {
+      let listItems: string[] = []
+      while (i < lines.length && lines[i].trim().match(/^\d+[\.\)]\s+/)) {
+        let content = lines[i].trim().replace(/^\d+[\.\)]\s+/, '')
+        listItems.push(`1. ${content}`)
+        i++
+      }
+      result.push(...listItems)
+      continue
+    }
+
+    // Detect bullet lists
+    if (trimmed.match(/^[-\*\•]\s+/) || trimmed.match(/^[a-z]\)\s+/i)) {
+      let listItems: string[] = []
+      while (i < lines.length && (lines[i].trim().match(/^[-\*\•]\s+/) || lines[i].trim().match(/^[a-z]\)\s+/i))) {
+        let content = lines[i].trim().replace(/^[-\*\•]\s+/, '').replace(/^[a-z]\)\s+/i, '')
+        listItems.push(`- ${content}`)
+        i++
+      }
+      result.push(...listItems)
+      continue
+    }
+
+    // Detect code blocks (indented text or technical patterns)
+    if (
+      line.match(/^    /) || 
+      line.match(/^\t/) ||
+      trimmed.match(/^[a-zA-Z_][a-zA-Z0-9_]*\s*[=:]\s*/) ||
+      (trimmed.match(/[{}();\[\]]/g)?.length || 0) > 2 ||
+      trimmed.match(/^(function|class|def|var|let|const|if|for|while)\b/)
+    ) {
+      let codeBlock: string[] = []
+      let foundCode = false
+      
+      while (i < lines.length) {
+        let codeLine = lines[i]
+        if (
+          codeLine.match(/^    /) || 
+          codeLine.match(/^\t/) ||
+          (codeLine.trim().match(/[{}();\[\]]/g)?.length || 0) > 1 ||
+          codeLine.trim().match(/^(function|class|def|var|let|const|if|for|while|return|import|export)\b/) ||
+          (!codeLine.trim() && foundCode)
+        ) {
+          codeBlock.push(codeLine.replace(/^    /, '').replace(/^\t/, ''))
+          foundCode = true
+        } else if (foundCode) {
+          break
+        } else {
+          codeBlock.push(codeLine)
+        }
+        i++
+      }
+      
+      if (codeBlock.length > 0) {
+        result.push('```')
+        result.push(...codeBlock)
+        result.push('```')
+      }
+      continue
+    }
+
+    // Detect tables (lines with multiple | or tabs)
+    if (trimmed.includes('|') && trimmed.split('|').length > 2) {
+      let tableRows: string[] = []
+      while (i < lines.length && lines[i].trim().includes('|')) {
+        let row = lines[i].trim()
+        if (!row.startsWith('|')) row = '| ' + row
+        if (!row.endsWith('|')) row = row + ' |'
+        tableRows.push(row)
+        i++
+      }
+      
+      if (tableRows.length > 0) {
+        result.push(...tableRows)
+        // Add header separator if it looks like a header
+        if (tableRows.length > 1) {
+          let cols = tableRows[0].split('|').length - 1
+          result.splice(result.length - tableRows.length + 1, 0, '|' + ' --- |'.repeat(cols))
+        }
+      }
+      continue
+    }
+
+    // Convert URLs to links
+    let processedLine = trimmed.replace(
+      /(https?:\/\/[^\s]+)/g, 
+      '[$1]($1)'
+    )
+
+    // Convert email addresses
+    processedLine = processedLine.replace(
+      /([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g,
+      '[$1](mailto:$1)'
+    )
+
+    // Detect emphasis (words in quotes or ALL CAPS)
+    processedLine = processedLine.replace(
+      /"([^"]+)"/g,
+      '*$1*'
+    )
+
+    processedLine = processedLine.replace(
+      /\b([A-Z]{2,})\b/g,
+      '**$1**'
+    )
+
+    result.push(processedLine)
+    i++
+  }
+
+  return result.join('\n')
+}
+
+/**
+ * Convert markdown into styled rich HTML
+ */
+export function markdownToRichHtml(markdown: string): string {
+  if (!markdown.trim()) return ''
+  
+  let html = markdown
+    // Code blocks (must be processed before inline code)
+    .replace(/```(\w+)?\n?([\s\S]*?)```/g, '<div class="bg-gray-900 text-gray-100 p-4 rounded-lg my-4 overflow-x-auto"><pre><code class="text-sm font-mono">$2</code></pre></div>')
+    
+    // Headers
+    .replace(/^### (.*$)/gm, '<h3 class="text-xl font-semibold mt-6 mb-3 text-gray-800 border-b border-gray-200 pb-2">$1</h3>')
+    .replace(/^## (.*$)/gm, '<h2 class="text-2xl font-semibold mt-8 mb-4 text-gray-900 border-b-2 border-gray-300 pb-2">$1</h2>')
+    .replace(/^# (.*$)/gm, '<h1 class="text-3xl font-bold mt-8 mb-6 text-gray-900 border-b-2 border-blue-500 pb-3">$1</h1>')
+    
+    // Blockquotes
+    .replace(/^> (.*$)/gm, '<blockquote class="border-l-4 border-blue-500 pl-4 py-2 my-4 bg-blue-50 italic text-gray-700">$1</blockquote>')
+    
+    // Horizontal rules
+    .replace(/^---$/gm, '<hr class="my-8 border-t-2 border-gray-300">')
+    
+    // Tables (basic support)
+    .replace(/\|(.+)\|/g, (match, content) => {
+      const cells = content.split('|').map((cell: string) => cell.trim())
+      return '<tr>' + cells.map((cell: string) => `<td class="border border-gray-300 px-3 py-2">${cell}</td>`).join('') + '</tr>'
+    })
+    
+    // Inline code
+    .replace(/`([^`]+)`/g, '<code class="bg-gray-100 text-red-600 px-2 py-1 rounded text-sm font-mono">$1</code>')
+    
+    // Bold and italic (order matters)
+    .replace(/\*\*\*([^*]+)\*\*\*/g, '<strong class="font-bold"><em class="italic">$1</em></strong>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong class="font-bold text-gray-900">$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em class="italic text-gray-700">$1</em>')
+    
+    // Strikethrough
+    .replace(/~~([^~]+)~~/g, '<del class="line-through text-gray-500">$1</del>')
+    
+    // Links
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" class="text-blue-600 hover:text-blue-800 underline hover:no-underline transition-colors">$1</a>')
+    
+    // Images
+    .replace(/!\[([^\]]*)\]\(([^)]+)\)/g, '<img src="$2" alt="$1" class="max-w-full h-auto rounded-lg shadow-md my-4">')
+
+  // Process lists
+  const lines = html.split('\n')
+  const processedLines: string[] = []
+  let inUnorderedList = false
+  let inOrderedList = false
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    const trimmed = line.trim()
+    
+    // Unordered list items
+    if (trimmed.match(/^- /)) {
+      if (!inUnorderedList) {
+        processedLines.push('<ul class="list-disc list-inside my-4 space-y-2 ml-4">')
+        inUnorderedList = true
+      }
+      if (inOrderedList) {
+        processedLines.push('</ol>')
+        inOrderedList = false
+      }
+      processedLines.push(`<li class="text-gray-700">${trimmed.substring(2)}</li>`)
+    }
+    // Ordered list items
+    else if (trimmed.match(/^\d+\. /)) {
+      if (!inOrderedList) {
+        processedLines.push('<ol class="list-decimal list-inside my-4 space-y-2 ml-4">')
+        inOrderedList = true
+      }
+      if (inUnorderedList) {
+        processedLines.push('</ul>')
+        inUnorderedList = false
+      }
+      processedLines.push(`<li class="text-gray-700">${trimmed.replace(/^\d+\. /, '')}</li>`)
+    }
+    // Regular content
+    else {
+      if (inUnorderedList) {
+        processedLines.push('</ul>')
+        inUnorderedList = false
+      }
+      if (inOrderedList) {
+        processedLines.push('</ol>')
+        inOrderedList = false
+      }
+      
+      if (trimmed) {
+        // Don't wrap headers, blockquotes, code blocks, etc. in paragraphs
+        if (!trimmed.match(/^<(h[1-6]|blockquote|div|hr|tr)/)) {
+          processedLines.push(`<p class="my-3 text-gray-700 leading-relaxed">${line}</p>`)
+        } else {
+          processedLines.push(line)
+        }
+      } else {
+        processedLines.push('')
+      }
+    }
+  }
+  
+  // Close any open lists
+  if (inUnorderedList) processedLines.push('</ul>')
+  if (inOrderedList) processedLines.push('</ol>')
+  
+  return processedLines.join('\n')
+}
+
+/**
+ * Unit Converter
+ */
+export interface Unit {
+  name: string
+  symbol: string
+  toBase: (value: number) => number
+  fromBase: (value: number) => number
+}
+
+export interface UnitCategory {
+  name: string
+  units: Record<string, Unit>
+}
+
+export const UNIT_CATEGORIES: Record<string, UnitCategory> = {
+  length: {
+    name: 'Length',
+    units: {
+      meter: { name: 'Meter', symbol: 'm', toBase: (v) => v, fromBase: (v) => v },
+      kilometer: { name: 'Kilometer', symbol: 'km', toBase: (v) => v * 1000, fromBase: (v) => v / 1000 },
+      centimeter: { name: 'Centimeter', symbol: 'cm', toBase: (v) => v / 100, fromBase: (v) => v * 100 },
+      millimeter: { name: 'Millimeter', symbol: 'mm', toBase: (v) => v / 1000, fromBase: (v) => v * 1000 },
+      inch: { name: 'Inch', symbol: 'in', toBase: (v) => v * 0.0254, fromBase: (v) => v / 0.0254 },
+      foot: { name: 'Foot', symbol: 'ft', toBase: (v) => v * 0.3048, fromBase: (v) => v / 0.3048 },
+      yard: { name: 'Yard', symbol: 'yd', toBase: (v) => v * 0.9144, fromBase: (v) => v / 0.9144 },
+      mile: { name: 'Mile', symbol: 'mi', toBase: (v) => v * 1609.344, fromBase: (v) => v / 1609.344 },
+      nauticalMile: { name: 'Nautical Mile', symbol: 'nmi', toBase: (v) => v * 1852, fromBase: (v) => v / 1852 }
+    }
+  },
+  weight: {
+    name: 'Weight',
+    units: {
+      kilogram: { name: 'Kilogram', symbol: 'kg', toBase: (v) => v, fromBase: (v) => v },
+      gram: { name: 'Gram', symbol: 'g', toBase: (v) => v / 1000, fromBase: (v) => v * 1000 },
+      pound: { name: 'Pound', symbol: 'lb', toBase: (v) => v * 0.453592, fromBase: (v) => v / 0.453592 },
+      ounce: { name: 'Ounce', symbol: 'oz', toBase: (v) => v * 0.0283495, fromBase: (v) => v / 0.0283495 },
+      ton: { name: 'Metric Ton', symbol: 't', toBase: (v) => v * 1000, fromBase: (v) => v / 1000 },
+      stone: { name: 'Stone', symbol: 'st', toBase: (v) => v * 6.35029, fromBase: (v) => v / 6.35029 }
+    }
+  },
+  temperature: {
+    name: 'Temperature',
+    units: {
+      celsius: { 
+        name: 'Celsius', 
+        symbol: '°C', 
+        toBase: (v) => v, 
+        fromBase: (v) => v 
+      },
+      fahrenheit: { 
+        name: 'Fahrenheit', 
+        symbol: '°F', 
+        toBase: (v) => (v - 32) * 5/9, 
+        fromBase: (v) => v * 9/5 + 32 
+      },
+      kelvin: { 
+        name: 'Kelvin', 
+        symbol: 'K', 
+        toBase: (v) => v - 273.15, 
+        fromBase: (v) => v + 273.15 
+      },
+      rankine: { 
+        name: 'Rankine', 
+        symbol: '°R', 
+        toBase: (v) => (v - 491.67) * 5/9, 
+        fromBase: (v) => v * 9/5 + 491.67 
+      }
+    }
+  },
+  area: {
+    name: 'Area',
+    units: {
+      squareMeter: { name: 'Square Meter', symbol: 'm²', toBase: (v) => v, fromBase: (v) => v },
+      squareKilometer: { name: 'Square Kilometer', symbol: 'km²', toBase: (v) => v * 1000000, fromBase: (v) => v / 1000000 },
+      squareCentimeter: { name: 'Square Centimeter', symbol: 'cm²', toBase: (v) => v / 10000, fromBase: (v) => v * 10000 },
+      squareInch: { name: 'Square Inch', symbol: 'in²', toBase: (v) => v * 0.00064516, fromBase: (v) => v / 0.00064516 },
+      squareFoot: { name: 'Square Foot', symbol: 'ft²', toBase: (v) => v * 0.092903, fromBase: (v) => v / 0.092903 },
+      acre: { name: 'Acre', symbol: 'ac', toBase: (v) => v * 4046.86, fromBase: (v) => v / 4046.86 },
+      hectare: { name: 'Hectare', symbol: 'ha', toBase: (v) => v * 10000, fromBase: (v) => v / 10000 }
+    }
+  },
+  volume: {
+    name: 'Volume',
+    units: {
+      liter: { name: 'Liter', symbol: 'L', toBase: (v) => v, fromBase: (v) => v },
+      milliliter: { name: 'Milliliter', symbol: 'mL', toBase: (v) => v / 1000, fromBase: (v) => v * 1000 },
+      gallon: { name: 'Gallon (US)', symbol: 'gal', toBase: (v) => v * 3.78541, fromBase: (v) => v / 3.78541 },
+      quart: { name: 'Quart (US)', symbol: 'qt', toBase: (v) => v * 0.946353, fromBase: (v) => v / 0.946353 },
+      pint: { name: 'Pint (US)', symbol: 'pt', toBase: (v) => v * 0.473176, fromBase: (v) => v / 0.473176 },
+      cup: { name: 'Cup (US)', symbol: 'cup', toBase: (v) => v * 0.236588, fromBase: (v) => v / 0.236588 },
+      fluidOunce: { name: 'Fluid Ounce (US)', symbol: 'fl oz', toBase: (v) => v * 0.0295735, fromBase: (v) => v / 0.0295735 },
+      cubicMeter: { name: 'Cubic Meter', symbol: 'm³', toBase: (v) => v * 1000, fromBase: (v) => v / 1000 }
+    }
+  },
+  speed: {
+    name: 'Speed',
+    units: {
+      meterPerSecond: { name: 'Meter per Second', symbol: 'm/s', toBase: (v) => v, fromBase: (v) => v },
+      kilometerPerHour: { name: 'Kilometer per Hour', symbol: 'km/h', toBase: (v) => v / 3.6, fromBase: (v) => v * 3.6 },
+      milePerHour: { name: 'Mile per Hour', symbol: 'mph', toBase: (v) => v * 0.44704, fromBase: (v) => v / 0.44704 },
+      footPerSecond: { name: 'Foot per Second', symbol: 'ft/s', toBase: (v) => v * 0.3048, fromBase: (v) => v / 0.3048 },
+      knot: { name: 'Knot', symbol: 'kn', toBase: (v) => v * 0.514444, fromBase: (v) => v / 0.514444 }
+    }
+  },
+  energy: {
+    name: 'Energy',
+    units: {
+      joule: { name: 'Joule', symbol: 'J', toBase: (v) => v, fromBase: (v) => v },
+      kilojoule: { name: 'Kilojoule', symbol: 'kJ', toBase: (v) => v * 1000, fromBase: (v) => v / 1000 },
+      calorie: { name: 'Calorie', symbol: 'cal', toBase: (v) => v * 4.184, fromBase: (v) => v / 4.184 },
+      kilocalorie: { name: 'Kilocalorie', symbol: 'kcal', toBase: (v) => v * 4184, fromBase: (v) => v / 4184 },
+      wattHour: { name: 'Watt Hour', symbol: 'Wh', toBase: (v) => v * 3600, fromBase: (v) => v / 3600 },
+      kilowattHour: { name: 'Kilowatt Hour', symbol: 'kWh', toBase: (v) => v * 3600000, fromBase: (v) => v / 3600000 },
+      btu: { name: 'British Thermal Unit', symbol: 'BTU', toBase: (v) => v * 1055.06, fromBase: (v) => v / 1055.06 }
+    }
+  }
+}
+
+export function convertUnits(value: number, fromUnitKey: string, toUnitKey: string, category: string): number {
+  if (isNaN(value)) return 0
+  
+  const categoryData = UNIT_CATEGORIES[category]
+  if (!categoryData) return 0
+  
+  const fromUnitData = categoryData.units[fromUnitKey]
+  const toUnitData = categoryData.units[toUnitKey]
+  
+  if (!fromUnitData || !toUnitData) return 0
+  
+  // Convert to base unit, then to target unit
+  const baseValue = fromUnitData.toBase(value)
+  return toUnitData.fromBase(baseValue)
+}
+
+export function formatConvertedValue(num: number): string {
+  if (isNaN(num)) return ''
+  
+  // Format with appropriate precision
+  if (Math.abs(num) >= 1000000) {
+    return num.toExponential(6)
+  } else if (Math.abs(num) < 0.001 && num !== 0) {
+    return num.toExponential(6)
+  } else {
+    return num.toFixed(8).replace(/\.?0+$/, '')
+  }
+}
+
+/**
+ * Email Validator
+ */
+export interface EmailValidationResult {
+  email: string
+  isValid: boolean
+  issues: string[]
+  suggestions?: string
+}
+
+// Outlook-specific validation rules
+const OUTLOOK_DOMAINS = ['outlook.com', 'hotmail.com', 'live.com', 'msn.com']
+
+const DISPOSABLE_DOMAINS = [
+  '10minutemail.com', 'tempmail.org', 'guerrillamail.com', 
+  'mailinator.com', 'throwaway.email'
+]
+
+/**
+ * Split a pasted list of emails by common delimiters
+ */
+export function splitEmailList(text: string): string[] {
+  return text
+    .split(/[,;\n\r\t]+/)
+    .map(email => email.trim())
+    .filter(email => email.length > 0)
+}
+
+export function validateEmail(email: string): EmailValidationResult {
+  const trimmedEmail = email.trim().toLowerCase()
+  const issues: string[] = []
+  let suggestions: string | undefined
+
+  // Basic format validation
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+  const isBasicValid = emailRegex.test(trimmedEmail)
+
+  if (!isBasicValid) {
+    issues.push('Invalid email format')
+  }
+
+  // Check for common issues
+  if (trimmedEmail.includes('..')) {
+    issues.push('Contains consecutive dots')
+  }
+
+  if (trimmedEmail.startsWith('.') || trimmedEmail.endsWith('.')) {
+    issues.push('Starts or ends with a dot')
+  }
+
+  if (trimmedEmail.includes(' ')) {
+    issues.push('Contains spaces')
+  }
+
+  // Check for special characters in local part
+  const localPart = trimmedEmail.split('@')[0]
+  if (localPart && /[<>()[\]\\,;:\s@"]/.test(localPart)) {
+    issues.push('Contains invalid characters in local part')
+  }
+
+  // Domain validation
+  const domain = trimmedEmail.split('@')[1]
+  if (domain) {
+    // Check for valid domain format
+    if (!/^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(domain)) {
+      issues.push('Invalid domain format')
+    }
+
+    // Check for common typos in popular domains
+    const domainLower = domain.toLowerCase()
+    
+    // Gmail typos
+    if (['gmai.com', 'gmial.com', 'gmail.co', 'gmaill.com'].includes(domainLower)) {
+      suggestions = trimmedEmail.replace(domainLower, 'gmail.com')
+      issues.push('Possible typo in domain')
+    }
+    
+    // Yahoo typos
+    if (['yaho.com', 'yahoo.co', 'yahooo.com'].includes(domainLower)) {
+      suggestions = trimmedEmail.replace(domainLower, 'yahoo.com')
+      issues.push('Possible typo in domain')
+    }
+    
+    // Outlook typos
+    if (['outlook.co', 'outlok.com', 'outloo.com'].includes(domainLower)) {
+      suggestions = trimmedEmail.replace(domainLower, 'outlook.com')
+      issues.push('Possible typo in domain')
+    }
+
+    // Check for missing TLD
+    if (!domain.includes('.')) {
+      issues.push('Missing top-level domain')
+    }
+
+    // Check for suspicious domains
+    if (domain.includes('test') || domain.includes('example')) {
+      issues.push('Test or example domain')
+    }
+  }
+
+  // Check for Outlook-specific issues
+  if (domain && OUTLOOK_DOMAINS.includes(domain)) {
+    // Outlook emails have specific length limits
+    if (localPart && localPart.length > 64) {
+      issues.push('Local part too long for Outlook (max 64 characters)')
+    }
+  }
+
+  // Check for disposable email domains
+  if (domain && DISPOSABLE_DOMAINS.includes(domain)) {
+    issues.push('Disposable email domain')
+  }
+
+  return {
+    email: trimmedEmail,
+    isValid: issues.length === 0,
+    issues,
+    suggestions
+  }
+}
+
+/**
+ * Built-in tool actions
+ */
+export const BUILT_IN_TOOL_ACTIONS: ToolAction[] = [
+  {
+    toolId: 'text-cleaner',
+    name: 'Clean text',
+    description: 'Remove extra whitespace, empty lines and unwanted characters',
+    inputFields: ['text'],
+    outputFields: ['text', 'originalLength', 'cleanedLength'],
+    defaultConfig: { ...DEFAULT_TEXT_CLEANING_OPTIONS },
+    execute: (input, config) => {
+      const text = String(input.text ?? '')
+      const cleaned = cleanText(text, { ...DEFAULT_TEXT_CLEANING_OPTIONS, ...config })
+      return {
+        text: cleaned,
+        originalLength: text.length,
+        cleanedLength: cleaned.length
+      }
+    }
+  },
+  {
+    toolId: 'markdown-formatter',
+    name: 'Format markdown',
+    description: 'Convert plain text to markdown, or markdown to rich HTML',
+    inputFields: ['text'],
+    outputFields: ['text', 'mode'],
+    defaultConfig: { mode: 'text-to-markdown' },
+    execute: (input, config) => {
+      const text = String(input.text ?? '')
+      const mode: MarkdownConversionMode = config.mode === 'markdown-to-rich-text'
+        ? 'markdown-to-rich-text'
+        : 'text-to-markdown'
+      return {
+        text: mode === 'text-to-markdown' ? parseToMarkdown(text) : markdownToRichHtml(text),
+        mode
+      }
+    }
+  },
+  {
+    toolId: 'unit-converter',
+    name: 'Convert units',
+    description: 'Convert a numeric value between units of the same category',
+    inputFields: ['value'],
+    outputFields: ['value', 'formatted', 'text'],
+    defaultConfig: { category: 'length', fromUnit: 'meter', toUnit: 'foot' },
+    execute: (input, config) => {
+      const value = typeof input.value === 'number' ? input.value : parseFloat(String(input.value ?? ''))
+      if (isNaN(value)) {
+        throw new Error(`Unit Converter expects a numeric "value" input, got "${input.value}"`)
+      }
+
+      const category = UNIT_CATEGORIES[config.category]
+      if (!category) {
+        throw new Error(`Unknown unit category "${config.category}"`)
+      }
+      const toUnit = category.units[config.toUnit]
+      if (!category.units[config.fromUnit] || !toUnit) {
+        throw new Error(`Unknown unit conversion "${config.fromUnit}" to "${config.toUnit}" in ${category.name}`)
+      }
+
+      const converted = convertUnits(value, config.fromUnit, config.toUnit, config.category)
+      const formatted = formatConvertedValue(converted)
+      return {
+        value: converted,
+        formatted,
+        text: `${formatted} ${toUnit.symbol}`
+      }
+    }
+  },
+  {
+    toolId: 'email-validator',
+    name: 'Validate emails',
+    description: 'Validate a list of email addresses and split them into valid and invalid',
+    inputFields: ['text'],
+    outputFields: ['results', 'valid', 'invalid', 'validCount', 'invalidCount', 'text'],
+    defaultConfig: {},
+    execute: (input) => {
+      const emails = Array.isArray(input.emails)
+        ? input.emails.map(String)
+        : splitEmailList(String(input.text ?? ''))
+      const results = emails.map(validateEmail)
+      const valid = results.filter(r => r.isValid).map(r => r.email)
+      const invalid = results.filter(r => !r.isValid).map(r => r.email)
+      return {
+        results,
+        valid,
+        invalid,
+        validCount: valid.length,
+        invalidCount: invalid.length,
+        text: valid.join('\n')
+      }
+    }
+  }
+]
+
+/**
+ * Register the built-in tool actions with the global tool registry
+ */
+export function registerBuiltInToolActions(): void {
+  BUILT_IN_TOOL_ACTIONS.forEach(action => {
+    if (!toolRegistry.getAction(action.toolId)) {
+      toolRegistry.registerAction(action)
+    }
+  })
+}
@@ -0,0 +1,94 @@
+import './browser-shim'
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { bookmarksHtmlAdapter, csvAdapter, dashboardJsonAdapter, detectImportAdapter, inferCategory } from './tool-import-adapters'
+import { ToolCategory } from './tool-registry'
+
+const BOOKMARKS = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<DL><p>
+  <DT><H3>Bookmarks bar</H3>
+  <DL><p>
+    <DT><H3>Engineering</H3>
+    <DL><p>
+      <DT><A HREF="https://github.com/acme" TAGS="code,review">GitHub &amp; Co</A>
+      <DD>Source hosting
+      <DT><A HREF="javascript:alert(1)">Bookmarklet</A>
+    </DL><p>
+  </DL><p>
+  <DT><A HREF="https://figma.com/files">Figma</A>
+</DL>`
+
+test('picks an adapter from the file name and contents', () => {
+  assert.equal(detectImportAdapter('bookmarks.html', BOOKMARKS), bookmarksHtmlAdapter)
+  assert.equal(detectImportAdapter('tools.tsv', 'name\turl'), csvAdapter)
+  assert.equal(detectImportAdapter('homarr.json', '{"apps": []}'), dashboardJsonAdapter)
+  // A spreadsheet without a telling name, and App Studio's own packages
+  assert.equal(detectImportAdapter('links.txt', 'name,url\nA,https://a.example.com'), csvAdapter)
+  assert.equal(detectImportAdapter('tools.json', '{"__packageVersion": "1.0.0", "tools": []}'), null)
+})
+
+test('reads bookmarks with their folders, tags and descriptions', () => {
+  const result = bookmarksHtmlAdapter.convert(BOOKMARKS)
+
+  assert.deepEqual(result.errors, [])
+  assert.deepEqual(result.tools[0], {
+    id: 'github-co',
+    name: 'GitHub & Co',
+    description: 'Source hosting',
+    category: ToolCategory.DEVELOPMENT,
+    icon: 'Code',
+    path: '/tools/github-co',
+    externalUrl: 'https://github.com/acme',
+    version: '1.0.0',
+    // "Bookmarks bar" says nothing about the tool, so it isn't a tag
+    tags: ['code', 'review', 'engineering', 'github']
+  })
+  assert.equal(result.tools[1].name, 'Figma')
+  assert.equal(result.tools[1].category, ToolCategory.DESIGN)
+  assert.equal(result.tools[1].description, 'Opens figma.com')
+  assert.deepEqual(result.skipped.reasons, ['Bookmark 2 ("Bookmarklet"): unsupported address "javascript:alert(1)"'])
+})
+
+test('reads spreadsheet rows, numbering skipped ones as the spreadsheet does', () => {
+  const result = csvAdapter.convert([
+    'Name;URL;Category;Tags',
+    '"Budget; 2026";https://budget.example.com;Finance;money|plans',
+    'Formatter;/tools/json-formatter?tab=2;;',
+    ';;;',
+    '"Budget; 2026";https://budget.example.com/v2;;',
+    'Again;https://budget.example.com;;'
+  ].join('\r\n'))
+
+  assert.deepEqual(result.tools.map(tool => [tool.id, tool.path, tool.externalUrl]), [
+    ['budget-2026', '/tools/budget-2026', 'https://budget.example.com'],
+    ['json-formatter', '/tools/json-formatter', undefined],
+    ['budget-2026-2', '/tools/budget-2026-2', 'https://budget.example.com/v2']
+  ])
+  assert.equal(result.tools[0].category, ToolCategory.FINANCE)
+  assert.deepEqual(result.tools[0].tags.slice(0, 3), ['money', 'plans', 'budget'])
+  assert.equal(result.tools[1].description, 'Imported Formatter')
+  assert.deepEqual(result.skipped.reasons, ['Row 6 ("Again"): same address as "Budget; 2026"'])
+
+  assert.deepEqual(csvAdapter.convert('a,b\n1,2').errors, ['The first row needs column names, including a "name" or "url" column'])
+})
+
+test('reads any dashboard JSON, using named containers as groups', () => {
+  const result = dashboardJsonAdapter.convert(JSON.stringify({
+    services: [{ name: 'Monitoring', items: [{ title: 'Grafana', href: 'https://grafana.internal:3000', tags: [{ name: 'ops' }] }] }]
+  }))
+
+  assert.deepEqual(result.errors, [])
+  assert.equal(result.tools.length, 1)
+  assert.equal(result.tools[0].category, ToolCategory.DEVELOPMENT)
+  assert.equal(result.tools[0].description, 'Opens grafana.internal')
+  assert.deepEqual(result.tools[0].tags, ['ops', 'monitoring', 'grafana'])
+
+  assert.deepEqual(dashboardJsonAdapter.convert('{"apps": [{"name": "No link"}]}').errors, ['No entries with a name and URL found in the file'])
+  assert.match(dashboardJsonAdapter.convert('{"apps": [').errors[0], /^Failed to parse file/)
+})
+
+test('prefers the category a source names, then folder and tag words', () => {
+  assert.equal(inferCategory({ category: 'Dev tools', name: 'Invoices', tags: [], folders: [] }), ToolCategory.DEVELOPMENT)
+  assert.equal(inferCategory({ name: 'Slack', tags: [], folders: ['Finance', 'Billing'] }), ToolCategory.FINANCE)
+  assert.equal(inferCategory({ name: 'Something', tags: [], folders: [] }), ToolCategory.UTILITIES)
+})
@@ -0,0 +1,487 @@
+// Import adapters for App Studio
+// Convert tool lists from browser bookmarks, spreadsheets and other dashboards into tool configurations
+
+import { ToolCategory } from './tool-registry'
+import { ToolConfiguration } from './tool-import-export'
+
+export type ImportFormat = 'app-studio' | 'bookmarks-html' | 'csv' | 'dashboard-json'
+
+export interface AdapterResult {
+  tools: ToolConfiguration[]
+  skipped: {
+    tools: string[]
+    reasons: string[]
+  }
+  errors: string[] // problems with the file as a whole
+}
+
+/**
+ * Adapter interface - each foreign format implements this
+ */
+export interface ToolImportAdapter {
+  format: ImportFormat
+  label: string
+  detect(fileName: string, text: string): boolean
+  convert(text: string): AdapterResult
+}
+
+// One tool as read from a foreign file, before it's turned into a configuration
+interface ImportCandidate {
+  name: string
+  url: string
+  description?: string
+  category?: string // as the source names it, if it has one
+  tags: string[]
+  folders: string[] // enclosing folders or groups, outermost first
+  position?: number // where the source would say it is, e.g. the spreadsheet row; defaults to its order
+}
+
+// Words that point at a category, checked against names, folders, tags and hosts
+const CATEGORY_KEYWORDS: Record<ToolCategory, string[]> = {
+  [ToolCategory.DEVELOPMENT]: ['dev', 'developer', 'development', 'engineering', 'code', 'git', 'github', 'gitlab', 'bitbucket', 'api', 'ci', 'cd', 'deploy', 'build', 'jenkins', 'docker', 'kubernetes', 'k8s', 'aws', 'azure', 'gcp', 'cloud', 'monitoring', 'grafana', 'sentry', 'logs', 'database', 'sql', 'regex', 'json', 'stackoverflow', 'npm', 'debug'],
+  [ToolCategory.DESIGN]: ['design', 'figma', 'sketch', 'canva', 'adobe', 'photoshop', 'illustrator', 'color', 'colour', 'palette', 'font', 'fonts', 'icons', 'icon', 'image', 'images', 'photo', 'ui', 'ux', 'prototype', 'dribbble', 'behance', 'mockup'],
+  [ToolCategory.COMMUNICATION]: ['chat', 'mail', 'email', 'gmail', 'outlook', 'slack', 'teams', 'zoom', 'meet', 'discord', 'messages', 'messaging', 'calendar', 'video', 'call', 'calls', 'social', 'forum', 'support', 'helpdesk'],
+  [ToolCategory.FINANCE]: ['finance', 'financial', 'bank', 'banking', 'budget', 'invoice', 'invoices', 'billing', 'payroll', 'accounting', 'expenses', 'expense', 'tax', 'taxes', 'stripe', 'paypal', 'quickbooks', 'xero', 'crypto', 'stocks', 'currency', 'payments'],
+  [ToolCategory.PRODUCTIVITY]: ['productivity', 'docs', 'documents', 'notes', 'notion', 'wiki', 'confluence', 'jira', 'trello', 'asana', 'tasks', 'todo', 'project', 'projects', 'planning', 'drive', 'sheets', 'spreadsheet', 'office', 'crm', 'hr', 'okr', 'kanban', 'writing'],
+  [ToolCategory.UTILITIES]: ['utility', 'utilities', 'tools', 'converter', 'convert', 'calculator', 'generator', 'password', 'vpn', 'admin', 'settings', 'status', 'uptime', 'backup', 'storage', 'translate']
+}
+
+// Icon per category for tools that come without one
+const CATEGORY_ICONS: Record<ToolCategory, string> = {
+  [ToolCategory.PRODUCTIVITY]: 'Briefcase',
+  [ToolCategory.DEVELOPMENT]: 'Code',
+  [ToolCategory.DESIGN]: 'Palette',
+  [ToolCategory.UTILITIES]: 'Wrench',
+  [ToolCategory.COMMUNICATION]: 'MessageSquare',
+  [ToolCategory.FINANCE]: 'DollarSign'
+}
+
+// Folder and group names that say nothing about the tools inside
+const GENERIC_FOLDERS = ['bookmarks', 'bookmarks bar', 'bookmarks toolbar', 'bookmarks menu', 'other bookmarks', 'mobile bookmarks', 'favorites', 'favourites', 'favorites bar', 'toolbar', 'menu', 'unsorted bookmarks', 'imported', 'links', 'apps']
+
+const MAX_TAGS = 8
+
+/**
+ * Netscape bookmark files, which every major browser exports
+ */
+export const bookmarksHtmlAdapter: ToolImportAdapter = {
+  format: 'bookmarks-html',
+  label: 'Browser bookmarks (HTML)',
+
+  detect(fileName, text) {
+    return /^\s*<!DOCTYPE NETSCAPE-Bookmark-file/i.test(text) ||
+      (/\.html?$/i.test(fileName) && /<a\s[^>]*href=/i.test(text))
+  },
+
+  convert(text) {
+    const candidates: ImportCandidate[] = []
+    const folders: string[] = []
+    const folderOpened: boolean[] = [] // whether each <DL> opened a named folder
+    let pendingFolder: string | null = null
+    let lastBookmark: ImportCandidate | null = null
+
+    const tagPattern = /<(\/?)(dl|h3|a|dd)\b([^>]*)>/gi
+    let match: RegExpExecArray | null
+    while ((match = tagPattern.exec(text)) !== null) {
+      const closing = match[1] === '/'
+      const tag = match[2].toLowerCase()
+
+      if (tag === 'dl') {
+        if (closing) {
+          if (folderOpened.pop()) folders.pop()
+        } else {
+          folderOpened.push(pendingFolder !== null)
+          if (pendingFolder !== null) folders.push(pendingFolder)
+          pendingFolder = null
+        }
+      } else if (tag === 'h3' && !closing) {
+        pendingFolder = decodeEntities(readUntil(text, tagPattern.lastIndex, '</h3>'))
+      } else if (tag === 'a' && !closing) {
+        const attributes = match[3]
+        lastBookmark = {
+          name: decodeEntities(readUntil(text, tagPattern.lastIndex, '</a>')),
+          url: decodeEntities(readAttribute(attributes, 'href')),
+          tags: splitList(decodeEntities(readAttribute(attributes, 'tags'))),
+          folders: folders.slice()
+        }
+        candidates.push(lastBookmark)
+      } else if (tag === 'dd' && !closing && lastBookmark) {
+        // A description runs until the next tag
+        lastBookmark.description = decodeEntities(readUntil(text, tagPattern.lastIndex, '<'))
+        lastBookmark = null
+      }
+    }
+
+    if (candidates.length === 0) {
+      return { tools: [], skipped: { tools: [], reasons: [] }, errors: ['No bookmarks found in the file'] }
+    }
+    return toToolConfigurations(candidates, 'bookmark')
+  }
+}
+
+/**
+ * Spreadsheets saved as CSV (or tab/semicolon separated) with a header row
+ */
+export const csvAdapter: ToolImportAdapter = {
+  format: 'csv',
+  label: 'Spreadsheet (CSV)',
+
+  detect(fileName) {
+    return /\.(csv|tsv)$/i.test(fileName)
+  },
+
+  convert(text) {
+    const rows = parseCsv(text)
+    const header = (rows.shift() || []).map(cell => cell.trim().toLowerCase())
+
+    const column = (aliases: string[]) => header.findIndex(cell => aliases.indexOf(cell) !== -1)
+    const columns = {
+      name: column(['name', 'title', 'tool', 'app', 'application', 'label']),
+      url: column(['url', 'link', 'href', 'address', 'website', 'homepage']),
+      description: column(['description', 'desc', 'notes', 'note', 'summary', 'details']),
+      category: column(['category', 'type', 'group', 'section']),
+      tags: column(['tags', 'labels', 'keywords']),
+      folder: column(['folder', 'collection', 'team', 'department'])
+    }
+
+    if (columns.name === -1 && columns.url === -1) {
+      return {
+        tools: [],
+        skipped: { tools: [], reasons: [] },
+        errors: ['The first row needs column names, including a "name" or "url" column']
+      }
+    }
+
+    const cell = (row: string[], index: number) => index === -1 ? '' : (row[index] || '').trim()
+    const candidates: ImportCandidate[] = rows
+      .map((row, index) => ({ row, position: index + 2 })) // spreadsheet rows count from 1, after the header
+      .filter(({ row }) => row.some(value => value.trim() !== ''))
+      .map(({ row, position }) => ({
+        position,
+        name: cell(row, columns.name),
+        url: cell(row, columns.url),
+        description: cell(row, columns.description) || undefined,
+        category: cell(row, columns.category) || undefined,
+        tags: splitList(cell(row, columns.tags)),
+        folders: cell(row, columns.folder) ? [cell(row, columns.folder)] : []
+      }))
+
+    return toToolConfigurations(candidates, 'row')
+  }
+}
+
+/**
+ * JSON from other start pages and dashboards (Chrome bookmarks, Homarr, Heimdall exports and
+ * the like). Layouts differ, so any object with a name and a URL counts as a tool, and the
+ * named objects around it count as its groups.
+ */
+export const dashboardJsonAdapter: ToolImportAdapter = {
+  format: 'dashboard-json',
+  label: 'Dashboard export (JSON)',
+
+  detect(fileName, text) {
+    return /^\s*[[{]/.test(text)
+  },
+
+  convert(text) {
+    let data: any
+    try {
+      data = JSON.parse(text)
+    } catch (error) {
+      return { tools: [], skipped: { tools: [], reasons: [] }, errors: [`Failed to parse file: ${error}`] }
+    }
+
+    const candidates: ImportCandidate[] = []
+    const visit = (value: any, folders: string[], depth: number) => {
+      if (depth > 20 || !value || typeof value !== 'object') return
+      if (Array.isArray(value)) {
+        value.forEach(item => visit(item, folders, depth + 1))
+        return
+      }
+
+      const name = firstString(value, ['name', 'title', 'label', 'appName', 'displayName'])
+      const url = firstString(value, ['url', 'href', 'link', 'address', 'appUrl', 'externalUrl'])
+      if (url) {
+        candidates.push({
+          name: name || '',
+          url,
+          description: firstString(value, ['description', 'subtitle', 'desc', 'notes']) || undefined,
+          category: firstString(value, ['category', 'group', 'section']) || undefined,
+          tags: readTags(value),
+          folders
+        })
+        return
+      }
+
+      // Anything else is a container; a named one is a group for what's inside
+      const inner = name ? [...folders, name] : folders
+      Object.keys(value).forEach(key => visit(value[key], inner, depth + 1))
+    }
+    visit(data, [], 0)
+
+    if (candidates.length === 0) {
+      return { tools: [], skipped: { tools: [], reasons: [] }, errors: ['No entries with a name and URL found in the file'] }
+    }
+    return toToolConfigurations(candidates, 'entry')
+  }
+}
+
+// In detection order; JSON comes last since it only checks the first character
+export const IMPORT_ADAPTERS: ToolImportAdapter[] = [bookmarksHtmlAdapter, csvAdapter, dashboardJsonAdapter]
+
+/**
+ * Pick the adapter for a file, or null for App Studio's own package format
+ */
+export function detectImportAdapter(fileName: string, text: string): ToolImportAdapter | null {
+  if (isAppStudioPackage(text)) return null
+  return IMPORT_ADAPTERS.find(adapter => adapter.detect(fileName, text)) ||
+    // Files without a telling name or header are most likely spreadsheets
+    (text.indexOf('\n') !== -1 && !/^\s*</.test(text) ? csvAdapter : null)
+}
+
+/**
+ * Best-guess category from whatever the source says about a tool
+ */
+export function inferCategory(hints: { category?: string; name: string; url?: string; tags: string[]; folders: string[]; description?: string }): ToolCategory {
+  const explicit = hints.category ? matchCategory(hints.category) : null
+  if (explicit) return explicit
+
+  // Folder and tag words say more than words in a name or description
+  const strong = words([...hints.folders, ...hints.tags].join(' '))
+  const weak = words([hints.name, hints.description || '', hostOf(hints.url || '')].join(' '))
+
+  let best: ToolCategory = ToolCategory.UTILITIES
+  let bestScore = 0
+  ;(Object.keys(CATEGORY_KEYWORDS) as ToolCategory[]).forEach(category => {
+    const keywords = CATEGORY_KEYWORDS[category]
+    const score = strong.filter(word => keywords.indexOf(word) !== -1).length * 2 +
+      weak.filter(word => keywords.indexOf(word) !== -1).length
+    if (score > bestScore) {
+      best = category
+      bestScore = score
+    }
+  })
+  return best
+}
+
+/**
+ * Tags from the source's own tags and meaningful folder names, plus category keywords found in the name
+ */
+export function inferTags(hints: { name: string; url?: string; tags: string[]; folders: string[] }): string[] {
+  const tags: string[] = []
+  const add = (tag: string) => {
+    const slug = slugify(tag)
+    if (slug && tags.indexOf(slug) === -1 && tags.length < MAX_TAGS) tags.push(slug)
+  }
+
+  hints.tags.forEach(add)
+  hints.folders
+    .filter(folder => GENERIC_FOLDERS.indexOf(folder.trim().toLowerCase()) === -1)
+    .forEach(add)
+
+  const keywords = Object.keys(CATEGORY_KEYWORDS).reduce<string[]>(
+    (all, category) => all.concat(CATEGORY_KEYWORDS[category as ToolCategory]), []
+  )
+  words(hints.name).filter(word => word.length > 2 && keywords.indexOf(word) !== -1).forEach(add)
+
+  // The site's own name, e.g. "github" for github.com; addresses by IP say nothing
+  const host = hostOf(hints.url || '')
+  if (host && !/^[\d.]+$/.test(host)) add(host.split('.').slice(-2, -1)[0] || host)
+  return tags
+}
+
+function toToolConfigurations(candidates: ImportCandidate[], itemNoun: string): AdapterResult {
+  const result: AdapterResult = { tools: [], skipped: { tools: [], reasons: [] }, errors: [] }
+  const usedIds: string[] = []
+  const seenUrls: { [url: string]: string } = {}
+
+  candidates.forEach((candidate, index) => {
+    const name = candidate.name.trim() || hostOf(candidate.url)
+    const position = candidate.position || index + 1
+    const label = name || `${itemNoun} ${position}`
+    const skip = (reason: string) => {
+      result.skipped.tools.push(label)
+      result.skipped.reasons.push(`${capitalize(itemNoun)} ${position} ("${label}"): ${reason}`)
+    }
+
+    const url = candidate.url.trim()
+    const internalPath = url.startsWith('/tools/') ? url.split(/[?#]/)[0] : null
+    if (!url) {
+      skip('no URL')
+      return
+    }
+    if (!internalPath && !/^https?:\/\/[^\s]+$/i.test(url)) {
+      // Bookmarklets, browser-internal pages and local files can't be opened as tools
+      skip(`unsupported address "${url.slice(0, 40)}"`)
+      return
+    }
+    if (seenUrls[url]) {
+      skip(`same address as "${seenUrls[url]}"`)
+      return
+    }
+
+    const baseId = slugify(internalPath ? internalPath.slice('/tools/'.length) : name)
+    if (!baseId) {
+      skip('no usable name')
+      return
+    }
+    let id = baseId
+    for (let suffix = 2; usedIds.indexOf(id) !== -1; suffix++) {
+      id = `${baseId}-${suffix}`
+    }
+    usedIds.push(id)
+    seenUrls[url] = label
+
+    const category = inferCategory({ ...candidate, name })
+    result.tools.push({
+      id,
+      name,
+      description: candidate.description || (internalPath ? `Imported ${name}` : `Opens ${hostOf(url) || url}`),
+      category,
+      icon: CATEGORY_ICONS[category],
+      path: internalPath || `/tools/${id}`,
+      externalUrl: internalPath ? undefined : url,
+      version: '1.0.0',
+      tags: inferTags({ ...candidate, name })
+    })
+  })
+
+  if (result.tools.length === 0 && result.errors.length === 0) {
+    result.errors.push(`None of the ${candidates.length} ${itemNoun}s could be imported`)
+  }
+  return result
+}
+
+function isAppStudioPackage(text: string): boolean {
+  if (!/^\s*\{/.test(text)) return false
+  try {
+    const data = JSON.parse(text)
+    return !!data && typeof data === 'object' && '__packageVersion' in data
+  } catch {
+    return false
+  }
+}
+
+function matchCategory(value: string): ToolCategory | null {
+  const normalized = value.trim().toLowerCase()
+  const direct = (Object.keys(CATEGORY_KEYWORDS) as ToolCategory[]).find(category => category === normalized)
+  if (direct) return direct
+  // A category column like "Dev tools" or "Engineering" maps through the keyword lists
+  const valueWords = words(normalized)
+  return (Object.keys(CATEGORY_KEYWORDS) as ToolCategory[])
+    .find(category => valueWords.some(word => CATEGORY_KEYWORDS[category].indexOf(word) !== -1)) || null
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50)
+    .replace(/-+$/, '')
+}
+
+function hostOf(url: string): string {
+  const match = /^https?:\/\/([^/?#:]+)/i.exec(url)
+  return match ? match[1].toLowerCase().replace(/^www\./, '') : ''
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function splitList(value: string): string[] {
+  return value.split(/[,;|]/).map(item => item.trim()).filter(Boolean)
+}
+
+function firstString(value: any, keys: string[]): string {
+  for (const key of keys) {
+    if (typeof value[key] === 'string' && value[key].trim()) return value[key].trim()
+  }
+  return ''
+}
+
+function readTags(value: any): string[] {
+  const raw = value.tags || value.labels || value.tag
+  if (Array.isArray(raw)) {
+    return raw
+      .map(tag => typeof tag === 'string' ? tag : tag && typeof tag === 'object' ? firstString(tag, ['name', 'label', 'title']) : '')
+      .filter(Boolean)
+  }
+  return typeof raw === 'string' ? splitList(raw) : []
+}
+
+function readUntil(text: string, from: number, terminator: string): string {
+  const end = text.toLowerCase().indexOf(terminator, from)
+  return text.slice(from, end === -1 ? undefined : end).trim()
+}
+
+function readAttribute(attributes: string, name: string): string {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(attributes)
+  return match ? (match[1] ?? match[2] ?? match[3] ?? '') : ''
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, '\'')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+/**
+ * RFC 4180 parsing, with the delimiter (comma, semicolon or tab) taken from the header row
+ */
+function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '')
+  const headerLine = source.split(/\r?\n/, 1)[0]
+  const delimiter = ['\t', ';', ','].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best, ',')
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
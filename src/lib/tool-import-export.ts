@@ -4,6 +4,10 @@
 import { Tool, PersistedTool, toPersistedTool, fromPersistedTool } from './tool-registry'
 import { Collection } from './collections'
 import { UserPreferences } from './storage'
+import { BackupState, RestoreDiffItem } from './backup-restore'
+import { PackageIntegrity, PackageSignature, PackageVerification } from './package-signing'
+import { toBase64, fromBase64 } from './storage-encryption'
+import { ImportFormat, detectImportAdapter } from './tool-import-adapters'
 
 export interface ToolConfiguration {
   id: string
@@ -12,6 +16,7 @@ export interface ToolConfiguration {
   category: string
   icon: string
   path: string
+  externalUrl?: string // for tools hosted outside App Studio
   version: string
   tags: string[]
   settings?: Record<string, any>
@@ -33,6 +38,8 @@ export interface ToolPackage {
   tools: ToolConfiguration[]
   collections?: Collection[]
   preferences?: Partial<UserPreferences>
+  __integrity?: PackageIntegrity // hash of everything above
+  __signature?: PackageSignature // optional, over the same content
 }
 
 export interface ImportResult {
@@ -48,8 +55,28 @@ export interface ImportResult {
     reasons: string[]
   }
   errors: string[]
+  verification?: PackageVerification
 }
 
+export interface ImportFileResult {
+  toolPackage: ToolPackage | null
+  format: ImportFormat
+  formatLabel: string
+  skipped: ImportResult['skipped'] // entries the adapter couldn't convert
+  errors: string[]
+}
+
+export interface ShareLinkResult {
+  url: string | null // null when the link couldn't be made, e.g. over budget
+  length: number
+  errors: string[]
+}
+
+// Longest link we hand out; chat apps and browsers start truncating around here
+export const SHARE_LINK_BUDGET = 8000
+export const SHARE_LINK_PATH = '/import'
+const SHARE_LINK_PARAM = 'pkg'
+
 export class ToolImportExport {
   private static readonly PACKAGE_VERSION = '1.0.0'
   private static readonly MAX_PACKAGE_SIZE = 10 * 1024 * 1024 // 10MB
@@ -77,22 +104,49 @@ export class ToolImportExport {
       category: tool.category,
       icon: tool.icon,
       path: tool.path,
+      externalUrl: tool.externalUrl,
       version: tool.version,
       tags: tool.tags,
       // Note: We don't export usage data for privacy
     }))
 
     return {
-      __packageVersion: this.PACKAGE_VERSION,
-      __exportedAt: new Date().toISOString(),
-      __exportedBy: 'App Studio',
-      metadata: options.metadata,
-      tools: toolConfigs,
+      ...this.createPackage(toolConfigs, options.metadata),
       collections: options.collections,
       preferences: options.preferences
     }
   }
 
+  /**
+   * Wrap tool configurations in a package, e.g. ones converted from another format
+   */
+  static createPackage(tools: ToolConfiguration[], metadata: ToolPackage['metadata'], exportedBy = 'App Studio'): ToolPackage {
+    return {
+      __packageVersion: this.PACKAGE_VERSION,
+      __exportedAt: new Date().toISOString(),
+      __exportedBy: exportedBy,
+      metadata,
+      tools
+    }
+  }
+
+  /**
+   * Add the content hash, and the signature when sign is set, before the package is shared
+   */
+  static async sealPackage(toolPackage: ToolPackage, options: { sign?: boolean } = {}): Promise<{ toolPackage: ToolPackage; errors: string[] }> {
+    const { packageSigning } = await import('./package-signing')
+    const { pkg, errors } = await packageSigning.seal(toolPackage, options)
+    return { toolPackage: pkg, errors }
+  }
+
+  /**
+   * Check a package's hash and signature, and whether its signer is trusted
+   */
+  static async verifyPackage(toolPackage: ToolPackage): Promise<PackageVerification> {
+    const { packageSigning } = await import('./package-signing')
+    return packageSigning.verify(toolPackage)
+  }
+
   /**
    * Export tools to JSON file
    */
@@ -115,7 +169,70 @@ export class ToolImportExport {
   }
 
   /**
-   * Import tools from a package
+   * What importing a package would add or change, item by item, before anything is imported.
+   * Pass the picked item IDs to importFromPackage as selectedItems.
+   */
+  static async previewPackage(
+    toolPackage: ToolPackage,
+    options: {
+      importCollections?: boolean
+      importPreferences?: boolean
+      toolIdPrefix?: string
+    } = {}
+  ): Promise<{ items: RestoreDiffItem[]; errors: string[]; verification?: PackageVerification }> {
+    const validation = this.validatePackage(toolPackage)
+    if (!validation.valid) {
+      return { items: [], errors: validation.errors }
+    }
+
+    const verification = await this.verifyPackage(toolPackage)
+    if (!verification.acceptable) {
+      return { items: [], errors: verification.errors, verification }
+    }
+
+    const { toolRegistry } = await import('./tool-registry')
+    const { backupManager } = await import('./backup-restore')
+    await toolRegistry.initialize()
+
+    const state: BackupState = { tools: {} }
+    toolPackage.tools.forEach(toolConfig => {
+      const toolId = options.toolIdPrefix ? `${options.toolIdPrefix}-${toolConfig.id}` : toolConfig.id
+      const existingTool = toolRegistry.get(toolId)
+      state.tools![toolId] = {
+        id: toolId,
+        name: toolConfig.name,
+        description: toolConfig.description,
+        category: toolConfig.category as any,
+        icon: toolConfig.icon,
+        path: toolConfig.path,
+        externalUrl: toolConfig.externalUrl,
+        version: toolConfig.version,
+        tags: toolConfig.tags,
+        // A package doesn't decide what's a favorite or turned off here
+        isFavorite: existingTool ? existingTool.isFavorite : false,
+        isEnabled: existingTool ? existingTool.isEnabled : true
+      }
+    })
+
+    if (options.importCollections && toolPackage.collections) {
+      state.collections = {}
+      toolPackage.collections.forEach(collection => {
+        state.collections![collection.id] = JSON.parse(JSON.stringify(collection))
+      })
+    }
+
+    if (options.importPreferences && toolPackage.preferences) {
+      state.preferences = this.getSafePreferences(toolPackage.preferences)
+    }
+
+    // Packages add to what's there, so nothing shows as removed
+    const items = await backupManager.previewRestore(state, { includeRemovals: false })
+    return { items, errors: [], verification }
+  }
+
+  /**
+   * Import tools from a package. With selectedItems (IDs from previewPackage), only those
+   * items are imported, and picked items that already exist are overwritten.
    */
   static async importFromPackage(
     toolPackage: ToolPackage,
@@ -124,6 +241,7 @@ export class ToolImportExport {
       importCollections?: boolean
       importPreferences?: boolean
       toolIdPrefix?: string
+      selectedItems?: string[]
     } = {}
   ): Promise<ImportResult> {
     const result: ImportResult = {
@@ -141,6 +259,16 @@ export class ToolImportExport {
         return result
       }
 
+      // Tampered packages, and untrusted ones when trust is required, are refused
+      result.verification = await this.verifyPackage(toolPackage)
+      if (!result.verification.acceptable) {
+        result.errors.push(...result.verification.errors)
+        return result
+      }
+
+      const isSelected = (itemId: string) => !options.selectedItems || options.selectedItems.includes(itemId)
+      const overwrite = options.overwriteExisting || !!options.selectedItems
+
       // Import tools
       const { toolRegistry } = await import('./tool-registry')
       await toolRegistry.initialize()
@@ -150,7 +278,13 @@ export class ToolImportExport {
           const toolId = options.toolIdPrefix ? `${options.toolIdPrefix}-${toolConfig.id}` : toolConfig.id
           const existingTool = toolRegistry.get(toolId)
 
-          if (existingTool && !options.overwriteExisting) {
+          if (!isSelected(`tools:${toolId}`)) {
+            result.skipped.tools.push(toolConfig.name)
+            result.skipped.reasons.push(`Tool "${toolConfig.name}" was not selected`)
+            continue
+          }
+
+          if (existingTool && !overwrite) {
             result.skipped.tools.push(toolConfig.name)
             result.skipped.reasons.push(`Tool "${toolConfig.name}" already exists`)
             continue
@@ -163,13 +297,17 @@ export class ToolImportExport {
             category: toolConfig.category as any,
             icon: toolConfig.icon,
             path: toolConfig.path,
+            externalUrl: toolConfig.externalUrl,
             version: toolConfig.version,
             tags: toolConfig.tags,
             isFavorite: false,
             isEnabled: true
           }
 
-          const addResult = toolRegistry.addTool(newTool)
+          const { id, isFavorite, isEnabled, ...updates } = newTool
+          const addResult = existingTool
+            ? toolRegistry.updateTool(toolId, updates)
+            : toolRegistry.addTool(newTool)
           if (addResult.success) {
             result.imported.tools++
           } else {
@@ -189,18 +327,26 @@ export class ToolImportExport {
         for (const collection of toolPackage.collections) {
           try {
             const existingCollection = collectionManager.get(collection.id)
-            if (existingCollection && !options.overwriteExisting) {
+            if (!isSelected(`collections:${collection.id}`)) {
+              result.skipped.collections.push(collection.name)
+              result.skipped.reasons.push(`Collection "${collection.name}" was not selected`)
+              continue
+            }
+            if (existingCollection && !overwrite) {
               result.skipped.collections.push(collection.name)
               continue
             }
 
-            const createResult = collectionManager.createCollection({
+            const collectionData = {
               name: collection.name,
               description: collection.description,
               toolIds: collection.toolIds,
               isWorkflow: collection.isWorkflow,
               workflowSteps: collection.workflowSteps
-            })
+            }
+            const createResult = existingCollection
+              ? collectionManager.updateCollection(existingCollection.id, collectionData)
+              : collectionManager.createCollection(collectionData)
             if (createResult.success) {
               result.imported.collections++
             } else {
@@ -216,21 +362,19 @@ export class ToolImportExport {
       // Import preferences (selective)
       if (options.importPreferences && toolPackage.preferences) {
         try {
-          const { PreferencesStorage } = await import('./storage')
+          const { PreferencesStorage, Storage } = await import('./storage')
+          await Storage.initialize()
           const currentPrefs = PreferencesStorage.get()
           
-          // Only import non-personal preferences
-          const safePreferences: Partial<UserPreferences> = {}
-          if (toolPackage.preferences.theme) {
-            safePreferences.theme = toolPackage.preferences.theme
-          }
-          if (toolPackage.preferences.layout) {
-            safePreferences.layout = toolPackage.preferences.layout
+          const safePreferences = this.getSafePreferences(toolPackage.preferences)
+          Object.keys(safePreferences).forEach(key => {
+            if (!isSelected(`preferences:${key}`)) delete (safePreferences as any)[key]
+          })
+
+          if (Object.keys(safePreferences).length > 0) {
+            PreferencesStorage.set({ ...currentPrefs, ...safePreferences })
+            result.imported.preferences = true
           }
-          // Don't import favorites or recent tools for privacy
-
-          PreferencesStorage.set({ ...currentPrefs, ...safePreferences })
-          result.imported.preferences = true
         } catch (error) {
           result.errors.push(`Failed to import preferences: ${error}`)
         }
@@ -246,31 +390,83 @@ export class ToolImportExport {
   }
 
   /**
-   * Import tools from JSON file
+   * Read a package file, converting bookmark exports, spreadsheets and other dashboards'
+   * JSON into a package on the way. Entries that couldn't be converted are listed as skipped.
    */
-  static async importFromFile(file: File, options?: Parameters<typeof ToolImportExport.importFromPackage>[1]): Promise<ImportResult> {
+  static async readImportFile(file: File): Promise<ImportFileResult> {
+    const result: ImportFileResult = {
+      toolPackage: null,
+      format: 'app-studio',
+      formatLabel: 'App Studio package',
+      skipped: { tools: [], collections: [], reasons: [] },
+      errors: []
+    }
+
+    if (file.size > this.MAX_PACKAGE_SIZE) {
+      result.errors.push(`File size (${Math.round(file.size / 1024 / 1024)}MB) exceeds maximum allowed size (${this.MAX_PACKAGE_SIZE / 1024 / 1024}MB)`)
+      return result
+    }
+
     try {
-      if (file.size > this.MAX_PACKAGE_SIZE) {
-        return {
-          success: false,
-          imported: { tools: 0, collections: 0, preferences: false },
-          skipped: { tools: [], collections: [], reasons: [] },
-          errors: [`File size (${Math.round(file.size / 1024 / 1024)}MB) exceeds maximum allowed size (${this.MAX_PACKAGE_SIZE / 1024 / 1024}MB)`]
-        }
+      const text = await file.text()
+      const adapter = detectImportAdapter(file.name, text)
+      if (!adapter) {
+        result.toolPackage = JSON.parse(text)
+        return result
       }
 
-      const text = await file.text()
-      const toolPackage: ToolPackage = JSON.parse(text)
-      
-      return await this.importFromPackage(toolPackage, options)
+      const converted = adapter.convert(text)
+      result.format = adapter.format
+      result.formatLabel = adapter.label
+      result.skipped.tools.push(...converted.skipped.tools)
+      result.skipped.reasons.push(...converted.skipped.reasons)
+      result.errors.push(...converted.errors)
+      if (converted.tools.length > 0) {
+        result.toolPackage = this.createPackage(converted.tools, {
+          name: file.name.replace(/\.[^.]+$/, '') || 'Imported tools',
+          description: `Converted from ${adapter.label.toLowerCase()}`,
+          version: '1.0.0'
+        }, adapter.label)
+      }
     } catch (error) {
+      result.errors.push(`Failed to parse file: ${error}`)
+    }
+    return result
+  }
+
+  /**
+   * Import tools from a file in any format readImportFile understands
+   */
+  static async importFromFile(file: File, options?: Parameters<typeof ToolImportExport.importFromPackage>[1]): Promise<ImportResult> {
+    const read = await this.readImportFile(file)
+    if (!read.toolPackage) {
       return {
         success: false,
         imported: { tools: 0, collections: 0, preferences: false },
-        skipped: { tools: [], collections: [], reasons: [] },
-        errors: [`Failed to parse file: ${error}`]
+        skipped: read.skipped,
+        errors: read.errors
       }
     }
+
+    const result = await this.importFromPackage(read.toolPackage, options)
+    result.skipped.tools.unshift(...read.skipped.tools)
+    result.skipped.reasons.unshift(...read.skipped.reasons)
+    return result
+  }
+
+  /**
+   * Only non-personal preferences travel in packages
+   */
+  private static getSafePreferences(preferences: Partial<UserPreferences>): Partial<UserPreferences> {
+    const safePreferences: Partial<UserPreferences> = {}
+    if (preferences.theme) {
+      safePreferences.theme = preferences.theme
+    }
+    if (preferences.layout) {
+      safePreferences.layout = preferences.layout
+    }
+    // Don't import favorites or recent tools for privacy
+    return safePreferences
   }
 
   /**
@@ -307,22 +503,65 @@ export class ToolImportExport {
       })
     }
 
+    if (toolPackage.__integrity !== undefined &&
+        (typeof toolPackage.__integrity !== 'object' || typeof toolPackage.__integrity.hash !== 'string')) {
+      errors.push('Invalid package hash')
+    }
+
+    if (toolPackage.__signature !== undefined) {
+      const signature = toolPackage.__signature
+      if (!signature || typeof signature !== 'object' || typeof signature.value !== 'string' ||
+          typeof signature.signer !== 'string' || !signature.publicKey || typeof signature.publicKey !== 'object') {
+        errors.push('Invalid package signature')
+      }
+    }
+
     return { valid: errors.length === 0, errors }
   }
 
   /**
-   * Create a shareable URL for a tool package (for future implementation)
+   * Package one collection or workflow with the tools it uses, for sharing it on its own
+   */
+  static exportCollection(collection: Collection, tools: Tool[]): ToolPackage {
+    const stepToolIds = (collection.workflowSteps || []).map(step => step.toolId).filter(Boolean)
+    const toolIds = [...collection.toolIds, ...stepToolIds]
+    return this.exportTools({
+      tools: tools.filter(tool => toolIds.includes(tool.id)),
+      collections: [collection],
+      metadata: {
+        name: collection.name,
+        description: collection.description,
+        version: '1.0.0'
+      }
+    })
+  }
+
+  /**
+   * Create a link to the import page carrying the package, deflated and base64url-encoded
+   * in the fragment so it never reaches a server. Links over the size budget aren't created.
    */
-  static async createShareableUrl(toolPackage: ToolPackage): Promise<string> {
-    // This would integrate with a sharing service in the future
-    // For now, we'll just return a data URL
+  static async createShareableUrl(toolPackage: ToolPackage, baseUrl?: string): Promise<ShareLinkResult> {
+    if (typeof CompressionStream === 'undefined') {
+      return { url: null, length: 0, errors: ['Share links need compression support, which this browser lacks'] }
+    }
+
+    const origin = baseUrl || (typeof window !== 'undefined' ? window.location.origin : '')
     const json = JSON.stringify(toolPackage)
-    const encoded = btoa(unescape(encodeURIComponent(json)))
-    return `data:application/json;base64,${encoded}`
+    const compressed = await this.transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw'))
+    const url = `${origin}${SHARE_LINK_PATH}#${SHARE_LINK_PARAM}=${toBase64Url(compressed)}`
+
+    if (url.length > SHARE_LINK_BUDGET) {
+      return {
+        url: null,
+        length: url.length,
+        errors: [`The link would be ${url.length} characters, over the ${SHARE_LINK_BUDGET} limit; export a file instead`]
+      }
+    }
+    return { url, length: url.length, errors: [] }
   }
 
   /**
-   * Parse a shareable URL (for future implementation)
+   * Read the package out of a share link, its fragment alone, or a legacy data: URL
    */
   static async parseShareableUrl(url: string): Promise<ToolPackage> {
     if (url.startsWith('data:application/json;base64,')) {
@@ -330,7 +569,45 @@ export class ToolImportExport {
       const json = decodeURIComponent(escape(atob(encoded)))
       return JSON.parse(json)
     }
-    
-    throw new Error('Invalid shareable URL format')
+
+    const fragment = url.slice(url.indexOf('#') + 1)
+    const param = fragment.split('&').find(part => part.startsWith(`${SHARE_LINK_PARAM}=`))
+    if (!param) {
+      throw new Error('Invalid shareable URL format')
+    }
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('Opening share links needs compression support, which this browser lacks')
+    }
+
+    let bytes: Uint8Array
+    try {
+      bytes = fromBase64Url(param.slice(SHARE_LINK_PARAM.length + 1))
+    } catch {
+      throw new Error('The share link is malformed')
+    }
+    if (bytes.length * 4 > this.MAX_PACKAGE_SIZE) {
+      throw new Error('The shared package is too large')
+    }
+
+    try {
+      const json = await this.transform(bytes, new DecompressionStream('deflate-raw'))
+      return JSON.parse(new TextDecoder().decode(json))
+    } catch {
+      throw new Error('The share link is incomplete or corrupted; it may have been cut off when copied')
+    }
   }
-}
\ No newline at end of file
+
+  private static async transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const output = new Blob([data as BlobPart]).stream().pipeThrough(stream)
+    return new Uint8Array(await new Response(output).arrayBuffer())
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/')
+  return fromBase64(base64 + '='.repeat((4 - base64.length % 4) % 4))
+}
@@ -0,0 +1,45 @@
+import './browser-shim'
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Storage, STORAGE_KEYS } from './storage'
+import { storageMigrations } from './storage-migrations'
+import { Tool, ToolCategory, toPersistedTool, toolRegistry } from './tool-registry'
+
+const tool = (id: string): Tool => ({
+  id,
+  name: id,
+  description: `The ${id} tool`,
+  category: ToolCategory.UTILITIES,
+  icon: 'Wrench',
+  path: `/tools/${id}`,
+  version: '1.0.0',
+  tags: [],
+  isFavorite: false,
+  usageCount: 0,
+  lastUsed: null,
+  createdAt: new Date('2026-01-01T00:00:00Z')
+})
+
+test('a registry whose migration failed is never saved over', async () => {
+  const stored = JSON.stringify({ __schemaVersion: 1, tools: [toPersistedTool(tool('calculator'))] })
+  localStorage.setItem(STORAGE_KEYS.TOOLS, stored)
+  storageMigrations.register({
+    key: STORAGE_KEYS.TOOLS,
+    fromVersion: 1,
+    toVersion: 2,
+    description: 'Always fails',
+    migrate: () => {
+      throw new Error('unexpected shape')
+    }
+  })
+
+  // Loading falls back to the defaults, which would otherwise be saved straight away
+  await toolRegistry.initialize([tool('json-formatter')])
+  assert.equal(Storage.hasFailedMigration(STORAGE_KEYS.TOOLS), true)
+  assert.deepEqual(toolRegistry.getAll().map(each => each.id), ['json-formatter'])
+  assert.equal(localStorage.getItem(STORAGE_KEYS.TOOLS), stored)
+
+  const { usageCount, lastUsed, createdAt, ...details } = tool('text-counter')
+  assert.deepEqual(toolRegistry.addTool(details), { success: true, errors: [] })
+  assert.equal(localStorage.getItem(STORAGE_KEYS.TOOLS), stored)
+})
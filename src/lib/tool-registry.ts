@@ -1,8 +1,12 @@
 // Tool Registry for App Studio
 // Manages tool metadata, registration, and runtime operations
 
-import { UsageStorage } from './storage'
+import { Storage, STORAGE_KEYS, UsageStorage } from './storage'
 import { createToolSearcher, FuzzyMatch } from './fuzzy-search'
+import { ToolAction } from './tool-actions'
+import { eventBus } from './event-bus'
+import { crossTabSync } from './cross-tab-sync'
+import { undoHistory } from './undo-history'
 
 export enum ToolCategory {
   PRODUCTIVITY = 'productivity',
@@ -20,6 +24,7 @@ export interface Tool {
   category: ToolCategory
   icon: string // Lucide icon name
   path: string // Route path
+  externalUrl?: string // opened instead of the route, for tools hosted elsewhere
   preview?: string // Optional preview image/screenshot
   usageCount: number
   lastUsed: Date | null
@@ -37,6 +42,7 @@ export interface PersistedTool {
   category: ToolCategory
   icon: string
   path: string
+  externalUrl?: string
   preview?: string
   usageCount: number
   lastUsed: string | null // ISO string for persistence
@@ -74,32 +80,48 @@ export function fromPersistedTool(persisted: PersistedTool): Tool {
  */
 export class ToolRegistry {
   private tools: Map<string, Tool> = new Map()
-  private initialized = false
+  private actions: Map<string, ToolAction> = new Map()
+  private initializing: Promise<void> | null = null
   private fuzzySearcher = createToolSearcher()
 
   /**
-   * Initialize registry with default tools and load from storage
+   * Initialize registry with default tools and load from storage. Safe to call
+   * repeatedly: the registry is loaded once, and each caller's default tools are
+   * added if they're missing.
    */
   async initialize(defaultTools: Tool[] = []): Promise<void> {
-    if (this.initialized) return
-
-    // Load from storage first
-    this.loadFromStorage()
+    if (!this.initializing) {
+      this.initializing = this.load()
+    }
+    await this.initializing
 
     // Add default tools if they don't exist
-    defaultTools.forEach(tool => {
-      if (!this.tools.has(tool.id)) {
-        this.tools.set(tool.id, tool)
-      }
-    })
+    const missing = defaultTools.filter(tool => !this.tools.has(tool.id))
+    if (missing.length === 0) return
 
-    // Load usage data and update tools
+    missing.forEach(tool => this.tools.set(tool.id, tool))
     this.syncUsageData()
 
     // Persist any new default tools
     this.persistToStorage()
+  }
+
+  private async load(): Promise<void> {
+    // Load from storage first
+    await Storage.initialize()
+    this.loadFromStorage()
 
-    this.initialized = true
+    // Load usage data and update tools
+    this.syncUsageData()
+
+    // Another tab's save of the whole registry wins over ours (last writer wins)
+    crossTabSync.register(STORAGE_KEYS.TOOLS, newValue => {
+      if (newValue === null) return
+      this.tools = new Map()
+      this.loadFromStorage()
+      this.syncUsageData()
+    })
+    crossTabSync.register(STORAGE_KEYS.USAGE, () => this.syncUsageData())
   }
 
   /**
@@ -130,6 +152,27 @@ export class ToolRegistry {
     return this.tools.delete(id)
   }
 
+  /**
+   * Register the executable action a tool exposes to workflows
+   */
+  registerAction(action: ToolAction): void {
+    this.actions.set(action.toolId, action)
+  }
+
+  /**
+   * Get the executable action for a tool
+   */
+  getAction(toolId: string): ToolAction | undefined {
+    return this.actions.get(toolId)
+  }
+
+  /**
+   * Get all registered tool actions
+   */
+  getActions(): ToolAction[] {
+    return Array.from(this.actions.values())
+  }
+
   /**
    * Get tools by category
    */
@@ -216,6 +259,8 @@ export class ToolRegistry {
 
     // Update storage
     UsageStorage.incrementUsage(id)
+
+    eventBus.publishToolUsage({ toolId: id, usageCount: tool.usageCount })
     
     return true
   }
@@ -367,6 +412,7 @@ export class ToolRegistry {
     
     this.tools.set(newTool.id, newTool)
     this.persistToStorage()
+    this.recordChange(`Add tool "${newTool.name}"`, newTool.id, undefined, newTool, false)
     
     return { success: true, errors: [] }
   }
@@ -397,6 +443,7 @@ export class ToolRegistry {
     
     this.tools.set(id, updatedTool)
     this.persistToStorage()
+    this.recordChange(`Edit tool "${updatedTool.name}"`, id, tool, updatedTool, false)
     
     return { success: true, errors: [] }
   }
@@ -405,25 +452,63 @@ export class ToolRegistry {
    * Remove a tool from the registry
    */
   removeTool(id: string): boolean {
+    const tool = this.tools.get(id)
     const success = this.tools.delete(id)
     if (success) {
       this.persistToStorage()
+      this.recordChange(`Delete tool "${tool!.name}"`, id, tool, undefined, true)
       // Optionally remove tool-specific data
       // ToolDataStorage.remove(id)
     }
     return success
   }
 
+  /**
+   * Add a change to the undo history, keeping copies of the tool before and after it
+   */
+  private recordChange(label: string, id: string, before: Tool | undefined, after: Tool | undefined, destructive: boolean): void {
+    const beforeCopy = before && { ...before, tags: [...before.tags] }
+    const afterCopy = after && { ...after, tags: [...after.tags] }
+
+    undoHistory.record({
+      label,
+      source: 'registry',
+      destructive,
+      undo: () => this.restoreTool(id, beforeCopy),
+      redo: () => this.restoreTool(id, afterCopy)
+    })
+  }
+
+  /**
+   * Put a tool back the way a copy recorded it, or remove it if there was none
+   */
+  private restoreTool(id: string, copy: Tool | undefined): void {
+    if (copy) {
+      this.tools.set(id, { ...copy, tags: [...copy.tags] })
+      // Usage kept counting while the change was in place
+      this.syncUsageData()
+    } else {
+      this.tools.delete(id)
+    }
+    this.persistToStorage()
+  }
+
   /**
    * Persist registry to localStorage
    */
   private persistToStorage(): void {
     // Only access localStorage on the client side
     if (typeof window === 'undefined') return
+
+    // The stored registry failed to migrate; saving would replace it with what was loaded instead
+    if (Storage.hasFailedMigration(STORAGE_KEYS.TOOLS)) {
+      console.warn('Not saving the tool registry: its stored data could not be migrated')
+      return
+    }
     
     try {
       const persistedTools = this.getAll().map(toPersistedTool)
-      localStorage.setItem('app-studio-tools', JSON.stringify({
+      localStorage.setItem(STORAGE_KEYS.TOOLS, JSON.stringify({
         __schemaVersion: 1,
         tools: persistedTools
       }))
@@ -440,10 +525,10 @@ export class ToolRegistry {
     if (typeof window === 'undefined') return
     
     try {
-      const stored = localStorage.getItem('app-studio-tools')
-      if (!stored) return
-      
-      const data = JSON.parse(stored)
+      // Read through Storage so older saved registries are migrated first
+      const data = Storage.get<any>(STORAGE_KEYS.TOOLS, null)
+      if (!data) return
+
       if (data.tools && Array.isArray(data.tools)) {
         data.tools.forEach((persistedTool: any) => {
           try {
@@ -497,6 +582,10 @@ export class ToolRegistry {
       errors.push('Tool path must start with "/tools/"')
     }
 
+    if (tool.externalUrl !== undefined && !/^https?:\/\/[^\s]+$/i.test(tool.externalUrl)) {
+      errors.push('Tool external URL must be an http or https address')
+    }
+
     if (!tool.version || typeof tool.version !== 'string') {
       errors.push('Tool version is required and must be a string')
     }
@@ -0,0 +1,142 @@
+// Undo History for App Studio
+// Journal of reversible changes to the registry, collections and preferences
+
+export type UndoSource = 'registry' | 'collections' | 'preferences'
+
+export interface UndoableOperation {
+  id: string
+  label: string // e.g. 'Delete tool "Calculator"'
+  source: UndoSource
+  destructive: boolean // deletions get an Undo toast
+  timestamp: Date
+  undo: () => void
+  redo: () => void
+}
+
+export type UndoHistoryAction = 'recorded' | 'undone' | 'redone'
+
+export type UndoHistoryListener = (action: UndoHistoryAction, operation: UndoableOperation) => void
+
+const MAX_HISTORY = 50
+
+/**
+ * Undo History class. Each module records how to reverse its own changes, so undo and
+ * redo just replay those in order. The history lives for the current tab only.
+ */
+export class UndoHistory {
+  private undoStack: UndoableOperation[] = []
+  private redoStack: UndoableOperation[] = []
+  private listeners: Set<UndoHistoryListener> = new Set()
+
+  /**
+   * Record a change that was just made. A new change drops anything that could be redone.
+   */
+  record(operation: Omit<UndoableOperation, 'id' | 'timestamp'>): UndoableOperation {
+    const recorded: UndoableOperation = {
+      ...operation,
+      id: `undo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date()
+    }
+
+    this.undoStack.push(recorded)
+    if (this.undoStack.length > MAX_HISTORY) {
+      this.undoStack.shift()
+    }
+    this.redoStack = []
+
+    this.notifyListeners('recorded', recorded)
+    return recorded
+  }
+
+  /**
+   * Reverse the most recent change. Returns it, or null if there was nothing to undo.
+   */
+  undo(): UndoableOperation | null {
+    const operation = this.undoStack.pop()
+    if (!operation) return null
+
+    try {
+      operation.undo()
+    } catch (error) {
+      // A change that can't be reversed would fail again, so it is dropped
+      console.error(`Failed to undo "${operation.label}":`, error)
+      return null
+    }
+
+    this.redoStack.push(operation)
+    this.notifyListeners('undone', operation)
+    return operation
+  }
+
+  /**
+   * Apply the most recently undone change again
+   */
+  redo(): UndoableOperation | null {
+    const operation = this.redoStack.pop()
+    if (!operation) return null
+
+    try {
+      operation.redo()
+    } catch (error) {
+      console.error(`Failed to redo "${operation.label}":`, error)
+      return null
+    }
+
+    this.undoStack.push(operation)
+    this.notifyListeners('redone', operation)
+    return operation
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /**
+   * The change undo would reverse next
+   */
+  peekUndo(): UndoableOperation | null {
+    return this.undoStack[this.undoStack.length - 1] || null
+  }
+
+  /**
+   * The change redo would apply next
+   */
+  peekRedo(): UndoableOperation | null {
+    return this.redoStack[this.redoStack.length - 1] || null
+  }
+
+  /**
+   * Forget all history, e.g. after all app data is reset
+   */
+  clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+  }
+
+  /**
+   * Be told about recorded, undone and redone changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: UndoHistoryListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notifyListeners(action: UndoHistoryAction, operation: UndoableOperation): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(action, operation)
+      } catch (error) {
+        console.error('Undo history listener failed:', error)
+      }
+    })
+  }
+}
+
+// Global undo history instance
+export const undoHistory = new UndoHistory()
@@ -0,0 +1,261 @@
+// Update Orchestrator for App Studio
+// Applies automatic tool updates inside maintenance windows and rolls back updates that break a tool
+
+import { versionManager, UpdateInfo, UpdatePolicy, UpdateResult } from './version-manager'
+
+export interface SkippedUpdate {
+  toolId: string
+  version: string
+  reason: string
+}
+
+export interface UpdateRunReport {
+  ranAt: Date
+  applied: UpdateResult[]
+  failed: UpdateResult[]
+  skipped: SkippedUpdate[]
+}
+
+export interface AutoRollback {
+  toolId: string
+  fromVersion: string
+  toVersion: string
+  reason: string
+  result: UpdateResult
+}
+
+export type OrchestratorEvent =
+  | { type: 'run'; report: UpdateRunReport }
+  | { type: 'rollback'; rollback: AutoRollback }
+
+export type OrchestratorListener = (event: OrchestratorEvent) => void
+
+// Windows are checked at this granularity, so a window shorter than this may be missed
+const RUN_INTERVAL = 15 * 60 * 1000
+
+// Two tabs must not both apply the same update
+const RUN_CLAIMS_KEY = 'app-studio-update-claims'
+const CLAIM_TIMEOUT = 10 * 60 * 1000
+
+/**
+ * Whether a time falls inside a maintenance window, in the window's own timezone.
+ * A window whose end is before its start runs over midnight; equal times mean all day.
+ */
+export function isInMaintenanceWindow(window: NonNullable<UpdatePolicy['maintenanceWindow']>, at: Date = new Date()): boolean {
+  const now = minutesInTimezone(at, window.timezone)
+  const start = parseClockTime(window.start)
+  const end = parseClockTime(window.end)
+  if (now === null || start === null || end === null) return false
+
+  if (start === end) return true
+  return start < end
+    ? now >= start && now < end
+    : now >= start || now < end
+}
+
+export function describeMaintenanceWindow(window: NonNullable<UpdatePolicy['maintenanceWindow']>): string {
+  return `${window.start}-${window.end} ${window.timezone}`
+}
+
+// Minutes past midnight in a timezone, or null for an unknown timezone
+function minutesInTimezone(at: Date, timeZone: string): number | null {
+  try {
+    const formatted = new Intl.DateTimeFormat('en-US', { timeZone, hour: '2-digit', minute: '2-digit', hour12: false }).format(at)
+    const match = /(\d{1,2}):(\d{2})/.exec(formatted)
+    // Some engines write midnight as 24:00
+    return match ? (Number(match[1]) % 24) * 60 + Number(match[2]) : null
+  } catch {
+    return null
+  }
+}
+
+function parseClockTime(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+/**
+ * Update Orchestrator class
+ */
+export class UpdateOrchestrator {
+  private listeners: Set<OrchestratorListener> = new Set()
+  private lastRun: UpdateRunReport | null = null
+  private running = false
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  /**
+   * Start applying updates on a timer. Tool errors come in through reportToolError.
+   */
+  async start(): Promise<void> {
+    if (this.timer !== null || typeof window === 'undefined') return
+
+    this.timer = setInterval(() => {
+      this.runDueUpdates()
+    }, RUN_INTERVAL)
+
+    await versionManager.initialize()
+    // Stopped while the version manager was loading
+    if (this.timer === null) return
+    await this.runDueUpdates()
+  }
+
+  /**
+   * Stop applying updates on a timer
+   */
+  stop(): void {
+    if (this.timer === null) return
+    clearInterval(this.timer)
+    this.timer = null
+  }
+
+  /**
+   * Apply every pending update its policy allows right now
+   */
+  async runDueUpdates(at: Date = new Date()): Promise<UpdateRunReport> {
+    const report: UpdateRunReport = { ranAt: at, applied: [], failed: [], skipped: [] }
+    if (this.running) return report
+    this.running = true
+
+    try {
+      for (const update of versionManager.getPendingUpdates()) {
+        const reason = this.getIneligibleReason(update, at)
+        if (reason) {
+          report.skipped.push({ toolId: update.toolId, version: update.latestVersion, reason })
+          continue
+        }
+        if (!this.claimUpdate(update)) {
+          report.skipped.push({ toolId: update.toolId, version: update.latestVersion, reason: 'Being installed by another tab' })
+          continue
+        }
+
+        const window = versionManager.getUpdatePolicy(update.toolId).maintenanceWindow
+        const result = await versionManager.updateTool(update.toolId, update.latestVersion, false, {
+          source: 'auto',
+          backup: true,
+          maintenanceWindow: window ? describeMaintenanceWindow(window) : undefined
+        })
+        if (result.success) {
+          report.applied.push(result)
+        } else {
+          console.error(`Automatic update of ${update.toolId} to ${update.latestVersion} failed:`, result.errors)
+          report.failed.push(result)
+        }
+      }
+    } finally {
+      this.running = false
+    }
+
+    this.lastRun = report
+    if (report.applied.length > 0 || report.failed.length > 0) {
+      this.notify({ type: 'run', report })
+    }
+    return report
+  }
+
+  /**
+   * Why an update won't be applied automatically now, or null if it will be
+   */
+  getIneligibleReason(update: UpdateInfo, at: Date = new Date()): string | null {
+    const policy = versionManager.getUpdatePolicy(update.toolId)
+    if (!policy.autoUpdate) return 'Automatic updates are off'
+    if (policy.schedule === 'manual') return 'Updates are installed manually'
+    if (!policy.updateTypes.includes(update.updateType)) return `${update.updateType} updates are installed manually`
+
+    const history = versionManager.getVersionHistory(update.toolId)
+    if (history?.versions.some(v => v.version === update.latestVersion && v.report?.rolledBack)) {
+      return `${update.latestVersion} was rolled back before; install it manually to try again`
+    }
+
+    if (policy.maintenanceWindow && !isInMaintenanceWindow(policy.maintenanceWindow, at)) {
+      return `Waiting for the maintenance window (${describeMaintenanceWindow(policy.maintenanceWindow)})`
+    }
+
+    const plan = versionManager.planUpdate(update.toolId, update.latestVersion)
+    if (!plan.allowed) return `Blocked: ${plan.blockers[0].message}`
+    return null
+  }
+
+  /**
+   * The automatic update a tool is still on trial for, if any. Errors before
+   * `until` roll the tool back.
+   */
+  getProbation(toolId: string, at: Date = new Date()): { version: string; until: Date } | null {
+    const history = versionManager.getVersionHistory(toolId)
+    if (!history) return null
+
+    const current = history.versions
+      .filter(v => !v.removedAt)
+      .sort((a, b) => b.installedAt.getTime() - a.installedAt.getTime())[0]
+    if (!current || current.source !== 'auto') return null
+
+    const until = new Date(current.installedAt.getTime() + versionManager.getUpdatePolicy(toolId).rollbackTimeout * 60 * 60 * 1000)
+    return until.getTime() > at.getTime() ? { version: current.version, until } : null
+  }
+
+  /**
+   * Report that a tool failed, e.g. from its error boundary. A tool still on trial after
+   * an automatic update is rolled back.
+   */
+  async reportToolError(toolId: string, error: unknown): Promise<AutoRollback | null> {
+    const probation = this.getProbation(toolId)
+    if (!probation) return null
+
+    const message = error instanceof Error ? error.message : String(error)
+    const reason = `Rolled back automatically after an error: ${message}`
+    const result = await versionManager.rollbackTool(toolId, reason)
+    if (!result.success) {
+      console.error(`Failed to roll back ${toolId}:`, result.errors)
+      return null
+    }
+
+    const rollback: AutoRollback = { toolId, fromVersion: result.fromVersion, toVersion: result.toVersion, reason, result }
+    this.notify({ type: 'rollback', rollback })
+    return rollback
+  }
+
+  getLastRun(): UpdateRunReport | null {
+    return this.lastRun
+  }
+
+  /**
+   * Be told about applied updates and rollbacks. Returns an unsubscribe function.
+   */
+  subscribe(listener: OrchestratorListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private claimUpdate(update: UpdateInfo): boolean {
+    const fingerprint = `${update.toolId}@${update.latestVersion}`
+    try {
+      const claims: Record<string, number> = JSON.parse(localStorage.getItem(RUN_CLAIMS_KEY) || '{}')
+      const now = Date.now()
+      if (claims[fingerprint] && now - claims[fingerprint] < CLAIM_TIMEOUT) return false
+
+      Object.keys(claims).forEach(key => {
+        if (now - claims[key] >= CLAIM_TIMEOUT) delete claims[key]
+      })
+      claims[fingerprint] = now
+      localStorage.setItem(RUN_CLAIMS_KEY, JSON.stringify(claims))
+      return true
+    } catch (error) {
+      console.error('Failed to claim update:', error)
+      return true
+    }
+  }
+
+  private notify(event: OrchestratorEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('Update orchestrator listener failed:', error)
+      }
+    })
+  }
+}
+
+// Global update orchestrator instance
+export const updateOrchestrator = new UpdateOrchestrator()
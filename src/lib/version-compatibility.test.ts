@@ -0,0 +1,71 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { compareVersions, isValidVersionConstraint, parseVersion, satisfiesVersion } from './version-compatibility'
+
+test('parses pre-release identifiers and build metadata', () => {
+  assert.deepEqual(parseVersion('v1.4.0-beta.2+build.5'), {
+    major: 1,
+    minor: 4,
+    patch: 0,
+    prerelease: ['beta', 2],
+    build: ['build', '5']
+  })
+  ;['1.0', '01.2.3', '1.2.3-', '1.2.3-beta..1', 'latest'].forEach(version => {
+    assert.equal(parseVersion(version), null, version)
+  })
+})
+
+test('orders versions by semver precedence', () => {
+  const ordered = ['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-alpha.beta', '1.0.0-beta', '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0-rc.1', '1.0.0', '1.0.1', '1.10.0']
+  const shuffled = [...ordered].reverse().sort(compareVersions)
+  assert.deepEqual(shuffled, ordered)
+
+  assert.equal(compareVersions('1.0.0+build.1', '1.0.0+build.2'), 0)
+  // Anything that isn't semver is compared as dotted numbers
+  assert.equal(compareVersions('120.0.6099.71', '99.1') > 0, true)
+})
+
+test('matches caret, tilde, x-range, hyphen and alternative ranges', () => {
+  const cases: Array<[string, string, boolean]> = [
+    ['1.9.3', '^1.2', true],
+    ['2.0.0', '^1.2', false],
+    ['0.2.9', '^0.2.3', true],
+    ['0.3.0', '^0.2.3', false],
+    ['0.0.4', '^0.0.3', false],
+    ['1.4.9', '~1.4.0', true],
+    ['1.5.0', '~1.4.0', false],
+    ['1.7.0', '~1', true],
+    ['1.99.0', '1.x', true],
+    ['2.0.0', '1.x', false],
+    ['3.1.4', '*', true],
+    ['2.0.5', '1.2 - 2.0', true],
+    ['2.1.0', '1.2 - 2.0', false],
+    ['1.1.9', '1.2 - 2.0', false],
+    ['2.5.0', '>= 2 <3', true],
+    ['3.0.0', '>=2 <3', false],
+    ['5.0.0', '^1 || ^5', true],
+    ['4.0.0', '^1 || ^5', false],
+    ['2.0.0', '>1', true],
+    ['1.9.0', '>1', false]
+  ]
+  cases.forEach(([version, range, expected]) => {
+    assert.equal(satisfiesVersion(version, range), expected, `${version} in ${range}`)
+  })
+})
+
+test('only matches a pre-release against a range naming the same release', () => {
+  assert.equal(satisfiesVersion('1.3.0-beta.1', '^1.2.0'), false)
+  assert.equal(satisfiesVersion('1.3.0-beta.2', '>=1.3.0-beta.1'), true)
+  assert.equal(satisfiesVersion('1.3.0-alpha', '>=1.3.0-beta.1'), false)
+  assert.equal(satisfiesVersion('1.4.0-beta.1', '>=1.3.0-beta.1'), false)
+  // Nothing below 2.0.0 escapes "<2" through a pre-release
+  assert.equal(satisfiesVersion('2.0.0-rc.1', '<2'), false)
+})
+
+test('rejects ranges it cannot read', () => {
+  ;['>=', '1.2.3.4', '^one', '1.2 -', '>=1 || nope'].forEach(range => {
+    assert.equal(isValidVersionConstraint(range), false, range)
+  })
+  assert.equal(isValidVersionConstraint(''), true)
+  assert.equal(satisfiesVersion('not-a-version', '*'), false)
+})
@@ -0,0 +1,369 @@
+// Version Compatibility for App Studio
+// Version constraints for tool dependencies, and checks of a tool version against the running app and browser
+
+import packageInfo from '../../package.json'
+import { CompatibilityInfo } from './version-manager'
+
+// Version of the running app, as released
+export const APP_VERSION: string = packageInfo.version
+
+export interface CompatibilityProblem {
+  type: 'app-version' | 'browser' | 'feature'
+  message: string
+}
+
+export interface BrowserInfo {
+  name: 'chrome' | 'edge' | 'firefox' | 'safari' | 'opera'
+  version: string
+}
+
+const BROWSER_LABELS: Record<BrowserInfo['name'], string> = {
+  chrome: 'Chrome',
+  edge: 'Edge',
+  firefox: 'Firefox',
+  safari: 'Safari',
+  opera: 'Opera'
+}
+
+// Browser features a tool version can require, keyed by normalized name (see normalizeFeature)
+const FEATURE_CHECKS: Record<string, () => boolean> = {
+  webcrypto: () => typeof crypto !== 'undefined' && !!crypto.subtle,
+  compressionstreams: () => typeof CompressionStream !== 'undefined',
+  indexeddb: () => typeof indexedDB !== 'undefined',
+  localstorage: () => typeof localStorage !== 'undefined',
+  broadcastchannel: () => typeof BroadcastChannel !== 'undefined',
+  serviceworker: () => typeof navigator !== 'undefined' && 'serviceWorker' in navigator,
+  clipboard: () => typeof navigator !== 'undefined' && !!navigator.clipboard,
+  share: () => typeof navigator !== 'undefined' && typeof navigator.share === 'function',
+  mediadevices: () => typeof navigator !== 'undefined' && !!navigator.mediaDevices,
+  geolocation: () => typeof navigator !== 'undefined' && 'geolocation' in navigator,
+  notifications: () => typeof Notification !== 'undefined',
+  webworkers: () => typeof Worker !== 'undefined',
+  websocket: () => typeof WebSocket !== 'undefined',
+  fetch: () => typeof fetch === 'function',
+  webassembly: () => typeof WebAssembly !== 'undefined',
+  webgl: () => {
+    if (typeof document === 'undefined') return false
+    try {
+      return !!document.createElement('canvas').getContext('webgl')
+    } catch {
+      return false
+    }
+  }
+}
+
+export interface SemVer {
+  major: number
+  minor: number
+  patch: number
+  prerelease: Array<string | number> // e.g. ['beta', 2] for 1.0.0-beta.2
+  build: string[] // ignored for precedence
+}
+
+interface Comparator {
+  operator: '<' | '<=' | '>' | '>=' | '='
+  version: SemVer
+}
+
+// A version with parts left out or written as x/*, e.g. "1", "1.2" or "1.x"
+interface PartialVersion {
+  major?: number
+  minor?: number
+  patch?: number
+  prerelease: Array<string | number>
+}
+
+const SEMVER_PATTERN = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/
+const PARTIAL_PATTERN = /^v?(\*|x|X|\d+)(?:\.(\*|x|X|\d+))?(?:\.(\*|x|X|\d+))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-.]+)?$/
+
+/**
+ * Parse a semantic version such as "1.4.0-beta.2+build.5", or null if it isn't one
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = SEMVER_PATTERN.exec(version.trim())
+  if (!match) return null
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? parsePrerelease(match[4]) : [],
+    build: match[5] ? match[5].split('.') : []
+  }
+}
+
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null
+}
+
+export function isPrerelease(version: string): boolean {
+  const parsed = parseVersion(version)
+  return !!parsed && parsed.prerelease.length > 0
+}
+
+/**
+ * Compare versions by semver precedence: negative when a is older, positive when newer.
+ * A pre-release comes before its release (1.0.0-beta < 1.0.0); build metadata is ignored.
+ * Anything that isn't semver, such as "1.0", is compared as dotted numbers.
+ */
+export function compareVersions(a: string, b: string): number {
+  const aVersion = parseVersion(a)
+  const bVersion = parseVersion(b)
+  return aVersion && bVersion ? compareSemVer(aVersion, bVersion) : compareDottedNumbers(a, b)
+}
+
+/**
+ * Whether a version is in a range. Ranges follow npm: comparators (">=2 <3"), caret
+ * ("^1.2"), tilde ("~1.4.0"), x-ranges ("1.x", "*"), hyphen ranges ("1.2 - 2.0") and
+ * alternatives joined with "||". A pre-release only matches a range that names a
+ * pre-release of the same major.minor.patch, so "^1.2.0" never picks up 1.3.0-beta.
+ */
+export function satisfiesVersion(version: string, range: string): boolean {
+  const parsed = parseVersion(version)
+  const sets = parseRange(range)
+  return !!parsed && !!sets && sets.some(set => satisfiesSet(parsed, set))
+}
+
+export function isValidVersionConstraint(range: string): boolean {
+  return parseRange(range) !== null
+}
+
+function parsePrerelease(text: string): Array<string | number> {
+  return text.split('.').map(identifier => /^\d+$/.test(identifier) ? Number(identifier) : identifier)
+}
+
+function compareSemVer(a: SemVer, b: SemVer): number {
+  const core = (a.major - b.major) || (a.minor - b.minor) || (a.patch - b.patch)
+  if (core !== 0) return core > 0 ? 1 : -1
+
+  // A release outranks its pre-releases
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length
+  }
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const aPart = a.prerelease[i]
+    const bPart = b.prerelease[i]
+    // A longer list of otherwise equal identifiers ranks higher
+    if (aPart === undefined) return -1
+    if (bPart === undefined) return 1
+    if (aPart === bPart) continue
+
+    // Numeric identifiers rank below alphanumeric ones
+    if (typeof aPart === 'number' && typeof bPart === 'number') return aPart > bPart ? 1 : -1
+    if (typeof aPart === 'number') return -1
+    if (typeof bPart === 'number') return 1
+    return aPart > bPart ? 1 : -1
+  }
+  return 0
+}
+
+// Plain dotted numbers, e.g. browser versions like "120.0.6099.71"
+function compareDottedNumbers(a: string, b: string): number {
+  const aParts = a.split('.').map(part => parseInt(part, 10) || 0)
+  const bParts = b.split('.').map(part => parseInt(part, 10) || 0)
+
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const aPart = aParts[i] || 0
+    const bPart = bParts[i] || 0
+    if (aPart !== bPart) return aPart > bPart ? 1 : -1
+  }
+  return 0
+}
+
+function satisfiesSet(version: SemVer, set: Comparator[]): boolean {
+  const inRange = set.every(({ operator, version: bound }) => {
+    const order = compareSemVer(version, bound)
+    switch (operator) {
+      case '<': return order < 0
+      case '<=': return order <= 0
+      case '>': return order > 0
+      case '>=': return order >= 0
+      case '=': return order === 0
+    }
+  })
+  if (!inRange || version.prerelease.length === 0) return inRange
+
+  return set.some(({ version: bound }) =>
+    bound.prerelease.length > 0 &&
+    bound.major === version.major && bound.minor === version.minor && bound.patch === version.patch
+  )
+}
+
+// Alternatives, each a list of comparators that must all hold; null if the range can't be read
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = []
+  for (const alternative of range.split('||')) {
+    const set = parseComparatorSet(alternative.trim())
+    if (!set) return null
+    sets.push(set)
+  }
+  return sets
+}
+
+function parseComparatorSet(text: string): Comparator[] | null {
+  if (text === '' || text === 'latest') return []
+
+  const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(text)
+  if (hyphen) {
+    const from = parsePartial(hyphen[1])
+    const to = parsePartial(hyphen[2])
+    if (!from || !to) return null
+    return [
+      ...(from.major === undefined ? [] : [{ operator: '>=' as const, version: fillVersion(from) }]),
+      ...(to.major === undefined ? [] : upperBound(to, true))
+    ]
+  }
+
+  const comparators: Comparator[] = []
+  // ">= 1.2" means ">=1.2"
+  for (const token of text.replace(/(<=|>=|<|>|=|~>|~|\^)\s+/g, '$1').split(/\s+/)) {
+    const match = /^(<=|>=|<|>|=|~>|~|\^)?(.+)$/.exec(token)
+    const partial = match && parsePartial(match[2])
+    if (!match || !partial) return null
+
+    const expanded = expandComparator(match[1] || '', partial)
+    comparators.push(...expanded)
+  }
+  return comparators
+}
+
+function parsePartial(text: string): PartialVersion | null {
+  const match = PARTIAL_PATTERN.exec(text)
+  if (!match) return null
+
+  // Anything after a wildcard is a wildcard too
+  const parts: Array<number | undefined> = []
+  for (const part of [match[1], match[2], match[3]]) {
+    parts.push(part === undefined || /^[*xX]$/.test(part) || parts.some(p => p === undefined) ? undefined : Number(part))
+  }
+  return {
+    major: parts[0],
+    minor: parts[1],
+    patch: parts[2],
+    prerelease: match[4] && parts[2] !== undefined ? parsePrerelease(match[4]) : []
+  }
+}
+
+function fillVersion(partial: PartialVersion): SemVer {
+  return { major: partial.major || 0, minor: partial.minor || 0, patch: partial.patch || 0, prerelease: partial.prerelease, build: [] }
+}
+
+// The first version past everything a partial version covers, e.g. 1.3.0-0 for "1.2"
+function nextVersion(partial: PartialVersion): SemVer {
+  const next = partial.minor === undefined
+    ? { major: partial.major! + 1, minor: 0, patch: 0 }
+    : { major: partial.major!, minor: partial.minor + 1, patch: 0 }
+  return { ...next, prerelease: [0], build: [] }
+}
+
+function upperBound(partial: PartialVersion, inclusive: boolean): Comparator[] {
+  if (partial.patch !== undefined) return [{ operator: inclusive ? '<=' : '<', version: fillVersion(partial) }]
+  return [{ operator: '<', version: inclusive ? nextVersion(partial) : fillVersion({ ...partial, prerelease: [0] }) }]
+}
+
+function expandComparator(operator: string, partial: PartialVersion): Comparator[] {
+  const { major, minor, patch } = partial
+  if (major === undefined) {
+    // "*" matches everything; "<*" and ">*" match nothing
+    return operator === '<' || operator === '>' ? [{ operator: '<', version: fillVersion({ major: 0, prerelease: [0] }) }] : []
+  }
+
+  const lower: Comparator = { operator: '>=', version: fillVersion(partial) }
+  switch (operator) {
+    case '':
+    case '=':
+      return patch === undefined ? [lower, ...upperBound(partial, true)] : [{ operator: '=', version: fillVersion(partial) }]
+    case '>=':
+      return [lower]
+    case '>':
+      return patch === undefined ? [{ operator: '>=', version: nextVersion(partial) }] : [{ operator: '>', version: fillVersion(partial) }]
+    case '<':
+      return upperBound(partial, false)
+    case '<=':
+      return upperBound(partial, true)
+    case '~':
+    case '~>':
+      // ~1.2.3 and ~1.2 allow patches; ~1 allows anything in 1.x
+      return [lower, { operator: '<', version: nextVersion({ major, minor, prerelease: [] }) }]
+    case '^': {
+      // Changes left of the first non-zero part are breaking
+      const ceiling = major > 0 || minor === undefined
+        ? nextVersion({ major, prerelease: [] })
+        : minor > 0 || patch === undefined
+          ? nextVersion({ major, minor, prerelease: [] })
+          : { major: 0, minor, patch: patch + 1, prerelease: [0], build: [] }
+      return [lower, { operator: '<', version: ceiling }]
+    }
+  }
+  return []
+}
+
+/**
+ * The browser this is running in, from its user agent, or null if it isn't recognized
+ */
+export function detectBrowser(userAgent: string = typeof navigator !== 'undefined' ? navigator.userAgent : ''): BrowserInfo | null {
+  const patterns: Array<[BrowserInfo['name'], RegExp]> = [
+    ['edge', /Edg(?:e|A|iOS)?\/([\d.]+)/],
+    ['opera', /OPR\/([\d.]+)/],
+    ['firefox', /(?:Firefox|FxiOS)\/([\d.]+)/],
+    ['chrome', /(?:Chrome|CriOS)\/([\d.]+)/],
+    ['safari', /Version\/([\d.]+).*Safari\//]
+  ]
+  for (const [name, pattern] of patterns) {
+    const match = pattern.exec(userAgent)
+    if (match) return { name, version: match[1] }
+  }
+  return null
+}
+
+/**
+ * Check a tool version's requirements against the running app and browser.
+ * Problems block installing it; warnings are requirements that couldn't be checked.
+ */
+export function checkCompatibility(
+  compatibility: CompatibilityInfo,
+  browser: BrowserInfo | null = detectBrowser()
+): { problems: CompatibilityProblem[]; warnings: string[] } {
+  const problems: CompatibilityProblem[] = []
+  const warnings: string[] = []
+
+  if (compatibility.minAppVersion && compareVersions(APP_VERSION, compatibility.minAppVersion) < 0) {
+    problems.push({ type: 'app-version', message: `Needs App Studio ${compatibility.minAppVersion} or newer; this is ${APP_VERSION}` })
+  }
+  if (compatibility.maxAppVersion && compareVersions(APP_VERSION, compatibility.maxAppVersion) > 0) {
+    problems.push({ type: 'app-version', message: `Only works up to App Studio ${compatibility.maxAppVersion}; this is ${APP_VERSION}` })
+  }
+
+  if (compatibility.browsers.length > 0) {
+    const entry = browser && compatibility.browsers.find(b => b.name.toLowerCase() === browser.name)
+    if (!browser) {
+      warnings.push("Couldn't tell which browser this is to check browser support")
+    } else if (!entry) {
+      warnings.push(`Not listed as tested on ${BROWSER_LABELS[browser.name]}`)
+    } else if (!entry.supported) {
+      problems.push({ type: 'browser', message: `Doesn't support ${BROWSER_LABELS[browser.name]}` })
+    } else if (entry.minVersion && compareDottedNumbers(browser.version, entry.minVersion) < 0) {
+      problems.push({
+        type: 'browser',
+        message: `Needs ${BROWSER_LABELS[browser.name]} ${entry.minVersion} or newer; this is ${browser.version.split('.')[0]}`
+      })
+    }
+  }
+
+  compatibility.features.forEach(feature => {
+    const check = FEATURE_CHECKS[normalizeFeature(feature)]
+    if (!check) {
+      warnings.push(`Can't check for the browser feature "${feature}"`)
+    } else if (!check()) {
+      problems.push({ type: 'feature', message: `Needs the browser feature "${feature}", which this browser doesn't provide` })
+    }
+  })
+
+  return { problems, warnings }
+}
+
+// "WebCrypto", "web-crypto" and "webcrypto" name the same feature
+function normalizeFeature(feature: string): string {
+  return feature.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
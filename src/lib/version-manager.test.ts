@@ -0,0 +1,87 @@
+import './browser-shim'
+import { before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Tool, ToolCategory, toolRegistry } from './tool-registry'
+import { ToolDependency, ToolVersion, versionManager } from './version-manager'
+
+const tool = (id: string): Tool => ({
+  id,
+  name: id,
+  description: `The ${id} tool`,
+  category: ToolCategory.UTILITIES,
+  icon: 'Wrench',
+  path: `/tools/${id}`,
+  version: '1.0.0',
+  tags: [],
+  isFavorite: false,
+  usageCount: 0,
+  lastUsed: null,
+  createdAt: new Date('2026-01-01T00:00:00Z')
+})
+
+const needs = (name: string, version: string, required = true): ToolDependency => ({ name, version, required, type: 'runtime' })
+
+const release = (toolId: string, version: string, dependencies: ToolDependency[] = []) => {
+  const toolVersion: ToolVersion = {
+    version,
+    releaseDate: new Date('2026-01-01T00:00:00Z'),
+    changelog: [],
+    breaking: false,
+    deprecated: false,
+    securityFixes: [],
+    bugFixes: [],
+    features: [],
+    dependencies,
+    compatibility: { minAppVersion: '0.0.1', browsers: [], platforms: [], features: [] }
+  }
+  versionManager.registerToolVersion(toolId, toolVersion)
+}
+
+// Every tool starts out installed at 1.0.0, the version the registry lists
+before(() => toolRegistry.initialize(['editor', 'parser', 'formatter', 'printer', 'lexer', 'alpha', 'beta', 'viewer'].map(tool)))
+
+test('updates dependencies first, to the newest version that fits', () => {
+  release('parser', '3.0.0')
+  release('parser', '2.1.0')
+  release('parser', '2.2.0-beta.1')
+  release('editor', '2.0.0', [needs('parser', '^2.0.0')])
+
+  const plan = versionManager.planUpdate('editor', '2.0.0')
+  assert.deepEqual(plan.blockers, [])
+  assert.equal(plan.allowed, true)
+  assert.deepEqual(plan.installs, [
+    { toolId: 'parser', fromVersion: '1.0.0', toVersion: '2.1.0' },
+    { toolId: 'editor', fromVersion: '1.0.0', toVersion: '2.0.0' }
+  ])
+})
+
+test('blocks an update whose dependency change breaks another tool', () => {
+  release('printer', '2.0.0')
+  release('lexer', '1.0.0', [needs('printer', '^1.0.0')])
+  release('formatter', '2.0.0', [needs('printer', '^2.0.0'), needs('lexer', '^1.0.0')])
+
+  const plan = versionManager.planUpdate('formatter', '2.0.0')
+  assert.equal(plan.allowed, false)
+  assert.deepEqual(plan.blockers, [
+    { type: 'conflict', message: 'lexer 1.0.0 needs printer ^1.0.0, but formatter 2.0.0 needs 2.0.0' },
+    { type: 'conflict', message: "lexer 1.0.0 needs printer ^1.0.0, so it can't move to 2.0.0" }
+  ])
+})
+
+test('refuses dependency cycles', () => {
+  release('beta', '2.0.0', [needs('alpha', '^2.0.0')])
+  release('alpha', '2.0.0', [needs('beta', '^2.0.0')])
+
+  const plan = versionManager.planUpdate('alpha', '2.0.0')
+  assert.equal(plan.allowed, false)
+  assert.deepEqual(plan.blockers, [{ type: 'cycle', message: 'Dependency cycle: alpha → beta → alpha' }])
+})
+
+test('leaves out optional dependencies that cannot be met', () => {
+  release('viewer', '2.0.0', [needs('image-decoder', '^1.0.0', false)])
+
+  const plan = versionManager.planUpdate('viewer', '2.0.0')
+  assert.equal(plan.allowed, true)
+  assert.deepEqual(plan.warnings, ["viewer 2.0.0 needs image-decoder ^1.0.0, which isn't installed (optional, so it will be left out)"])
+  assert.deepEqual(plan.installs, [{ toolId: 'viewer', fromVersion: '1.0.0', toVersion: '2.0.0' }])
+})
@@ -1,7 +1,12 @@
 // Tool Versioning and Update Management for App Studio
 // Handles tool versions, updates, migrations, and compatibility
 
-import { Tool } from './tool-registry'
+import { Tool, toolRegistry } from './tool-registry'
+import { PackageIntegrity, PackageSignature, canonicalJson, packageSigning, sha256Hex } from './package-signing'
+import { Storage, ToolData, ToolDataStorage, encryptedStorage } from './storage'
+import { backupManager } from './backup-restore'
+import { crossTabSync } from './cross-tab-sync'
+import { CompatibilityProblem, checkCompatibility, compareVersions, isPrerelease, isValidVersion, isValidVersionConstraint, parseVersion, satisfiesVersion } from './version-compatibility'
 
 export interface ToolVersion {
   version: string
@@ -20,12 +25,15 @@ export interface ToolVersion {
 }
 
 export interface ToolDependency {
-  name: string
-  version: string
+  name: string // id of the tool depended on
+  version: string // semver range such as "^1.2", "~1.4.0" or ">=2 <3"; see satisfiesVersion
   required: boolean
   type: 'runtime' | 'development' | 'peer'
 }
 
+// Which releases a tool is offered: stable skips pre-releases such as 2.0.0-beta.1
+export type ReleaseChannel = 'stable' | 'beta'
+
 export interface CompatibilityInfo {
   minAppVersion: string
   maxAppVersion?: string
@@ -63,6 +71,51 @@ export interface UpdateResult {
   warnings: string[]
   backupCreated: boolean
   migrationApplied: boolean
+  backupId?: string // snapshot taken before the update
+  dataSnapshotId?: string // the tool's own data, saved before an update or restored by a rollback
+  blockers?: UpdateBlocker[] // why the update wasn't allowed
+  dependencyUpdates?: UpdateResult[] // tools updated first because this version needs them
+}
+
+export interface UpdateBlocker {
+  type: CompatibilityProblem['type'] | 'dependency' | 'conflict' | 'cycle'
+  message: string
+}
+
+/**
+ * What installing a version involves: the dependencies that have to be updated
+ * with it, and anything that stops it from being installed at all
+ */
+export interface UpdatePlan {
+  toolId: string
+  targetVersion: string
+  allowed: boolean
+  installs: Array<{ toolId: string; fromVersion: string; toVersion: string }> // dependencies first, the tool itself last
+  blockers: UpdateBlocker[]
+  warnings: string[]
+}
+
+/**
+ * What an update or rollback did, kept with the version it installed
+ */
+export interface UpdateReport {
+  fromVersion: string
+  toVersion: string
+  updateType?: UpdateInfo['updateType']
+  migrations: string[] // ids of the migrations that ran, in order
+  backupId?: string
+  dataSnapshotId?: string // see UpdateResult
+  maintenanceWindow?: string // the window an automatic update ran in, e.g. "02:00-04:00 Europe/Berlin"
+  rolledBack?: {
+    at: Date
+    reason: string
+  }
+}
+
+export interface UpdateOptions {
+  source?: 'auto' | 'manual'
+  backup?: boolean // snapshot app data first even when the update doesn't require it
+  maintenanceWindow?: string
 }
 
 export interface VersionHistory {
@@ -74,6 +127,7 @@ export interface VersionHistory {
     removedAt?: Date
     source: 'auto' | 'manual' | 'rollback'
     notes?: string
+    report?: UpdateReport
   }>
 }
 
@@ -104,6 +158,63 @@ export interface Migration {
   rollback?: (newData: any) => Promise<any>
 }
 
+/**
+ * A catalog lists the versions available for each tool. It is signed like a tool package
+ * (see packageSigning.seal), and only loaded when signed by a trusted key. Every version
+ * entry also carries a checksum: the SHA-256 hex of the entry's canonical JSON without the
+ * checksum field (see computeVersionChecksum); entries that don't match are left out.
+ */
+export interface ToolCatalog {
+  __catalogVersion: string
+  name: string
+  generatedAt?: string
+  tools: Array<{
+    toolId: string
+    versions: ToolVersion[] // releaseDate as an ISO string in the file
+  }>
+  __integrity?: PackageIntegrity
+  __signature?: PackageSignature
+}
+
+export interface CatalogSource {
+  url?: string // fetched again on every scheduled check
+  fileName?: string // when the catalog was loaded from a file instead
+  name?: string
+  signedBy?: string // trusted key the catalog was signed with, by its saved name
+  loadedAt?: Date
+}
+
+export interface CatalogLoadResult {
+  success: boolean
+  catalogName: string
+  toolsUpdated: number
+  versionsLoaded: number
+  rejected: string[] // version entries left out, with the reason
+  errors: string[]
+  updates: UpdateInfo[]
+}
+
+// One tool of an update plan, with its data already migrated in memory
+interface PreparedInstall {
+  toolId: string
+  fromVersion: string
+  toVersion: string
+  migrations: Migration[]
+  data: ToolData | null // null when no migration applies
+  result: UpdateResult
+}
+
+const CATALOG_FORMAT_VERSION = '1.0.0'
+
+// How long each schedule waits between update checks of a tool
+const SCHEDULE_INTERVALS: Record<UpdatePolicy['schedule'], number> = {
+  immediate: 0,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+  monthly: 30 * 24 * 60 * 60 * 1000,
+  manual: Infinity
+}
+
 /**
  * Version Manager class
  */
@@ -113,19 +224,170 @@ export class VersionManager {
   private versionHistory: Map<string, VersionHistory> = new Map()
   private migrations: Map<string, Migration[]> = new Map()
   private pendingUpdates: Map<string, UpdateInfo> = new Map()
-  private initialized = false
+  private lastToolChecks: Map<string, number> = new Map() // when each tool was last checked on its schedule
+  private releaseChannels: Map<string, ReleaseChannel> = new Map() // tools not listed are on stable
+  private catalogSource: CatalogSource = {}
+  private initializing: Promise<void> | null = null
 
   /**
-   * Initialize version manager
+   * Initialize version manager. Safe to call repeatedly; everyone awaits the same
+   * start-up, so update checks are only scheduled once.
    */
-  async initialize(): Promise<void> {
-    if (this.initialized) return
+  initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.start()
+    }
+    return this.initializing
+  }
 
+  private async start(): Promise<void> {
+    // Installed versions of tools without a recorded history come from the registry
+    await toolRegistry.initialize()
     this.loadFromStorage()
     this.setupDefaultPolicies()
-    await this.checkForUpdates()
+
+    // Another tab may have installed or rolled back an update
+    crossTabSync.register('app-studio-version-manager', newValue => {
+      if (newValue !== null) this.loadFromStorage()
+    })
+    await this.runScheduledCheck()
     this.scheduleUpdateChecks()
-    this.initialized = true
+  }
+
+  /**
+   * Load a catalog from a file the user picked
+   */
+  async loadCatalogFromFile(file: File): Promise<CatalogLoadResult> {
+    try {
+      return await this.loadCatalog(await file.text(), { fileName: file.name })
+    } catch (error) {
+      return this.failedCatalogLoad([`Failed to read catalog file: ${error}`])
+    }
+  }
+
+  /**
+   * Fetch the catalog from a local URL, by default the configured one
+   */
+  async loadCatalogFromUrl(url: string | undefined = this.catalogSource.url): Promise<CatalogLoadResult> {
+    if (!url) {
+      return this.failedCatalogLoad(['No catalog URL is configured'])
+    }
+    if (!isLocalCatalogUrl(url)) {
+      return this.failedCatalogLoad(['The catalog URL must be on this site or on this machine (localhost)'])
+    }
+
+    try {
+      const response = await fetch(url, { cache: 'no-store' })
+      if (!response.ok) {
+        return this.failedCatalogLoad([`Catalog request failed: ${response.status} ${response.statusText}`])
+      }
+      return await this.loadCatalog(await response.text(), { url })
+    } catch (error) {
+      return this.failedCatalogLoad([`Failed to fetch catalog: ${error}`])
+    }
+  }
+
+  /**
+   * Parse and verify a catalog, register its versions, then check for updates.
+   * Tools the catalog lists get exactly its versions, plus the installed one if it's missing.
+   */
+  async loadCatalog(text: string, source: { url?: string; fileName?: string } = {}): Promise<CatalogLoadResult> {
+    let catalog: ToolCatalog
+    try {
+      catalog = JSON.parse(text)
+    } catch (error) {
+      return this.failedCatalogLoad([`Failed to parse catalog: ${error}`])
+    }
+
+    const validationErrors = validateCatalog(catalog)
+    if (validationErrors.length > 0) {
+      return this.failedCatalogLoad(validationErrors)
+    }
+
+    // Entry checksums travel with the feed, so only its signature shows it wasn't modified
+    const { signature, signer, errors: verificationErrors } = await packageSigning.verify(catalog)
+    if (signature === 'missing') {
+      return this.failedCatalogLoad(verificationErrors.length > 0
+        ? verificationErrors
+        : ['The catalog is not signed; only catalogs signed by a trusted key are loaded'])
+    }
+    if (signature === 'invalid') {
+      return this.failedCatalogLoad(['The catalog signature is not valid; it was changed after signing'])
+    }
+    if (!signer?.trusted) {
+      return this.failedCatalogLoad([`The catalog is signed by "${signer?.name}", whose key is not in your trusted keys`])
+    }
+    if (verificationErrors.length > 0) {
+      return this.failedCatalogLoad(verificationErrors)
+    }
+
+    const result: CatalogLoadResult = {
+      success: false,
+      catalogName: catalog.name,
+      toolsUpdated: 0,
+      versionsLoaded: 0,
+      rejected: [],
+      errors: [],
+      updates: []
+    }
+
+    for (const entry of catalog.tools) {
+      const accepted: ToolVersion[] = []
+      for (const rawVersion of entry.versions) {
+        const label = `${entry.toolId} ${rawVersion && rawVersion.version ? rawVersion.version : '(no version)'}`
+        const problem = validateCatalogVersion(rawVersion)
+        if (problem) {
+          result.rejected.push(`${label}: ${problem}`)
+          continue
+        }
+        if (await computeVersionChecksum(rawVersion) !== rawVersion.checksum!.toLowerCase()) {
+          result.rejected.push(`${label}: checksum does not match; the entry is corrupted`)
+          continue
+        }
+        accepted.push(normalizeCatalogVersion(rawVersion))
+      }
+      if (accepted.length === 0) continue
+
+      const installed = this.getCurrentVersion(entry.toolId)
+      const kept = this.getToolVersions(entry.toolId)
+        .filter(version => version.version === installed && !accepted.some(v => v.version === installed))
+      this.toolVersions.set(entry.toolId, [...accepted, ...kept].sort((a, b) => compareVersions(b.version, a.version)))
+      result.toolsUpdated++
+      result.versionsLoaded += accepted.length
+    }
+
+    this.catalogSource = {
+      url: source.url || (source.fileName ? undefined : this.catalogSource.url),
+      fileName: source.fileName,
+      name: catalog.name,
+      signedBy: signer.trustedName || signer.name,
+      loadedAt: new Date()
+    }
+
+    // A fresh catalog is checked in full, whatever each tool's schedule says
+    result.updates = await this.checkForUpdates()
+    result.success = result.versionsLoaded > 0 || result.rejected.length === 0
+    if (!result.success) {
+      result.errors.push('No version in the catalog passed verification')
+    }
+    return result
+  }
+
+  /**
+   * Set or clear the local URL the catalog is refreshed from
+   */
+  setCatalogUrl(url: string | null): { success: boolean; errors: string[] } {
+    const trimmed = url ? url.trim() : ''
+    if (trimmed && !isLocalCatalogUrl(trimmed)) {
+      return { success: false, errors: ['The catalog URL must be on this site or on this machine (localhost)'] }
+    }
+    this.catalogSource = { ...this.catalogSource, url: trimmed || undefined }
+    this.persistToStorage()
+    return { success: true, errors: [] }
+  }
+
+  getCatalogSource(): CatalogSource {
+    return { ...this.catalogSource }
   }
 
   /**
@@ -140,7 +402,7 @@ export class VersionManager {
       versions[existingIndex] = version
     } else {
       versions.push(version)
-      versions.sort((a, b) => this.compareVersions(b.version, a.version)) // Latest first
+      versions.sort((a, b) => compareVersions(b.version, a.version)) // Latest first
     }
     
     this.toolVersions.set(toolId, versions)
@@ -155,55 +417,93 @@ export class VersionManager {
   }
 
   /**
-   * Get latest version for a tool
+   * Get latest version for a tool on its release channel. Deprecated versions are
+   * never offered, and pre-releases only to tools on the beta channel.
    */
   getLatestVersion(toolId: string): ToolVersion | null {
-    const versions = this.getToolVersions(toolId)
-    return versions.length > 0 ? versions[0] : null
+    const includePrereleases = this.getReleaseChannel(toolId) === 'beta'
+    return this.getToolVersions(toolId).find(version =>
+      !version.deprecated && (includePrereleases || !isPrerelease(version.version))
+    ) || null
+  }
+
+  /**
+   * Tools the catalog lists versions for
+   */
+  getVersionedTools(): string[] {
+    return Array.from(this.toolVersions.keys())
+  }
+
+  getReleaseChannel(toolId: string): ReleaseChannel {
+    return this.releaseChannels.get(toolId) || 'stable'
+  }
+
+  /**
+   * Move a tool to another release channel. Pending updates are worked out again, so
+   * leaving beta drops an offered pre-release; an installed pre-release stays installed.
+   */
+  async setReleaseChannel(toolId: string, channel: ReleaseChannel): Promise<void> {
+    if (channel === 'stable') {
+      this.releaseChannels.delete(toolId)
+    } else {
+      this.releaseChannels.set(toolId, channel)
+    }
+    this.persistToStorage()
+    await this.checkForUpdates()
   }
 
   /**
-   * Get current installed version
+   * Get current installed version; tools installed before any update was recorded
+   * are at the version the registry lists
    */
   getCurrentVersion(toolId: string): string | null {
     const history = this.versionHistory.get(toolId)
-    if (!history) return null
-
-    const currentInstall = history.versions
+    const currentInstall = history?.versions
       .filter(v => !v.removedAt)
       .sort((a, b) => b.installedAt.getTime() - a.installedAt.getTime())[0]
 
-    return currentInstall?.version || null
+    return currentInstall?.version || toolRegistry.get(toolId)?.version || null
   }
 
   /**
-   * Check for updates for all tools
+   * Check for updates for all tools. A scheduled check only looks again at tools whose
+   * policy schedule is due (security updates always get through); any other check covers
+   * every tool. Tools that are no longer behind drop out of the pending updates.
    */
-  async checkForUpdates(): Promise<UpdateInfo[]> {
+  async checkForUpdates(options: { scheduled?: boolean } = {}): Promise<UpdateInfo[]> {
     const updates: UpdateInfo[] = []
-    
+    const now = Date.now()
+
     this.toolVersions.forEach((versions, toolId) => {
       const currentVersion = this.getCurrentVersion(toolId)
-      if (!currentVersion) return
-
       const latestVersion = this.getLatestVersion(toolId)
-      if (!latestVersion) return
+      if (!currentVersion || !latestVersion || compareVersions(latestVersion.version, currentVersion) <= 0) {
+        this.pendingUpdates.delete(toolId)
+        return
+      }
 
-      if (this.compareVersions(latestVersion.version, currentVersion) > 0) {
-        const updateInfo = this.createUpdateInfo(toolId, currentVersion, latestVersion)
-        updates.push(updateInfo)
-        this.pendingUpdates.set(toolId, updateInfo)
+      const updateInfo = this.createUpdateInfo(toolId, currentVersion, latestVersion)
+      if (options.scheduled && updateInfo.updateType !== 'security' && !this.isCheckDue(toolId, now)) {
+        return
       }
+
+      this.lastToolChecks.set(toolId, now)
+      updates.push(updateInfo)
+      this.pendingUpdates.set(toolId, updateInfo)
     })
 
+    this.setLastCheckTime()
     this.persistToStorage()
     return updates
   }
 
   /**
-   * Update a tool to a specific version
+   * Update a tool to a specific version, along with any dependencies it needs. Every
+   * tool's data is migrated before anything is written: if any migration fails, nothing
+   * is written and all of them stay on their versions. If saving one of them fails, the
+   * tools already updated are put back.
    */
-  async updateTool(toolId: string, targetVersion: string, force: boolean = false): Promise<UpdateResult> {
+  async updateTool(toolId: string, targetVersion: string, force: boolean = false, options: UpdateOptions = {}): Promise<UpdateResult> {
     const currentVersion = this.getCurrentVersion(toolId)
     if (!currentVersion) {
       return {
@@ -237,60 +537,181 @@ export class VersionManager {
     }
 
     const startTime = Date.now()
-    const result: UpdateResult = {
-      success: false,
-      toolId,
-      fromVersion: currentVersion,
-      toVersion: targetVersion,
-      duration: 0,
-      errors: [],
-      warnings: [],
-      backupCreated: false,
-      migrationApplied: false
-    }
+    const result = createUpdateResult(toolId, currentVersion, targetVersion)
 
     try {
-      // Check compatibility
-      if (!force && !this.isCompatible(targetVersionInfo)) {
-        result.errors.push('Version not compatible with current app version')
-        return result
+      // Check compatibility and dependencies; a forced update installs only this tool
+      let installs: UpdatePlan['installs'] = [{ toolId, fromVersion: currentVersion, toVersion: targetVersion }]
+      if (!force) {
+        const plan = this.planUpdate(toolId, targetVersion)
+        result.warnings.push(...plan.warnings)
+        if (!plan.allowed) {
+          result.blockers = plan.blockers
+          result.errors.push(...plan.blockers.map(blocker => blocker.message))
+          return result
+        }
+        installs = plan.installs
+        result.dependencyUpdates = []
       }
 
-      // Create backup if required
-      const updateInfo = this.pendingUpdates.get(toolId)
-      if (updateInfo?.backupRequired) {
-        await this.createBackup(toolId, currentVersion)
-        result.backupCreated = true
+      // Migrate every tool's data in memory before writing any of it, so a failing
+      // migration leaves all of them as they were
+      const prepared: PreparedInstall[] = []
+      for (const install of installs) {
+        const installResult = install.toolId === toolId ? result : createUpdateResult(install.toolId, install.fromVersion, install.toVersion)
+        if (installResult !== result) result.dependencyUpdates!.push(installResult)
+
+        const migrations = this.getMigrationsForUpdate(install.toolId, install.fromVersion, install.toVersion)
+        try {
+          const data = migrations.length > 0 ? await this.migrateToolData(install.toolId, migrations, migration => migration.script) : null
+          prepared.push({ ...install, migrations, data, result: installResult })
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          installResult.errors.push(message)
+          if (installResult !== result) {
+            result.errors.push(`Couldn't update ${this.describeTool(install.toolId)} to ${install.toVersion}: ${message}`)
+          }
+          return result
+        }
       }
 
-      // Apply migrations
-      const migrations = this.getMigrationsForUpdate(toolId, currentVersion, targetVersion)
-      if (migrations.length > 0) {
-        await this.applyMigrations(toolId, migrations)
-        result.migrationApplied = true
+      const applied: PreparedInstall[] = []
+      try {
+        for (const install of prepared) {
+          await this.applyInstall(install, options)
+          applied.push(install)
+        }
+      } catch (error) {
+        // Only a failed save gets here; tools updated before it go back to where they were
+        result.errors.push(error instanceof Error ? error.message : String(error))
+        await this.undoInstalls(applied, `updating ${this.describeTool(toolId)} to ${targetVersion} failed`)
+        return result
       }
 
-      // Update version history
-      this.recordVersionUpdate(toolId, targetVersion, 'manual')
-
-      // Remove from pending updates
-      this.pendingUpdates.delete(toolId)
-
-      result.success = true
+      prepared.forEach(install => {
+        install.result.success = true
+        this.pendingUpdates.delete(install.toolId)
+      })
       result.duration = Date.now() - startTime
 
     } catch (error) {
       result.errors.push(error instanceof Error ? error.message : String(error))
+    } finally {
+      this.persistToStorage()
     }
 
-    this.persistToStorage()
     return result
   }
 
   /**
-   * Rollback to previous version
+   * Work out whether a version can be installed: it has to suit this app and browser, and
+   * its dependencies have to be installed in a fitting version or be updatable to one
+   * without breaking other installed tools. Dependency cycles are refused.
    */
-  async rollbackTool(toolId: string): Promise<UpdateResult> {
+  planUpdate(toolId: string, targetVersion: string): UpdatePlan {
+    const plan: UpdatePlan = { toolId, targetVersion, allowed: false, installs: [], blockers: [], warnings: [] }
+    const target = this.getToolVersions(toolId).find(v => v.version === targetVersion)
+    const currentVersion = this.getCurrentVersion(toolId)
+    if (!target || !currentVersion) {
+      plan.blockers.push({ type: 'dependency', message: target ? 'Tool not currently installed' : `Version ${targetVersion} not found` })
+      return plan
+    }
+
+    // Version each tool will be at once the plan is carried out, and which requirement picked it
+    const planned = new Map<string, { version: string; reason: string }>([
+      [toolId, { version: targetVersion, reason: `${this.describeTool(toolId)} ${targetVersion}` }]
+    ])
+    const resolved = new Set<string>()
+
+    const resolve = (id: string, version: ToolVersion, path: string[], installing: boolean) => {
+      const key = `${id}@${version.version}`
+      if (resolved.has(key)) return
+      resolved.add(key)
+      const label = `${this.describeTool(id)} ${version.version}`
+
+      if (installing) {
+        const compatibility = checkCompatibility(version.compatibility)
+        const prefix = id === toolId ? '' : `${label} (a dependency): `
+        compatibility.problems.forEach(problem => plan.blockers.push({ type: problem.type, message: prefix + problem.message }))
+        compatibility.warnings.forEach(warning => plan.warnings.push(prefix + warning))
+      }
+
+      version.dependencies.filter(dependency => dependency.type !== 'development').forEach(dependency => {
+        const needs = `${label} needs ${this.describeTool(dependency.name)} ${dependency.version}`
+        const problem = (type: UpdateBlocker['type'], message: string) => {
+          if (dependency.required) plan.blockers.push({ type, message })
+          else plan.warnings.push(`${message} (optional, so it will be left out)`)
+        }
+
+        if (path.includes(dependency.name)) {
+          const cycle = [...path, dependency.name].map(step => this.describeTool(step)).join(' → ')
+          plan.blockers.push({ type: 'cycle', message: `Dependency cycle: ${cycle}` })
+          return
+        }
+
+        const chosen = planned.get(dependency.name)
+        if (chosen) {
+          if (!satisfiesVersion(chosen.version, dependency.version)) {
+            problem('conflict', `${needs}, but ${chosen.reason} needs ${chosen.version}`)
+          }
+          return
+        }
+
+        const installed = this.getCurrentVersion(dependency.name)
+        if (!installed) {
+          problem('dependency', `${needs}, which isn't installed`)
+          return
+        }
+
+        if (satisfiesVersion(installed, dependency.version)) {
+          planned.set(dependency.name, { version: installed, reason: `the installed ${this.describeTool(dependency.name)}` })
+          const installedInfo = this.getToolVersions(dependency.name).find(v => v.version === installed)
+          if (installedInfo) resolve(dependency.name, installedInfo, [...path, dependency.name], false)
+          return
+        }
+
+        const candidate = this.getToolVersions(dependency.name).find(v =>
+          !v.deprecated && compareVersions(v.version, installed) > 0 && satisfiesVersion(v.version, dependency.version)
+        )
+        if (!candidate) {
+          problem('dependency', `${needs}; ${installed} is installed and no available version fits`)
+          return
+        }
+
+        planned.set(dependency.name, { version: candidate.version, reason: label })
+        resolve(dependency.name, candidate, [...path, dependency.name], true)
+        plan.installs.push({ toolId: dependency.name, fromVersion: installed, toVersion: candidate.version })
+      })
+    }
+
+    resolve(toolId, target, [toolId], true)
+    plan.installs.push({ toolId, fromVersion: currentVersion, toVersion: targetVersion })
+
+    // Installed tools that stay as they are must still accept every version that changes
+    toolRegistry.getAll().forEach(({ id: dependentId }) => {
+      if (plan.installs.some(install => install.toolId === dependentId)) return
+      const dependentVersion = this.getCurrentVersion(dependentId)
+      const dependentInfo = this.getToolVersions(dependentId).find(v => v.version === dependentVersion)
+      dependentInfo?.dependencies.forEach(dependency => {
+        const install = plan.installs.find(i => i.toolId === dependency.name)
+        if (!install || dependency.type === 'development' || satisfiesVersion(install.toVersion, dependency.version)) return
+
+        const message = `${this.describeTool(dependentId)} ${dependentVersion} needs ${this.describeTool(dependency.name)} ${dependency.version}, so it can't move to ${install.toVersion}`
+        if (dependency.required) plan.blockers.push({ type: 'conflict', message })
+        else plan.warnings.push(message)
+      })
+    })
+
+    plan.allowed = plan.blockers.length === 0
+    return plan
+  }
+
+  /**
+   * Roll back to the previous version: put the tool's data back as it was saved before the
+   * update, or, if that's gone, undo the update's reversible migrations. The current version
+   * is then marked removed so it isn't picked as the previous version again.
+   */
+  async rollbackTool(toolId: string, reason: string = 'Rolled back by the user'): Promise<UpdateResult> {
     const history = this.versionHistory.get(toolId)
     if (!history || history.versions.length < 2) {
       return {
@@ -311,7 +732,7 @@ export class VersionManager {
       .filter(v => !v.removedAt && v.version !== currentVersion)
       .sort((a, b) => b.installedAt.getTime() - a.installedAt.getTime())[0]
 
-    if (!previousVersion) {
+    if (!currentVersion || !previousVersion) {
       return {
         success: false,
         toolId,
@@ -325,7 +746,70 @@ export class VersionManager {
       }
     }
 
-    return this.updateTool(toolId, previousVersion.version, true)
+    const startTime = Date.now()
+    const result: UpdateResult = {
+      success: false,
+      toolId,
+      fromVersion: currentVersion,
+      toVersion: previousVersion.version,
+      duration: 0,
+      errors: [],
+      warnings: [],
+      backupCreated: false,
+      migrationApplied: false
+    }
+
+    const currentEntries = history.versions.filter(v => !v.removedAt && v.version === currentVersion)
+    // The update that installed the current version; earlier rollbacks to it don't count
+    const installReport = currentEntries.filter(v => v.source !== 'rollback').pop()?.report
+    const appliedIds = installReport?.migrations || []
+    const migrations = (this.migrations.get(toolId) || []).filter(migration => appliedIds.includes(migration.id))
+
+    try {
+      if (installReport?.dataSnapshotId && installReport.fromVersion === previousVersion.version) {
+        const restored = await backupManager.restoreToolDataSnapshot(installReport.dataSnapshotId)
+        if (restored.success) {
+          result.dataSnapshotId = installReport.dataSnapshotId
+        } else {
+          result.warnings.push(`The saved data couldn't be restored (${restored.errors.join('; ')}), so migrations are undone instead`)
+        }
+      }
+
+      let undone: Migration[] = []
+      if (!result.dataSnapshotId) {
+        const irreversible = migrations.filter(migration => !migration.reversible || !migration.rollback)
+        if (irreversible.length > 0) {
+          result.warnings.push(`Data changes from ${irreversible.map(m => m.id).join(', ')} can't be undone; restore a backup snapshot if needed`)
+        }
+
+        undone = migrations.filter(migration => irreversible.indexOf(migration) === -1).reverse()
+        if (undone.length > 0) {
+          await this.transformToolData(toolId, undone, migration => migration.rollback!)
+          result.migrationApplied = true
+        }
+      }
+
+      const rolledBack = { at: new Date(), reason }
+      currentEntries.forEach(entry => {
+        entry.removedAt = rolledBack.at
+        if (entry.report && entry.source !== 'rollback') entry.report = { ...entry.report, rolledBack }
+      })
+      this.recordVersionUpdate(toolId, previousVersion.version, 'rollback', {
+        fromVersion: currentVersion,
+        toVersion: previousVersion.version,
+        migrations: undone.map(migration => migration.id),
+        dataSnapshotId: result.dataSnapshotId,
+        rolledBack
+      })
+
+      result.success = true
+      result.duration = Date.now() - startTime
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error))
+    }
+
+    this.persistToStorage()
+    return result
   }
 
   /**
@@ -339,15 +823,21 @@ export class VersionManager {
    * Get update policy for a tool
    */
   getUpdatePolicy(toolId: string): UpdatePolicy {
-    return this.updatePolicies.get(toolId) || this.getDefaultUpdatePolicy()
+    return this.updatePolicies.get(toolId) || this.updatePolicies.get('default') || this.getDefaultUpdatePolicy()
   }
 
   /**
    * Set update policy for a tool
    */
-  setUpdatePolicy(toolId: string, policy: UpdatePolicy): void {
+  setUpdatePolicy(toolId: string, policy: UpdatePolicy): { success: boolean; errors: string[] } {
+    const errors = validateUpdatePolicy(policy)
+    if (errors.length > 0) {
+      return { success: false, errors }
+    }
+
     this.updatePolicies.set(toolId, policy)
     this.persistToStorage()
+    return { success: true, errors: [] }
   }
 
   /**
@@ -363,7 +853,7 @@ export class VersionManager {
   registerMigration(migration: Migration): void {
     const migrations = this.migrations.get(migration.toolId) || []
     migrations.push(migration)
-    migrations.sort((a, b) => this.compareVersions(a.toVersion, b.toVersion))
+    migrations.sort((a, b) => compareVersions(a.toVersion, b.toVersion))
     this.migrations.set(migration.toolId, migrations)
   }
 
@@ -394,25 +884,8 @@ export class VersionManager {
   /**
    * Private helper methods
    */
-  private compareVersions(version1: string, version2: string): number {
-    const v1Parts = version1.split('.').map(Number)
-    const v2Parts = version2.split('.').map(Number)
-    
-    const maxLength = Math.max(v1Parts.length, v2Parts.length)
-    
-    for (let i = 0; i < maxLength; i++) {
-      const v1Part = v1Parts[i] || 0
-      const v2Part = v2Parts[i] || 0
-      
-      if (v1Part > v2Part) return 1
-      if (v1Part < v2Part) return -1
-    }
-    
-    return 0
-  }
-
   private createUpdateInfo(toolId: string, currentVersion: string, latestVersion: ToolVersion): UpdateInfo {
-    const updateType = this.determineUpdateType(currentVersion, latestVersion.version)
+    const updateType = this.determineUpdateType(toolId, currentVersion, latestVersion.version)
     const priority = this.determineUpdatePriority(latestVersion, updateType)
     const policy = this.getUpdatePolicy(toolId)
 
@@ -430,13 +903,22 @@ export class VersionManager {
     }
   }
 
-  private determineUpdateType(currentVersion: string, latestVersion: string): 'major' | 'minor' | 'patch' | 'security' {
-    const current = currentVersion.split('.').map(Number)
-    const latest = latestVersion.split('.').map(Number)
+  private determineUpdateType(toolId: string, currentVersion: string, latestVersion: string): 'major' | 'minor' | 'patch' | 'security' {
+    const current = parseVersion(currentVersion)
+    const latest = parseVersion(latestVersion)
+
+    // A major release stays major even with security fixes, so policies don't auto-install breaking changes
+    if (current && latest && latest.major > current.major) return 'major'
 
-    if (latest[0] > current[0]) return 'major'
-    if (latest[1] > current[1]) return 'minor'
-    return 'patch' // Assume patch for now, security would be determined by release notes
+    const fixesSecurity = this.getToolVersions(toolId).some(version =>
+      compareVersions(version.version, currentVersion) > 0 &&
+      compareVersions(version.version, latestVersion) <= 0 &&
+      version.securityFixes.length > 0
+    )
+    if (fixesSecurity) return 'security'
+
+    if (current && latest && latest.minor > current.minor) return 'minor'
+    return 'patch'
   }
 
   private determineUpdatePriority(version: ToolVersion, updateType: string): 'low' | 'medium' | 'high' | 'critical' {
@@ -457,52 +939,147 @@ export class VersionManager {
     return Math.ceil(time)
   }
 
-  private isCompatible(version: ToolVersion): boolean {
-    // For now, assume all versions are compatible
-    // In a real implementation, this would check against app version
-    return true
-  }
-
-  private async createBackup(toolId: string, version: string): Promise<void> {
-    // In a real implementation, this would create a backup of tool data
-    console.log(`Creating backup for ${toolId} version ${version}`)
+  // Returns the id of a snapshot holding app data as it is now
+  private async createBackup(toolId: string, version: string, targetVersion: string): Promise<string | undefined> {
+    const name = toolRegistry.get(toolId)?.name || toolId
+    try {
+      const snapshot = await backupManager.takeSnapshot(`Before updating ${name} from ${version} to ${targetVersion}`)
+      // Nothing changed since the latest snapshot, which therefore already holds the current data
+      return snapshot ? snapshot.id : backupManager.getSnapshots()[0]?.id
+    } catch (error) {
+      console.error(`Failed to back up before updating ${toolId}:`, error)
+      return undefined
+    }
   }
 
   private getMigrationsForUpdate(toolId: string, fromVersion: string, toVersion: string): Migration[] {
     const migrations = this.migrations.get(toolId) || []
     
     return migrations.filter(migration => {
-      const fromCompare = this.compareVersions(migration.fromVersion, fromVersion)
-      const toCompare = this.compareVersions(migration.toVersion, toVersion)
+      const fromCompare = compareVersions(migration.fromVersion, fromVersion)
+      const toCompare = compareVersions(migration.toVersion, toVersion)
       
       return fromCompare >= 0 && toCompare <= 0
     })
   }
 
-  private async applyMigrations(toolId: string, migrations: Migration[]): Promise<void> {
+  // Snapshot, back up, save the migrated data and record the new version of one planned install
+  private async applyInstall(install: PreparedInstall, options: UpdateOptions): Promise<void> {
+    const { toolId, fromVersion, toVersion, result } = install
+
+    // Keep the tool's data exactly as it is, so a rollback can put it back
+    this.pruneDataSnapshots(toolId)
+    const dataSnapshot = await backupManager.takeToolDataSnapshot(toolId, fromVersion)
+    if (dataSnapshot) {
+      result.dataSnapshotId = dataSnapshot.id
+    } else {
+      result.warnings.push(`${this.describeTool(toolId)}'s data could not be saved, so a rollback can only undo reversible migrations`)
+    }
+
+    // Create backup if required
+    const updateInfo = this.pendingUpdates.get(toolId)
+    if (updateInfo?.backupRequired || options.backup) {
+      result.backupId = await this.createBackup(toolId, fromVersion, toVersion)
+      result.backupCreated = !!result.backupId
+      if (!result.backupCreated) {
+        result.warnings.push('The backup snapshot could not be saved')
+      }
+    }
+
+    if (install.data) {
+      if (!ToolDataStorage.set(toolId, install.data)) {
+        throw new Error(`Failed to save migrated data for ${this.describeTool(toolId)}`)
+      }
+      result.migrationApplied = true
+    }
+
+    // Update version history
+    this.recordVersionUpdate(toolId, toVersion, options.source || 'manual', {
+      fromVersion,
+      toVersion,
+      updateType: updateInfo?.latestVersion === toVersion ? updateInfo.updateType : undefined,
+      migrations: install.migrations.map(migration => migration.id),
+      backupId: result.backupId,
+      dataSnapshotId: result.dataSnapshotId,
+      maintenanceWindow: options.maintenanceWindow
+    })
+  }
+
+  // Put tools updated as part of a plan that failed part way back on their previous version and data
+  private async undoInstalls(applied: PreparedInstall[], reason: string): Promise<void> {
+    for (const install of applied.slice().reverse()) {
+      const { result } = install
+      if (install.data) {
+        const restored = result.dataSnapshotId
+          ? await backupManager.restoreToolDataSnapshot(result.dataSnapshotId)
+          : { success: false, errors: ['its data was not saved before the update'] }
+        if (!restored.success) {
+          result.warnings.push(`${this.describeTool(install.toolId)}'s data could not be put back: ${restored.errors.join('; ')}`)
+        }
+      }
+      // Drop the entry applyInstall recorded, so the previous version is current again
+      this.versionHistory.get(install.toolId)?.versions.pop()
+      result.errors.push(`Undone because ${reason}`)
+    }
+  }
+
+  // Run each step over the tool's stored data and save the result only if all of them succeed
+  private async transformToolData(
+    toolId: string,
+    migrations: Migration[],
+    step: (migration: Migration) => (data: any) => Promise<any>
+  ): Promise<void> {
+    const data = await this.migrateToolData(toolId, migrations, step)
+    if (!ToolDataStorage.set(toolId, data)) {
+      throw new Error(`Failed to save migrated data for ${toolId}`)
+    }
+  }
+
+  // Run each step over the tool's stored data in memory, without saving anything
+  private async migrateToolData(
+    toolId: string,
+    migrations: Migration[],
+    step: (migration: Migration) => (data: any) => Promise<any>
+  ): Promise<ToolData> {
+    if (ToolDataStorage.isEncrypted(toolId) && encryptedStorage.getState() !== 'unlocked') {
+      throw new Error('Unlock encrypted storage first; this tool\'s data has to be migrated')
+    }
+
+    let data: ToolData = ToolDataStorage.get<ToolData>(toolId, { __schemaVersion: 1 })
     for (const migration of migrations) {
       try {
-        console.log(`Applying migration ${migration.id} for ${toolId}`)
-        // In a real implementation, this would execute the migration script
-        await migration.script({})
+        const migrated = await step(migration)(data)
+        if (migrated !== undefined) data = migrated
       } catch (error) {
         console.error(`Migration ${migration.id} failed:`, error)
-        throw error
+        throw new Error(`Migration ${migration.id} failed: ${error instanceof Error ? error.message : error}`)
       }
     }
+    return data
   }
 
-  private recordVersionUpdate(toolId: string, version: string, source: 'auto' | 'manual' | 'rollback'): void {
+  private recordVersionUpdate(toolId: string, version: string, source: 'auto' | 'manual' | 'rollback', report?: UpdateReport): void {
     let history = this.versionHistory.get(toolId)
     if (!history) {
       history = { toolId, versions: [] }
       this.versionHistory.set(toolId, history)
+
+      // Remember the version the tool came with, so the first update can be rolled back
+      if (report && report.fromVersion !== version) {
+        history.versions.push({
+          version: report.fromVersion,
+          installedAt: toolRegistry.get(toolId)?.createdAt || new Date(0),
+          source: 'manual'
+        })
+      }
     }
 
     history.versions.push({
       version,
       installedAt: new Date(),
-      source
+      source,
+      notes: report ? describeUpdateReport(report) : undefined,
+      report
     })
   }
 
@@ -527,33 +1104,81 @@ export class VersionManager {
   private scheduleUpdateChecks(): void {
     // Check for updates every 6 hours
     setInterval(() => {
-      this.checkForUpdates()
+      this.runScheduledCheck()
     }, 6 * 60 * 60 * 1000)
   }
 
+  private async runScheduledCheck(): Promise<void> {
+    if (this.catalogSource.url) {
+      const refreshed = await this.loadCatalogFromUrl()
+      if (refreshed.errors.length > 0) {
+        console.error('Failed to refresh tool catalog:', refreshed.errors)
+      }
+    }
+    await this.checkForUpdates({ scheduled: true })
+    this.pruneDataSnapshots()
+  }
+
+  // Saved tool data is kept for the tool's backupRetention days
+  private pruneDataSnapshots(toolId?: string): void {
+    const toolIds = toolId
+      ? [toolId]
+      : backupManager.getToolDataSnapshots().map(snapshot => snapshot.toolId)
+          .filter((id, index, ids) => ids.indexOf(id) === index)
+
+    toolIds.forEach(id => {
+      const retention = this.getUpdatePolicy(id).backupRetention * 24 * 60 * 60 * 1000
+      backupManager.pruneToolDataSnapshots(new Date(Date.now() - retention), id)
+    })
+  }
+
+  private isCheckDue(toolId: string, now: number): boolean {
+    const lastCheck = this.lastToolChecks.get(toolId)
+    return lastCheck === undefined
+      ? this.getUpdatePolicy(toolId).schedule !== 'manual'
+      : now - lastCheck >= SCHEDULE_INTERVALS[this.getUpdatePolicy(toolId).schedule]
+  }
+
+  private describeTool(toolId: string): string {
+    return toolRegistry.get(toolId)?.name || toolId
+  }
+
+  private failedCatalogLoad(errors: string[]): CatalogLoadResult {
+    return { success: false, catalogName: '', toolsUpdated: 0, versionsLoaded: 0, rejected: [], errors, updates: [] }
+  }
+
   private getLastCheckTime(): Date | null {
     const stored = localStorage.getItem('app-studio-last-update-check')
     return stored ? new Date(stored) : null
   }
 
   private setLastCheckTime(): void {
+    if (typeof window === 'undefined') return
     localStorage.setItem('app-studio-last-update-check', new Date().toISOString())
   }
 
   private persistToStorage(): void {
     if (typeof window === 'undefined') return
 
+    // The stored version data failed to migrate; saving would replace it with what was loaded instead
+    if (Storage.hasFailedMigration('app-studio-version-manager')) {
+      console.warn('Not saving version manager data: its stored data could not be migrated')
+      return
+    }
+
     try {
       const data = {
         __schemaVersion: 1,
         toolVersions: Array.from(this.toolVersions.entries()),
         updatePolicies: Array.from(this.updatePolicies.entries()),
         versionHistory: Array.from(this.versionHistory.entries()),
-        pendingUpdates: Array.from(this.pendingUpdates.entries())
+        pendingUpdates: Array.from(this.pendingUpdates.entries()),
+        lastToolChecks: Array.from(this.lastToolChecks.entries()),
+        releaseChannels: Array.from(this.releaseChannels.entries()),
+        catalogSource: this.catalogSource
       }
 
       localStorage.setItem('app-studio-version-manager', JSON.stringify(data))
-      this.setLastCheckTime()
     } catch (error) {
       console.error('Failed to persist version manager data:', error)
     }
@@ -582,6 +1207,10 @@ export class VersionManager {
         this.updatePolicies = new Map(data.updatePolicies)
       }
 
+      if (data.releaseChannels) {
+        this.releaseChannels = new Map(data.releaseChannels)
+      }
+
       if (data.versionHistory) {
         this.versionHistory = new Map(data.versionHistory.map(([toolId, history]: [string, any]) => [
           toolId,
@@ -591,7 +1220,10 @@ export class VersionManager {
               ...v,
               installedAt: new Date(v.installedAt),
               updatedAt: v.updatedAt ? new Date(v.updatedAt) : undefined,
-              removedAt: v.removedAt ? new Date(v.removedAt) : undefined
+              removedAt: v.removedAt ? new Date(v.removedAt) : undefined,
+              report: v.report && v.report.rolledBack
+                ? { ...v.report, rolledBack: { ...v.report.rolledBack, at: new Date(v.report.rolledBack.at) } }
+                : v.report
             }))
           }
         ]))
@@ -601,12 +1233,158 @@ export class VersionManager {
         this.pendingUpdates = new Map(data.pendingUpdates)
       }
 
+      if (data.lastToolChecks) {
+        this.lastToolChecks = new Map(data.lastToolChecks)
+      }
+
+      if (data.catalogSource) {
+        this.catalogSource = {
+          ...data.catalogSource,
+          loadedAt: data.catalogSource.loadedAt ? new Date(data.catalogSource.loadedAt) : undefined
+        }
+      }
+
     } catch (error) {
       console.error('Failed to load version manager data:', error)
     }
   }
 }
 
+/**
+ * The checksum a catalog entry should carry: SHA-256 hex of its canonical JSON, checksum left out
+ */
+export async function computeVersionChecksum(version: ToolVersion | Record<string, any>): Promise<string> {
+  const { checksum, ...content } = version as Record<string, any>
+  // Round-trip so Dates hash as the ISO strings a catalog file holds
+  return sha256Hex(canonicalJson(JSON.parse(JSON.stringify(content))))
+}
+
+/**
+ * Catalogs may only come from this site or this machine, never a remote server
+ */
+export function isLocalCatalogUrl(url: string): boolean {
+  if (url.startsWith('/') && !url.startsWith('//')) return true
+  const match = /^https?:\/\/(\[[^\]]+\]|[^/:?#]+)/i.exec(url)
+  if (!match) return false
+  const host = match[1].toLowerCase()
+  if (host === 'localhost' || host === '127.0.0.1' || host === '[::1]' || host.endsWith('.localhost')) return true
+  return typeof window !== 'undefined' && !!window.location && new URL(url).origin === window.location.origin
+}
+
+/**
+ * One-line summary of an update report for the version history
+ */
+export function describeUpdateReport(report: UpdateReport): string {
+  const parts = [report.rolledBack ? `Rolled back ${report.fromVersion} → ${report.toVersion}` : `${report.fromVersion} → ${report.toVersion}`]
+  if (report.updateType) parts.push(`${report.updateType} update`)
+  if (report.maintenanceWindow) parts.push(`in maintenance window ${report.maintenanceWindow}`)
+  if (report.migrations.length > 0) parts.push(`migrations: ${report.migrations.join(', ')}`)
+  if (report.backupId) parts.push(`backup ${report.backupId}`)
+  if (report.rolledBack && report.dataSnapshotId) parts.push('tool data restored as saved before the update')
+  if (report.rolledBack) parts.push(report.rolledBack.reason)
+  return parts.join('; ')
+}
+
+function createUpdateResult(toolId: string, fromVersion: string, toVersion: string): UpdateResult {
+  return {
+    success: false,
+    toolId,
+    fromVersion,
+    toVersion,
+    duration: 0,
+    errors: [],
+    warnings: [],
+    backupCreated: false,
+    migrationApplied: false
+  }
+}
+
+function validateUpdatePolicy(policy: UpdatePolicy): string[] {
+  const errors: string[] = []
+  if (!(policy.schedule in SCHEDULE_INTERVALS)) {
+    errors.push(`Unknown schedule "${policy.schedule}"`)
+  }
+  if (!(policy.rollbackTimeout >= 0) || !(policy.backupRetention >= 0)) {
+    errors.push('Rollback timeout and backup retention must be zero or more')
+  }
+
+  const window = policy.maintenanceWindow
+  if (window) {
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(window.start) || !/^([01]\d|2[0-3]):[0-5]\d$/.test(window.end)) {
+      errors.push('Maintenance window times must be in HH:MM format')
+    }
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: window.timezone })
+    } catch {
+      errors.push(`Unknown timezone "${window.timezone}"`)
+    }
+  }
+  return errors
+}
+
+function validateCatalog(catalog: any): string[] {
+  const errors: string[] = []
+  if (!catalog || typeof catalog !== 'object') {
+    return ['Invalid catalog format']
+  }
+  if (!catalog.__catalogVersion) {
+    errors.push('Missing catalog version; is this a tool catalog?')
+  } else if (String(catalog.__catalogVersion).split('.')[0] !== CATALOG_FORMAT_VERSION.split('.')[0]) {
+    errors.push(`Unsupported catalog version ${catalog.__catalogVersion}`)
+  }
+  if (!catalog.name || typeof catalog.name !== 'string') {
+    errors.push('Missing catalog name')
+  }
+  if (!Array.isArray(catalog.tools)) {
+    errors.push('Missing or invalid tools array')
+  } else {
+    catalog.tools.forEach((tool: any, index: number) => {
+      if (!tool || typeof tool.toolId !== 'string' || !tool.toolId) errors.push(`Tool ${index + 1}: Missing toolId`)
+      else if (!Array.isArray(tool.versions)) errors.push(`Tool "${tool.toolId}": Missing versions array`)
+    })
+  }
+  return errors
+}
+
+// What's wrong with one catalog entry, or null when it's usable
+function validateCatalogVersion(version: any): string | null {
+  if (!version || typeof version !== 'object') return 'not a version entry'
+  if (typeof version.version !== 'string' || !isValidVersion(version.version)) return 'version must be semver, like 1.2.3 or 2.0.0-beta.1'
+  if (isNaN(new Date(version.releaseDate).getTime())) return 'missing or invalid releaseDate'
+  if (typeof version.checksum !== 'string' || !/^[0-9a-f]{64}$/i.test(version.checksum)) return 'missing SHA-256 checksum'
+  if (version.dependencies !== undefined) {
+    if (!Array.isArray(version.dependencies)) return 'dependencies must be a list'
+    const invalid = version.dependencies.find((dependency: any) =>
+      !dependency || typeof dependency.name !== 'string' || typeof dependency.version !== 'string' || !isValidVersionConstraint(dependency.version)
+    )
+    if (invalid) return `invalid dependency ${JSON.stringify(invalid)}`
+  }
+  return null
+}
+
+// Fill in what a catalog may leave out
+function normalizeCatalogVersion(version: any): ToolVersion {
+  const list = (value: any) => Array.isArray(value) ? value : []
+  return {
+    ...version,
+    releaseDate: new Date(version.releaseDate),
+    changelog: list(version.changelog),
+    breaking: !!version.breaking,
+    deprecated: !!version.deprecated,
+    securityFixes: list(version.securityFixes),
+    bugFixes: list(version.bugFixes),
+    features: list(version.features),
+    dependencies: list(version.dependencies),
+    compatibility: {
+      minAppVersion: '0.0.0',
+      browsers: [],
+      platforms: [],
+      features: [],
+      ...version.compatibility
+    }
+  }
+}
+
 // Global version manager instance
 export const versionManager = new VersionManager()
 
@@ -616,11 +1394,19 @@ export function useVersionManager() {
     getToolVersions: (toolId: string) => versionManager.getToolVersions(toolId),
     getLatestVersion: (toolId: string) => versionManager.getLatestVersion(toolId),
     getCurrentVersion: (toolId: string) => versionManager.getCurrentVersion(toolId),
+    getVersionedTools: () => versionManager.getVersionedTools(),
+    getReleaseChannel: (toolId: string) => versionManager.getReleaseChannel(toolId),
+    setReleaseChannel: (toolId: string, channel: ReleaseChannel) => versionManager.setReleaseChannel(toolId, channel),
     checkForUpdates: () => versionManager.checkForUpdates(),
-    updateTool: (toolId: string, targetVersion: string, force?: boolean) => 
-      versionManager.updateTool(toolId, targetVersion, force),
-    rollbackTool: (toolId: string) => versionManager.rollbackTool(toolId),
+    loadCatalogFromFile: (file: File) => versionManager.loadCatalogFromFile(file),
+    loadCatalogFromUrl: (url?: string) => versionManager.loadCatalogFromUrl(url),
+    setCatalogUrl: (url: string | null) => versionManager.setCatalogUrl(url),
+    getCatalogSource: () => versionManager.getCatalogSource(),
+    updateTool: (toolId: string, targetVersion: string, force?: boolean, options?: UpdateOptions) =>
+      versionManager.updateTool(toolId, targetVersion, force, options),
+    rollbackTool: (toolId: string, reason?: string) => versionManager.rollbackTool(toolId, reason),
     getPendingUpdates: () => versionManager.getPendingUpdates(),
+    planUpdate: (toolId: string, targetVersion: string) => versionManager.planUpdate(toolId, targetVersion),
     getUpdatePolicy: (toolId: string) => versionManager.getUpdatePolicy(toolId),
     setUpdatePolicy: (toolId: string, policy: UpdatePolicy) => versionManager.setUpdatePolicy(toolId, policy),
     getVersionHistory: (toolId: string) => versionManager.getVersionHistory(toolId),
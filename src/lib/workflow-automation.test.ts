@@ -0,0 +1,57 @@
+import './browser-shim'
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { getNextOccurrence, WorkflowSchedule } from './workflow-automation'
+
+// Local time, like the schedules themselves. 1 January 2026 is a Thursday.
+const at = (month: number, day: number, hour = 0, minute = 0) => new Date(2026, month - 1, day, hour, minute)
+
+const schedule = (extra: Partial<WorkflowSchedule>): WorkflowSchedule => ({
+  id: 'schedule-1',
+  workflowId: 'workflow-1',
+  name: 'Test schedule',
+  enabled: true,
+  type: 'daily',
+  createdAt: at(1, 1, 9),
+  runCount: 0,
+  ...extra
+})
+
+test('runs a one-off schedule once, if it is still ahead', () => {
+  const once = schedule({ type: 'once', scheduledAt: at(1, 2, 8) })
+  assert.deepEqual(getNextOccurrence(once, at(1, 1, 12)), at(1, 2, 8))
+  assert.equal(getNextOccurrence(once, at(1, 2, 8)), undefined)
+  assert.equal(getNextOccurrence({ ...once, runCount: 1 }, at(1, 1, 12)), undefined)
+})
+
+test('keeps intervals on the grid of their anchor', () => {
+  const interval = schedule({ type: 'interval', intervalMinutes: 90 })
+  assert.deepEqual(getNextOccurrence(interval, at(1, 1, 8)), at(1, 1, 9))
+  assert.deepEqual(getNextOccurrence(interval, at(1, 1, 9)), at(1, 1, 10, 30))
+  assert.deepEqual(getNextOccurrence(interval, at(1, 1, 12, 10)), at(1, 1, 13, 30))
+  assert.equal(getNextOccurrence({ ...interval, intervalMinutes: 0 }, at(1, 1, 8)), undefined)
+})
+
+test('runs daily and weekly schedules at the anchor time of day', () => {
+  const daily = schedule({ scheduledAt: at(1, 1, 7, 30) })
+  assert.deepEqual(getNextOccurrence(daily, at(1, 1, 7, 29)), at(1, 1, 7, 30))
+  assert.deepEqual(getNextOccurrence(daily, at(1, 1, 7, 30)), at(1, 2, 7, 30))
+
+  const weekly = schedule({ type: 'weekly', scheduledAt: at(1, 1, 18), daysOfWeek: [1, 3] })
+  assert.deepEqual(getNextOccurrence(weekly, at(1, 1, 12)), at(1, 5, 18))
+  assert.deepEqual(getNextOccurrence(weekly, at(1, 5, 18)), at(1, 7, 18))
+  // Without days, on the anchor's weekday
+  assert.deepEqual(getNextOccurrence({ ...weekly, daysOfWeek: [] }, at(1, 1, 18)), at(1, 8, 18))
+})
+
+test('clamps monthly schedules to the last day of short months', () => {
+  const monthly = schedule({ type: 'monthly', dayOfMonth: 31 })
+  assert.deepEqual(getNextOccurrence(monthly, at(1, 31, 9)), at(2, 28, 9))
+  assert.deepEqual(getNextOccurrence(monthly, at(2, 28, 9)), at(3, 31, 9))
+})
+
+test('follows cron expressions, and never fires on a broken one', () => {
+  const cron = schedule({ type: 'cron', cronExpression: '0 9 * * MON' })
+  assert.deepEqual(getNextOccurrence(cron, at(1, 1, 12)), at(1, 5, 9))
+  assert.equal(getNextOccurrence({ ...cron, cronExpression: '0 9 * *' }, at(1, 1, 12)), undefined)
+})
@@ -1,9 +1,20 @@
 // Advanced Workflow Automation for App Studio
 // Provides automated workflow execution, scheduling, and monitoring
 
-import { Collection, WorkflowStep, collectionManager } from './collections'
+import {
+  Collection,
+  WorkflowStep,
+  WorkflowInputMapping,
+  WorkflowValueSource,
+  WorkflowCondition,
+  collectionManager
+} from './collections'
 import { toolRegistry } from './tool-registry'
-import { UsageStorage } from './storage'
+import { Storage, STORAGE_KEYS, UsageStorage } from './storage'
+import { ToolActionData, registerBuiltInToolActions } from './tool-actions'
+import { getNextCronRun, parseCronExpression } from './cron-schedule'
+import { AppEvent, eventBus } from './event-bus'
+import { DEFAULT_TOOLS } from '../data/tools'
 
 export interface WorkflowExecution {
   id: string
@@ -16,7 +27,15 @@ export interface WorkflowExecution {
   error?: string
   stepResults: WorkflowStepResult[]
   totalDuration?: number
+  criticalPathDuration?: number // slowest chain of steps, counting each parallel group by its slowest branch
+  totalStepDuration?: number // every step's duration added up, as if nothing ran in parallel
   autoAdvanceEnabled: boolean
+  variables: Record<string, any>
+  interruptedAt?: Date // found running or paused when the app started, waiting to be resumed or abandoned
+  ownerTabId?: string // tab that ran it last; left alone by other tabs while that tab is open
+  updatedAt?: Date // last change saved by any tab; the newer copy wins when tabs save at once
+  replayOf?: string // execution this one re-ran from its failed step
+  replayFromStepIndex?: number // steps before this were copied from replayOf
 }
 
 export interface WorkflowStepResult {
@@ -27,7 +46,32 @@ export interface WorkflowStepResult {
   completedAt?: Date
   duration?: number
   error?: string
-  data?: any
+  manual?: boolean // tool has no action and must be completed by the user
+  input?: ToolActionData
+  output?: ToolActionData
+  branch?: 'then' | 'else' // branch taken by a condition step
+  iterations?: WorkflowStepIteration[] // per-item results for steps inside a loop
+  attempts?: WorkflowStepAttempt[]
+  reused?: boolean // copied from the execution this one replays instead of running again
+}
+
+export interface WorkflowStepAttempt {
+  attempt: number
+  startedAt: Date
+  completedAt: Date
+  duration: number
+  status: 'completed' | 'failed' | 'timed_out'
+  error?: string
+}
+
+export interface WorkflowStepIteration {
+  iteration: number
+  item: any
+  status: 'completed' | 'failed' | 'skipped'
+  output?: ToolActionData
+  branch?: 'then' | 'else'
+  error?: string
+  attempts?: WorkflowStepAttempt[] // this item's attempts, when the step has a retry policy
 }
 
 export interface WorkflowSchedule {
@@ -35,22 +79,46 @@ export interface WorkflowSchedule {
   workflowId: string
   name: string
   enabled: boolean
-  type: 'once' | 'daily' | 'weekly' | 'monthly' | 'interval'
-  scheduledAt?: Date
+  type: 'once' | 'daily' | 'weekly' | 'monthly' | 'interval' | 'cron'
+  scheduledAt?: Date // run time for 'once', time of day / anchor for repeating schedules
   intervalMinutes?: number
   daysOfWeek?: number[] // 0-6, Sunday = 0
   dayOfMonth?: number
+  cronExpression?: string
+  catchUpPolicy?: ScheduleCatchUpPolicy // defaults to 'run_once'
   createdAt: Date
   lastRun?: Date
   nextRun?: Date
   runCount: number
 }
 
+/**
+ * What to do with runs that were due while the app was closed:
+ * run the most recent one, run every one of them, or skip them all
+ */
+export type ScheduleCatchUpPolicy = 'run_once' | 'run_all' | 'skip'
+
+export interface ScheduleRunLogEntry {
+  scheduleId: string
+  workflowId: string
+  scheduledFor: Date
+  loggedAt: Date
+  status: 'on_time' | 'late' | 'missed' | 'failed'
+  delayMs?: number // how long after scheduledFor the run started
+  executionId?: string
+  error?: string
+}
+
 export interface WorkflowTrigger {
   id: string
   workflowId: string
   type: 'tool_usage' | 'time_based' | 'data_change' | 'external_event'
   enabled: boolean
+  /**
+   * Matched against the event payload: a value, a list of allowed values, or a
+   * string with * wildcards (e.g. { key: 'tool-*-data' }). Also understands
+   * crossTab (boolean), minUsageCount (tool_usage) and cooldownSeconds.
+   */
   conditions: Record<string, any>
   createdAt: Date
   lastTriggered?: Date
@@ -78,16 +146,76 @@ export interface WorkflowVariable {
   description: string
 }
 
+/**
+ * Value of a 'file' variable; text files are read into content
+ */
+export interface WorkflowFileValue {
+  name: string
+  type: string
+  size: number
+  content: string
+}
+
+export interface ExecutionRetentionPolicy {
+  maxExecutionsPerWorkflow: number
+  maxAgeDays: number
+}
+
+export const DEFAULT_EXECUTION_RETENTION: ExecutionRetentionPolicy = {
+  maxExecutionsPerWorkflow: 50,
+  maxAgeDays: 30
+}
+
 export interface WorkflowMetrics {
   totalExecutions: number
   successfulExecutions: number
   failedExecutions: number
   averageDuration: number
+  averageCriticalPathDuration: number
+  averageTotalStepDuration: number
   lastExecuted?: Date
   mostUsedStep?: string
   errorRate: number
 }
 
+// Guards against branches that jump back into each other forever
+const MAX_STEP_TRANSITIONS = 1000
+
+class StepTimeoutError extends Error {}
+
+// Thrown into a run that a later resume of the same execution has taken over
+class RunSupersededError extends Error {}
+
+// Runs starting later than this after their scheduled time are logged as late
+const SCHEDULE_LATE_THRESHOLD_MS = 60 * 1000
+
+// Caps for catching up after the app was closed for a long time
+const MAX_CATCH_UP_RUNS = 20
+const MAX_MISSED_OCCURRENCES = 10000
+
+const MAX_SCHEDULE_LOG_ENTRIES = 200
+
+// Last data change each trigger handled, shared between tabs so only one tab runs it
+const TRIGGER_CLAIMS_KEY = 'app-studio-workflow-trigger-claims'
+
+// Scheduled occurrences already started, shared between tabs so only one tab runs each
+const SCHEDULE_CLAIMS_KEY = 'app-studio-workflow-schedule-claims'
+const SCHEDULE_CLAIM_TIMEOUT_MS = 24 * 60 * 60 * 1000
+
+// When each open tab was last seen, so a tab starting up can tell whose executions were cut off
+const TAB_HEARTBEATS_KEY = 'app-studio-workflow-heartbeats'
+const HEARTBEAT_INTERVAL_MS = 10 * 1000
+const HEARTBEAT_TIMEOUT_MS = 30 * 1000
+
+// Owner of the executions this tab runs
+const TAB_ID = `tab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+// The engine's own bookkeeping and background performance metrics never fire data_change triggers
+const INTERNAL_STORAGE_KEYS: string[] = [STORAGE_KEYS.WORKFLOW_AUTOMATION, STORAGE_KEYS.PERFORMANCE, TRIGGER_CLAIMS_KEY, SCHEDULE_CLAIMS_KEY, TAB_HEARTBEATS_KEY]
+
+// setTimeout overflows above 2^31 - 1 ms, so long waits are re-armed in chunks
+const MAX_TIMER_DELAY_MS = 2147483647
+
 /**
  * Workflow Automation Engine
  */
@@ -97,18 +225,41 @@ export class WorkflowAutomationEngine {
   private triggers: Map<string, WorkflowTrigger> = new Map()
   private templates: Map<string, WorkflowTemplate> = new Map()
   private timers: Map<string, NodeJS.Timeout> = new Map()
-  private initialized = false
+  private scheduleLog: ScheduleRunLogEntry[] = []
+  private activeTriggers: Set<string> = new Set()
+  private templateUsage: Map<string, number> = new Map() // usage counts of built-in templates
+  private retention: ExecutionRetentionPolicy = { ...DEFAULT_EXECUTION_RETENTION }
+  private initializing: Promise<void> | null = null
+  private currentRuns: Map<string, number> = new Map() // execution id -> id of the run allowed to advance it
+  private savedExecutions: Map<string, string> = new Map() // execution id -> JSON as last loaded or saved
+  private removedExecutions: Set<string> = new Set() // deleted here, so other tabs' copies aren't merged back
+  private runCount = 0
 
   /**
-   * Initialize the automation engine
+   * Initialize the automation engine. Safe to call repeatedly; everyone awaits the
+   * same start-up, so the scheduler and trigger listeners are only set up once.
    */
-  async initialize(): Promise<void> {
-    if (this.initialized) return
+  initialize(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.start()
+    }
+    return this.initializing
+  }
+
+  private async start(): Promise<void> {
+    await toolRegistry.initialize(DEFAULT_TOOLS)
+    await collectionManager.initialize()
+    registerBuiltInToolActions()
 
     this.loadFromStorage()
-    this.startScheduler()
+    this.startHeartbeat()
+    this.recoverInterruptedExecutions()
     this.setupTriggerListeners()
-    this.initialized = true
+
+    // Catching up missed runs can take a while, so don't hold up callers
+    this.startScheduler().catch(error => {
+      console.error('Failed to start workflow scheduler:', error)
+    })
   }
 
   /**
@@ -134,7 +285,8 @@ export class WorkflowAutomationEngine {
       currentStepIndex: 0,
       startedAt: new Date(),
       stepResults: [],
-      autoAdvanceEnabled: options.autoAdvance ?? true
+      autoAdvanceEnabled: options.autoAdvance ?? true,
+      variables: options.variables || {}
     }
 
     this.executions.set(execution.id, execution)
@@ -149,7 +301,7 @@ export class WorkflowAutomationEngine {
     }
 
     // Start execution
-    await this.runWorkflowExecution(execution, options.variables)
+    await this.runWorkflowExecution(execution)
     
     this.persistToStorage()
     return execution
@@ -158,96 +310,592 @@ export class WorkflowAutomationEngine {
   /**
    * Run workflow execution
    */
-  private async runWorkflowExecution(
-    execution: WorkflowExecution, 
-    variables?: Record<string, any>
-  ): Promise<void> {
+  private async runWorkflowExecution(execution: WorkflowExecution): Promise<void> {
     const workflow = collectionManager.get(execution.workflowId)
     if (!workflow?.workflowSteps) return
 
     execution.status = 'running'
+    execution.interruptedAt = undefined
+    execution.ownerTabId = TAB_ID
+
+    // A run paused mid-step is still awaiting that step; this run replaces it
+    const runId = ++this.runCount
+    this.currentRuns.set(execution.id, runId)
 
     try {
-      for (let i = execution.currentStepIndex; i < workflow.workflowSteps.length; i++) {
-        const step = workflow.workflowSteps[i]
-        const stepResult = execution.stepResults[i]
+      const outcome = await this.runSteps(
+        execution,
+        runId,
+        workflow.workflowSteps,
+        0,
+        workflow.workflowSteps.length,
+        execution.variables,
+        undefined,
+        execution.currentStepIndex
+      )
+      // A cancel while the last step ran wins over its result
+      if (outcome === 'paused' || this.isCancelled(execution)) {
+        this.persistToStorage()
+        return
+      }
+
+      // Steps bypassed by branches never ran
+      execution.stepResults.forEach(result => {
+        if (result.status === 'pending') result.status = 'skipped'
+      })
+
+      // Workflow completed successfully
+      execution.status = 'completed'
+      execution.completedAt = new Date()
+      execution.totalDuration = execution.completedAt.getTime() - execution.startedAt.getTime()
+
+      const timings = this.calculateStepTimings(workflow.workflowSteps, execution.stepResults)
+      execution.criticalPathDuration = timings.criticalPath
+      execution.totalStepDuration = timings.total
+
+    } catch (error) {
+      // The run that replaced this one owns the execution now
+      if (error instanceof RunSupersededError) return
+
+      if (!this.isCancelled(execution)) {
+        execution.status = 'failed'
+        execution.error = error instanceof Error ? error.message : String(error)
+      }
+    } finally {
+      if (this.currentRuns.get(execution.id) === runId) {
+        this.currentRuns.delete(execution.id)
+      }
+    }
+
+    this.persistToStorage()
+  }
 
+  // Status is read through here because it changes from outside while steps are awaited
+  private isCancelled(execution: WorkflowExecution): boolean {
+    return execution.status === 'cancelled'
+  }
+
+  // Stop a run once the execution was resumed by a later one, so no step runs twice
+  private assertCurrentRun(execution: WorkflowExecution, runId: number): void {
+    if (this.currentRuns.get(execution.id) !== runId) {
+      throw new RunSupersededError(`Execution "${execution.id}" was resumed by a later run`)
+    }
+  }
+
+  /**
+   * Walk the steps in [start, end) beginning at `from`, following branches and
+   * running loop bodies. Loop bodies pass their iteration, which keeps them from
+   * pausing mid-loop.
+   */
+  private async runSteps(
+    execution: WorkflowExecution,
+    runId: number,
+    steps: WorkflowStep[],
+    start: number,
+    end: number,
+    variables: Record<string, any>,
+    iteration?: WorkflowStepIteration,
+    from: number = start
+  ): Promise<'done' | 'paused'> {
+    let transitions = 0
+    let i = from
+
+    while (i < end) {
+      this.assertCurrentRun(execution, runId)
+
+      // Paused or cancelled from outside while the previous step ran
+      if (!iteration && execution.status !== 'running') {
         execution.currentStepIndex = i
-        stepResult.status = 'running'
-        stepResult.startedAt = new Date()
+        return 'paused'
+      }
 
-        try {
-          // Execute step
-          await this.executeWorkflowStep(step, stepResult, variables)
-          
-          stepResult.status = 'completed'
-          stepResult.completedAt = new Date()
-          stepResult.duration = stepResult.completedAt.getTime() - stepResult.startedAt!.getTime()
-
-          // Record tool usage
-          UsageStorage.incrementUsage(step.toolId)
-
-          // Handle auto-advance
-          if (step.autoAdvance && execution.autoAdvanceEnabled) {
-            if (step.waitTime && step.waitTime > 0) {
-              await this.delay(step.waitTime * 1000)
-            }
-          } else if (!execution.autoAdvanceEnabled) {
-            // Pause for manual advancement
-            execution.status = 'paused'
-            execution.pausedAt = new Date()
-            this.persistToStorage()
-            return
+      if (++transitions > MAX_STEP_TRANSITIONS) {
+        throw new Error(`Workflow exceeded ${MAX_STEP_TRANSITIONS} steps, check its branches for a cycle`)
+      }
+
+      const step = steps[i]
+      const stepResult = execution.stepResults[i]
+      let next = i + 1
+
+      if (!iteration) {
+        // Checkpoint so an execution cut off by closing the tab resumes here
+        execution.currentStepIndex = i
+        this.persistToStorage()
+      }
+      stepResult.status = 'running'
+      stepResult.startedAt = stepResult.startedAt || new Date()
+
+      try {
+        switch (step.type || 'tool') {
+          case 'condition': {
+            const passed = this.evaluateCondition(step.condition!, execution, variables)
+            stepResult.branch = passed ? 'then' : 'else'
+            stepResult.output = { passed }
+            const target = passed ? step.thenStepIndex : step.elseStepIndex
+            if (target !== undefined) next = target
+            break
           }
+          case 'loop':
+            stepResult.output = await this.runLoop(execution, runId, steps, i, variables)
+            next = i + 1 + step.loop!.bodyLength
+            break
+          case 'parallel':
+            stepResult.output = await this.runParallelGroup(execution, steps, i, variables, iteration)
+            next = i + 1 + step.parallel!.bodyLength
+            break
+          default:
+            await this.executeWithRetry(step, stepResult, execution, variables)
+            if (stepResult.manual && iteration) {
+              throw new Error(`"${step.toolId}" needs manual input and cannot run inside a loop`)
+            }
+
+            // Record tool usage
+            UsageStorage.incrementUsage(step.toolId)
+        }
 
+        // Resumed by another run while this step was awaited; its result belongs to that run
+        this.assertCurrentRun(execution, runId)
+
+        if (step.nextStepIndex !== undefined) next = step.nextStepIndex
+        if (next < start || next > end) {
+          throw new Error(`Branch to step ${next + 1} leaves the ${iteration ? 'loop body' : 'workflow'}`)
+        }
+
+        this.completeStepResult(stepResult, iteration)
+
+      } catch (error) {
+        if (error instanceof RunSupersededError) throw error
+        this.assertCurrentRun(execution, runId)
+
+        const message = error instanceof Error ? error.message : String(error)
+        const policy = step.onError || 'fail'
+
+        this.failStepResult(stepResult, message, policy === 'skip' ? 'skipped' : 'failed', iteration)
+
+        if (policy === 'fail') {
+          throw new Error(`Step ${i + 1} failed: ${message}`)
+        }
+
+        next = policy === 'fallback' ? step.fallbackStepIndex! : i + 1
+        if (next < start || next > end) {
+          throw new Error(`Step ${i + 1} failed and its fallback leaves the ${iteration ? 'loop body' : 'workflow'}: ${message}`)
+        }
+      }
+
+      // Handle auto-advance
+      if (!iteration) {
+        if (this.isCancelled(execution)) {
+          execution.currentStepIndex = next
+          return 'paused'
+        } else if (stepResult.manual || !execution.autoAdvanceEnabled) {
+          // Pause for manual advancement, resuming at the next step
+          execution.currentStepIndex = next
+          execution.status = 'paused'
+          execution.pausedAt = new Date()
+          return 'paused'
+        } else if (step.autoAdvance && step.waitTime && step.waitTime > 0) {
+          await this.delay(step.waitTime * 1000)
+        }
+      }
+
+      i = next
+    }
+
+    return 'done'
+  }
+
+  /**
+   * Record a step that finished, per item when it runs inside a loop
+   */
+  private completeStepResult(stepResult: WorkflowStepResult, iteration?: WorkflowStepIteration): void {
+    if (iteration) {
+      stepResult.iterations!.push({
+        iteration: iteration.iteration,
+        item: iteration.item,
+        status: 'completed',
+        output: stepResult.output,
+        branch: stepResult.branch,
+        attempts: stepResult.attempts
+      })
+    } else {
+      stepResult.status = 'completed'
+      stepResult.completedAt = new Date()
+      stepResult.duration = stepResult.completedAt.getTime() - stepResult.startedAt!.getTime()
+    }
+  }
+
+  /**
+   * Record a step that failed or was skipped by its error policy
+   */
+  private failStepResult(
+    stepResult: WorkflowStepResult,
+    message: string,
+    status: 'failed' | 'skipped',
+    iteration?: WorkflowStepIteration
+  ): void {
+    if (iteration) {
+      stepResult.iterations!.push({ iteration: iteration.iteration, item: iteration.item, status, error: message, attempts: stepResult.attempts })
+    }
+    stepResult.status = status
+    stepResult.error = message
+    stepResult.output = undefined
+    stepResult.completedAt = new Date()
+    if (stepResult.startedAt) {
+      stepResult.duration = stepResult.completedAt.getTime() - stepResult.startedAt.getTime()
+    }
+  }
+
+  /**
+   * Run a parallel step's group side by side, at most maxConcurrency at a time,
+   * and join their outputs once every branch has finished. After a branch fails
+   * no new branches are started.
+   */
+  private async runParallelGroup(
+    execution: WorkflowExecution,
+    steps: WorkflowStep[],
+    groupIndex: number,
+    variables: Record<string, any>,
+    iteration?: WorkflowStepIteration
+  ): Promise<ToolActionData> {
+    const group = steps[groupIndex].parallel!
+    const indices = Array.from({ length: group.bodyLength }, (_, offset) => groupIndex + 1 + offset)
+    const queue = [...indices]
+    const failures: string[] = []
+
+    const worker = async () => {
+      while (queue.length > 0 && failures.length === 0) {
+        const index = queue.shift()!
+        try {
+          await this.runParallelBranch(execution, steps[index], index, variables, iteration)
         } catch (error) {
-          stepResult.status = 'failed'
-          stepResult.error = error instanceof Error ? error.message : String(error)
-          stepResult.completedAt = new Date()
-          
-          execution.status = 'failed'
-          execution.error = `Step ${i + 1} failed: ${stepResult.error}`
-          this.persistToStorage()
-          return
+          failures.push(error instanceof Error ? error.message : String(error))
         }
       }
+    }
 
-      // Workflow completed successfully
-      execution.status = 'completed'
-      execution.completedAt = new Date()
-      execution.totalDuration = execution.completedAt.getTime() - execution.startedAt.getTime()
+    const concurrency = Math.min(group.maxConcurrency || indices.length, indices.length)
+    await Promise.all(Array.from({ length: concurrency }, worker))
+
+    if (failures.length > 0) {
+      throw new Error(failures[0])
+    }
 
+    const results = indices.map(index => execution.stepResults[index])
+    return {
+      results: results.map(result => result.output),
+      completed: results.filter(result => result.status !== 'failed' && result.status !== 'skipped').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      skipped: results.filter(result => result.status === 'skipped').length
+    }
+  }
+
+  /**
+   * Run one tool step of a parallel group under its retry, timeout and error policy
+   */
+  private async runParallelBranch(
+    execution: WorkflowExecution,
+    step: WorkflowStep,
+    index: number,
+    variables: Record<string, any>,
+    iteration?: WorkflowStepIteration
+  ): Promise<void> {
+    const stepResult = execution.stepResults[index]
+    stepResult.status = 'running'
+    stepResult.startedAt = stepResult.startedAt || new Date()
+
+    try {
+      await this.executeWithRetry(step, stepResult, execution, variables)
+      if (stepResult.manual) {
+        throw new Error(`"${step.toolId}" needs manual input and cannot run in a parallel group`)
+      }
+
+      UsageStorage.incrementUsage(step.toolId)
+      this.completeStepResult(stepResult, iteration)
     } catch (error) {
-      execution.status = 'failed'
-      execution.error = error instanceof Error ? error.message : String(error)
+      const message = error instanceof Error ? error.message : String(error)
+      const policy = step.onError || 'fail'
+
+      this.failStepResult(stepResult, message, policy === 'skip' ? 'skipped' : 'failed', iteration)
+
+      if (policy === 'fail') {
+        throw new Error(`Step ${index + 1} failed: ${message}`)
+      }
     }
+  }
 
-    this.persistToStorage()
+  /**
+   * Add up step durations: the critical path counts each parallel group by its
+   * slowest branch, the total counts every branch
+   */
+  private calculateStepTimings(
+    steps: WorkflowStep[],
+    results: WorkflowStepResult[]
+  ): { criticalPath: number; total: number } {
+    let criticalPath = 0
+    let total = 0
+    let i = 0
+
+    while (i < steps.length) {
+      const step = steps[i]
+      if (step.type === 'parallel' && step.parallel) {
+        const branchDurations = results
+          .slice(i + 1, i + 1 + step.parallel.bodyLength)
+          .map(result => result.duration || 0)
+        criticalPath += Math.max(0, ...branchDurations)
+        total += branchDurations.reduce((sum, duration) => sum + duration, 0)
+        i += 1 + step.parallel.bodyLength
+      } else {
+        // A loop's own duration already covers its body
+        const duration = results[i]?.duration || 0
+        criticalPath += duration
+        total += duration
+        i += step.type === 'loop' && step.loop ? 1 + step.loop.bodyLength : 1
+      }
+    }
+
+    return { criticalPath, total }
   }
 
   /**
-   * Execute a single workflow step
+   * Run a loop step's body once per item
    */
-  private async executeWorkflowStep(
+  private async runLoop(
+    execution: WorkflowExecution,
+    runId: number,
+    steps: WorkflowStep[],
+    loopIndex: number,
+    variables: Record<string, any>
+  ): Promise<ToolActionData> {
+    const loop = steps[loopIndex].loop!
+    const value = this.resolveValue(loop.items, execution, variables)
+    const items = loop.mode === 'lines'
+      ? String(value ?? '').split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+      : value
+
+    if (!Array.isArray(items)) {
+      throw new Error('Loop items must be a list')
+    }
+
+    const bodyStart = loopIndex + 1
+    const bodyEnd = bodyStart + loop.bodyLength
+    const itemVariable = loop.itemVariable || 'item'
+    const bodyResults = execution.stepResults.slice(bodyStart, bodyEnd)
+    bodyResults.forEach(result => { result.iterations = [] })
+
+    for (let index = 0; index < items.length; index++) {
+      // Outputs and attempts from the previous item must not leak into this one
+      bodyResults.forEach(result => {
+        result.output = undefined
+        result.branch = undefined
+        result.attempts = undefined
+      })
+
+      await this.runSteps(
+        execution,
+        runId,
+        steps,
+        bodyStart,
+        bodyEnd,
+        { ...variables, [itemVariable]: items[index], [`${itemVariable}Index`]: index },
+        { iteration: index, item: items[index], status: 'completed' }
+      )
+    }
+
+    bodyResults.forEach(result => {
+      // Each item's attempts are kept with its iteration
+      result.attempts = undefined
+      result.status = result.iterations!.length > 0 ? 'completed' : 'skipped'
+      result.completedAt = new Date()
+      if (result.startedAt) {
+        result.duration = result.completedAt.getTime() - result.startedAt.getTime()
+      }
+    })
+
+    return { count: items.length, items }
+  }
+
+  /**
+   * Evaluate a condition step against step outputs and variables
+   */
+  private evaluateCondition(
+    condition: WorkflowCondition,
+    execution: WorkflowExecution,
+    variables: Record<string, any>
+  ): boolean {
+    const left = this.resolveValue(condition.left, execution, variables)
+    const right = condition.right
+
+    switch (condition.operator) {
+      case 'equals':
+        return String(left) === String(right)
+      case 'not_equals':
+        return String(left) !== String(right)
+      case 'greater_than':
+        return Number(left) > Number(right)
+      case 'less_than':
+        return Number(left) < Number(right)
+      case 'contains':
+        return Array.isArray(left)
+          ? left.some(entry => String(entry) === String(right))
+          : String(left ?? '').includes(String(right))
+      case 'is_empty':
+        return left === undefined || left === null || left === '' || (Array.isArray(left) && left.length === 0)
+      case 'is_not_empty':
+        return !(left === undefined || left === null || left === '' || (Array.isArray(left) && left.length === 0))
+      case 'is_true':
+        return left === true || left === 'true'
+      case 'is_false':
+        return left === false || left === 'false'
+      default:
+        throw new Error(`Unknown condition operator "${condition.operator}"`)
+    }
+  }
+
+  /**
+   * Execute a tool step under its retry and timeout policy, recording each attempt
+   */
+  private async executeWithRetry(
     step: WorkflowStep,
     stepResult: WorkflowStepResult,
-    variables?: Record<string, any>
+    execution: WorkflowExecution,
+    variables: Record<string, any>
   ): Promise<void> {
+    const maxAttempts = step.retry?.maxAttempts || 1
+    stepResult.attempts = stepResult.attempts || []
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const startedAt = new Date()
+      try {
+        stepResult.output = await this.withTimeout(
+          this.executeWorkflowStep(step, stepResult, execution, variables),
+          step.timeoutSeconds
+        )
+        const completedAt = new Date()
+        stepResult.attempts.push({
+          attempt,
+          startedAt,
+          completedAt,
+          duration: completedAt.getTime() - startedAt.getTime(),
+          status: 'completed'
+        })
+        return
+      } catch (error) {
+        const completedAt = new Date()
+        const timedOut = error instanceof StepTimeoutError
+        stepResult.attempts.push({
+          attempt,
+          startedAt,
+          completedAt,
+          duration: completedAt.getTime() - startedAt.getTime(),
+          status: timedOut ? 'timed_out' : 'failed',
+          error: error instanceof Error ? error.message : String(error)
+        })
+
+        if (attempt >= maxAttempts) {
+          throw maxAttempts > 1
+            ? new Error(`${error instanceof Error ? error.message : String(error)} (after ${maxAttempts} attempts)`)
+            : error
+        }
+
+        const multiplier = step.retry!.backoffMultiplier ?? 2
+        await this.delay(step.retry!.backoffSeconds * Math.pow(multiplier, attempt - 1) * 1000)
+      }
+    }
+  }
+
+  /**
+   * Reject when a step runs longer than its timeout
+   */
+  private withTimeout<T>(promise: Promise<T>, timeoutSeconds?: number): Promise<T> {
+    if (!timeoutSeconds) return promise
+
+    let timer: ReturnType<typeof setTimeout>
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new StepTimeoutError(`Timed out after ${timeoutSeconds}s`)),
+        timeoutSeconds * 1000
+      )
+    })
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+  }
+
+  /**
+   * Execute a single workflow step, returning the tool action's output
+   */
+  private async executeWorkflowStep(
+    step: WorkflowStep,
+    stepResult: WorkflowStepResult,
+    execution: WorkflowExecution,
+    variables: Record<string, any>
+  ): Promise<ToolActionData | undefined> {
     const tool = toolRegistry.get(step.toolId)
     if (!tool) {
       throw new Error(`Tool "${step.toolId}" not found`)
     }
 
-    // For now, we'll simulate step execution
-    // In a real implementation, this would integrate with the actual tool execution
-    await this.delay(Math.random() * 1000 + 500) // Simulate processing time
+    const action = toolRegistry.getAction(step.toolId)
+    if (!action) {
+      // Interactive tools have no pure transform, so the user completes the step
+      stepResult.manual = true
+      return undefined
+    }
+
+    const input: ToolActionData = {
+      ...variables,
+      ...step.input,
+      ...this.resolveInputMappings(step.inputMappings || [], execution, variables)
+    }
+    const config = { ...action.defaultConfig, ...step.config }
+
+    stepResult.input = input
+    return action.execute(input, config)
+  }
 
-    stepResult.data = {
-      toolId: step.toolId,
-      toolName: tool.name,
-      executedAt: new Date().toISOString(),
-      variables: variables || {},
-      description: step.description
+  /**
+   * Resolve a step's input mappings against earlier step outputs and variables
+   */
+  private resolveInputMappings(
+    mappings: WorkflowInputMapping[],
+    execution: WorkflowExecution,
+    variables: Record<string, any>
+  ): ToolActionData {
+    const resolved: ToolActionData = {}
+
+    for (const mapping of mappings) {
+      try {
+        resolved[mapping.target] = this.resolveValue(mapping, execution, variables)
+      } catch (error) {
+        throw new Error(`Input "${mapping.target}": ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    return resolved
+  }
+
+  /**
+   * Read a value from a step output, a variable or a literal
+   */
+  private resolveValue(
+    source: WorkflowValueSource,
+    execution: WorkflowExecution,
+    variables: Record<string, any>
+  ): any {
+    switch (source.source) {
+      case 'step': {
+        const sourceResult = source.stepIndex !== undefined ? execution.stepResults[source.stepIndex] : undefined
+        if (!sourceResult?.output) {
+          throw new Error(`step ${(source.stepIndex ?? -1) + 1} has no output`)
+        }
+        return source.path ? getValueAtPath(sourceResult.output, source.path) : sourceResult.output
+      }
+      case 'variable':
+        if (!source.variable || !(source.variable in variables)) {
+          throw new Error(`variable "${source.variable}" is not defined`)
+        }
+        return source.path ? getValueAtPath(variables[source.variable], source.path) : variables[source.variable]
+      case 'static':
+        return source.value
     }
   }
 
@@ -273,8 +921,112 @@ export class WorkflowAutomationEngine {
 
     execution.status = 'running'
     execution.pausedAt = undefined
-    
+
+    await this.runWorkflowExecution(execution)
+    return true
+  }
+
+  /**
+   * Re-run a failed execution from the step that failed, with the same variables.
+   * Results of the steps before it are copied over instead of running again.
+   */
+  async replayFromFailedStep(executionId: string): Promise<WorkflowExecution> {
+    const failed = this.executions.get(executionId)
+    if (!failed || failed.status !== 'failed') {
+      throw new Error(`Execution "${executionId}" has not failed`)
+    }
+
+    const workflow = collectionManager.get(failed.workflowId)
+    const steps = workflow?.workflowSteps
+    if (!steps) {
+      throw new Error(`Workflow with ID "${failed.workflowId}" not found`)
+    }
+    if (steps.length !== failed.stepResults.length || steps.some((step, index) => step.toolId !== failed.stepResults[index].toolId)) {
+      throw new Error('The workflow has changed since this execution, run it again from the start instead')
+    }
+
+    const fromStep = failed.currentStepIndex
+    const execution: WorkflowExecution = {
+      id: this.generateExecutionId(),
+      workflowId: failed.workflowId,
+      status: 'pending',
+      currentStepIndex: fromStep,
+      startedAt: new Date(),
+      stepResults: failed.stepResults.map((result, index) =>
+        index < fromStep && result.status !== 'pending'
+          ? { ...result, reused: true }
+          : { stepIndex: index, toolId: result.toolId, status: 'pending' }
+      ),
+      autoAdvanceEnabled: failed.autoAdvanceEnabled,
+      variables: { ...failed.variables },
+      replayOf: failed.id,
+      replayFromStepIndex: fromStep
+    }
+
+    this.executions.set(execution.id, execution)
     await this.runWorkflowExecution(execution)
+
+    this.persistToStorage()
+    return execution
+  }
+
+  /**
+   * Get how many executions are kept per workflow and for how long
+   */
+  getRetentionPolicy(): ExecutionRetentionPolicy {
+    return { ...this.retention }
+  }
+
+  /**
+   * Change the retention limits and prune executions that fall outside them
+   */
+  setRetentionPolicy(policy: Partial<ExecutionRetentionPolicy>): ExecutionRetentionPolicy {
+    this.retention = { ...this.retention, ...policy }
+    this.persistToStorage()
+    return this.getRetentionPolicy()
+  }
+
+  /**
+   * Delete finished executions and schedule log entries from before a date, to free storage.
+   * Returns how many executions were deleted.
+   */
+  clearExecutionHistory(olderThan: Date): number {
+    let removed = 0
+    this.executions.forEach((execution, id) => {
+      if (execution.status === 'running' || execution.status === 'paused') return
+      if (execution.startedAt.getTime() < olderThan.getTime()) {
+        this.executions.delete(id)
+        this.removedExecutions.add(id)
+        removed++
+      }
+    })
+
+    this.scheduleLog = this.scheduleLog.filter(entry => entry.loggedAt.getTime() >= olderThan.getTime())
+    this.persistToStorage()
+    return removed
+  }
+
+  /**
+   * Get executions that were running or paused when the app was last closed
+   */
+  getInterruptedExecutions(): WorkflowExecution[] {
+    return Array.from(this.executions.values())
+      .filter(e => e.interruptedAt && e.status === 'paused')
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+  }
+
+  /**
+   * Give up on an interrupted execution
+   */
+  abandonExecution(executionId: string): boolean {
+    const execution = this.executions.get(executionId)
+    if (!execution || !execution.interruptedAt) return false
+
+    execution.status = 'cancelled'
+    execution.completedAt = new Date()
+    execution.error = 'Abandoned after the app was closed'
+    execution.interruptedAt = undefined
+    this.persistToStorage()
     return true
   }
 
@@ -297,6 +1049,8 @@ export class WorkflowAutomationEngine {
    * Schedule a workflow
    */
   scheduleWorkflow(schedule: Omit<WorkflowSchedule, 'id' | 'createdAt' | 'runCount'>): WorkflowSchedule {
+    this.validateSchedule(schedule)
+
     const newSchedule: WorkflowSchedule = {
       ...schedule,
       id: this.generateScheduleId(),
@@ -312,6 +1066,45 @@ export class WorkflowAutomationEngine {
     return newSchedule
   }
 
+  /**
+   * Update a schedule and re-arm its timer
+   */
+  updateSchedule(
+    scheduleId: string,
+    updates: Partial<Omit<WorkflowSchedule, 'id' | 'createdAt' | 'runCount'>>
+  ): WorkflowSchedule | undefined {
+    const schedule = this.schedules.get(scheduleId)
+    if (!schedule) return undefined
+
+    const updated: WorkflowSchedule = { ...schedule, ...updates }
+    this.validateSchedule(updated)
+
+    const timingChanged = ['type', 'scheduledAt', 'intervalMinutes', 'daysOfWeek', 'dayOfMonth', 'cronExpression']
+      .some(key => key in updates)
+    if (timingChanged || (updates.enabled && !schedule.enabled)) {
+      // Re-enabling starts from now rather than replaying the disabled period
+      this.calculateNextRun(updated)
+    }
+
+    this.schedules.set(scheduleId, updated)
+    this.setupScheduleTimer(updated)
+    this.persistToStorage()
+
+    return updated
+  }
+
+  /**
+   * Delete a schedule
+   */
+  deleteSchedule(scheduleId: string): boolean {
+    if (!this.schedules.has(scheduleId)) return false
+
+    this.clearScheduleTimer(scheduleId)
+    this.schedules.delete(scheduleId)
+    this.persistToStorage()
+    return true
+  }
+
   /**
    * Create workflow trigger
    */
@@ -323,10 +1116,178 @@ export class WorkflowAutomationEngine {
       triggerCount: 0
     }
 
-    this.triggers.set(newTrigger.id, newTrigger)
+    this.triggers.set(newTrigger.id, newTrigger)
+    this.persistToStorage()
+
+    return newTrigger
+  }
+
+  /**
+   * Update a workflow trigger
+   */
+  updateTrigger(
+    triggerId: string,
+    updates: Partial<Omit<WorkflowTrigger, 'id' | 'createdAt' | 'triggerCount'>>
+  ): WorkflowTrigger | undefined {
+    const trigger = this.triggers.get(triggerId)
+    if (!trigger) return undefined
+
+    Object.assign(trigger, updates)
+    this.persistToStorage()
+    return trigger
+  }
+
+  /**
+   * Delete a workflow trigger
+   */
+  deleteTrigger(triggerId: string): boolean {
+    if (!this.triggers.delete(triggerId)) return false
+
+    this.persistToStorage()
+    return true
+  }
+
+  /**
+   * Get built-in and saved workflow templates
+   */
+  getTemplates(): WorkflowTemplate[] {
+    const builtIn = WORKFLOW_TEMPLATES.map(template => ({
+      ...template,
+      usageCount: this.templateUsage.get(template.id) ?? template.usageCount
+    }))
+    return [...builtIn, ...Array.from(this.templates.values())]
+  }
+
+  /**
+   * Get a workflow template by ID
+   */
+  getTemplate(templateId: string): WorkflowTemplate | undefined {
+    return this.getTemplates().find(template => template.id === templateId)
+  }
+
+  /**
+   * Create a workflow collection from a template, filling {{variable}} placeholders in its steps
+   */
+  createWorkflowFromTemplate(
+    templateId: string,
+    values: Record<string, any>,
+    details: { name?: string; description?: string } = {}
+  ): { success: boolean; errors: string[]; workflow?: Collection } {
+    const template = this.getTemplate(templateId)
+    if (!template) {
+      return { success: false, errors: [`Template "${templateId}" not found`] }
+    }
+
+    const resolved = resolveTemplateVariables(template.variables, values)
+    if (!resolved.success) {
+      return { success: false, errors: resolved.errors }
+    }
+
+    const workflowSteps: WorkflowStep[] = template.steps.map(step =>
+      substituteTemplateVariables(JSON.parse(JSON.stringify(step)), resolved.values)
+    )
+    const toolIds = Array.from(new Set(workflowSteps.map(step => step.toolId).filter(Boolean)))
+
+    const result = collectionManager.createCollection({
+      name: details.name?.trim() || this.getAvailableWorkflowName(template.name),
+      description: details.description?.trim() || template.description,
+      toolIds,
+      isWorkflow: true,
+      workflowSteps
+    })
+    if (!result.success) {
+      return { success: false, errors: result.errors }
+    }
+
+    if (this.templates.has(template.id)) {
+      this.templates.get(template.id)!.usageCount++
+    } else {
+      this.templateUsage.set(template.id, template.usageCount + 1)
+    }
+    this.persistToStorage()
+
+    return { success: true, errors: [], workflow: result.collection }
+  }
+
+  /**
+   * Save a workflow as a reusable template. Variables default to one required
+   * string per {{placeholder}} found in the steps.
+   */
+  saveWorkflowAsTemplate(
+    workflowId: string,
+    details: {
+      name: string
+      description?: string
+      category?: string
+      tags?: string[]
+      variables?: WorkflowVariable[]
+    }
+  ): { success: boolean; errors: string[]; template?: WorkflowTemplate } {
+    const workflow = collectionManager.get(workflowId)
+    if (!workflow || !workflow.isWorkflow || !workflow.workflowSteps?.length) {
+      return { success: false, errors: [`Workflow with ID "${workflowId}" not found or has no steps`] }
+    }
+
+    const errors: string[] = []
+    const name = details.name.trim()
+    if (!name) {
+      errors.push('Template name is required')
+    } else if (this.getTemplates().some(template => template.name.toLowerCase() === name.toLowerCase())) {
+      errors.push(`Template with name "${name}" already exists`)
+    }
+
+    const placeholders = findTemplatePlaceholders(workflow.workflowSteps)
+    const variables = details.variables || placeholders.map(placeholder => ({
+      name: placeholder,
+      type: 'string' as const,
+      required: true,
+      description: ''
+    }))
+
+    const variableNames = new Set<string>()
+    variables.forEach(variable => {
+      if (!variable.name.trim()) {
+        errors.push('Variable names are required')
+      } else if (variableNames.has(variable.name)) {
+        errors.push(`Variable "${variable.name}" is declared twice`)
+      }
+      variableNames.add(variable.name)
+    })
+    placeholders
+      .filter(placeholder => !variableNames.has(placeholder))
+      .forEach(placeholder => errors.push(`Placeholder "{{${placeholder}}}" has no matching variable`))
+
+    if (errors.length > 0) {
+      return { success: false, errors }
+    }
+
+    const template: WorkflowTemplate = {
+      id: this.generateTemplateId(),
+      name,
+      description: details.description?.trim() || workflow.description,
+      category: details.category?.trim() || 'custom',
+      steps: JSON.parse(JSON.stringify(workflow.workflowSteps)),
+      variables,
+      tags: details.tags || [],
+      isPublic: false,
+      createdAt: new Date(),
+      usageCount: 0
+    }
+
+    this.templates.set(template.id, template)
+    this.persistToStorage()
+
+    return { success: true, errors: [], template }
+  }
+
+  /**
+   * Delete a saved template. Built-in templates cannot be deleted.
+   */
+  deleteTemplate(templateId: string): boolean {
+    if (!this.templates.delete(templateId)) return false
+
     this.persistToStorage()
-
-    return newTrigger
+    return true
   }
 
   /**
@@ -345,6 +1306,14 @@ export class WorkflowAutomationEngine {
       ? completedExecutions.reduce((sum, e) => sum + (e.totalDuration || 0), 0) / completedExecutions.length
       : 0
 
+    const timedExecutions = executions.filter(e => e.criticalPathDuration !== undefined)
+    const averageCriticalPathDuration = timedExecutions.length > 0
+      ? timedExecutions.reduce((sum, e) => sum + (e.criticalPathDuration || 0), 0) / timedExecutions.length
+      : 0
+    const averageTotalStepDuration = timedExecutions.length > 0
+      ? timedExecutions.reduce((sum, e) => sum + (e.totalStepDuration || 0), 0) / timedExecutions.length
+      : 0
+
     const lastExecuted = executions.length > 0
       ? new Date(Math.max(...executions.map(e => e.startedAt.getTime())))
       : undefined
@@ -354,6 +1323,8 @@ export class WorkflowAutomationEngine {
       successfulExecutions,
       failedExecutions,
       averageDuration,
+      averageCriticalPathDuration,
+      averageTotalStepDuration,
       lastExecuted,
       errorRate: totalExecutions > 0 ? failedExecutions / totalExecutions : 0
     }
@@ -382,6 +1353,15 @@ export class WorkflowAutomationEngine {
     return Array.from(this.schedules.values())
   }
 
+  /**
+   * Get the on-time, late, missed and failed runs of schedules, newest first
+   */
+  getScheduleLog(scheduleId?: string): ScheduleRunLogEntry[] {
+    return this.scheduleLog
+      .filter(entry => !scheduleId || entry.scheduleId === scheduleId)
+      .sort((a, b) => b.loggedAt.getTime() - a.loggedAt.getTime())
+  }
+
   /**
    * Get all triggers
    */
@@ -404,90 +1384,469 @@ export class WorkflowAutomationEngine {
     return `trig_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
 
+  private generateTemplateId(): string {
+    return `tmpl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+
+  private getAvailableWorkflowName(baseName: string): string {
+    const taken = new Set(collectionManager.getAll().map(collection => collection.name.toLowerCase()))
+    let name = baseName
+    for (let copy = 2; taken.has(name.toLowerCase()); copy++) {
+      name = `${baseName} ${copy}`
+    }
+    return name
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
 
-  private calculateNextRun(schedule: WorkflowSchedule): void {
-    const now = new Date()
-    
+  private validateSchedule(schedule: Omit<WorkflowSchedule, 'id' | 'createdAt' | 'runCount'>): void {
     switch (schedule.type) {
       case 'once':
-        schedule.nextRun = schedule.scheduledAt
-        break
-      case 'daily':
-        schedule.nextRun = new Date(now.getTime() + 24 * 60 * 60 * 1000)
-        break
-      case 'weekly':
-        schedule.nextRun = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
-        break
-      case 'monthly':
-        const nextMonth = new Date(now)
-        nextMonth.setMonth(nextMonth.getMonth() + 1)
-        schedule.nextRun = nextMonth
+        if (!schedule.scheduledAt) {
+          throw new Error('One-time schedules need a run time')
+        }
         break
       case 'interval':
-        if (schedule.intervalMinutes) {
-          schedule.nextRun = new Date(now.getTime() + schedule.intervalMinutes * 60 * 1000)
+        if (!schedule.intervalMinutes || schedule.intervalMinutes <= 0) {
+          throw new Error('Interval schedules need a positive number of minutes')
         }
         break
+      case 'cron':
+        if (!schedule.cronExpression) {
+          throw new Error('Cron schedules need a cron expression')
+        }
+        parseCronExpression(schedule.cronExpression)
+        break
+    }
+  }
+
+  private calculateNextRun(schedule: WorkflowSchedule, after: Date = new Date()): void {
+    schedule.nextRun = getNextOccurrence(schedule, after)
+  }
+
+  private clearScheduleTimer(scheduleId: string): void {
+    const timer = this.timers.get(scheduleId)
+    if (timer) {
+      clearTimeout(timer)
+      this.timers.delete(scheduleId)
     }
   }
 
   private setupScheduleTimer(schedule: WorkflowSchedule): void {
+    this.clearScheduleTimer(schedule.id)
     if (!schedule.enabled || !schedule.nextRun) return
 
-    const delay = schedule.nextRun.getTime() - Date.now()
-    if (delay <= 0) return
+    const delay = Math.min(Math.max(schedule.nextRun.getTime() - Date.now(), 0), MAX_TIMER_DELAY_MS)
 
     const timer = setTimeout(async () => {
+      this.timers.delete(schedule.id)
+
+      // Schedule was changed or removed while waiting
+      if (this.schedules.get(schedule.id) !== schedule) return
+
       try {
-        await this.executeWorkflow(schedule.workflowId, { scheduledExecution: true })
-        schedule.lastRun = new Date()
-        schedule.runCount++
-        
-        // Calculate next run
-        this.calculateNextRun(schedule)
-        if (schedule.nextRun) {
-          this.setupScheduleTimer(schedule)
-        }
-        
-        this.persistToStorage()
+        await this.runDueOccurrences(schedule)
       } catch (error) {
         console.error(`Scheduled workflow execution failed:`, error)
       }
+
+      this.setupScheduleTimer(schedule)
+      this.persistToStorage()
     }, delay)
 
     this.timers.set(schedule.id, timer)
   }
 
-  private startScheduler(): void {
-    // Setup timers for all enabled schedules
-    this.schedules.forEach(schedule => {
-      if (schedule.enabled) {
-        this.setupScheduleTimer(schedule)
+  /**
+   * Catch up on every enabled schedule whose nextRun passed while the app was closed
+   */
+  private async startScheduler(): Promise<void> {
+    for (const schedule of Array.from(this.schedules.values())) {
+      if (!schedule.enabled) continue
+
+      try {
+        await this.runDueOccurrences(schedule)
+      } catch (error) {
+        console.error(`Failed to catch up schedule "${schedule.name}":`, error)
       }
+      this.setupScheduleTimer(schedule)
+    }
+
+    this.persistToStorage()
+  }
+
+  /**
+   * Run the occurrences that are due according to the schedule's catch-up policy
+   * and log the ones that are skipped. A run that is due right now always runs.
+   */
+  private async runDueOccurrences(schedule: WorkflowSchedule): Promise<void> {
+    const now = new Date()
+    if (!schedule.nextRun || schedule.nextRun > now) return
+
+    const due: Date[] = []
+    let occurrence: Date | undefined = schedule.nextRun
+    while (occurrence && occurrence <= now && due.length < MAX_MISSED_OCCURRENCES) {
+      due.push(occurrence)
+      occurrence = getNextOccurrence(schedule, occurrence)
+    }
+
+    const latest = due[due.length - 1]
+    const latestIsOnTime = now.getTime() - latest.getTime() <= SCHEDULE_LATE_THRESHOLD_MS
+
+    let toRun: Date[]
+    switch (schedule.catchUpPolicy || 'run_once') {
+      case 'run_all':
+        toRun = due.slice(-MAX_CATCH_UP_RUNS)
+        break
+      case 'skip':
+        toRun = latestIsOnTime ? [latest] : []
+        break
+      default:
+        toRun = [latest]
+    }
+
+    due.filter(date => !toRun.includes(date)).forEach(date => {
+      this.logScheduleRun(schedule, date, { status: 'missed' })
     })
+
+    for (const scheduledFor of toRun) {
+      // Every open tab has a timer for the schedule; the first to claim the occurrence runs it
+      if (!this.claimScheduledOccurrence(schedule, scheduledFor)) continue
+      await this.runScheduledOccurrence(schedule, scheduledFor)
+    }
+
+    this.calculateNextRun(schedule, now)
+  }
+
+  private claimScheduledOccurrence(schedule: WorkflowSchedule, scheduledFor: Date): boolean {
+    if (typeof window === 'undefined') return true
+
+    const fingerprint = `${schedule.id}@${scheduledFor.toISOString()}`
+    try {
+      const claims: Record<string, number> = JSON.parse(localStorage.getItem(SCHEDULE_CLAIMS_KEY) || '{}')
+      if (claims[fingerprint]) return false
+
+      const now = Date.now()
+      Object.keys(claims).forEach(key => {
+        if (now - claims[key] >= SCHEDULE_CLAIM_TIMEOUT_MS) delete claims[key]
+      })
+      claims[fingerprint] = now
+      localStorage.setItem(SCHEDULE_CLAIMS_KEY, JSON.stringify(claims))
+    } catch (error) {
+      console.error('Failed to claim scheduled workflow run:', error)
+    }
+    return true
+  }
+
+  private async runScheduledOccurrence(schedule: WorkflowSchedule, scheduledFor: Date): Promise<void> {
+    const startedAt = new Date()
+    const delayMs = startedAt.getTime() - scheduledFor.getTime()
+
+    schedule.lastRun = startedAt
+    schedule.runCount++
+
+    try {
+      const execution = await this.executeWorkflow(schedule.workflowId, { scheduledExecution: true })
+      this.logScheduleRun(schedule, scheduledFor, {
+        status: execution.status === 'failed'
+          ? 'failed'
+          : delayMs > SCHEDULE_LATE_THRESHOLD_MS ? 'late' : 'on_time',
+        delayMs,
+        executionId: execution.id,
+        error: execution.error
+      })
+    } catch (error) {
+      this.logScheduleRun(schedule, scheduledFor, {
+        status: 'failed',
+        delayMs,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
+  private logScheduleRun(
+    schedule: WorkflowSchedule,
+    scheduledFor: Date,
+    details: Pick<ScheduleRunLogEntry, 'status' | 'delayMs' | 'executionId' | 'error'>
+  ): void {
+    const entry: ScheduleRunLogEntry = {
+      scheduleId: schedule.id,
+      workflowId: schedule.workflowId,
+      scheduledFor,
+      loggedAt: new Date(),
+      ...details
+    }
+
+    if (entry.status === 'missed' || entry.status === 'late') {
+      console.warn(
+        `Schedule "${schedule.name}" ${entry.status === 'missed' ? 'missed' : 'ran late for'} its run at ${scheduledFor.toLocaleString()}`
+      )
+    }
+
+    this.scheduleLog.push(entry)
+    if (this.scheduleLog.length > MAX_SCHEDULE_LOG_ENTRIES) {
+      this.scheduleLog = this.scheduleLog.slice(-MAX_SCHEDULE_LOG_ENTRIES)
+    }
   }
 
   private setupTriggerListeners(): void {
-    // Setup event listeners for triggers
-    // This would integrate with the actual tool usage events
+    eventBus.initialize()
+    eventBus.subscribe('*', event => this.handleAppEvent(event))
+  }
+
+  private handleAppEvent(event: AppEvent): void {
+    if (event.type === 'data_change' && INTERNAL_STORAGE_KEYS.includes(event.payload.key)) return
+
+    this.triggers.forEach(trigger => {
+      if (!this.matchesTrigger(trigger, event)) return
+
+      // Every open tab sees the same data change, so only the first to claim it runs the workflow
+      if (event.type === 'data_change' && !this.claimTriggerEvent(trigger.id, event)) return
+
+      // Changes made by the trigger's own workflow must not start it again
+      if (this.activeTriggers.has(trigger.id)) return
+
+      this.fireTrigger(trigger, event)
+    })
+  }
+
+  private matchesTrigger(trigger: WorkflowTrigger, event: AppEvent): boolean {
+    if (!trigger.enabled || trigger.type !== event.type) return false
+
+    const { cooldownSeconds, minUsageCount, ...fields } = trigger.conditions || {}
+
+    if (cooldownSeconds && trigger.lastTriggered &&
+        Date.now() - trigger.lastTriggered.getTime() < cooldownSeconds * 1000) {
+      return false
+    }
+
+    if (minUsageCount !== undefined && (event.payload.usageCount ?? 0) < minUsageCount) {
+      return false
+    }
+
+    return Object.entries(fields).every(([field, expected]) => {
+      if (expected === undefined || expected === '') return true
+      const actual = field === 'crossTab' ? event.crossTab : event.payload[field]
+      return matchesConditionValue(actual, expected)
+    })
+  }
+
+  private claimTriggerEvent(triggerId: string, event: AppEvent): boolean {
+    if (typeof window === 'undefined') return true
+
+    const fingerprint = `${event.payload.key}:${hashString(event.payload.newValue ?? '')}`
+
+    try {
+      const claims = JSON.parse(localStorage.getItem(TRIGGER_CLAIMS_KEY) || '{}')
+      if (claims[triggerId] === fingerprint) return false
+
+      claims[triggerId] = fingerprint
+      localStorage.setItem(TRIGGER_CLAIMS_KEY, JSON.stringify(claims))
+    } catch (error) {
+      console.error('Failed to claim workflow trigger event:', error)
+    }
+    return true
+  }
+
+  private async fireTrigger(trigger: WorkflowTrigger, event: AppEvent): Promise<void> {
+    this.activeTriggers.add(trigger.id)
+    trigger.lastTriggered = new Date()
+    trigger.triggerCount++
+
+    // Serialized values can be large and are only needed for claiming
+    const { newValue, ...payload } = event.payload
+
+    try {
+      await this.executeWorkflow(trigger.workflowId, {
+        variables: {
+          triggerId: trigger.id,
+          event: { type: event.type, source: event.source, crossTab: event.crossTab, ...payload }
+        }
+      })
+    } catch (error) {
+      console.error(`Trigger "${trigger.id}" failed to run its workflow:`, error)
+    } finally {
+      this.activeTriggers.delete(trigger.id)
+      this.persistToStorage()
+    }
+  }
+
+  /**
+   * Executions still running or paused in storage were cut off when the app
+   * closed. Park them as paused at the step they reached so they can be resumed
+   * with their original variables. Checked at start-up and again on every
+   * heartbeat, for executions whose tab closes while this one stays open.
+   */
+  private recoverInterruptedExecutions(): void {
+    const now = new Date()
+    const heartbeats = this.readHeartbeats()
+    let recovered = 0
+
+    // The owner's last progress is only in storage
+    this.mergeStoredExecutions()
+
+    this.executions.forEach(execution => {
+      if (execution.status !== 'running' && execution.status !== 'paused') return
+      if (execution.ownerTabId === TAB_ID) return
+      if (execution.status === 'paused' && execution.interruptedAt) return
+
+      // Still running or waiting for input in another open tab
+      const ownerSeenAt = execution.ownerTabId ? heartbeats[execution.ownerTabId] : undefined
+      if (ownerSeenAt && now.getTime() - ownerSeenAt < HEARTBEAT_TIMEOUT_MS) return
+
+      if (execution.status === 'running') {
+        execution.status = 'paused'
+        execution.pausedAt = now
+
+        // Steps cut off mid-run start over on resume
+        execution.stepResults.forEach(result => {
+          if (result.status === 'running') {
+            result.status = 'pending'
+            result.startedAt = undefined
+            result.iterations = undefined
+          }
+        })
+      }
+      execution.interruptedAt = now
+      recovered++
+    })
+
+    if (recovered > 0) {
+      this.persistToStorage()
+    }
+  }
+
+  /**
+   * Mark this tab as open every few seconds, and as gone when it closes, so other
+   * tabs don't take its executions for interrupted ones
+   */
+  private startHeartbeat(): void {
+    if (typeof window === 'undefined') return
+
+    this.writeHeartbeat(Date.now())
+    setInterval(() => {
+      this.writeHeartbeat(Date.now())
+      this.recoverInterruptedExecutions()
+    }, HEARTBEAT_INTERVAL_MS)
+    window.addEventListener('pagehide', () => this.writeHeartbeat(null))
+  }
+
+  private writeHeartbeat(seenAt: number | null): void {
+    try {
+      const now = Date.now()
+      const heartbeats = this.readHeartbeats()
+      Object.keys(heartbeats).forEach(tabId => {
+        if (now - heartbeats[tabId] >= HEARTBEAT_TIMEOUT_MS) delete heartbeats[tabId]
+      })
+      if (seenAt === null) {
+        delete heartbeats[TAB_ID]
+      } else {
+        heartbeats[TAB_ID] = seenAt
+      }
+      localStorage.setItem(TAB_HEARTBEATS_KEY, JSON.stringify(heartbeats))
+    } catch (error) {
+      console.error('Failed to record workflow tab heartbeat:', error)
+    }
+  }
+
+  private readHeartbeats(): Record<string, number> {
+    try {
+      return JSON.parse(localStorage.getItem(TAB_HEARTBEATS_KEY) || '{}')
+    } catch {
+      return {}
+    }
+  }
+
+  /**
+   * Drop finished executions beyond the retention limits. Running and paused
+   * executions are always kept.
+   */
+  private pruneExecutions(): void {
+    const cutoff = Date.now() - this.retention.maxAgeDays * 24 * 60 * 60 * 1000
+    const keptPerWorkflow: Map<string, number> = new Map()
+
+    Array.from(this.executions.values())
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .forEach(execution => {
+        if (execution.status === 'running' || execution.status === 'paused') return
+
+        const kept = keptPerWorkflow.get(execution.workflowId) || 0
+        if (kept >= this.retention.maxExecutionsPerWorkflow || execution.startedAt.getTime() < cutoff) {
+          this.executions.delete(execution.id)
+          this.removedExecutions.add(execution.id)
+        } else {
+          keptPerWorkflow.set(execution.workflowId, kept + 1)
+        }
+      })
+  }
+
+  /**
+   * Stamp executions changed here since they were last loaded or saved, so merging
+   * can tell which tab's copy is newer
+   */
+  private stampChangedExecutions(): void {
+    const now = new Date()
+    this.executions.forEach((execution, id) => {
+      if (this.savedExecutions.get(id) !== serializeExecution(execution)) {
+        execution.updatedAt = now
+      }
+    })
+  }
+
+  /**
+   * Bring in other tabs' changes to executions, keeping whichever copy was updated
+   * last. Existing executions are updated in place, so a run in progress here sees
+   * e.g. a cancel from another tab.
+   */
+  private mergeStoredExecutions(): void {
+    try {
+      const data = Storage.get<any>(STORAGE_KEYS.WORKFLOW_AUTOMATION, null)
+      if (!data?.executions) return
+
+      data.executions.forEach(([id, stored]: [string, any]) => {
+        if (this.removedExecutions.has(id)) return
+
+        const incoming = reviveExecution(stored)
+        const current = this.executions.get(id)
+        if (current && (incoming.updatedAt?.getTime() || 0) <= (current.updatedAt?.getTime() || 0)) return
+
+        if (current) {
+          Object.assign(current, incoming)
+        } else {
+          this.executions.set(id, incoming)
+        }
+        this.savedExecutions.set(id, serializeExecution(incoming))
+      })
+    } catch (error) {
+      console.error('Failed to merge stored workflow executions:', error)
+    }
   }
 
   private persistToStorage(): void {
     if (typeof window === 'undefined') return
 
+    // Other tabs save the same key; only replace executions with older copies of them
+    this.stampChangedExecutions()
+    this.mergeStoredExecutions()
+    this.pruneExecutions()
+
     try {
       const data = {
         __schemaVersion: 1,
         executions: Array.from(this.executions.entries()),
         schedules: Array.from(this.schedules.entries()),
         triggers: Array.from(this.triggers.entries()),
-        templates: Array.from(this.templates.entries())
+        templates: Array.from(this.templates.entries()),
+        templateUsage: Array.from(this.templateUsage.entries()),
+        retention: this.retention,
+        scheduleLog: this.scheduleLog
       }
 
-      localStorage.setItem('app-studio-workflow-automation', JSON.stringify(data))
+      if (Storage.set(STORAGE_KEYS.WORKFLOW_AUTOMATION, data)) {
+        this.savedExecutions = new Map(Array.from(this.executions.entries()).map(([id, execution]) => [id, serializeExecution(execution)]))
+      }
     } catch (error) {
       console.error('Failed to persist workflow automation data:', error)
     }
@@ -497,26 +1856,12 @@ export class WorkflowAutomationEngine {
     if (typeof window === 'undefined') return
 
     try {
-      const stored = localStorage.getItem('app-studio-workflow-automation')
-      if (!stored) return
-
-      const data = JSON.parse(stored)
+      const data = Storage.get<any>(STORAGE_KEYS.WORKFLOW_AUTOMATION, null)
+      if (!data) return
       
       if (data.executions) {
-        this.executions = new Map(data.executions.map(([id, exec]: [string, any]) => [
-          id,
-          {
-            ...exec,
-            startedAt: new Date(exec.startedAt),
-            completedAt: exec.completedAt ? new Date(exec.completedAt) : undefined,
-            pausedAt: exec.pausedAt ? new Date(exec.pausedAt) : undefined,
-            stepResults: exec.stepResults.map((result: any) => ({
-              ...result,
-              startedAt: result.startedAt ? new Date(result.startedAt) : undefined,
-              completedAt: result.completedAt ? new Date(result.completedAt) : undefined
-            }))
-          }
-        ]))
+        this.executions = new Map(data.executions.map(([id, exec]: [string, any]) => [id, reviveExecution(exec)]))
+        this.executions.forEach((execution, id) => this.savedExecutions.set(id, serializeExecution(execution)))
       }
 
       if (data.schedules) {
@@ -532,6 +1877,14 @@ export class WorkflowAutomationEngine {
         ]))
       }
 
+      if (data.scheduleLog) {
+        this.scheduleLog = data.scheduleLog.map((entry: any) => ({
+          ...entry,
+          scheduledFor: new Date(entry.scheduledFor),
+          loggedAt: new Date(entry.loggedAt)
+        }))
+      }
+
       if (data.triggers) {
         this.triggers = new Map(data.triggers.map(([id, trig]: [string, any]) => [
           id,
@@ -543,6 +1896,14 @@ export class WorkflowAutomationEngine {
         ]))
       }
 
+      if (data.retention) {
+        this.retention = { ...DEFAULT_EXECUTION_RETENTION, ...data.retention }
+      }
+
+      if (data.templateUsage) {
+        this.templateUsage = new Map(data.templateUsage)
+      }
+
       if (data.templates) {
         this.templates = new Map(data.templates.map(([id, temp]: [string, any]) => [
           id,
@@ -559,6 +1920,252 @@ export class WorkflowAutomationEngine {
   }
 }
 
+// Turn a stored execution's date strings back into dates
+function reviveExecution(exec: any): WorkflowExecution {
+  return {
+    ...exec,
+    variables: exec.variables || {},
+    startedAt: new Date(exec.startedAt),
+    completedAt: exec.completedAt ? new Date(exec.completedAt) : undefined,
+    pausedAt: exec.pausedAt ? new Date(exec.pausedAt) : undefined,
+    interruptedAt: exec.interruptedAt ? new Date(exec.interruptedAt) : undefined,
+    updatedAt: exec.updatedAt ? new Date(exec.updatedAt) : undefined,
+    stepResults: exec.stepResults.map((result: any) => ({
+      ...result,
+      startedAt: result.startedAt ? new Date(result.startedAt) : undefined,
+      completedAt: result.completedAt ? new Date(result.completedAt) : undefined,
+      attempts: result.attempts?.map(reviveAttempt),
+      iterations: result.iterations?.map((iteration: any) => ({
+        ...iteration,
+        attempts: iteration.attempts?.map(reviveAttempt)
+      }))
+    }))
+  }
+}
+
+function reviveAttempt(attempt: any): WorkflowStepAttempt {
+  return {
+    ...attempt,
+    startedAt: new Date(attempt.startedAt),
+    completedAt: new Date(attempt.completedAt)
+  }
+}
+
+// An execution's content, leaving out when it was last updated, to tell whether it changed
+function serializeExecution(execution: WorkflowExecution): string {
+  return JSON.stringify({ ...execution, updatedAt: undefined })
+}
+
+/**
+ * Find the first run time strictly after `after`. Repeating schedules run at
+ * the time of day of scheduledAt (or when they were created).
+ */
+export function getNextOccurrence(schedule: WorkflowSchedule, after: Date): Date | undefined {
+  const anchor = schedule.scheduledAt || schedule.createdAt
+  const atAnchorTime = (year: number, month: number, day: number) =>
+    new Date(year, month, day, anchor.getHours(), anchor.getMinutes(), 0, 0)
+
+  switch (schedule.type) {
+    case 'once':
+      return schedule.runCount === 0 && schedule.scheduledAt && schedule.scheduledAt > after
+        ? schedule.scheduledAt
+        : undefined
+
+    case 'interval': {
+      if (!schedule.intervalMinutes || schedule.intervalMinutes <= 0) return undefined
+      const interval = schedule.intervalMinutes * 60 * 1000
+      if (after < anchor) return new Date(anchor.getTime())
+      const elapsed = Math.floor((after.getTime() - anchor.getTime()) / interval) + 1
+      return new Date(anchor.getTime() + elapsed * interval)
+    }
+
+    case 'daily': {
+      const candidate = atAnchorTime(after.getFullYear(), after.getMonth(), after.getDate())
+      if (candidate <= after) candidate.setDate(candidate.getDate() + 1)
+      return candidate
+    }
+
+    case 'weekly': {
+      const days = schedule.daysOfWeek?.length ? schedule.daysOfWeek : [anchor.getDay()]
+      for (let offset = 0; offset <= 7; offset++) {
+        const candidate = atAnchorTime(after.getFullYear(), after.getMonth(), after.getDate() + offset)
+        if (candidate > after && days.includes(candidate.getDay())) return candidate
+      }
+      return undefined
+    }
+
+    case 'monthly': {
+      const day = schedule.dayOfMonth || anchor.getDate()
+      for (let offset = 0; offset <= 12; offset++) {
+        const year = after.getFullYear()
+        const month = after.getMonth() + offset
+        // Clamp to the last day for short months (e.g. the 31st in April)
+        const daysInMonth = new Date(year, month + 1, 0).getDate()
+        const candidate = atAnchorTime(year, month, Math.min(day, daysInMonth))
+        if (candidate > after) return candidate
+      }
+      return undefined
+    }
+
+    case 'cron':
+      if (!schedule.cronExpression) return undefined
+      try {
+        return getNextCronRun(schedule.cronExpression, after) || undefined
+      } catch (error) {
+        console.error(`Invalid cron expression for schedule "${schedule.name}":`, error)
+        return undefined
+      }
+  }
+}
+
+/**
+ * Read a dotted path such as "results.0.email" from step output data
+ */
+export function getValueAtPath(data: any, path: string): any {
+  return path.split('.').filter(Boolean).reduce(
+    (value, key) => (value === null || value === undefined ? undefined : value[key]),
+    data
+  )
+}
+
+const TEMPLATE_PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g
+
+/**
+ * Check template variable values against their declared types. Returns the
+ * values coerced to their types, with defaults filled in.
+ */
+export function resolveTemplateVariables(
+  variables: WorkflowVariable[],
+  values: Record<string, any>
+): { success: boolean; errors: string[]; values: Record<string, any> } {
+  const errors: string[] = []
+  const resolved: Record<string, any> = {}
+
+  variables.forEach(variable => {
+    let value = values[variable.name]
+    if (value === undefined || value === null || value === '') {
+      value = variable.defaultValue
+    }
+    if (value === undefined || value === null || value === '') {
+      if (variable.required) errors.push(`"${variable.name}" is required`)
+      return
+    }
+
+    switch (variable.type) {
+      case 'string':
+        resolved[variable.name] = String(value)
+        break
+      case 'number': {
+        const number = typeof value === 'number' ? value : Number(value)
+        if (!Number.isFinite(number)) {
+          errors.push(`"${variable.name}" must be a number`)
+        } else {
+          resolved[variable.name] = number
+        }
+        break
+      }
+      case 'boolean':
+        if (value === true || value === 'true') {
+          resolved[variable.name] = true
+        } else if (value === false || value === 'false') {
+          resolved[variable.name] = false
+        } else {
+          errors.push(`"${variable.name}" must be true or false`)
+        }
+        break
+      case 'date': {
+        const date = value instanceof Date ? value : new Date(value)
+        if (isNaN(date.getTime())) {
+          errors.push(`"${variable.name}" must be a valid date`)
+        } else {
+          resolved[variable.name] = typeof value === 'string' ? value : date.toISOString()
+        }
+        break
+      }
+      case 'file':
+        if (typeof value !== 'object' || typeof value.name !== 'string' || typeof value.content !== 'string') {
+          errors.push(`"${variable.name}" must be a file`)
+        } else {
+          resolved[variable.name] = value
+        }
+        break
+    }
+  })
+
+  return { success: errors.length === 0, errors, values: resolved }
+}
+
+/**
+ * Replace {{variable}} placeholders in strings nested anywhere in value. A string
+ * that is only a placeholder takes the variable's own type; unknown names are left as is.
+ */
+export function substituteTemplateVariables<T>(value: T, variables: Record<string, any>): T {
+  if (typeof value === 'string') {
+    const exact = value.match(/^\{\{\s*([\w.]+)\s*\}\}$/)
+    if (exact) {
+      const resolved = getValueAtPath(variables, exact[1])
+      return (resolved === undefined ? value : resolved) as T
+    }
+    return value.replace(TEMPLATE_PLACEHOLDER, (placeholder, path) => {
+      const resolved = getValueAtPath(variables, path)
+      if (resolved === undefined) return placeholder
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved)
+    }) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => substituteTemplateVariables(item, variables)) as T
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value).reduce((result, key) => {
+      result[key] = substituteTemplateVariables((value as Record<string, any>)[key], variables)
+      return result
+    }, {} as Record<string, any>) as T
+  }
+  return value
+}
+
+/**
+ * List the variable names used by {{placeholders}} in value
+ */
+export function findTemplatePlaceholders(value: any): string[] {
+  const names = new Set<string>()
+  const visit = (item: any) => {
+    if (typeof item === 'string') {
+      item.replace(TEMPLATE_PLACEHOLDER, (placeholder, path) => {
+        names.add(path.split('.')[0])
+        return placeholder
+      })
+    } else if (item && typeof item === 'object') {
+      Object.values(item).forEach(visit)
+    }
+  }
+  visit(value)
+  return Array.from(names)
+}
+
+/**
+ * Compare an event value with a trigger condition: a list of allowed values,
+ * a string with * wildcards, or a plain value
+ */
+function matchesConditionValue(actual: any, expected: any): boolean {
+  if (Array.isArray(expected)) {
+    return expected.some(value => matchesConditionValue(actual, value))
+  }
+  if (typeof expected === 'string' && expected.includes('*')) {
+    const pattern = expected.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')
+    return typeof actual === 'string' && new RegExp(`^${pattern}$`).test(actual)
+  }
+  return actual === expected
+}
+
+function hashString(value: string): string {
+  let hash = 5381
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0
+  }
+  return `${value.length}-${(hash >>> 0).toString(36)}`
+}
+
 // Global automation engine instance
 export const workflowAutomationEngine = new WorkflowAutomationEngine()
 
@@ -571,8 +2178,23 @@ export const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
     category: 'productivity',
     steps: [
       { toolId: 'text-cleaner', order: 0, description: 'Clean up notes from yesterday', autoAdvance: true, waitTime: 2 },
-      { toolId: 'markdown-formatter', order: 1, description: 'Format daily agenda', autoAdvance: true, waitTime: 3 },
-      { toolId: 'email-validator', order: 2, description: 'Validate contact lists', autoAdvance: false }
+      {
+        toolId: 'markdown-formatter',
+        order: 1,
+        description: 'Format the agenda for {{startTime}}',
+        autoAdvance: true,
+        waitTime: 3,
+        inputMappings: [{ target: 'text', source: 'step', stepIndex: 0, path: 'text' }]
+      },
+      {
+        toolId: '',
+        order: 2,
+        type: 'condition',
+        description: 'Skip email validation unless it is included',
+        condition: { left: { source: 'static', value: '{{includeEmail}}' }, operator: 'is_true' },
+        elseStepIndex: 4
+      },
+      { toolId: 'email-validator', order: 3, description: 'Validate contact lists', autoAdvance: false }
     ],
     variables: [
       { name: 'startTime', type: 'date', required: true, description: 'When to start the workflow' },
@@ -590,7 +2212,14 @@ export const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
     category: 'design',
     steps: [
       { toolId: 'color-picker', order: 0, description: 'Select color palette', autoAdvance: false },
-      { toolId: 'image-resizer', order: 1, description: 'Resize images for different formats', autoAdvance: true, waitTime: 1 }
+      {
+        toolId: 'image-resizer',
+        order: 1,
+        description: 'Resize images for {{targetFormats}} at {{quality}}% quality',
+        autoAdvance: true,
+        waitTime: 1,
+        config: { formats: '{{targetFormats}}', quality: '{{quality}}' }
+      }
     ],
     variables: [
       { name: 'targetFormats', type: 'string', defaultValue: 'web,print', required: true, description: 'Target output formats' },